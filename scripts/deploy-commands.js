@@ -35,7 +35,7 @@ function makeSlashCommandBuilder(command) {
     if (!builder.name) builder.setName(command.name);
     if (!builder.description && command.description) builder.setDescription(command.description);
 
-    return builder.setDMPermission(false);
+    return builder.dm_permission === true ? builder : builder.setDMPermission(false);
 }
 
 function makeContextMenuCommandBuilder(command) {
@@ -0,0 +1,47 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Awaitable, Snowflake } from "discord.js";
+import Client from "../core/Client";
+
+export type ConversationMessage = {
+    messageId: Snowflake;
+    conversationId: Snowflake;
+    parentId: Snowflake | null;
+    guildId: Snowflake;
+    userId: Snowflake;
+    role: "user" | "assistant";
+    content: string;
+    createdAt: number;
+};
+
+export default abstract class AbstractConversationStore {
+    constructor(protected readonly client: Client) {}
+
+    abstract add(message: ConversationMessage): Awaitable<void>;
+    abstract get(messageId: Snowflake): Awaitable<ConversationMessage | null>;
+
+    /**
+     * Returns the last messages of the given conversation, from the oldest to the newest.
+     */
+    abstract getConversation(
+        conversationId: Snowflake,
+        limit: number
+    ): Awaitable<ConversationMessage[]>;
+}
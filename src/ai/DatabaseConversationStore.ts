@@ -0,0 +1,71 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { AIConversationMessage, AIMessageRole } from "@prisma/client";
+import { Snowflake } from "discord.js";
+import AbstractConversationStore, { ConversationMessage } from "./AbstractConversationStore";
+
+export default class DatabaseConversationStore extends AbstractConversationStore {
+    protected toConversationMessage(message: AIConversationMessage): ConversationMessage {
+        return {
+            messageId: message.messageId,
+            conversationId: message.conversationId,
+            parentId: message.parentId,
+            guildId: message.guildId,
+            userId: message.userId,
+            role: message.role === AIMessageRole.ASSISTANT ? "assistant" : "user",
+            content: message.content,
+            createdAt: message.createdAt.getTime()
+        };
+    }
+
+    async add(message: ConversationMessage) {
+        await this.client.prisma.aIConversationMessage.create({
+            data: {
+                ...message,
+                role: message.role === "assistant" ? AIMessageRole.ASSISTANT : AIMessageRole.USER,
+                createdAt: new Date(message.createdAt)
+            }
+        });
+    }
+
+    async get(messageId: Snowflake) {
+        const message = await this.client.prisma.aIConversationMessage.findFirst({
+            where: {
+                messageId
+            }
+        });
+
+        return message ? this.toConversationMessage(message) : null;
+    }
+
+    async getConversation(conversationId: Snowflake, limit: number) {
+        const messages = await this.client.prisma.aIConversationMessage.findMany({
+            where: {
+                conversationId
+            },
+            orderBy: {
+                createdAt: "desc"
+            },
+            take: limit
+        });
+
+        return messages.reverse().map(message => this.toConversationMessage(message));
+    }
+}
@@ -0,0 +1,75 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Snowflake } from "discord.js";
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import { logError } from "../utils/Logger";
+import { sudoPrefix } from "../utils/utils";
+import AbstractConversationStore, { ConversationMessage } from "./AbstractConversationStore";
+
+export default class JSONConversationStore extends AbstractConversationStore {
+    protected messages: ConversationMessage[] | null = null;
+    protected writeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    protected get filePath() {
+        return `${sudoPrefix("storage", true)}/ai_conversations.json`;
+    }
+
+    protected async load() {
+        if (this.messages) {
+            return this.messages;
+        }
+
+        try {
+            this.messages = existsSync(this.filePath)
+                ? JSON.parse(await fs.readFile(this.filePath, { encoding: "utf-8" }))
+                : [];
+        } catch (error) {
+            logError(error);
+            this.messages = [];
+        }
+
+        return this.messages!;
+    }
+
+    protected scheduleWrite() {
+        this.writeTimeout ??= setTimeout(() => {
+            this.writeTimeout = null;
+            fs.writeFile(this.filePath, JSON.stringify(this.messages ?? [])).catch(logError);
+        }, 5000);
+    }
+
+    async add(message: ConversationMessage) {
+        const messages = await this.load();
+        messages.push(message);
+        this.scheduleWrite();
+    }
+
+    async get(messageId: Snowflake) {
+        const messages = await this.load();
+        return messages.find(message => message.messageId === messageId) ?? null;
+    }
+
+    async getConversation(conversationId: Snowflake, limit: number) {
+        const messages = await this.load();
+
+        return messages.filter(message => message.conversationId === conversationId).slice(-limit);
+    }
+}
@@ -0,0 +1,59 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Snowflake } from "discord.js";
+import AbstractConversationStore, { ConversationMessage } from "./AbstractConversationStore";
+
+export default class MemoryConversationStore extends AbstractConversationStore {
+    protected readonly messages = new Map<Snowflake, ConversationMessage>();
+
+    protected get maxSize() {
+        return this.client.configManager.systemConfig.ai.memory_store_size;
+    }
+
+    add(message: ConversationMessage) {
+        this.messages.delete(message.messageId);
+        this.messages.set(message.messageId, message);
+
+        while (this.messages.size > this.maxSize) {
+            this.messages.delete(this.messages.keys().next().value);
+        }
+    }
+
+    get(messageId: Snowflake) {
+        const message = this.messages.get(messageId);
+
+        if (!message) {
+            return null;
+        }
+
+        // Mark the message as recently used
+        this.messages.delete(messageId);
+        this.messages.set(messageId, message);
+
+        return message;
+    }
+
+    getConversation(conversationId: Snowflake, limit: number) {
+        return [...this.messages.values()]
+            .filter(message => message.conversationId === conversationId)
+            .sort((a, b) => a.createdAt - b.createdAt)
+            .slice(-limit);
+    }
+}
@@ -0,0 +1,54 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Snowflake } from "discord.js";
+import Client from "../../core/Client";
+import { ModerationScores } from "../../utils/ai";
+
+export type AIChatMessage = {
+    role: "user" | "assistant";
+    content: string;
+};
+
+export type CompletionOptions = {
+    messages: AIChatMessage[];
+    systemPrompt?: string;
+    userId?: Snowflake;
+};
+
+export type CompletionResult =
+    | {
+          error: string;
+          content?: undefined;
+      }
+    | {
+          error?: undefined;
+          content: string;
+      };
+
+export default abstract class AbstractAIProvider {
+    constructor(protected readonly client: Client) {}
+
+    /**
+     * Whether the credentials or the endpoint this provider needs are configured.
+     */
+    abstract isConfigured(): boolean;
+    complete?(options: CompletionOptions): Promise<CompletionResult>;
+    moderate?(text: string): Promise<ModerationScores>;
+}
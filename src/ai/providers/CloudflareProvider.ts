@@ -0,0 +1,55 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import axios from "axios";
+import AbstractAIProvider, { CompletionOptions, CompletionResult } from "./AbstractAIProvider";
+
+export default class CloudflareProvider extends AbstractAIProvider {
+    isConfigured() {
+        return !!process.env.CF_AI_URL;
+    }
+
+    async complete({ messages, systemPrompt }: CompletionOptions): Promise<CompletionResult> {
+        if (!process.env.CF_AI_URL) {
+            return { error: "The Cloudflare AI URL is not configured." };
+        }
+
+        const { data } = await axios.post(
+            process.env.CF_AI_URL,
+            {
+                messages: [
+                    {
+                        role: "system",
+                        content:
+                            systemPrompt ??
+                            "You are a Discord Moderation bot. Your name is SudoBot. You were built at OSN, by open source developers."
+                    },
+                    ...messages
+                ]
+            },
+            {
+                headers: {
+                    "Content-Type": "application/json"
+                }
+            }
+        );
+
+        return { content: data.response };
+    }
+}
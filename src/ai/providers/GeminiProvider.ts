@@ -0,0 +1,155 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { logError } from "../../utils/Logger";
+import AbstractAIProvider, { CompletionOptions, CompletionResult } from "./AbstractAIProvider";
+
+type GoogleGenerativeModel = {
+    startChat: (data: {
+        history: Array<{
+            role: "user" | "model" | "function";
+            parts: Array<{ text: string }>;
+        }>;
+    }) => {
+        sendMessage: (prompt: string) => Promise<{
+            response: {
+                text: () => string;
+                promptFeedback?: {
+                    blockReason: string;
+                    blockReasonMessage?: string;
+                };
+            };
+        }>;
+    };
+};
+
+export default class GeminiProvider extends AbstractAIProvider {
+    protected googleAi: GoogleGenerativeModel | null = null;
+
+    isConfigured() {
+        return !!process.env.GEMINI_API_KEY;
+    }
+
+    async complete({ messages, systemPrompt }: CompletionOptions): Promise<CompletionResult> {
+        if (!process.env.GEMINI_API_KEY) {
+            return { error: "The Gemini API key is not configured." };
+        }
+
+        try {
+            require.resolve("@google/generative-ai");
+        } catch (error) {
+            logError("@google/generative-ai package is not installed.");
+
+            return {
+                error: "Google Generative AI package is not installed. Run `npm install @google/generative-ai` to install it."
+            };
+        }
+
+        if (!this.googleAi) {
+            const {
+                GoogleGenerativeAI,
+                HarmCategory,
+                HarmBlockThreshold
+            } = require("@google/generative-ai");
+            const generativeAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+            this.googleAi = generativeAI.getGenerativeModel({
+                model: process.env.GEMINI_API_MODEL_CODE ?? "gemini-pro",
+                safetySettings: Object.keys(HarmCategory).map(k => ({
+                    category: HarmCategory[k as keyof typeof HarmCategory],
+                    threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE
+                }))
+            });
+        }
+
+        const history: Array<{ role: "user" | "model"; parts: Array<{ text: string }> }> = [
+            {
+                role: "user",
+                parts: [{ text: systemPrompt ?? "Who are you?" }]
+            },
+            {
+                role: "model",
+                parts: [
+                    {
+                        text: systemPrompt
+                            ? "Understood."
+                            : "I'm SudoBot, a Discord Moderation Bot."
+                    }
+                ]
+            }
+        ];
+
+        let last = messages.length - 1;
+
+        // Gemini requires the roles to alternate, so the trailing user messages become one prompt
+        while (last > 0 && messages[last - 1].role === "user") {
+            last--;
+        }
+
+        for (const message of messages.slice(0, last)) {
+            const role = message.role === "assistant" ? "model" : "user";
+            const previous = history.at(-1)!;
+
+            if (previous.role === role) {
+                previous.parts.push({ text: message.content });
+                continue;
+            }
+
+            history.push({ role, parts: [{ text: message.content }] });
+        }
+
+        const prompt = messages
+            .slice(last)
+            .map(message => message.content)
+            .join("\n\n");
+
+        const chat = this.googleAi!.startChat({ history });
+
+        try {
+            const { response } = await chat.sendMessage(prompt);
+
+            if (response.promptFeedback?.blockReason) {
+                return {
+                    error:
+                        response.promptFeedback?.blockReasonMessage ??
+                        `This request was cancelled ${
+                            {
+                                BLOCKED_REASON_UNSPECIFIED: "for an unspecified reason",
+                                SAFETY: "by the safety filter"
+                            }[response.promptFeedback?.blockReason] ?? "for unknown reasons"
+                        }.`
+                };
+            }
+
+            return { content: response.text() };
+        } catch (error) {
+            if (
+                error &&
+                typeof error === "object" &&
+                "message" in error &&
+                typeof error.message === "string" &&
+                error.message.includes("overloaded")
+            ) {
+                logError(error);
+                return { error: "The AI model is currently overloaded. Please try again later." };
+            }
+
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,76 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import axios from "axios";
+import AbstractAIProvider, { CompletionOptions, CompletionResult } from "./AbstractAIProvider";
+
+/**
+ * Talks to any endpoint implementing the OpenAI chat completions API, such as self-hosted models.
+ */
+export default class OpenAICompatibleProvider extends AbstractAIProvider {
+    protected get config() {
+        return this.client.configManager.systemConfig.ai.openai_compatible;
+    }
+
+    isConfigured() {
+        return !!this.config;
+    }
+
+    async complete({
+        messages,
+        systemPrompt,
+        userId
+    }: CompletionOptions): Promise<CompletionResult> {
+        if (!this.config) {
+            return { error: "The OpenAI compatible endpoint is not configured." };
+        }
+
+        const { data } = await axios.post(
+            `${this.config.url.replace(/\/+$/, "")}/chat/completions`,
+            {
+                model: this.config.model,
+                messages: [
+                    {
+                        role: "system",
+                        content: systemPrompt ?? "You're SudoBot, a Discord Moderation Bot."
+                    },
+                    ...messages
+                ],
+                user: userId
+            },
+            {
+                timeout: this.config.timeout,
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(process.env.OPENAI_COMPATIBLE_API_KEY
+                        ? { Authorization: `Bearer ${process.env.OPENAI_COMPATIBLE_API_KEY}` }
+                        : {})
+                }
+            }
+        );
+
+        const content = data?.choices?.[0]?.message?.content;
+
+        if (!content) {
+            return { error: "No response was received from the AI model." };
+        }
+
+        return { content };
+    }
+}
@@ -0,0 +1,161 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import axios from "axios";
+import { ModerationScores } from "../../utils/ai";
+import { logError } from "../../utils/Logger";
+import AbstractAIProvider, { CompletionOptions, CompletionResult } from "./AbstractAIProvider";
+
+type OpenAIModerationResponse = {
+    results: Array<{
+        flagged: boolean;
+        category_scores: Record<string, number>;
+    }>;
+};
+
+type OpenAI = {
+    chat: {
+        completions: {
+            create: (data: {
+                messages: Array<{
+                    role: "system" | "user" | "assistant";
+                    content: string;
+                }>;
+                model: string;
+                user?: string;
+            }) => Promise<{
+                id: string;
+                object: string;
+                model: string;
+                choices: Array<{
+                    message: {
+                        role: "system" | "user" | "assistant";
+                        content: string;
+                    };
+                    index: number;
+                    finish_reason: string;
+                }>;
+                created: number;
+            }>;
+        };
+    };
+};
+
+export default class OpenAIProvider extends AbstractAIProvider {
+    protected openai: OpenAI | null = null;
+
+    isConfigured() {
+        return !!process.env.OPENAI_API_KEY;
+    }
+
+    async complete({
+        messages,
+        systemPrompt,
+        userId
+    }: CompletionOptions): Promise<CompletionResult> {
+        const apiKey = process.env.OPENAI_API_KEY;
+
+        if (!apiKey) {
+            return { error: "The OpenAI API key is not configured." };
+        }
+
+        try {
+            require.resolve("openai");
+        } catch (error) {
+            logError("OpenAI package is not installed.");
+            return {
+                error: "OpenAI package is not installed. Run `npm install openai` to install it."
+            };
+        }
+
+        if (!this.openai) {
+            this.openai = new (require("openai").OpenAI)({
+                apiKey
+            });
+        }
+
+        if (process.env.OPENAI_MODERATION !== "none") {
+            try {
+                const { results } = await this.requestModeration(messages.at(-1)!.content);
+
+                if (results.find(result => result.flagged)) {
+                    return {
+                        error: "Sorry, your prompt was flagged by the OpenAI moderation system."
+                    };
+                }
+            } catch (error) {
+                logError(error);
+                return { error: "An error occurred while trying to moderate the input." };
+            }
+        }
+
+        const completion = await this.openai!.chat.completions.create({
+            messages: [
+                {
+                    role: "system",
+                    content: systemPrompt ?? "You're SudoBot, a Discord Moderation Bot."
+                },
+                ...messages
+            ],
+            model: process.env.OPENAI_MODEL_ID ?? "gpt-3.5-turbo",
+            user: userId
+        });
+
+        if (!completion.choices[0]?.message.content) {
+            return { error: "No response was received from the AI model." };
+        }
+
+        return { content: completion.choices[0].message.content };
+    }
+
+    async moderate(text: string): Promise<ModerationScores> {
+        const { results } = await this.requestModeration(text);
+        const scores = results[0]?.category_scores ?? {};
+        const score = (...categories: string[]) =>
+            Math.max(0, ...categories.map(category => scores[category] ?? 0)) * 100;
+
+        return {
+            toxicity: score(...Object.keys(scores)),
+            severe_toxicity: score("hate/threatening", "harassment/threatening", "sexual/minors"),
+            threat: score("violence", "harassment/threatening", "hate/threatening"),
+            identity_attack: score("hate"),
+            insult: score("harassment"),
+            profanity: 0,
+            sexually_explicit: score("sexual"),
+            flirtation: 0
+        };
+    }
+
+    protected async requestModeration(input: string) {
+        const { data } = await axios.post<OpenAIModerationResponse>(
+            "https://api.openai.com/v1/moderations",
+            {
+                input
+            },
+            {
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: `Bearer ${process.env.OPENAI_API_KEY}`
+                }
+            }
+        );
+
+        return data;
+    }
+}
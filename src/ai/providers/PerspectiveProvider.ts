@@ -0,0 +1,105 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { google } from "googleapis";
+import { ModerationScores, moderationAttributes } from "../../utils/ai";
+import AbstractAIProvider from "./AbstractAIProvider";
+
+const discoveryURL = "https://commentanalyzer.googleapis.com/$discovery/rest?version=v1alpha1";
+
+type GoogleClient = {
+    comments: {
+        analyze: (
+            params: unknown,
+            callback: (error: Error | null, response: unknown) => void
+        ) => void;
+    };
+};
+
+type GoogleResponse = {
+    data: {
+        attributeScores: Partial<
+            Record<
+                Uppercase<(typeof moderationAttributes)[number]>,
+                {
+                    summaryScore: {
+                        value: number;
+                    };
+                }
+            >
+        >;
+    };
+};
+
+/**
+ * Moderation scores from Google's Perspective API.
+ */
+export default class PerspectiveProvider extends AbstractAIProvider {
+    protected googleClient: Promise<GoogleClient> | null = null;
+
+    isConfigured() {
+        return !!process.env.PERSPECTIVE_API_TOKEN;
+    }
+
+    protected analyze(client: GoogleClient, params: unknown) {
+        return new Promise<GoogleResponse>((resolve, reject) => {
+            client.comments.analyze(params, (error: Error | null, response: unknown) => {
+                if (error) {
+                    reject(error);
+                    return;
+                }
+
+                resolve(response as GoogleResponse);
+            });
+        });
+    }
+
+    async moderate(text: string) {
+        this.googleClient ??= (google.discoverAPI(discoveryURL) as Promise<GoogleClient>).catch(
+            error => {
+                this.googleClient = null;
+                throw error;
+            }
+        );
+
+        const response = await this.analyze(await this.googleClient, {
+            key: process.env.PERSPECTIVE_API_TOKEN,
+            resource: {
+                requestedAttributes: Object.fromEntries(
+                    moderationAttributes.map(attribute => [attribute.toUpperCase(), {}])
+                ),
+                comment: {
+                    text
+                },
+                languages: ["en"]
+            }
+        });
+
+        const scores = {} as ModerationScores;
+
+        for (const attribute of moderationAttributes) {
+            scores[attribute] =
+                (response.data.attributeScores[
+                    attribute.toUpperCase() as Uppercase<typeof attribute>
+                ]?.summaryScore.value ?? 0) * 100;
+        }
+
+        return scores;
+    }
+}
@@ -18,12 +18,14 @@
  */
 
 import { User } from "@prisma/client";
+import { GuildMember } from "discord.js";
 import { Request as ExpressRequest } from "express";
 
 interface Request extends ExpressRequest {
     parsedBody?: Record<string, string>;
     user?: User;
     userId?: number;
+    member?: GuildMember;
 }
 
 export default Request;
@@ -17,7 +17,7 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import cors from "cors";
+import cors, { CorsOptions } from "cors";
 import express, {
     Application,
     Request as ExpressRequest,
@@ -46,6 +46,7 @@ export default class Server {
         standardHeaders: true,
         legacyHeaders: false
     });
+    public readonly corsOptions: CorsOptions = {};
     public readonly port = process.env.PORT ?? 4000;
     public expressServer?: HttpServer;
 
@@ -60,7 +61,7 @@ export default class Server {
 
     async boot() {
         this.expressApp.use(this.onError);
-        this.expressApp.use(cors());
+        this.expressApp.use(cors(this.corsOptions));
 
         if (this.client.configManager.systemConfig.trust_proxies !== undefined) {
             this.client.logger.info(
@@ -210,5 +211,6 @@ export default class Server {
         this.expressServer = this.expressApp.listen(this.port, () =>
             this.client.logger.info(`API server is listening at port ${this.port}`)
         );
+        this.client.eventStream.attach(this.expressServer, this.corsOptions);
     }
 }
@@ -0,0 +1,51 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { z } from "zod";
+import { Action } from "../../decorators/Action";
+import { EnableGuildAccessControl } from "../../decorators/EnableGuildAccessControl";
+import { RequireAuth } from "../../decorators/RequireAuth";
+import Controller from "../Controller";
+import Request from "../Request";
+import Response from "../Response";
+
+const statsQuerySchema = z.object({
+    days: z.coerce.number().int().min(1).max(365).default(30)
+});
+
+export default class AutoModController extends Controller {
+    @Action("GET", "/guild/:guild/automod/stats")
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    public async stats(request: Request) {
+        const parsed = statsQuerySchema.safeParse(request.query);
+
+        if (!parsed.success) {
+            return new Response({
+                status: 422,
+                body: { error: "Invalid number of days" }
+            });
+        }
+
+        return await this.client.autoModStatsService.getStats(
+            request.params.guild,
+            parsed.data.days
+        );
+    }
+}
@@ -0,0 +1,356 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { Infraction, InfractionType } from "@prisma/client";
+import { z } from "zod";
+import { Action } from "../../decorators/Action";
+import { EnableGuildAccessControl } from "../../decorators/EnableGuildAccessControl";
+import { RequireAuth } from "../../decorators/RequireAuth";
+import { Validate } from "../../decorators/Validate";
+import { zSnowflake } from "../../types/SnowflakeSchema";
+import { safeMemberFetch, safeUserFetch } from "../../utils/fetch";
+import {
+    buildInfractionSearchQuery,
+    parseInfractionSearchFilters
+} from "../../utils/infractionSearch";
+import { infractionImportMappers, serializeInfractions } from "../../utils/infractionTransfer";
+import Controller from "../Controller";
+import Request from "../Request";
+import Response from "../Response";
+import GuildPermissionControl from "../middleware/GuildPermissionControl";
+
+const exportQuerySchema = z.object({
+    user: zSnowflake.optional(),
+    format: z.enum(["json", "csv"]).default("json")
+});
+
+const paginationQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(1000).default(50),
+    format: z.enum(["json", "csv"]).default("json")
+});
+
+const infractionPermissions = GuildPermissionControl(["ModerateMembers", "ViewAuditLog"], "or");
+const infractionTransferPermissions = GuildPermissionControl(["ManageGuild"]);
+
+export default class InfractionController extends Controller {
+    @Action("GET", "/guild/:guild/infractions/export", [infractionTransferPermissions])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    public async export(request: Request) {
+        const parsed = exportQuerySchema.safeParse(request.query);
+
+        if (!parsed.success) {
+            return new Response({
+                status: 422,
+                body: { error: "Invalid user ID or format" }
+            });
+        }
+
+        const { user, format } = parsed.data;
+        const { content } = await this.client.infractionManager.exportInfractions(
+            request.params.guild,
+            format,
+            user
+        );
+
+        return new Response({
+            status: 200,
+            body: content,
+            headers: {
+                "Content-Type": format === "json" ? "application/json" : "text/csv",
+                "Content-Disposition": `attachment; filename="infractions-${user ?? request.params.guild}.${format}"`
+            }
+        });
+    }
+
+    @Action("GET", "/guild/:guild/infractions/search", [infractionPermissions])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    public async search(request: Request) {
+        const { page, limit, format, ...query } = request.query;
+        const pagination = paginationQuerySchema.safeParse({ page, limit, format });
+        const result = parseInfractionSearchFilters(query);
+
+        if (!pagination.success || result.error !== undefined) {
+            return new Response({
+                status: 422,
+                body: { error: result.error ?? "Invalid page, limit or format" }
+            });
+        }
+
+        const { where, orderBy } = buildInfractionSearchQuery(request.params.guild, result.filters);
+
+        if (pagination.data.format === "csv") {
+            const infractions = await this.client.prisma.infraction.findMany({
+                where,
+                orderBy,
+                skip: (pagination.data.page - 1) * pagination.data.limit,
+                take: pagination.data.limit
+            });
+
+            return new Response({
+                status: 200,
+                body: serializeInfractions(infractions, "csv"),
+                headers: {
+                    "Content-Type": "text/csv",
+                    "Content-Disposition": 'attachment; filename="infractions.csv"'
+                }
+            });
+        }
+
+        const [total, infractions] = await Promise.all([
+            this.client.prisma.infraction.count({ where }),
+            this.client.prisma.infraction.findMany({
+                where,
+                orderBy,
+                skip: (pagination.data.page - 1) * pagination.data.limit,
+                take: pagination.data.limit
+            })
+        ]);
+
+        return {
+            total,
+            page: pagination.data.page,
+            limit: pagination.data.limit,
+            infractions
+        };
+    }
+
+    @Action("POST", "/guild/:guild/infractions/import", [infractionTransferPermissions])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    @Validate(
+        z.object({
+            format: z
+                .string()
+                .refine(format => infractionImportMappers.some(mapper => mapper.name === format))
+                .optional(),
+            content: z.string().min(1)
+        })
+    )
+    public async import(request: Request) {
+        const { format, content } = request.parsedBody ?? {};
+
+        return await this.client.infractionManager.importInfractions(
+            request.params.guild,
+            content,
+            format
+        );
+    }
+
+    @Action("GET", "/guild/:guild/infractions", [infractionPermissions])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    public async index(request: Request) {
+        return await this.search(request);
+    }
+
+    @Action("GET", "/guild/:guild/infractions/:id(\\d+)", [infractionPermissions])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    public async show(request: Request) {
+        const infraction = await this.fetchInfraction(request);
+
+        if (!infraction) {
+            return new Response({ status: 404, body: { error: "No such infraction found" } });
+        }
+
+        const revisions = await this.client.infractionManager.getInfractionRevisions(
+            infraction.id,
+            infraction.guildId
+        );
+
+        return { infraction, revisions };
+    }
+
+    @Action("POST", "/guild/:guild/infractions", [infractionPermissions])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    @Validate(
+        z.object({
+            // Types that come with an action must be created through the moderation routes
+            type: z.enum([InfractionType.WARNING, InfractionType.NOTE]),
+            user: zSnowflake,
+            reason: z.string().min(1).max(4000).optional()
+        })
+    )
+    public async store(request: Request) {
+        const { type, user: userId, reason } = request.parsedBody ?? {};
+        const moderator = request.member!;
+        const user = await safeUserFetch(this.client, userId);
+
+        if (!user) {
+            return new Response({ status: 404, body: { error: "No such user found" } });
+        }
+
+        const member = await safeMemberFetch(moderator.guild, user.id);
+
+        if (member && !(await this.client.permissionManager.shouldModerate(member, moderator))) {
+            return new Response({
+                status: 403,
+                body: { error: "You don't have permission to create infractions for this user!" }
+            });
+        }
+
+        const infraction = await this.client.prisma.infraction.create({
+            data: {
+                userId: user.id,
+                guildId: moderator.guild.id,
+                moderatorId: moderator.id,
+                type: type as InfractionType,
+                reason: this.client.infractionManager.processInfractionReason(
+                    moderator.guild.id,
+                    reason
+                )
+            }
+        });
+
+        this.client.infractionManager.dispatchInfractionCreate(infraction);
+
+        await this.client.loggerService.logInfractionCreate(infraction, user, moderator.user);
+
+        return new Response({ status: 201, body: { infraction } });
+    }
+
+    @Action("PATCH", "/guild/:guild/infractions/:id(\\d+)", [infractionPermissions])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    @Validate(
+        z.object({
+            reason: z.string().min(1).max(4000).optional(),
+            duration: z.number().int().min(1).optional()
+        })
+    )
+    public async update(request: Request) {
+        const { reason, duration } = request.parsedBody ?? {};
+
+        if (reason === undefined && duration === undefined) {
+            return new Response({ status: 422, body: { error: "Nothing to update!" } });
+        }
+
+        const infraction = await this.fetchInfraction(request);
+
+        if (!infraction) {
+            return new Response({ status: 404, body: { error: "No such infraction found" } });
+        }
+
+        const durationError = duration
+            ? this.client.infractionManager.getInfractionDurationError(
+                  infraction,
+                  duration as unknown as number
+              )
+            : null;
+
+        if (durationError) {
+            return new Response({ status: 400, body: { error: durationError } });
+        }
+
+        const { infraction: updatedInfraction, changes } =
+            await this.client.infractionManager.editInfraction(
+                infraction,
+                {
+                    reason,
+                    duration: duration as unknown as number | undefined
+                },
+                request.member!.user
+            );
+
+        return { infraction: updatedInfraction, changes };
+    }
+
+    @Action("DELETE", "/guild/:guild/infractions/:id(\\d+)", [infractionPermissions])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    public async delete(request: Request) {
+        const infraction = await this.fetchInfraction(request);
+
+        if (!infraction) {
+            return new Response({ status: 404, body: { error: "No such infraction found" } });
+        }
+
+        const { infraction: deletedInfraction } =
+            await this.client.infractionManager.deleteInfraction(infraction, request.member!.user);
+
+        return { infraction: deletedInfraction };
+    }
+
+    @Action("GET", "/guild/:guild/members/:id/notes", [infractionPermissions])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    public async notes(request: Request) {
+        return await this.client.prisma.infraction.findMany({
+            where: {
+                guildId: request.params.guild,
+                userId: request.params.id,
+                type: InfractionType.NOTE,
+                deletedAt: null
+            },
+            orderBy: { createdAt: "desc" }
+        });
+    }
+
+    @Action("POST", "/guild/:guild/members/:id/notes", [infractionPermissions])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    @Validate(
+        z.object({
+            content: z.string().min(1).max(4000)
+        })
+    )
+    public async storeNote(request: Request) {
+        const { content } = request.parsedBody ?? {};
+        const moderator = request.member!;
+        const user = await safeUserFetch(this.client, request.params.id);
+
+        if (!user) {
+            return new Response({ status: 404, body: { error: "No such user found" } });
+        }
+
+        const member = await safeMemberFetch(moderator.guild, user.id);
+
+        if (member && !(await this.client.permissionManager.shouldModerate(member, moderator))) {
+            return new Response({
+                status: 403,
+                body: { error: "You don't have permission to create notes for this user!" }
+            });
+        }
+
+        const note = await this.client.prisma.infraction.create({
+            data: {
+                guildId: request.params.guild,
+                moderatorId: moderator.id,
+                userId: user.id,
+                type: InfractionType.NOTE,
+                reason: content
+            }
+        });
+
+        this.client.infractionManager.dispatchInfractionCreate(note);
+
+        return new Response({ status: 201, body: { note } });
+    }
+
+    private async fetchInfraction(request: Request): Promise<Infraction | null> {
+        return await this.client.infractionManager.getInfractionByCaseNumber(
+            request.params.guild,
+            parseInt(request.params.id),
+            false
+        );
+    }
+}
@@ -0,0 +1,246 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { GuildMember, User } from "discord.js";
+import { z } from "zod";
+import { Action } from "../../decorators/Action";
+import { EnableGuildAccessControl } from "../../decorators/EnableGuildAccessControl";
+import { RequireAuth } from "../../decorators/RequireAuth";
+import { Validate } from "../../decorators/Validate";
+import { safeMemberFetch, safeUserFetch } from "../../utils/fetch";
+import Controller from "../Controller";
+import Request from "../Request";
+import Response from "../Response";
+import GuildPermissionControl from "../middleware/GuildPermissionControl";
+
+const reasonSchema = z.string().min(1).max(4000).optional();
+const notifySchema = z.boolean().default(true);
+
+export default class ModerationController extends Controller {
+    @Action("POST", "/guild/:guild/members/:id/warn", [GuildPermissionControl(["ManageMessages"])])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    @Validate(z.object({ reason: reasonSchema, notify: notifySchema }))
+    public async warn(request: Request) {
+        const { reason, notify } = request.parsedBody ?? {};
+        const member = await this.fetchModerableMember(request);
+
+        if (member instanceof Response) {
+            return member;
+        }
+
+        const { infraction, result } = await this.client.infractionManager.createMemberWarn(
+            member,
+            {
+                guild: member.guild,
+                moderator: request.member!.user,
+                reason,
+                notifyUser: notify as unknown as boolean,
+                sendLog: true,
+                abortOnTemplateNotFound: false
+            }
+        );
+
+        return new Response({ status: 201, body: { infraction, notified: !!result } });
+    }
+
+    @Action("POST", "/guild/:guild/members/:id/mute", [GuildPermissionControl(["ModerateMembers"])])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    @Validate(
+        z.object({
+            reason: reasonSchema,
+            notify: notifySchema,
+            duration: z.number().int().min(1).optional()
+        })
+    )
+    public async mute(request: Request) {
+        const { reason, notify, duration } = request.parsedBody ?? {};
+        const member = await this.fetchModerableMember(request);
+
+        if (member instanceof Response) {
+            return member;
+        }
+
+        const result = await this.client.infractionManager.createMemberMute(member, {
+            guild: member.guild,
+            moderator: request.member!.user,
+            reason,
+            notifyUser: notify as unknown as boolean,
+            sendLog: true,
+            duration: duration ? (duration as unknown as number) * 1000 : undefined,
+            autoRemoveQueue: true,
+            abortOnTemplateNotFound: false
+        });
+
+        if (result.error !== undefined) {
+            return new Response({ status: 400, body: { error: result.error } });
+        }
+
+        return new Response({ status: 201, body: { infraction: result.infraction } });
+    }
+
+    @Action("POST", "/guild/:guild/members/:id/kick", [GuildPermissionControl(["KickMembers"])])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    @Validate(z.object({ reason: reasonSchema, notify: notifySchema }))
+    public async kick(request: Request) {
+        const { reason, notify } = request.parsedBody ?? {};
+        const member = await this.fetchModerableMember(request);
+
+        if (member instanceof Response) {
+            return member;
+        }
+
+        const infraction = await this.client.infractionManager.createMemberKick(member, {
+            guild: member.guild,
+            moderator: request.member!.user,
+            reason,
+            notifyUser: notify as unknown as boolean,
+            abortOnTemplateNotFound: false
+        });
+
+        if (!infraction) {
+            return new Response({
+                status: 400,
+                body: { error: "Failed to kick this user, make sure I have enough permissions!" }
+            });
+        }
+
+        return new Response({ status: 201, body: { infraction } });
+    }
+
+    @Action("POST", "/guild/:guild/users/:id/ban", [GuildPermissionControl(["BanMembers"])])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    @Validate(
+        z.object({
+            reason: reasonSchema,
+            notify: notifySchema,
+            duration: z.number().int().min(1).optional(),
+            delete_message_seconds: z.number().int().min(0).max(604800).default(0)
+        })
+    )
+    public async ban(request: Request) {
+        const {
+            reason,
+            notify,
+            duration,
+            delete_message_seconds: deleteMessageSeconds
+        } = request.parsedBody ?? {};
+        const user = await this.fetchModerableUser(request);
+
+        if (user instanceof Response) {
+            return user;
+        }
+
+        const infraction = await this.client.infractionManager.createUserBan(user, {
+            guild: request.member!.guild,
+            moderator: request.member!.user,
+            reason,
+            notifyUser: notify as unknown as boolean,
+            sendLog: true,
+            duration: duration ? (duration as unknown as number) * 1000 : undefined,
+            deleteMessageSeconds: deleteMessageSeconds as unknown as number,
+            autoRemoveQueue: true,
+            abortOnTemplateNotFound: false
+        });
+
+        if (!infraction) {
+            return new Response({
+                status: 400,
+                body: { error: "Failed to ban this user, make sure I have enough permissions!" }
+            });
+        }
+
+        return new Response({ status: 201, body: { infraction } });
+    }
+
+    @Action("POST", "/guild/:guild/users/:id/unban", [GuildPermissionControl(["BanMembers"])])
+    @RequireAuth()
+    @EnableGuildAccessControl()
+    @Validate(z.object({ reason: reasonSchema }))
+    public async unban(request: Request) {
+        const { reason } = request.parsedBody ?? {};
+        const user = await safeUserFetch(this.client, request.params.id);
+
+        if (!user) {
+            return new Response({ status: 404, body: { error: "No such user found" } });
+        }
+
+        const { infraction, noSuchBan } = await this.client.infractionManager.removeUserBan(user, {
+            guild: request.member!.guild,
+            moderator: request.member!.user,
+            reason,
+            sendLog: true,
+            abortOnTemplateNotFound: false
+        });
+
+        if (!infraction) {
+            return new Response({
+                status: noSuchBan ? 404 : 400,
+                body: {
+                    error: noSuchBan
+                        ? "This user is not banned"
+                        : "Failed to unban this user, make sure I have enough permissions!"
+                }
+            });
+        }
+
+        return new Response({ status: 201, body: { infraction } });
+    }
+
+    private async fetchModerableMember(request: Request): Promise<GuildMember | Response> {
+        const member = await safeMemberFetch(request.member!.guild, request.params.id);
+
+        if (!member) {
+            return new Response({ status: 404, body: { error: "No such member found" } });
+        }
+
+        if (!(await this.client.permissionManager.shouldModerate(member, request.member!))) {
+            return new Response({
+                status: 403,
+                body: { error: "You don't have permission to moderate this user!" }
+            });
+        }
+
+        return member;
+    }
+
+    private async fetchModerableUser(request: Request): Promise<User | Response> {
+        const user = await safeUserFetch(this.client, request.params.id);
+
+        if (!user) {
+            return new Response({ status: 404, body: { error: "No such user found" } });
+        }
+
+        const member = await safeMemberFetch(request.member!.guild, user.id);
+
+        if (
+            member &&
+            !(await this.client.permissionManager.shouldModerate(member, request.member!))
+        ) {
+            return new Response({
+                status: 403,
+                body: { error: "You don't have permission to moderate this user!" }
+            });
+        }
+
+        return user;
+    }
+}
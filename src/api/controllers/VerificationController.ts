@@ -42,11 +42,7 @@ const emailVerificationSchema = z.object({
 
 export default class VerificationController extends Controller {
     checkExpiry(entry: VerificationEntry) {
-        const config = this.client.configManager.config[entry.guildId!]?.verification;
-        return (
-            entry.createdAt.getTime() + (config?.max_time ?? 0) > Date.now() &&
-            entry.attempts <= ((config?.max_attempts ?? 0) === 0 ? Number.POSITIVE_INFINITY : config!.max_attempts)
-        );
+        return this.client.verification.checkExpiry(entry);
     }
 
     @Action("GET", "/challenge/verify")
@@ -82,11 +78,56 @@ export default class VerificationController extends Controller {
 
         return {
             ...info,
+            challengeAnswer: undefined,
+            method: this.client.configManager.config[info.guildId]?.verification?.method ?? "recaptcha",
             guildName: guild.name,
             icon: guild.icon
         };
     }
 
+    @Action("GET", "/challenge/verify/captcha/image")
+    async showCaptchaImage(request: Request) {
+        const parsed = showInfoSchema.safeParse(request.query);
+
+        if (!parsed.success) {
+            return new Response({
+                status: 422,
+                body: "Invalid Payload"
+            });
+        }
+
+        const { token, userId } = parsed.data;
+
+        const entry = await this.client.prisma.verificationEntry.findFirst({
+            where: {
+                userId,
+                token
+            }
+        });
+
+        if (
+            !entry ||
+            !this.checkExpiry(entry) ||
+            this.client.configManager.config[entry.guildId]?.verification?.method !== "challenge"
+        ) {
+            return new Response({
+                status: 404,
+                body: {
+                    error: "Not found"
+                }
+            });
+        }
+
+        return new Response({
+            status: 200,
+            body: await this.client.verification.createChallengeImage(entry),
+            headers: {
+                "Content-Type": "image/png",
+                "Cache-Control": "no-store"
+            }
+        });
+    }
+
     @Action("PUT", "/challenge/verify/email/initiate")
     @Validate(
         z.object({
@@ -206,41 +247,65 @@ export default class VerificationController extends Controller {
     @Action("POST", "/challenge/verify/captcha")
     @Validate(
         z.object({
-            responseToken: z.string(),
+            responseToken: z.string().optional(),
+            answer: z.string().optional(),
             verificationToken: z.string(),
             userId: zSnowflake
         })
     )
     async verifyByCaptcha(request: Request) {
-        const { responseToken, verificationToken, userId } = request.parsedBody!;
-
-        try {
-            const response = await axios.post(
-                "https://www.google.com/recaptcha/api/siteverify",
-                new URLSearchParams({
-                    secret: process.env.RECAPTCHA_SITE_SECRET!,
-                    response: responseToken
-                }).toString(),
-                {
-                    headers: {
-                        "Content-Type": "application/x-www-form-urlencoded"
-                    }
-                }
-            );
+        const { responseToken, answer, verificationToken, userId } = request.parsedBody!;
+
+        const entry = await this.client.prisma.verificationEntry.findFirst({
+            where: {
+                userId,
+                token: verificationToken
+            }
+        });
 
-            if (!response.data.success) {
-                throw new Error();
+        if (entry && this.client.configManager.config[entry.guildId]?.verification?.method === "challenge") {
+            if (
+                !answer ||
+                !this.checkExpiry(entry) ||
+                !(await this.client.verification.checkChallengeAnswer(entry, answer))
+            ) {
+                return new Response({
+                    status: 401,
+                    body: {
+                        success: false,
+                        error: "We were unable to verify you."
+                    }
+                });
             }
-        } catch (error) {
-            logError(error);
+        } else {
+            try {
+                const response = await axios.post(
+                    "https://www.google.com/recaptcha/api/siteverify",
+                    new URLSearchParams({
+                        secret: process.env.RECAPTCHA_SITE_SECRET!,
+                        response: responseToken ?? ""
+                    }).toString(),
+                    {
+                        headers: {
+                            "Content-Type": "application/x-www-form-urlencoded"
+                        }
+                    }
+                );
 
-            return new Response({
-                status: 401,
-                body: {
-                    success: false,
-                    error: "We were unable to verify you."
+                if (!response.data.success) {
+                    throw new Error();
                 }
-            });
+            } catch (error) {
+                logError(error);
+
+                return new Response({
+                    status: 401,
+                    body: {
+                        success: false,
+                        error: "We were unable to verify you."
+                    }
+                });
+            }
         }
 
         const result = await this.client.verification.attemptToVerifyUserByToken(userId, verificationToken, "Captcha");
@@ -0,0 +1,64 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { PermissionsString } from "discord.js";
+import { NextFunction, Response } from "express";
+import type Client from "../../core/Client";
+import { safeMemberFetch } from "../../utils/fetch";
+import Request from "../Request";
+
+/**
+ * Checks the permissions of the authenticated user in the guild, using the guild's permission mode.
+ * Must run after the authentication and guild access control middleware.
+ */
+export default function GuildPermissionControl(
+    permissions: PermissionsString[],
+    mode: "and" | "or" = "and"
+) {
+    return async (client: Client, request: Request, response: Response, next: NextFunction) => {
+        const guild = client.guilds.cache.get(request.params.guild);
+        const member =
+            guild && request.user ? await safeMemberFetch(guild, request.user.discordId) : null;
+
+        if (!member) {
+            response.status(403).send({
+                error: "You are not a member of this guild."
+            });
+
+            return;
+        }
+
+        const { permissions: memberPermissions } =
+            await client.permissionManager.getMemberPermissions(member, true);
+
+        if (
+            mode === "and"
+                ? !memberPermissions.has(permissions, true)
+                : !permissions.some(permission => memberPermissions.has(permission, true))
+        ) {
+            response.status(403).send({
+                error: "You don't have permission to perform this action."
+            });
+
+            return;
+        }
+
+        request.member = member;
+        next();
+    };
+}
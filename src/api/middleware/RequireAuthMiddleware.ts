@@ -23,6 +23,47 @@ import type Client from "../../core/Client";
 import { log } from "../../utils/Logger";
 import Request from "../Request";
 
+/**
+ * Verifies an API token issued by the auth controller and returns the ID of its user.
+ */
+export function verifyAPIToken(token: string) {
+    const info = jwt.verify(token, process.env.JWT_SECRET!, {
+        issuer: process.env.JWT_ISSUER ?? "SudoBot",
+        subject: "Temporary API token for authenticated user",
+        complete: true
+    });
+
+    const payload = info.payload as {
+        userId: number;
+    };
+
+    log(info, payload);
+
+    if (!payload?.userId) {
+        throw new Error("ID not found");
+    }
+
+    return payload.userId;
+}
+
+/**
+ * Fetches the user an API token belongs to. Throws if the token was revoked or has expired.
+ */
+export async function fetchAPITokenUser(client: Client, token: string) {
+    const user = await client.prisma.user.findFirst({
+        where: {
+            id: verifyAPIToken(token),
+            token
+        }
+    });
+
+    if (!user || Date.now() > (user?.tokenExpiresAt?.getTime() ?? 0)) {
+        throw new Error();
+    }
+
+    return user;
+}
+
 export default async function RequireAuthMiddleware(
     client: Client,
     fetchUser: boolean = true,
@@ -49,38 +90,13 @@ export default async function RequireAuthMiddleware(
     }
 
     try {
-        const info = jwt.verify(token, process.env.JWT_SECRET!, {
-            issuer: process.env.JWT_ISSUER ?? "SudoBot",
-            subject: "Temporary API token for authenticated user",
-            complete: true
-        });
-
-        const payload = info.payload as {
-            userId: number;
-        };
-
-        log(info, payload);
-
-        if (!payload?.userId) {
-            throw new Error("ID not found");
-        }
-
         if (!fetchUser) {
-            request.userId = payload.userId;
+            request.userId = verifyAPIToken(token);
             next();
             return;
         }
 
-        const user = await client.prisma.user.findFirst({
-            where: {
-                id: payload.userId,
-                token
-            }
-        });
-
-        if (!user || Date.now() > (user?.tokenExpiresAt?.getTime() ?? 0)) {
-            throw new Error();
-        }
+        const user = await fetchAPITokenUser(client, token);
 
         request.userId = user.id;
         request.user = user;
@@ -17,93 +17,18 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
+import { AutoModHitSource } from "@prisma/client";
 import { Message, PermissionFlagsBits } from "discord.js";
-import { google } from "googleapis";
 import Service from "../core/Service";
 import { HasEventListeners } from "../types/HasEventListeners";
 import { log, logError } from "../utils/Logger";
 import { isImmuneToAutoMod } from "../utils/utils";
 
 export const name = "aiAutoMod";
-const discoveryURL = "https://commentanalyzer.googleapis.com/$discovery/rest?version=v1alpha1";
-
-// TODO: Add support for other type of message attributes
-
-type GoogleClient = {
-    comments: {
-        analyze: (params: unknown, callback: (error: Error | null, response: unknown) => void) => void;
-    };
-};
-
-type GoogleResponse = {
-    data: {
-        attributeScores: {
-            TOXICITY: {
-                summaryScore: {
-                    value: number;
-                };
-            };
-            THREAT: {
-                summaryScore: {
-                    value: number;
-                };
-            };
-            SEVERE_TOXICITY: {
-                summaryScore: {
-                    value: number;
-                };
-            };
-            IDENTITY_ATTACK: {
-                summaryScore: {
-                    value: number;
-                };
-            };
-            INSULT: {
-                summaryScore: {
-                    value: number;
-                };
-            };
-            PROFANITY: {
-                summaryScore: {
-                    value: number;
-                };
-            };
-            SEXUALLY_EXPLICIT: {
-                summaryScore: {
-                    value: number;
-                };
-            };
-            FLIRTATION: {
-                summaryScore: {
-                    value: number;
-                };
-            };
-        };
-    };
-};
 
 export default class AIAutoModService extends Service implements HasEventListeners {
-    protected googleClient: GoogleClient | undefined = undefined;
-
-    analyze(client: GoogleClient, params: unknown) {
-        return new Promise<GoogleResponse>((resolve, reject) => {
-            client.comments.analyze(params, (error: Error | null, response: unknown) => {
-                if (error) {
-                    reject(error);
-                    return;
-                }
-
-                resolve(response as GoogleResponse);
-            });
-        });
-    }
-
-    async boot() {
-        this.googleClient = await google.discoverAPI(discoveryURL);
-    }
-
     async onMessageCreate(message: Message<boolean>) {
-        if (!process.env.PERSPECTIVE_API_TOKEN || !message.content?.trim()) {
+        if (!this.client.aiProviderService.getModerationProvider() || !message.content?.trim()) {
             return false;
         }
 
@@ -129,36 +54,24 @@ export default class AIAutoModService extends Service implements HasEventListene
         } = config.parameters;
 
         try {
-            const response = await this.analyze(this.googleClient!, {
-                key: process.env.PERSPECTIVE_API_TOKEN,
-                resource: {
-                    requestedAttributes: {
-                        TOXICITY: {},
-                        THREAT: {},
-                        SEVERE_TOXICITY: {},
-                        IDENTITY_ATTACK: {},
-                        INSULT: {},
-                        PROFANITY: {},
-                        SEXUALLY_EXPLICIT: {},
-                        FLIRTATION: {}
-                    },
-                    comment: {
-                        text: message.content
-                    },
-                    languages: ["en"]
-                }
-            });
+            const scores = await this.client.aiProviderService.moderate(message.content);
+
+            if (!scores) {
+                return;
+            }
 
-            log(JSON.stringify(response.data.attributeScores, null, 4));
+            log(JSON.stringify(scores, null, 4));
 
-            const threatScore = response.data.attributeScores.THREAT.summaryScore.value * 100;
-            const toxicityScore = response.data.attributeScores.TOXICITY.summaryScore.value * 100;
-            const severeToxicityScore = response.data.attributeScores.SEVERE_TOXICITY.summaryScore.value * 100;
-            const explicitScore = response.data.attributeScores.SEXUALLY_EXPLICIT.summaryScore.value * 100;
-            const flirtationScore = response.data.attributeScores.FLIRTATION.summaryScore.value * 100;
-            const identityAttackScore = response.data.attributeScores.IDENTITY_ATTACK.summaryScore.value * 100;
-            const insultScore = response.data.attributeScores.INSULT.summaryScore.value * 100;
-            const profanityScore = response.data.attributeScores.PROFANITY.summaryScore.value * 100;
+            const {
+                threat: threatScore,
+                toxicity: toxicityScore,
+                severe_toxicity: severeToxicityScore,
+                sexually_explicit: explicitScore,
+                flirtation: flirtationScore,
+                identity_attack: identityAttackScore,
+                insult: insultScore,
+                profanity: profanityScore
+            } = scores;
 
             const isThreat = threatScore >= max_threat;
             const isToxic = toxicityScore >= max_toxicity;
@@ -171,7 +84,7 @@ export default class AIAutoModService extends Service implements HasEventListene
 
             if (isThreat || isToxic || isSeverelyToxic || isExplicit || isFlirty || isAttack || isInsult || isProfanity) {
                 await message.delete();
-                await this.client.loggerService.logAIAutoModMessageDelete({
+                const logMessage = await this.client.loggerService.logAIAutoModMessageDelete({
                     message,
                     toxicityScore,
                     severeToxicityScore,
@@ -190,6 +103,25 @@ export default class AIAutoModService extends Service implements HasEventListene
                     insultScore,
                     profanityScore
                 });
+
+                await this.client.autoModStatsService.record({
+                    message,
+                    source: AutoModHitSource.AI_AUTOMOD,
+                    rules: Object.entries({
+                        threat: isThreat,
+                        toxicity: isToxic,
+                        severe_toxicity: isSeverelyToxic,
+                        sexually_explicit: isExplicit,
+                        flirtation: isFlirty,
+                        identity_attack: isAttack,
+                        insult: isInsult,
+                        profanity: isProfanity
+                    })
+                        .filter(([, matched]) => matched)
+                        .map(([attribute]) => attribute),
+                    actions: ["delete"],
+                    logMessage
+                });
             }
         } catch (e) {
             logError(e);
@@ -17,29 +17,204 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Collection, Guild } from "discord.js";
+import { RaidMode } from "@prisma/client";
+import { Collection, Guild, User } from "discord.js";
+import path from "path";
 import Service from "../core/Service";
 import { GatewayEventListener } from "../decorators/GatewayEventListener";
+import { logError } from "../utils/Logger";
+import QueueEntry from "../utils/QueueEntry";
+import { isTextableChannel } from "../utils/utils";
 
 export const name = "antijoin";
 
+type RaidModeOptions = {
+    antijoin?: boolean;
+    locked?: boolean;
+    duration?: number;
+    moderator?: User;
+};
+
 export default class Antijoin extends Service {
     map = new Collection<string, boolean>();
 
     @GatewayEventListener("ready")
     async onReady() {
         for (const [id] of this.client.guilds.cache) this.map.set(id, false);
+
+        const raidModes = await this.client.prisma.raidMode.findMany({
+            where: {
+                antijoin: true
+            }
+        });
+
+        for (const raidMode of raidModes) this.map.set(raidMode.guildId, true);
+    }
+
+    getRaidMode(guild: Guild) {
+        return this.client.prisma.raidMode.findUnique({
+            where: {
+                guildId: guild.id
+            }
+        });
+    }
+
+    enable(guild: Guild, options: Omit<RaidModeOptions, "antijoin"> = {}) {
+        return this.startRaidMode(guild, { ...options, antijoin: true });
+    }
+
+    disable(guild: Guild, moderator?: User) {
+        return this.endRaidMode(guild, { moderator });
+    }
+
+    async toggle(guild: Guild, moderator?: User) {
+        if (this.map.get(guild.id)) {
+            await this.disable(guild, moderator);
+            return false;
+        }
+
+        await this.enable(guild, { moderator });
+        return true;
     }
 
-    enable(guild: Guild) {
-        this.map.set(guild.id, true);
+    /**
+     * Starts the raid mode, or adds to the current one. The state is persisted, so that it
+     * survives restarts, and the raid mode ends automatically when a duration is given.
+     */
+    async startRaidMode(
+        guild: Guild,
+        { antijoin = false, locked = false, duration, moderator }: RaidModeOptions
+    ) {
+        const existing = await this.getRaidMode(guild);
+        let queueId = existing?.queueId ?? null;
+        let expiresAt = existing?.expiresAt ?? null;
+
+        if (duration) {
+            if (queueId !== null) {
+                await this.client.queueManager.removeById(queueId);
+            }
+
+            expiresAt = new Date(Date.now() + duration);
+            queueId = await this.client.queueManager.add(
+                new QueueEntry({
+                    args: [],
+                    client: this.client,
+                    createdAt: new Date(),
+                    filePath: path.resolve(__dirname, "../queues/RaidModeExpireQueue"),
+                    guild,
+                    name: "RaidModeExpireQueue",
+                    userId: moderator?.id ?? this.client.user!.id,
+                    willRunAt: expiresAt
+                })
+            );
+        }
+
+        const raidMode = await this.client.prisma.raidMode.upsert({
+            where: {
+                guildId: guild.id
+            },
+            create: {
+                guildId: guild.id,
+                antijoin,
+                locked,
+                expiresAt,
+                queueId
+            },
+            update: {
+                antijoin: antijoin || existing?.antijoin,
+                locked: locked || existing?.locked,
+                expiresAt,
+                queueId
+            }
+        });
+
+        this.map.set(guild.id, raidMode.antijoin);
+        await this.postStatus(guild, raidMode, moderator);
+        return raidMode;
     }
 
-    disable(guild: Guild) {
+    /**
+     * Ends the raid mode, turning off antijoin and unlocking the channels that were locked
+     * during the raid.
+     */
+    async endRaidMode(
+        guild: Guild,
+        { moderator, expired = false }: { moderator?: User; expired?: boolean } = {}
+    ) {
         this.map.set(guild.id, false);
+
+        const raidMode = await this.getRaidMode(guild);
+
+        if (!raidMode) {
+            return null;
+        }
+
+        await this.client.prisma.raidMode.delete({
+            where: {
+                id: raidMode.id
+            }
+        });
+
+        if (raidMode.queueId !== null && !expired) {
+            await this.client.queueManager.removeById(raidMode.queueId);
+        }
+
+        if (raidMode.locked) {
+            const config = this.client.configManager.config[guild.id]?.antiraid;
+
+            await this.client.channelLockManager
+                .unlockGuild(guild, {
+                    moderator: moderator ?? this.client.user!,
+                    channels: config?.channels,
+                    channelMode: config?.channel_mode,
+                    ignorePrivateChannels: config?.ignore_private_channels,
+                    reason: expired ? "Raid mode has expired" : "Raid mode was turned off"
+                })
+                .catch(logError);
+        }
+
+        await this.deleteStatusMessage(guild, raidMode);
+        await this.client.loggerService
+            .logRaidModeEnd({ guild, moderator, expired })
+            .catch(logError);
+
+        return raidMode;
     }
 
-    toggle(guild: Guild) {
-        return this.map.set(guild.id, !this.map.get(guild.id)).get(guild.id);
+    protected async postStatus(guild: Guild, raidMode: RaidMode, moderator?: User) {
+        await this.deleteStatusMessage(guild, raidMode);
+
+        const message = await this.client.loggerService
+            .logRaidModeStatus({ guild, raidMode, moderator })
+            .catch(logError);
+
+        if (!message) {
+            return;
+        }
+
+        await this.client.prisma.raidMode.update({
+            where: {
+                id: raidMode.id
+            },
+            data: {
+                statusChannelId: message.channelId,
+                statusMessageId: message.id
+            }
+        });
+    }
+
+    protected async deleteStatusMessage(
+        guild: Guild,
+        { statusChannelId, statusMessageId }: RaidMode
+    ) {
+        if (!statusChannelId || !statusMessageId) {
+            return;
+        }
+
+        const channel = guild.channels.cache.get(statusChannelId);
+
+        if (channel && isTextableChannel(channel)) {
+            await channel.messages.delete(statusMessageId).catch(logError);
+        }
     }
 }
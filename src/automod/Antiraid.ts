@@ -17,17 +17,23 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Guild, GuildMember } from "discord.js";
+import { RaidWave } from "@prisma/client";
+import { Guild, GuildMember, Snowflake, User } from "discord.js";
 import Service from "../core/Service";
 import { GatewayEventListener } from "../decorators/GatewayEventListener";
 import { GuildConfig } from "../types/GuildConfigSchema";
 import { HasEventListeners } from "../types/HasEventListeners";
 import { logError } from "../utils/Logger";
+import { safeMemberFetch, safeUserFetch } from "../utils/fetch";
+import { RaidJoin, RaidWaveDetection, ScoredRaidJoin, findRaidWave } from "../utils/raid";
 
 export const name = "antiraid";
 
+type AntiraidConfig = Exclude<GuildConfig["antiraid"], undefined>;
+
 export default class Antiraid extends Service implements HasEventListeners {
     map: Map<string, { count: number; locked: boolean; timer?: Timer }> = new Map();
+    protected readonly joins = new Map<Snowflake, RaidJoin[]>();
 
     @GatewayEventListener("ready")
     async onReady() {
@@ -42,6 +48,10 @@ export default class Antiraid extends Service implements HasEventListeners {
 
         const config = this.client.configManager.config[member.guild.id]?.antiraid;
 
+        if (config?.enabled && config.heuristics?.enabled) {
+            this.recordJoin(member, config).catch(logError);
+        }
+
         if (!config?.enabled || !config.max_joins || !config.timeframe || config.timeframe < 6000) {
             return;
         }
@@ -66,12 +76,22 @@ export default class Antiraid extends Service implements HasEventListeners {
                 });
 
             this.map.set(member.guild.id, { count: count + 1, locked: true });
+            const data = {
+                detection: "join_rate",
+                action: config.action,
+                joins: count + 1
+            };
+
+            this.client.eventStream.emitGuildEvent(member.guild.id, "raid.detected", data);
+            this.client.webhookService
+                .dispatch(member.guild.id, "raid.detected", data)
+                .catch(logError);
 
             if (config.action === "lock_and_antijoin") {
                 await this.lock(member.guild, config);
-                this.antijoin(member.guild);
+                await this.antijoin(member.guild, config);
             } else if (config.action === "antijoin" || config.action === "auto") {
-                this.antijoin(member.guild);
+                await this.antijoin(member.guild, config);
             } else if (config.action === "lock") {
                 await this.lock(member.guild, config);
             }
@@ -88,8 +108,230 @@ export default class Antiraid extends Service implements HasEventListeners {
         }
     }
 
-    lock(guild: Guild, config: Exclude<GuildConfig["antiraid"], undefined>) {
-        return this.client.channelLockManager
+    /**
+     * Records the join and checks whether the recent joins form a raid wave, based on account
+     * age, avatar presence, username similarity and the invite that was used.
+     */
+    async recordJoin(member: GuildMember, config: AntiraidConfig) {
+        const heuristics = config.heuristics;
+
+        if (!heuristics) {
+            return;
+        }
+
+        const joinedAt = member.joinedTimestamp ?? Date.now();
+        const invite =
+            (await this.client.inviteTracker.findNewMemberInviteLink(member).catch(logError)) ??
+            undefined;
+        const joins = (this.joins.get(member.guild.id) ?? []).filter(
+            join => join.joinedAt > Date.now() - heuristics.window
+        );
+
+        joins.push({
+            userId: member.id,
+            username: member.user.username,
+            joinedAt,
+            accountCreatedAt: member.user.createdTimestamp,
+            hasAvatar: member.user.avatar !== null,
+            inviteCode: invite?.isVanity ? "VANITY" : invite?.invite.code ?? null
+        });
+
+        const wave = findRaidWave(joins, {
+            minWaveSize: heuristics.min_wave_size,
+            minScore: heuristics.min_score,
+            newAccountAge: heuristics.new_account_age,
+            usernameSimilarity: heuristics.username_similarity,
+            weights: heuristics.weights
+        });
+
+        if (!wave) {
+            this.joins.set(member.guild.id, joins);
+            return;
+        }
+
+        this.joins.set(
+            member.guild.id,
+            joins.filter(
+                join => !wave.members.some(waveMember => waveMember.userId === join.userId)
+            )
+        );
+
+        await this.handleWave(member.guild, config, wave);
+    }
+
+    async handleWave(guild: Guild, config: AntiraidConfig, { members, score }: RaidWaveDetection) {
+        const wave = await this.client.prisma.raidWave.create({
+            data: {
+                guildId: guild.id,
+                action: config.wave_action,
+                score,
+                members
+            }
+        });
+
+        if (config.send_log) {
+            this.client.loggerService
+                .logRaidWave({
+                    guild,
+                    id: wave.id,
+                    action: config.wave_action,
+                    score,
+                    members
+                })
+                .catch(logError);
+        }
+
+        const data = {
+            detection: "wave",
+            waveId: wave.id,
+            action: config.wave_action,
+            score,
+            members
+        };
+
+        this.client.eventStream.emitGuildEvent(guild.id, "raid.detected", data);
+        this.client.webhookService.dispatch(guild.id, "raid.detected", data).catch(logError);
+
+        await this.takeWaveAction(guild, config, wave);
+    }
+
+    async takeWaveAction(guild: Guild, config: AntiraidConfig, wave: RaidWave) {
+        const users = this.getWaveMembers(wave).map(member => member.userId);
+        const reason = `Member of raid wave #${wave.id}`;
+
+        if (wave.action === "ban") {
+            for (let i = 0; i < users.length; i += 20) {
+                await this.client.infractionManager.createUserMassBan({
+                    users: users.slice(i, i + 20),
+                    guild,
+                    moderator: this.client.user!,
+                    reason,
+                    sendLog: true
+                });
+            }
+        } else if (wave.action === "kick") {
+            for (let i = 0; i < users.length; i += 10) {
+                await this.client.infractionManager.createMemberMassKick({
+                    users: users.slice(i, i + 10),
+                    guild,
+                    moderator: this.client.user!,
+                    reason,
+                    sendLog: true
+                });
+            }
+        } else if (wave.action === "quarantine" && config.quarantine_role) {
+            for (const id of users) {
+                const member = await safeMemberFetch(guild, id);
+                await member?.roles.add(config.quarantine_role, reason).catch(logError);
+            }
+        }
+    }
+
+    getWaveMembers(wave: RaidWave) {
+        return wave.members as unknown as ScoredRaidJoin[];
+    }
+
+    getWave(guildId: Snowflake, id?: number) {
+        return this.client.prisma.raidWave.findFirst({
+            where: {
+                guildId,
+                id
+            },
+            orderBy: {
+                id: "desc"
+            }
+        });
+    }
+
+    /**
+     * Confirms a raid wave, or reverts the action that was taken on its members. Kicks can't be
+     * reverted, but such waves can still be marked as undone.
+     */
+    async reviewWave(
+        guild: Guild,
+        wave: RaidWave,
+        moderator: User,
+        operation: "confirm" | "undo"
+    ): Promise<{ error: string; count?: undefined } | { error?: undefined; count: number }> {
+        if (wave.status === "UNDONE") {
+            return { error: "This raid wave has already been undone." };
+        }
+
+        if (operation === "confirm" && wave.status === "CONFIRMED") {
+            return { error: "This raid wave has already been confirmed." };
+        }
+
+        /**
+         * The status is updated first, so that the same wave can't be reviewed twice at once.
+         */
+        const { count: updated } = await this.client.prisma.raidWave.updateMany({
+            where: {
+                id: wave.id,
+                status: {
+                    notIn: operation === "confirm" ? ["UNDONE", "CONFIRMED"] : ["UNDONE"]
+                }
+            },
+            data: {
+                status: operation === "confirm" ? "CONFIRMED" : "UNDONE",
+                reviewedById: moderator.id
+            }
+        });
+
+        if (updated !== 1) {
+            return { error: "This raid wave has already been reviewed." };
+        }
+
+        const users = this.getWaveMembers(wave).map(member => member.userId);
+        const reason = `Raid wave #${wave.id} was undone`;
+        let count = 0;
+
+        if (operation === "undo") {
+            const role = this.client.configManager.config[guild.id]?.antiraid?.quarantine_role;
+
+            for (const id of users) {
+                if (wave.action === "ban") {
+                    const user = await safeUserFetch(this.client, id);
+
+                    if (!user) {
+                        continue;
+                    }
+
+                    const { error } = await this.client.infractionManager.removeUserBan(user, {
+                        guild,
+                        moderator,
+                        reason,
+                        sendLog: true
+                    });
+
+                    if (!error) {
+                        count++;
+                    }
+                } else if (wave.action === "quarantine" && role) {
+                    const member = await safeMemberFetch(guild, id);
+                    await member?.roles
+                        .remove(role, reason)
+                        .then(() => count++)
+                        .catch(logError);
+                }
+            }
+        }
+
+        this.client.loggerService
+            .logRaidWaveReview({
+                guild,
+                id: wave.id,
+                moderator,
+                status: operation === "confirm" ? "Confirmed" : "Undone",
+                count: users.length,
+                undone: operation === "undo" ? count : undefined
+            })
+            .catch(logError);
+
+        return { count };
+    }
+
+    async lock(guild: Guild, config: AntiraidConfig) {
+        await this.client.channelLockManager
             .lockGuild(guild, {
                 moderator: this.client.user!,
                 channelMode: config.channel_mode,
@@ -98,9 +340,15 @@ export default class Antiraid extends Service implements HasEventListeners {
                 reason: "Possible raid detected"
             })
             .catch(logError);
+
+        await this.client.antijoin
+            .startRaidMode(guild, { locked: true, duration: config.raid_mode_duration || undefined })
+            .catch(logError);
     }
 
-    antijoin(guild: Guild) {
-        return this.client.antijoin.enable(guild);
+    antijoin(guild: Guild, config: AntiraidConfig) {
+        return this.client.antijoin
+            .enable(guild, { duration: config.raid_mode_duration || undefined })
+            .catch(logError);
     }
 }
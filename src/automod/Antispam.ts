@@ -19,8 +19,19 @@
 
 import { GuildMember, Message, PermissionFlagsBits, Snowflake, TextChannel } from "discord.js";
 import Service from "../core/Service";
+import { AntispamActionName } from "../types/AntispamDetectorSchema";
 import { GuildConfig } from "../types/GuildConfigSchema";
 import { log, logError } from "../utils/Logger";
+import {
+    AntispamDetection,
+    AntispamEntry,
+    countLinks,
+    detectSpam,
+    getEntriesWithin,
+    groupEntriesByChannel,
+    resolveAntispamDetectors
+} from "../utils/antispam";
+import { findTriggeredRule } from "../utils/escalation";
 import { isImmuneToAutoMod, isTextableChannel } from "../utils/utils";
 
 interface SpamUserInfo {
@@ -28,6 +39,11 @@ interface SpamUserInfo {
     timeout?: Timer;
 }
 
+interface DetectorSpamInfo {
+    entries: AntispamEntry[];
+    timeout?: Timer;
+}
+
 interface SimilarMessageSpamInfo {
     content?: string;
     count: number;
@@ -39,8 +55,20 @@ export const name = "antispam";
 export default class Antispam extends Service {
     protected readonly map: Record<`${Snowflake}_${Snowflake}`, SpamUserInfo | undefined> = {};
     protected readonly similarMessageSpamMap: Record<`${Snowflake}_${Snowflake}`, SimilarMessageSpamInfo | undefined> = {};
-
-    async muteUser(message: Message, antispam: GuildConfig["antispam"]) {
+    protected readonly detectorMap: Record<`${Snowflake}_${Snowflake}`, DetectorSpamInfo | undefined> = {};
+    protected readonly detectorDescriptions: Record<AntispamDetection["detector"]["name"], string> = {
+        attachments: "attachment spam",
+        links: "link spam",
+        mentions: "mention spam",
+        cross_channel: "the same message across multiple channels"
+    };
+
+    async muteUser(
+        message: Message,
+        antispam: GuildConfig["antispam"],
+        action = antispam?.action,
+        clear = true
+    ) {
         this.client.infractionManager
             .createMemberMute(message.member as GuildMember, {
                 guild: message.guild!,
@@ -48,7 +76,7 @@ export default class Antispam extends Service {
                 bulkDeleteReason: "The system has detected spam messages from this user",
                 duration: antispam?.mute_duration && antispam?.mute_duration > 0 ? antispam?.mute_duration : 1000 * 60 * 60,
                 messageChannel:
-                    antispam?.action === "mute_clear" || antispam?.action === "auto"
+                    clear && (action === "mute_clear" || action === "auto")
                         ? (message.channel! as TextChannel)
                         : undefined,
                 notifyUser: true,
@@ -59,14 +87,14 @@ export default class Antispam extends Service {
             .catch(logError);
     }
 
-    async warnUser(message: Message, antispam: GuildConfig["antispam"]) {
+    async warnUser(message: Message, antispam: GuildConfig["antispam"], action = antispam?.action) {
         this.client.infractionManager
             .createMemberWarn(message.member as GuildMember, {
                 guild: message.guild!,
                 moderator: this.client.user!,
                 notifyUser: true,
                 reason: `Spam detected.${
-                    antispam?.action === "auto" ? " If you continue to send spam messages, you might get muted." : ""
+                    action === "auto" ? " If you continue to send spam messages, you might get muted." : ""
                 }`,
                 sendLog: true
             })
@@ -81,7 +109,11 @@ export default class Antispam extends Service {
             .catch(logError);
     }
 
-    async takeAction(message: Message) {
+    /**
+     * @param actionOverride The action to take instead of the configured antispam action.
+     * @param clear Whether muting should also clear the recent messages of the user.
+     */
+    async takeAction(message: Message, actionOverride?: AntispamActionName, clear = true) {
         log("Triggered");
 
         const config = this.client.configManager.config[message.guildId!];
@@ -89,14 +121,15 @@ export default class Antispam extends Service {
         if (!config) return;
 
         const { antispam } = config;
+        const action = actionOverride ?? antispam?.action;
 
-        if (antispam?.action === "mute_clear" || antispam?.action === "mute") {
-            await this.muteUser(message, antispam);
-        } else if (antispam?.action === "warn") {
-            await this.warnUser(message, antispam);
-        } else if (antispam?.action === "verbal_warn") {
+        if (action === "mute_clear" || action === "mute") {
+            await this.muteUser(message, antispam, action, clear);
+        } else if (action === "warn") {
+            await this.warnUser(message, antispam, action);
+        } else if (action === "verbal_warn") {
             await this.verballyWarnUser(message);
-        } else if (antispam?.action === "auto") {
+        } else if (action === "auto" && antispam) {
             let record = await this.client.prisma.spamRecord.findFirst({
                 where: {
                     guild_id: message.guildId!,
@@ -113,7 +146,7 @@ export default class Antispam extends Service {
                     }
                 });
             } else {
-                await this.client.prisma.spamRecord.update({
+                record = await this.client.prisma.spamRecord.update({
                     data: {
                         level: {
                             increment: 1
@@ -125,16 +158,127 @@ export default class Antispam extends Service {
                 });
             }
 
-            if (record.level === 1) {
+            if (antispam.escalation?.length) {
+                await this.escalate(message, antispam, record.level);
+            } else if (record.level === 1) {
                 await this.verballyWarnUser(message);
             } else if (record.level === 2) {
-                await this.warnUser(message, antispam);
+                await this.warnUser(message, antispam, action);
             } else {
-                await this.muteUser(message, antispam);
+                await this.muteUser(message, antispam, action, clear);
             }
         }
     }
 
+    /**
+     * Takes the action of the antispam escalation rule with the highest threshold that the
+     * spam level of the user has reached, instead of the default ladder.
+     */
+    async escalate(message: Message, antispam: NonNullable<GuildConfig["antispam"]>, level: number) {
+        const triggered = findTriggeredRule(antispam.escalation ?? [], () => ({
+            previous: 0,
+            current: level
+        }));
+
+        if (!triggered) {
+            return;
+        }
+
+        await this.client.escalation.takeAction(
+            message.guild!,
+            message.member as GuildMember,
+            triggered.rule,
+            {
+                reason: `Spam detected. Escalation rule ${this.client.escalation.describeRule(
+                    triggered.rule,
+                    triggered.index
+                )} was triggered at spam level ${level}`,
+                message,
+                messageChannel: message.channel as TextChannel
+            }
+        );
+    }
+
+    /**
+     * Tracks the message for the attachment, link, mention and cross-channel detectors. When one
+     * of them is triggered, the offending messages are deleted in every affected channel before
+     * the action of the detector is taken.
+     */
+    async checkDetectors(message: Message, config: GuildConfig) {
+        if (!config.antispam) {
+            return false;
+        }
+
+        const detectors = resolveAntispamDetectors(
+            config.antispam.detectors,
+            config.antispam.channel_overrides[message.channelId]
+        );
+
+        if (detectors.length === 0) {
+            return false;
+        }
+
+        const key = `${message.guildId!}_${message.author.id}` as const;
+        const maxTimeframe = Math.max(...detectors.map(detector => detector.timeframe));
+        const info = this.detectorMap[key] ?? { entries: [] };
+
+        info.entries = getEntriesWithin(info.entries, maxTimeframe);
+        info.entries.push({
+            messageId: message.id,
+            channelId: message.channelId,
+            timestamp: Date.now(),
+            content: message.content,
+            attachments: message.attachments.size,
+            links: countLinks(message.content),
+            mentions:
+                message.mentions.users.size +
+                message.mentions.roles.size +
+                (message.mentions.everyone ? 1 : 0)
+        });
+
+        clearTimeout(info.timeout);
+        info.timeout = setTimeout(() => {
+            this.detectorMap[key] = undefined;
+        }, maxTimeframe);
+
+        this.detectorMap[key] = info;
+
+        const detection = detectSpam(info.entries, detectors);
+
+        if (!detection) {
+            return false;
+        }
+
+        log(`Antispam detector triggered: ${detection.detector.name}`);
+        info.entries = info.entries.filter(entry => !detection.entries.includes(entry));
+
+        await this.cleanUpMessages(message, detection);
+        await this.takeAction(message, detection.detector.action, false);
+        return true;
+    }
+
+    async cleanUpMessages(message: Message, { detector, entries }: AntispamDetection) {
+        for (const [channelId, messageIds] of groupEntriesByChannel(entries)) {
+            const channel = message.guild!.channels.cache.get(channelId);
+
+            if (!channel || !isTextableChannel(channel)) {
+                continue;
+            }
+
+            await this.client.infractionManager
+                .bulkDeleteMessages({
+                    guild: message.guild!,
+                    moderator: this.client.user!,
+                    user: message.author,
+                    messageChannel: channel as TextChannel,
+                    messagesToDelete: messageIds,
+                    reason: `The system has detected ${this.detectorDescriptions[detector.name]} from this user`,
+                    sendLog: true
+                })
+                .catch(logError);
+        }
+    }
+
     async checkForSimilarMessages(message: Message, config: GuildConfig) {
         if (
             !config.antispam?.similar_messages?.max ||
@@ -193,14 +337,7 @@ export default class Antispam extends Service {
 
         const config = this.client.configManager.config[message.guildId!];
 
-        if (
-            !config?.antispam?.enabled ||
-            !config?.antispam.limit ||
-            !config?.antispam.timeframe ||
-            config.antispam.limit < 1 ||
-            config.antispam.timeframe < 1 ||
-            config.antispam.disabled_channels.includes(message.channelId!)
-        ) {
+        if (!config?.antispam?.enabled || config.antispam.disabled_channels.includes(message.channelId!)) {
             return;
         }
 
@@ -208,6 +345,19 @@ export default class Antispam extends Service {
             return;
         }
 
+        if (await this.checkDetectors(message, config)) {
+            return;
+        }
+
+        if (
+            !config.antispam.limit ||
+            !config.antispam.timeframe ||
+            config.antispam.limit < 1 ||
+            config.antispam.timeframe < 1
+        ) {
+            return;
+        }
+
         const result = await this.checkForSimilarMessages(message, config);
 
         if (result) {
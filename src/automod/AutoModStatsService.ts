@@ -0,0 +1,260 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { AutoModHitSource } from "@prisma/client";
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    Interaction,
+    Message,
+    PermissionFlagsBits,
+    Snowflake
+} from "discord.js";
+import Service from "../core/Service";
+import { GatewayEventListener } from "../decorators/GatewayEventListener";
+import { HasEventListeners } from "../types/HasEventListeners";
+import { log, logError } from "../utils/Logger";
+import { AutoModHitTimelineEntry, fillHitTimeline } from "../utils/automod";
+import { getEmoji } from "../utils/utils";
+
+export const name = "autoModStatsService";
+
+type RecordHitOptions = {
+    message: Message;
+    source: AutoModHitSource;
+    rules: string[];
+    actions: string[];
+    dryRun?: boolean;
+    logMessage?: Message | null;
+};
+
+export default class AutoModStatsService extends Service implements HasEventListeners {
+    protected readonly purgeInterval = 3_600_000;
+    protected interval?: ReturnType<typeof setInterval>;
+
+    @GatewayEventListener("ready")
+    onReady() {
+        this.interval ??= setInterval(() => this.purgeHits().catch(logError), this.purgeInterval);
+    }
+
+    @GatewayEventListener("interactionCreate")
+    async onInteractionCreate(interaction: Interaction) {
+        if (interaction.isButton() && interaction.customId === "automod__false_positive") {
+            await this.onFalsePositiveButton(interaction);
+        }
+    }
+
+    createFalsePositiveActionRow(markedBy?: string) {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId("automod__false_positive")
+                .setStyle(ButtonStyle.Secondary)
+                .setLabel(
+                    markedBy ? `Marked as false positive by ${markedBy}` : "Mark as false positive"
+                )
+                .setDisabled(!!markedBy)
+        );
+    }
+
+    /**
+     * Records an AutoMod action. One hit is recorded for each of the rules that matched.
+     */
+    async record({
+        message,
+        source,
+        rules,
+        actions,
+        dryRun = false,
+        logMessage
+    }: RecordHitOptions) {
+        if (!message.inGuild() || rules.length === 0) {
+            return;
+        }
+
+        await this.client.prisma.autoModHit.createMany({
+            data: rules.map(rule => ({
+                guildId: message.guildId,
+                channelId: message.channelId,
+                userId: message.author.id,
+                messageId: message.id,
+                source,
+                rule,
+                actions,
+                dryRun,
+                logMessageId: logMessage?.id
+            }))
+        });
+
+        const data = {
+            source,
+            rules,
+            actions,
+            dryRun,
+            userId: message.author.id,
+            channelId: message.channelId,
+            messageId: message.id
+        };
+
+        this.client.eventStream.emitGuildEvent(message.guildId, "automod.triggered", data);
+        this.client.webhookService
+            .dispatch(message.guildId, "automod.triggered", data)
+            .catch(logError);
+    }
+
+    /**
+     * Marks the hits logged by the given log message as false positives.
+     *
+     * @returns The number of hits that were marked.
+     */
+    async markFalsePositive(guildId: Snowflake, logMessageId: Snowflake, moderatorId: Snowflake) {
+        const { count } = await this.client.prisma.autoModHit.updateMany({
+            where: {
+                guildId,
+                logMessageId,
+                falsePositive: false
+            },
+            data: {
+                falsePositive: true,
+                markedById: moderatorId
+            }
+        });
+
+        return count;
+    }
+
+    protected async onFalsePositiveButton(interaction: ButtonInteraction) {
+        if (!interaction.inGuild()) {
+            return;
+        }
+
+        if (!interaction.memberPermissions.has(PermissionFlagsBits.ManageMessages, true)) {
+            await interaction.reply({
+                content: `${getEmoji(this.client, "error")} You don't have permission to do this.`,
+                ephemeral: true
+            });
+
+            return;
+        }
+
+        const count = await this.markFalsePositive(
+            interaction.guildId,
+            interaction.message.id,
+            interaction.user.id
+        );
+
+        if (count === 0) {
+            await interaction.reply({
+                content: `${getEmoji(
+                    this.client,
+                    "error"
+                )} This action was not recorded, or it was already marked as a false positive.`,
+                ephemeral: true
+            });
+
+            return;
+        }
+
+        await interaction.update({
+            components: [this.createFalsePositiveActionRow(interaction.user.username)]
+        });
+    }
+
+    async getStats(guildId: Snowflake, days: number) {
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const where = {
+            guildId,
+            createdAt: {
+                gte: since
+            }
+        };
+
+        const [rules, falsePositiveRules, timeline] = await Promise.all([
+            this.client.prisma.autoModHit.groupBy({
+                by: ["source", "rule"],
+                where,
+                _count: true
+            }),
+            this.client.prisma.autoModHit.groupBy({
+                by: ["source", "rule"],
+                where: {
+                    ...where,
+                    falsePositive: true
+                },
+                _count: true
+            }),
+            // Hits are stored as UTC timestamps without a time zone, so the cutoff is passed the same way
+            this.client.prisma.$queryRaw<AutoModHitTimelineEntry[]>`
+                SELECT
+                    to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD') AS "date",
+                    COUNT(*)::int AS "count",
+                    (COUNT(*) FILTER (WHERE "falsePositive"))::int AS "falsePositives"
+                FROM "automod_hits"
+                WHERE "guildId" = ${guildId}
+                    AND "createdAt" >= CAST(${since.toISOString()} AS timestamp)
+                GROUP BY 1
+            `
+        ]);
+
+        return {
+            since,
+            total: rules.reduce((total, { _count }) => total + _count, 0),
+            falsePositives: falsePositiveRules.reduce((total, { _count }) => total + _count, 0),
+            rules: rules
+                .map(({ source, rule, _count }) => ({
+                    source,
+                    rule,
+                    count: _count,
+                    falsePositives:
+                        falsePositiveRules.find(
+                            entry => entry.source === source && entry.rule === rule
+                        )?._count ?? 0
+                }))
+                .sort((a, b) => b.count - a.count),
+            timeline: fillHitTimeline(timeline, since)
+        };
+    }
+
+    /**
+     * Deletes the hits that are older than the retention period of their guild.
+     */
+    async purgeHits() {
+        for (const guildId in this.client.configManager.config) {
+            const retention = this.client.configManager.config[guildId]?.automod_stats?.hit_retention;
+
+            if (!retention) {
+                continue;
+            }
+
+            const { count } = await this.client.prisma.autoModHit.deleteMany({
+                where: {
+                    guildId,
+                    createdAt: {
+                        lt: new Date(Date.now() - retention)
+                    }
+                }
+            });
+
+            if (count > 0) {
+                log(`Purged ${count} old AutoMod hits in guild ${guildId}`);
+            }
+        }
+    }
+}
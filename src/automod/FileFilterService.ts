@@ -17,6 +17,7 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
+import { AutoModHitSource } from "@prisma/client";
 import { Attachment, Message, PermissionFlagsBits, Snowflake } from "discord.js";
 import crypto from "node:crypto";
 import { readFile, rm } from "node:fs/promises";
@@ -61,12 +62,22 @@ export default class FileFilterService extends Service implements HasEventListen
         const info = await this.handle(message);
 
         if (info) {
-            await this.client.loggerService.logFileFilterDeletedMessage(message, {
+            const logMessage = await this.client.loggerService.logFileFilterDeletedMessage(message, {
                 contentType: info.attachment ? info.attachment.contentType : undefined,
                 hash: info.hash,
                 url: info.attachment ? info.attachment.url : info.url!,
                 name: info.attachment?.name
             });
+
+            await this.client.autoModStatsService
+                .record({
+                    message,
+                    source: AutoModHitSource.FILE_FILTER,
+                    rules: [`hash:${info.hash}`],
+                    actions: ["delete"],
+                    logMessage
+                })
+                .catch(logError);
         }
 
         return !!info;
@@ -17,6 +17,7 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
+import { AutoModHitSource } from "@prisma/client";
 import { Message, PermissionsBitField } from "discord.js";
 import Service from "../core/Service";
 import { HasEventListeners } from "../types/HasEventListeners";
@@ -55,53 +56,56 @@ export default class MessageFilter extends Service implements HasEventListeners
         const { safe: wordSafe, word } = await this.filterWords(message, blockedWords);
         const { safe: messageSafe, theMessage } = await this.filterMessages(message, blockedMessages);
 
-        if (
-            (!tokenSafe || !wordSafe || !messageSafe) &&
+        if (tokenSafe && wordSafe && messageSafe) {
+            return false;
+        }
+
+        const shouldDelete =
+            message.deletable &&
             ((!tokenSafe &&
-                (config.send_logs === true || (typeof config.send_logs === "object" && config.send_logs.blocked_tokens))) ||
+                (config.delete_message === true ||
+                    (typeof config.delete_message === "object" && config.delete_message.blocked_tokens))) ||
                 (!wordSafe &&
-                    (config.send_logs === true || (typeof config.send_logs === "object" && config.send_logs.blocked_words))) ||
+                    (config.delete_message === true ||
+                        (typeof config.delete_message === "object" && config.delete_message.blocked_words))) ||
                 (!messageSafe &&
-                    (config.send_logs === true || (typeof config.send_logs === "object" && config.send_logs.blocked_messages))))
-        ) {
-            const blockType = !tokenSafe ? "token" : !wordSafe ? "word" : "message";
-            this.client.loggerService
-                .logBlockedWordOrToken({
-                    guild: message.guild!,
-                    content: message.content,
-                    blockType: blockType,
-                    user: message.author,
-                    token: !tokenSafe ? token : undefined,
-                    word: !wordSafe ? word : undefined,
-                    message: !messageSafe ? theMessage : undefined
-                })
-                .catch(logError);
-        }
-
-        if (!message.deletable) return false;
+                    (config.delete_message === true ||
+                        (typeof config.delete_message === "object" && config.delete_message.blocked_messages))));
 
-        if (
-            !tokenSafe &&
-            (config.delete_message === true ||
-                (typeof config.delete_message === "object" && config.delete_message.blocked_tokens))
-        ) {
-            message.delete().catch(logError);
-            return true;
-        }
-
-        if (
-            !wordSafe &&
-            (config.delete_message === true || (typeof config.delete_message === "object" && config.delete_message.blocked_words))
-        ) {
-            message.delete().catch(logError);
-            return true;
-        }
+        const logMessagePromise =
+            (!tokenSafe &&
+                (config.send_logs === true || (typeof config.send_logs === "object" && config.send_logs.blocked_tokens))) ||
+            (!wordSafe && (config.send_logs === true || (typeof config.send_logs === "object" && config.send_logs.blocked_words))) ||
+            (!messageSafe &&
+                (config.send_logs === true || (typeof config.send_logs === "object" && config.send_logs.blocked_messages)))
+                ? this.client.loggerService.logBlockedWordOrToken({
+                      guild: message.guild!,
+                      content: message.content,
+                      blockType: !tokenSafe ? "token" : !wordSafe ? "word" : "message",
+                      user: message.author,
+                      token: !tokenSafe ? token : undefined,
+                      word: !wordSafe ? word : undefined,
+                      message: !messageSafe ? theMessage : undefined
+                  })
+                : Promise.resolve(null);
+
+        logMessagePromise
+            .then(logMessage =>
+                this.client.autoModStatsService.record({
+                    message,
+                    source: AutoModHitSource.MESSAGE_FILTER,
+                    rules: [
+                        ...(!tokenSafe ? [`token:${token}`] : []),
+                        ...(!wordSafe ? [`word:${word}`] : []),
+                        ...(!messageSafe ? [`message:${theMessage}`] : [])
+                    ],
+                    actions: shouldDelete ? ["delete"] : [],
+                    logMessage
+                })
+            )
+            .catch(logError);
 
-        if (
-            !messageSafe &&
-            (config.delete_message === true ||
-                (typeof config.delete_message === "object" && config.delete_message.blocked_messages))
-        ) {
+        if (shouldDelete) {
             message.delete().catch(logError);
             return true;
         }
@@ -19,8 +19,10 @@
 
 // TODO: Add an allow/disallow mode to all roles
 
+import { AutoModHitSource } from "@prisma/client";
 import {
     Attachment,
+    ChannelType,
     EmbedAssetData,
     Message,
     PermissionFlagsBits,
@@ -32,10 +34,22 @@ import {
 } from "discord.js";
 import sharp from "sharp";
 import Service from "../core/Service";
+import LevelBasedPermissionManager from "../security/LevelBasedPermissionManager";
 import { CreateLogEmbedOptions } from "../services/LoggerService";
 import { HasEventListeners } from "../types/HasEventListeners";
 import { MessageRuleType } from "../types/MessageRuleSchema";
 import { log, logDebug, logError, logWarn } from "../utils/Logger";
+import { MessageRuleConditionContext, evaluateCondition } from "../utils/conditions";
+import { findTriggeredRule } from "../utils/escalation";
+import { exceedsNSFWThresholds, formatNSFWScores } from "../utils/nsfw";
+import {
+    countEmojis,
+    countLines,
+    findInvisibleCharacters,
+    getCapsRatio,
+    getLongestCombiningMarkRun,
+    getLongestNewlineRun
+} from "../utils/text";
 import { escapeRegex, getEmoji, request } from "../utils/utils";
 
 export const name = "messageRuleService";
@@ -64,15 +78,58 @@ const handlers: Record<MessageRuleType["type"], RuleInfo> = {
     image: "ruleImage",
     embed: "ruleEmbed",
     EXPERIMENTAL_url_crawl: "ruleURLCrawl",
-    EXPERIMENTAL_nsfw_filter: "ruleNSFWFilter"
+    EXPERIMENTAL_nsfw_filter: "ruleNSFWFilter",
+    caps_ratio: "ruleCapsRatio",
+    emoji_limit: "ruleEmojiLimit",
+    zalgo: "ruleZalgo",
+    max_lines: "ruleMaxLines",
+    invisible_chars: "ruleInvisibleChars"
 };
 
 type MessageRuleAction = MessageRuleType["actions"][number];
 
+const channelTypes: Partial<Record<ChannelType, MessageRuleConditionContext["channelType"]>> = {
+    [ChannelType.GuildText]: "text",
+    [ChannelType.GuildAnnouncement]: "announcement",
+    [ChannelType.GuildVoice]: "voice",
+    [ChannelType.GuildStageVoice]: "stage",
+    [ChannelType.PublicThread]: "public_thread",
+    [ChannelType.PrivateThread]: "private_thread",
+    [ChannelType.AnnouncementThread]: "announcement_thread"
+};
+
+/**
+ * The parts of a message that the rules are evaluated against. Plain objects can be used to test hypothetical messages.
+ */
+export type MessageRuleInput = Pick<
+    Message,
+    | "content"
+    | "attachments"
+    | "embeds"
+    | "deletable"
+    | "guildId"
+    | "channel"
+    | "channelId"
+    | "author"
+    | "member"
+>;
+
+export type MessageRuleEvaluation = {
+    matched: boolean;
+    skipReason?: string;
+    details?: CreateLogEmbedOptions;
+};
+
 // TODO: Allow specific words/tokens even after having rules that disallow it
 // TODO: Introduce rule bypassers ^^
 
 export default class MessageRuleService extends Service implements HasEventListeners {
+    protected readonly violations = new Map<
+        `${Snowflake}_${Snowflake}_${string}`,
+        { timestamps: number[]; window: number }
+    >();
+    protected lastViolationPruneAt = 0;
+
     private config(guildId: Snowflake) {
         return this.client.configManager.config[guildId]?.message_rules;
     }
@@ -87,7 +144,10 @@ export default class MessageRuleService extends Service implements HasEventListe
         if (
             !config?.enabled ||
             config?.global_disabled_channels?.includes(message.channelId!) ||
-            (await this.client.permissionManager.isImmuneToAutoMod(message.member!, PermissionFlagsBits.ManageGuild))
+            (await this.client.permissionManager.isImmuneToAutoMod(
+                message.member!,
+                PermissionFlagsBits.ManageGuild
+            ))
         ) {
             return false;
         }
@@ -96,109 +156,371 @@ export default class MessageRuleService extends Service implements HasEventListe
     }
 
     private async processMessageRules(message: Message, rules: Array<MessageRuleType>) {
-        for (const rule of rules) {
-            if (rule.actions.length === 0) {
-                log("No action found in this rule! Considering it as disabled.");
+        const globalDryRun = this.config(message.guildId!)?.dry_run;
+
+        for (const [index, rule] of rules.entries()) {
+            const { matched, skipReason, details } = await this.evaluateRule(message, rule);
+
+            if (!matched) {
+                if (skipReason) {
+                    log(skipReason);
+                }
+
                 continue;
             }
 
-            if (rule.actions.length === 1 && rule.actions.includes("delete") && !message.deletable) {
-                log("Missing permissions to delete messages, but the rule actions include `delete`. Skipping.");
-                continue;
+            const dryRun = globalDryRun || rule.dry_run;
+            const identifier = this.getRuleIdentifier(rule, index);
+
+            try {
+                const { actions, violations } = await this.applyThresholds(
+                    message,
+                    rule,
+                    identifier,
+                    dryRun
+                );
+
+                if (dryRun) {
+                    log("Dry run mode is enabled, not taking any action");
+                } else {
+                    for (const action of actions) {
+                        log("Taking action: ", action);
+                        await this.takeAction(message, rule, action);
+                    }
+                }
+
+                log(details);
+
+                const logMessage =
+                    (await this.client.loggerService
+                        .logMessageRuleAction({
+                            message,
+                            actions,
+                            rule: rule.type,
+                            embedOptions: details,
+                            dryRun,
+                            violations
+                        })
+                        .catch(logError)) ?? null;
+
+                await this.client.autoModStatsService
+                    .record({
+                        message,
+                        source: AutoModHitSource.MESSAGE_RULE,
+                        rules: [identifier],
+                        actions,
+                        dryRun,
+                        logMessage
+                    })
+                    .catch(logError);
+            } catch (e) {
+                logError(e);
             }
 
-            if (rule.actions.includes("mute") && rule.actions.includes("warn")) {
-                logWarn("You cannot include mute and warn together as message rule actions! Skipping.");
-                continue;
+            if (!dryRun) {
+                return true;
             }
+        }
 
+        return false;
+    }
+
+    /**
+     * Checks whether the given message triggers the given rule, without taking any action.
+     *
+     * @param checkExemptions Whether to skip the rule in exempted channels and for immune members.
+     */
+    async evaluateRule(
+        message: MessageRuleInput,
+        rule: MessageRuleType,
+        checkExemptions = true
+    ): Promise<MessageRuleEvaluation> {
+        if (rule.actions.length === 0 && rule.thresholds.length === 0) {
+            return {
+                matched: false,
+                skipReason: "No action found in this rule! Considering it as disabled."
+            };
+        }
+
+        if (rule.actions.length === 1 && rule.actions.includes("delete") && !message.deletable) {
+            return {
+                matched: false,
+                skipReason:
+                    "Missing permissions to delete messages, but the rule actions include `delete`. Skipping."
+            };
+        }
+
+        if (
+            [
+                rule.actions,
+                ...rule.thresholds.map(({ actions }) => [...rule.actions, ...actions])
+            ].some(actions => actions.includes("mute") && actions.includes("warn"))
+        ) {
+            return {
+                matched: false,
+                skipReason:
+                    "You cannot include mute and warn together as message rule actions! Skipping."
+            };
+        }
+
+        if (checkExemptions) {
             if (rule.disabled_channels.includes(message.channelId!)) {
-                logWarn("This rule is disabled in this channel.");
-                continue;
+                return { matched: false, skipReason: "This rule is disabled in this channel." };
             }
 
             if (rule.immune_users.includes(message.author.id)) {
-                logWarn("This user is immune to this rule.");
-                continue;
+                return { matched: false, skipReason: "This user is immune to this rule." };
             }
 
             if (message.member?.roles.cache.hasAny(...rule.immune_roles)) {
-                logWarn("This user is immune to this rule, due to having some whitelisted roles.");
-                continue;
+                return {
+                    matched: false,
+                    skipReason:
+                        "This user is immune to this rule, due to having some whitelisted roles."
+                };
             }
+        }
 
-            const handlerFunctionInfo = handlers[rule.type];
-            const handlerFunctionName: RuleHandlerMethod | undefined =
-                typeof handlerFunctionInfo === "string" ? handlerFunctionInfo : handlerFunctionInfo?.method;
-            const handlerFunctionMetaInfo = (typeof handlerFunctionInfo === "string" ? null : handlerFunctionInfo) ?? {
-                method: handlerFunctionName,
-                autoHandleModes: true
-            };
+        if (
+            rule.conditions &&
+            !evaluateCondition(rule.conditions, await this.getConditionContext(message))
+        ) {
+            return { matched: false, skipReason: "The conditions of this rule were not met." };
+        }
 
-            if (!handlerFunctionInfo || !handlerFunctionName?.startsWith("rule")) {
-                continue;
-            }
+        const handlerFunctionInfo = handlers[rule.type];
+        const handlerFunctionName: RuleHandlerMethod | undefined =
+            typeof handlerFunctionInfo === "string"
+                ? handlerFunctionInfo
+                : handlerFunctionInfo?.method;
+        const handlerFunctionMetaInfo = (typeof handlerFunctionInfo === "string"
+            ? null
+            : handlerFunctionInfo) ?? {
+            method: handlerFunctionName,
+            autoHandleModes: true
+        };
+
+        if (!handlerFunctionInfo || !handlerFunctionName?.startsWith("rule")) {
+            return { matched: false, skipReason: "No handler found for this rule." };
+        }
 
-            const handler = this[handlerFunctionName] as (
-                ...args: unknown[]
-            ) => Promise<boolean | null | undefined | CreateLogEmbedOptions>;
+        const handler = this[handlerFunctionName] as (
+            ...args: unknown[]
+        ) => Promise<boolean | null | undefined | CreateLogEmbedOptions>;
 
-            if (typeof handler !== "function") {
-                continue;
+        if (typeof handler !== "function") {
+            return { matched: false, skipReason: "No handler found for this rule." };
+        }
+
+        try {
+            const result = await handler.call(this, message, rule);
+            const inverse = rule.mode === "inverse";
+            const { autoHandleModes } = handlerFunctionMetaInfo;
+
+            if (
+                !(
+                    (result && !inverse) ||
+                    (inverse && ((autoHandleModes && !result) || (!autoHandleModes && result)))
+                )
+            ) {
+                return { matched: false };
             }
 
-            try {
-                const result = await handler.call(this, message, rule);
-                const inverse = rule.mode === "inverse";
-                const { autoHandleModes } = handlerFunctionMetaInfo;
-
-                if ((result && !inverse) || (inverse && ((autoHandleModes && !result) || (!autoHandleModes && result)))) {
-                    try {
-                        for (const action of rule.actions) {
-                            log("Taking action: ", action);
-                            await this.takeAction(message, rule, action);
+            const details =
+                result && typeof result === "object" && !inverse
+                    ? result
+                    : inverse
+                      ? {
+                            options: {
+                                description: `${getEmoji(this.client, "info")} This rule was __inversed__.`,
+                                ...(result && typeof result === "object" && "options" in result
+                                    ? result.options
+                                    : {})
+                            },
+                            ...(result && typeof result === "object" ? result : {})
                         }
+                      : undefined;
 
-                        const embedOptions =
-                            result && typeof result === "object" && !inverse
-                                ? result
-                                : inverse
-                                ? {
-                                      options: {
-                                          description: `${getEmoji(this.client, "info")} This rule was __inversed__.`,
-                                          ...(result && typeof result === "object" && "options" in result ? result.options : {})
-                                      },
-                                      ...(result && typeof result === "object" ? result : {})
-                                  }
-                                : undefined;
-
-                        log(embedOptions);
-
-                        await this.client.loggerService
-                            .logMessageRuleAction({
-                                message,
-                                actions: rule.actions,
-                                rule: rule.type,
-                                embedOptions
-                            })
-                            .catch(logError);
-                    } catch (e) {
-                        logError(e);
+            return { matched: true, details };
+        } catch (e) {
+            logError(e);
+            return {
+                matched: false,
+                skipReason: "An error has occurred while evaluating this rule."
+            };
+        }
+    }
+
+    private async getConditionContext(
+        message: MessageRuleInput
+    ): Promise<MessageRuleConditionContext> {
+        const { channel, member } = message;
+        const manager = message.guildId
+            ? await this.client.permissionManager.getManager(message.guildId)
+            : null;
+
+        return {
+            memberAge: member?.joinedTimestamp ? Date.now() - member.joinedTimestamp : null,
+            accountAge: Date.now() - message.author.createdTimestamp,
+            roles: member ? [...member.roles.cache.keys()] : [],
+            categoryId: channel.isThread()
+                ? channel.parent?.parentId ?? null
+                : "parentId" in channel
+                  ? channel.parentId
+                  : null,
+            channelType: channelTypes[channel.type] ?? null,
+            attachmentCount: message.attachments.size,
+            permissionLevel:
+                member && manager instanceof LevelBasedPermissionManager
+                    ? manager.getPermissionLevel(member)
+                    : null
+        };
+    }
+
+    /**
+     * Records a match of a rule that has thresholds, and adds the actions of the highest threshold
+     * that was reached by this match to the actions of the rule.
+     */
+    /**
+     * @param dryRun Whether to only count the previous matches. Dry run matches are not recorded, so that they don't count toward the thresholds once dry run mode is turned off.
+     */
+    private async applyThresholds(
+        message: Message,
+        rule: MessageRuleType,
+        identifier: string,
+        dryRun: boolean
+    ) {
+        if (rule.thresholds.length === 0) {
+            return { actions: rule.actions, violations: undefined };
+        }
+
+        const window = Math.max(...rule.thresholds.map(({ window }) => window));
+        const timestamps = await this.recordViolation(message, rule, identifier, window, !dryRun);
+        const now = Date.now();
+        const triggered = findTriggeredRule(rule.thresholds, threshold => {
+            const current = timestamps.filter(
+                timestamp => timestamp > now - threshold.window
+            ).length;
+            return { previous: current - 1, current };
+        });
+
+        return {
+            actions: triggered
+                ? [...new Set([...rule.actions, ...triggered.rule.actions])]
+                : rule.actions,
+            violations: { count: timestamps.length, window }
+        };
+    }
+
+    /**
+     * @param record Whether to store this match. If not, it is only included in the returned timestamps.
+     * @returns The timestamps of the matches in the given window, including this one.
+     */
+    private async recordViolation(
+        message: Message,
+        rule: MessageRuleType,
+        identifier: string,
+        window: number,
+        record: boolean
+    ) {
+        const now = Date.now();
+
+        if (rule.persist_thresholds) {
+            const where = {
+                guildId: message.guildId!,
+                userId: message.author.id,
+                rule: identifier
+            };
+
+            if (!record) {
+                const violations = await this.client.prisma.messageRuleViolation.findMany({
+                    where: {
+                        ...where,
+                        createdAt: {
+                            gt: new Date(now - window)
+                        }
+                    },
+                    select: {
+                        createdAt: true
                     }
+                });
+
+                return [...violations.map(({ createdAt }) => createdAt.getTime()), now];
+            }
 
-                    return true;
+            await this.client.prisma.messageRuleViolation.deleteMany({
+                where: {
+                    ...where,
+                    createdAt: {
+                        lte: new Date(now - window)
+                    }
                 }
-            } catch (e) {
-                logError(e);
-                continue;
+            });
+
+            await this.client.prisma.messageRuleViolation.create({
+                data: {
+                    ...where,
+                    createdAt: new Date(now)
+                }
+            });
+
+            const violations = await this.client.prisma.messageRuleViolation.findMany({
+                where,
+                select: {
+                    createdAt: true
+                }
+            });
+
+            return violations.map(({ createdAt }) => createdAt.getTime());
+        }
+
+        const key = `${message.guildId!}_${message.author.id}_${identifier}` as const;
+        const timestamps = (this.violations.get(key)?.timestamps ?? []).filter(
+            timestamp => timestamp > now - window
+        );
+
+        timestamps.push(now);
+
+        if (record) {
+            this.pruneViolations();
+            this.violations.set(key, { timestamps, window });
+        }
+
+        return timestamps;
+    }
+
+    /**
+     * Evicts the users whose matches are all outside of the rule's window, at most once per minute.
+     */
+    protected pruneViolations() {
+        const now = Date.now();
+
+        if (now - this.lastViolationPruneAt < 60_000) {
+            return;
+        }
+
+        this.lastViolationPruneAt = now;
+
+        for (const [key, { timestamps, window }] of this.violations) {
+            if (timestamps.every(timestamp => timestamp <= now - window)) {
+                this.violations.delete(key);
             }
         }
+    }
 
-        return false;
+    getRuleIdentifier(rule: MessageRuleType, index: number) {
+        return rule.name ?? `${rule.type}#${index + 1}`;
     }
 
-    private getReason(rule: MessageRuleType, key: Extract<keyof MessageRuleType, `${string}_reason`>) {
-        return rule[key] ?? rule.common_reason ?? "Your message violated the server rules. Please be careful next time.";
+    private getReason(
+        rule: MessageRuleType,
+        key: Extract<keyof MessageRuleType, `${string}_reason`>
+    ) {
+        return (
+            rule[key] ??
+            rule.common_reason ??
+            "Your message violated the server rules. Please be careful next time."
+        );
     }
 
     private async takeAction(message: Message, rule: MessageRuleType, action: MessageRuleAction) {
@@ -270,7 +592,11 @@ export default class MessageRuleService extends Service implements HasEventListe
         }
     }
 
-    private scanForBlockedWordsAndTokens(tokens: string[] = [], words: string[] = [], ...strings: (string | null | undefined)[]) {
+    private scanForBlockedWordsAndTokens(
+        tokens: string[] = [],
+        words: string[] = [],
+        ...strings: (string | null | undefined)[]
+    ) {
         for (const string of strings) {
             if (!string) {
                 continue;
@@ -294,7 +620,10 @@ export default class MessageRuleService extends Service implements HasEventListe
         return { includes: false };
     }
 
-    async ruleNSFWFilter(message: Message, rule: Extract<MessageRuleType, { type: "EXPERIMENTAL_nsfw_filter" }>) {
+    async ruleNSFWFilter(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "EXPERIMENTAL_nsfw_filter" }>
+    ) {
         logDebug("Scanning for NSFW content");
 
         if (message.attachments.size === 0) {
@@ -324,10 +653,10 @@ export default class MessageRuleService extends Service implements HasEventListe
                 const sharpMethodName = attachment.contentType.startsWith("image/gif")
                     ? "gif"
                     : attachment.contentType.startsWith("image/png")
-                    ? "png"
-                    : attachment.contentType.startsWith("image/jpeg")
-                    ? "jpeg"
-                    : "unknown";
+                      ? "png"
+                      : attachment.contentType.startsWith("image/jpeg")
+                        ? "jpeg"
+                        : "unknown";
 
                 if (sharpMethodName === "unknown") {
                     logWarn("Unknown image type");
@@ -337,11 +666,9 @@ export default class MessageRuleService extends Service implements HasEventListe
                 const sharpInfo = sharp(imageData);
                 const sharpMethod = sharpInfo[sharpMethodName].bind(sharpInfo);
                 const convertedImageBuffer = await sharpMethod().toBuffer();
-                const result = await this.client.imageRecognitionService.detectNSFW(convertedImageBuffer);
-                const isNSFW =
-                    result.hentai >= score_thresholds.hentai ||
-                    result.porn >= score_thresholds.porn ||
-                    result.sexy >= score_thresholds.sexy;
+                const result =
+                    await this.client.imageRecognitionService.detectNSFW(convertedImageBuffer);
+                const isNSFW = exceedsNSFWThresholds(result, score_thresholds);
 
                 logDebug("NSFW result", result);
 
@@ -351,9 +678,7 @@ export default class MessageRuleService extends Service implements HasEventListe
                         fields: [
                             {
                                 name: "Scores",
-                                value: `Hentai: ${Math.round(result.hentai * 100)}%\nPorn: ${Math.round(
-                                    result.porn * 100
-                                )}%\nSexy: ${Math.round(result.sexy * 100)}%\nNeutral: ${Math.round(result.neutral * 100)}%`
+                                value: formatNSFWScores(result)
                             }
                         ]
                     } as CreateLogEmbedOptions;
@@ -364,7 +689,7 @@ export default class MessageRuleService extends Service implements HasEventListe
         return null;
     }
 
-    async ruleEmbed(message: Message, rule: Extract<MessageRuleType, { type: "embed" }>) {
+    async ruleEmbed(message: MessageRuleInput, rule: Extract<MessageRuleType, { type: "embed" }>) {
         if (message.embeds.length === 0) {
             return null;
         }
@@ -426,7 +751,7 @@ export default class MessageRuleService extends Service implements HasEventListe
         return null;
     }
 
-    async ruleImage(message: Message, rule: Extract<MessageRuleType, { type: "image" }>) {
+    async ruleImage(message: MessageRuleInput, rule: Extract<MessageRuleType, { type: "image" }>) {
         if (message.attachments.size === 0 && (!rule.scan_embeds || message.embeds.length === 0)) {
             return null;
         }
@@ -467,7 +792,9 @@ export default class MessageRuleService extends Service implements HasEventListe
 
             const {
                 data: { text: actualText, words: textWords }
-            } = await this.client.imageRecognitionService.recognize(attachment.proxyURL ?? attachment.url);
+            } = await this.client.imageRecognitionService.recognize(
+                attachment.proxyURL ?? attachment.url
+            );
             const text = actualText.toLowerCase();
 
             for (const token of tokens) {
@@ -544,12 +871,22 @@ export default class MessageRuleService extends Service implements HasEventListe
     }
 
     /** This rule is experimental. It needs caching support. */
-    async ruleURLCrawl(message: Message, rule: Extract<MessageRuleType, { type: "EXPERIMENTAL_url_crawl" }>) {
+    async ruleURLCrawl(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "EXPERIMENTAL_url_crawl" }>
+    ) {
         if (message.content.trim() === "") {
             return null;
         }
 
-        const { excluded_domains_regex, excluded_link_regex, excluded_links, words, tokens, inherit_from_word_filter } = rule;
+        const {
+            excluded_domains_regex,
+            excluded_link_regex,
+            excluded_links,
+            words,
+            tokens,
+            inherit_from_word_filter
+        } = rule;
         const config = this.client.configManager.config[message.guildId!]?.message_filter;
 
         const matches = message.content.matchAll(/https?:\/\/([A-Za-z0-9-.]*[A-Za-z0-9-])[\S]*/gim);
@@ -643,7 +980,10 @@ export default class MessageRuleService extends Service implements HasEventListe
         return null;
     }
 
-    async ruleDomain(message: Message, rule: Extract<MessageRuleType, { type: "domain" }>) {
+    async ruleDomain(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "domain" }>
+    ) {
         if (message.content.trim() === "") {
             return null;
         }
@@ -676,7 +1016,11 @@ export default class MessageRuleService extends Service implements HasEventListe
         log(genericMatches);
 
         if (specificMatches.length > 0) {
-            const cleanedDomain = (specificMatches[2] ?? specificMatches[1] ?? specificMatches[0]).replace(/https?:\/\//, "");
+            const cleanedDomain = (
+                specificMatches[2] ??
+                specificMatches[1] ??
+                specificMatches[0]
+            ).replace(/https?:\/\//, "");
             if (mode === "normal") {
                 return {
                     title: "Blocked domain(s) detected",
@@ -691,7 +1035,11 @@ export default class MessageRuleService extends Service implements HasEventListe
                 return false;
             }
         } else if (genericMatches.length > 0 && mode === "inverse" && !scan_links_only) {
-            const cleanedDomain = (genericMatches[2] ?? genericMatches[1] ?? genericMatches[0]).replace(/https?:\/\//, "");
+            const cleanedDomain = (
+                genericMatches[2] ??
+                genericMatches[1] ??
+                genericMatches[0]
+            ).replace(/https?:\/\//, "");
             return {
                 title: "Blocked domain(s) detected",
                 fields: [
@@ -706,7 +1054,10 @@ export default class MessageRuleService extends Service implements HasEventListe
         return false;
     }
 
-    async ruleBlockedFileExtension(message: Message, rule: Extract<MessageRuleType, { type: "blocked_file_extension" }>) {
+    async ruleBlockedFileExtension(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "blocked_file_extension" }>
+    ) {
         for (const attachment of message.attachments.values()) {
             for (const extension of rule.data) {
                 if (attachment.proxyURL.endsWith(`.${extension}`)) {
@@ -726,7 +1077,10 @@ export default class MessageRuleService extends Service implements HasEventListe
         return null;
     }
 
-    async ruleBlockedMimeType(message: Message, rule: Extract<MessageRuleType, { type: "blocked_mime_type" }>) {
+    async ruleBlockedMimeType(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "blocked_mime_type" }>
+    ) {
         for (const attachment of message.attachments.values()) {
             if (rule.data.includes(attachment.contentType ?? "unknown")) {
                 return {
@@ -744,7 +1098,10 @@ export default class MessageRuleService extends Service implements HasEventListe
         return null;
     }
 
-    async ruleAntiInvite(message: Message, rule: Extract<MessageRuleType, { type: "anti_invite" }>) {
+    async ruleAntiInvite(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "anti_invite" }>
+    ) {
         if (message.content.trim() === "") {
             return null;
         }
@@ -755,7 +1112,10 @@ export default class MessageRuleService extends Service implements HasEventListe
 
         for (const match of matches) {
             if (match[3] && !allowedInviteCodes.includes(match[3])) {
-                if (rule.allow_internal_invites && this.client.inviteTracker.invites.has(`${message.guildId!}_${match[3]}`)) {
+                if (
+                    rule.allow_internal_invites &&
+                    this.client.inviteTracker.invites.has(`${message.guildId!}_${match[3]}`)
+                ) {
                     continue;
                 }
 
@@ -774,7 +1134,10 @@ export default class MessageRuleService extends Service implements HasEventListe
         return null;
     }
 
-    async ruleRegexMustMatch(message: Message, rule: Extract<MessageRuleType, { type: "regex_must_match" }>) {
+    async ruleRegexMustMatch(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "regex_must_match" }>
+    ) {
         if (message.content.trim() === "") {
             return null;
         }
@@ -797,7 +1160,10 @@ export default class MessageRuleService extends Service implements HasEventListe
         };
     }
 
-    async ruleRegexFilter(message: Message, rule: Extract<MessageRuleType, { type: "regex_filter" }>) {
+    async ruleRegexFilter(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "regex_filter" }>
+    ) {
         if (message.content.trim() === "") {
             return null;
         }
@@ -830,7 +1196,10 @@ export default class MessageRuleService extends Service implements HasEventListe
         return null;
     }
 
-    async ruleRepeatedText(message: Message, rule: Extract<MessageRuleType, { type: "block_repeated_text" }>) {
+    async ruleRepeatedText(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "block_repeated_text" }>
+    ) {
         if (message.content.trim() === "") {
             return null;
         }
@@ -845,7 +1214,11 @@ export default class MessageRuleService extends Service implements HasEventListe
                     }
                 ]
             };
-        } else if (new RegExp("^(.+)(?: +\\1){" + rule.max_repeated_words + "}", "gm").test(message.content)) {
+        } else if (
+            new RegExp("^(.+)(?: +\\1){" + rule.max_repeated_words + "}", "gm").test(
+                message.content
+            )
+        ) {
             return {
                 title: "Repeated text detected",
                 fields: [
@@ -860,7 +1233,10 @@ export default class MessageRuleService extends Service implements HasEventListe
         return null;
     }
 
-    async ruleBlockMassMention(message: Message, rule: Extract<MessageRuleType, { type: "block_mass_mention" }>) {
+    async ruleBlockMassMention(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "block_mass_mention" }>
+    ) {
         if (message.content.trim() === "") {
             return null;
         }
@@ -869,7 +1245,10 @@ export default class MessageRuleService extends Service implements HasEventListe
 
         console.log("users", data);
 
-        if (data.length >= rule.max_mentions || (rule.max_user_mentions > 0 && data.length >= rule.max_user_mentions)) {
+        if (
+            data.length >= rule.max_mentions ||
+            (rule.max_user_mentions > 0 && data.length >= rule.max_user_mentions)
+        ) {
             return {
                 title: "Mass mentions detected",
                 fields: [
@@ -883,7 +1262,10 @@ export default class MessageRuleService extends Service implements HasEventListe
 
         data = [...message.content.matchAll(new RegExp("<@&[0-9]+>", "gm"))];
 
-        if (data.length >= rule.max_mentions || (rule.max_role_mentions > 0 && data.length >= rule.max_role_mentions)) {
+        if (
+            data.length >= rule.max_mentions ||
+            (rule.max_role_mentions > 0 && data.length >= rule.max_role_mentions)
+        ) {
             return {
                 title: "Repeated text detected",
                 fields: [
@@ -897,4 +1279,133 @@ export default class MessageRuleService extends Service implements HasEventListe
 
         return null;
     }
+
+    async ruleCapsRatio(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "caps_ratio" }>
+    ) {
+        const { letters, ratio } = getCapsRatio(message.content);
+
+        if (letters < rule.min_length || ratio <= rule.max_caps_percentage) {
+            return null;
+        }
+
+        return {
+            title: "Excessive caps detected",
+            fields: [
+                {
+                    name: "Description",
+                    value: `${ratio.toFixed(2)}% of the letters were uppercase, the limit is ${rule.max_caps_percentage}%`
+                }
+            ]
+        };
+    }
+
+    async ruleEmojiLimit(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "emoji_limit" }>
+    ) {
+        const count = countEmojis(message.content);
+
+        if (count <= rule.max_emojis) {
+            return null;
+        }
+
+        return {
+            title: "Too many emojis detected",
+            fields: [
+                {
+                    name: "Description",
+                    value: `The message had ${count} emojis, the limit is ${rule.max_emojis}`
+                }
+            ]
+        };
+    }
+
+    async ruleZalgo(message: MessageRuleInput, rule: Extract<MessageRuleType, { type: "zalgo" }>) {
+        const longestRun = getLongestCombiningMarkRun(message.content);
+
+        if (longestRun <= rule.max_combining_chars) {
+            return null;
+        }
+
+        return {
+            title: "Zalgo text detected",
+            fields: [
+                {
+                    name: "Description",
+                    value: `Found ${longestRun} combining characters stacked on a single character, the limit is ${rule.max_combining_chars}`
+                }
+            ]
+        };
+    }
+
+    async ruleMaxLines(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "max_lines" }>
+    ) {
+        const lines = countLines(message.content);
+
+        if (lines > rule.max_lines) {
+            return {
+                title: "Too many lines detected",
+                fields: [
+                    {
+                        name: "Description",
+                        value: `The message had ${lines} lines, the limit is ${rule.max_lines}`
+                    }
+                ]
+            };
+        }
+
+        if (rule.max_newlines === undefined) {
+            return null;
+        }
+
+        const newlines = getLongestNewlineRun(message.content);
+
+        if (newlines <= rule.max_newlines) {
+            return null;
+        }
+
+        return {
+            title: "Too many consecutive line breaks detected",
+            fields: [
+                {
+                    name: "Description",
+                    value: `The message had ${newlines} consecutive line breaks, the limit is ${rule.max_newlines}`
+                }
+            ]
+        };
+    }
+
+    async ruleInvisibleChars(
+        message: MessageRuleInput,
+        rule: Extract<MessageRuleType, { type: "invisible_chars" }>
+    ) {
+        const characters = findInvisibleCharacters(message.content);
+
+        if (characters.length <= rule.max_invisible_chars) {
+            return null;
+        }
+
+        return {
+            title: "Invisible characters detected",
+            fields: [
+                {
+                    name: "Description",
+                    value: `Found ${characters.length} invisible characters, the limit is ${rule.max_invisible_chars}`
+                },
+                {
+                    name: "Characters",
+                    value: [...new Set(characters)]
+                        .map(
+                            character =>
+                                `\`U+${character.codePointAt(0)!.toString(16).toUpperCase().padStart(4, "0")}\``
+                        )
+                        .join(", ")
+                }
+            ]
+        };
+    }
 }
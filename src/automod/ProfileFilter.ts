@@ -17,27 +17,73 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { ActivityType, GuildMember, PartialGuildMember, PermissionFlagsBits } from "discord.js";
+import {
+    ActivityType,
+    Guild,
+    GuildMember,
+    PartialGuildMember,
+    PartialUser,
+    PermissionFlagsBits,
+    User
+} from "discord.js";
 import Service from "../core/Service";
 import { GatewayEventListener } from "../decorators/GatewayEventListener";
 import { GuildConfig } from "../types/GuildConfigSchema";
 import { HasEventListeners } from "../types/HasEventListeners";
-import { log } from "../utils/Logger";
-import { isImmuneToAutoMod } from "../utils/utils";
+import { log, logError } from "../utils/Logger";
+import { cache, invalidateCache } from "../utils/cache";
+import { NSFWScores, exceedsNSFWThresholds } from "../utils/nsfw";
+import { isImmuneToAutoMod, request } from "../utils/utils";
 
 export const name = "profileFilter";
 
+type AvatarAnalysis = {
+    scores: NSFWScores | null;
+    text: string | null;
+};
+
 export default class ProfileFilter extends Service implements HasEventListeners {
+    protected readonly avatarCacheTTL = 1000 * 60 * 60 * 24;
+    protected readonly rescanCheckInterval = 1000 * 60 * 10;
+    protected readonly lastRescans = new Map<string, number>();
+    protected interval?: ReturnType<typeof setInterval>;
+
+    @GatewayEventListener("ready")
+    onReady() {
+        this.interval ??= setInterval(() => this.rescanAvatars().catch(logError), this.rescanCheckInterval);
+    }
+
+    @GatewayEventListener("guildMemberAdd")
+    async onGuildMemberAdd(member: GuildMember) {
+        if (member.user.bot) return;
+        await this.scanAvatar(member);
+    }
+
+    @GatewayEventListener("userUpdate")
+    async onUserUpdate(oldUser: User | PartialUser, newUser: User) {
+        if (newUser.bot || oldUser.avatar === newUser.avatar) return;
+
+        for (const [, guild] of this.client.guilds.cache) {
+            const member = guild.members.cache.get(newUser.id);
+
+            if (member) {
+                await this.scanAvatar(member).catch(logError);
+            }
+        }
+    }
+
     @GatewayEventListener("guildMemberUpdate")
     async onGuildMemberUpdate(oldMember: GuildMember | PartialGuildMember, newMember: GuildMember) {
         if (newMember.user.bot) return;
         const oldStatus = oldMember.presence?.activities.find(a => a.type === ActivityType.Custom);
         const newStatus = newMember.presence?.activities.find(a => a.type === ActivityType.Custom);
+        const avatarChanged = oldMember.avatar !== newMember.avatar;
 
         if (
             oldMember.nickname === newMember.nickname &&
             oldMember.user.username === newMember.user.username &&
-            oldStatus === newStatus
+            oldStatus === newStatus &&
+            !avatarChanged
         ) {
             return;
         }
@@ -47,29 +93,11 @@ export default class ProfileFilter extends Service implements HasEventListeners
         }
 
         const config = this.client.configManager.config[newMember.guild.id]?.profile_filter;
-        const messageFilterConfig = this.client.configManager.config[newMember.guild.id]?.message_filter;
 
         if (!config?.enabled) return;
 
         if (config.scan.length > 0) {
-            const words = config.words ?? [];
-            const tokens = config.tokens ?? [];
-
-            if (
-                config.inherit_from_message_filter?.tokens &&
-                messageFilterConfig?.enabled &&
-                messageFilterConfig?.data?.blocked_tokens
-            ) {
-                tokens.push(...(messageFilterConfig?.data?.blocked_tokens ?? []));
-            }
-
-            if (
-                config.inherit_from_message_filter?.words &&
-                messageFilterConfig?.enabled &&
-                messageFilterConfig?.data?.blocked_words
-            ) {
-                words.push(...(messageFilterConfig?.data?.blocked_words ?? []));
-            }
+            const { words, tokens } = this.getBlockedWordsAndTokens(newMember.guild);
 
             if (
                 config.scan.includes("nickname") &&
@@ -128,6 +156,183 @@ export default class ProfileFilter extends Service implements HasEventListeners
                     return;
                 }
             }
+
+            if (avatarChanged) {
+                await this.scanAvatar(newMember);
+            }
+        }
+    }
+
+    getBlockedWordsAndTokens(guild: Guild) {
+        const config = this.client.configManager.config[guild.id]?.profile_filter;
+        const messageFilterConfig = this.client.configManager.config[guild.id]?.message_filter;
+        const words = [...(config?.words ?? [])];
+        const tokens = [...(config?.tokens ?? [])];
+
+        if (
+            config?.inherit_from_message_filter?.tokens &&
+            messageFilterConfig?.enabled &&
+            messageFilterConfig?.data?.blocked_tokens
+        ) {
+            tokens.push(...(messageFilterConfig?.data?.blocked_tokens ?? []));
+        }
+
+        if (
+            config?.inherit_from_message_filter?.words &&
+            messageFilterConfig?.enabled &&
+            messageFilterConfig?.data?.blocked_words
+        ) {
+            words.push(...(messageFilterConfig?.data?.blocked_words ?? []));
+        }
+
+        return { words, tokens };
+    }
+
+    /**
+     * Scans the avatar of the member for explicit content, and the text in it for blocked words
+     * and tokens. The guild avatar is scanned instead of the user avatar if there is one.
+     * An avatar that was already acted upon is skipped until the member changes it.
+     */
+    async scanAvatar(member: GuildMember) {
+        const config = this.client.configManager.config[member.guild.id]?.profile_filter;
+
+        if (
+            !config?.enabled ||
+            !config.scan.includes("avatar") ||
+            !config.actions?.avatar ||
+            config.actions.avatar === "none"
+        ) {
+            return false;
+        }
+
+        const hash = member.avatar ?? member.user.avatar;
+
+        if (!hash || (await isImmuneToAutoMod(this.client, member, [PermissionFlagsBits.ManageGuild]))) {
+            return false;
+        }
+
+        const where = {
+            guildId_userId: {
+                guildId: member.guild.id,
+                userId: member.id
+            }
+        };
+        const lastAction = await this.client.prisma.profileFilterAvatarAction.findUnique({ where });
+
+        if (lastAction?.avatar === hash) {
+            return false;
+        }
+
+        const nsfw = config.avatar.nsfw && this.client.imageRecognitionService.isNSFWModelLoaded();
+        const cacheKey = `profile_filter_avatar_${hash}_${nsfw}_${config.avatar.ocr}`;
+        const analysis = await cache(
+            cacheKey,
+            () => this.analyzeAvatar(member.displayAvatarURL({ extension: "png", size: 256 }), nsfw, config.avatar.ocr),
+            {
+                ttl: this.avatarCacheTTL,
+                invoke: true
+            }
+        );
+
+        if (!analysis) {
+            // Failed downloads should be retried on the next scan
+            invalidateCache(cacheKey);
+            return false;
+        }
+
+        let reason: string | null = null;
+
+        if (analysis.scores && exceedsNSFWThresholds(analysis.scores, config.avatar.score_thresholds)) {
+            reason = "Your avatar was detected to contain explicit content.";
+        } else if (analysis.text) {
+            const { words, tokens } = this.getBlockedWordsAndTokens(member.guild);
+
+            if (this.findToken(tokens, analysis.text) || this.findWord(words, analysis.text)) {
+                reason = "Your avatar contains a blocked word/token.";
+            }
+        }
+
+        if (!reason) {
+            if (lastAction) {
+                await this.client.prisma.profileFilterAvatarAction.delete({ where }).catch(logError);
+            }
+
+            return false;
+        }
+
+        await this.takeAction(
+            member,
+            config.actions.avatar,
+            "avatar",
+            `${reason} Please change it${config.actions.avatar === "mute" ? " and contact the staff to get unmuted" : ", or we may take further actions"}.`
+        );
+
+        await this.client.prisma.profileFilterAvatarAction.upsert({
+            where,
+            create: {
+                guildId: member.guild.id,
+                userId: member.id,
+                avatar: hash
+            },
+            update: {
+                avatar: hash
+            }
+        });
+
+        return true;
+    }
+
+    async analyzeAvatar(url: string, nsfw: boolean, ocr: boolean): Promise<AvatarAnalysis | null> {
+        const [response, error] = await request({
+            url,
+            method: "GET",
+            responseType: "arraybuffer"
+        });
+
+        if (error || !response) {
+            logError(error);
+            return null;
+        }
+
+        const image = Buffer.from(response.data, "binary");
+        const scores = nsfw
+            ? (await this.client.imageRecognitionService.detectNSFW(image).catch(logError)) ?? null
+            : null;
+        const text = ocr
+            ? (await this.client.imageRecognitionService.recognize(image).catch(logError))?.data.text ?? null
+            : null;
+
+        return { scores, text };
+    }
+
+    /**
+     * Rescans the avatars of all members in the guilds where the rescan interval has passed.
+     * Unchanged avatars are served from the cache.
+     */
+    async rescanAvatars() {
+        for (const [, guild] of this.client.guilds.cache) {
+            const config = this.client.configManager.config[guild.id]?.profile_filter;
+
+            if (!config?.enabled || !config.scan.includes("avatar") || !config.avatar.rescan_interval) {
+                continue;
+            }
+
+            const lastRescan = this.lastRescans.get(guild.id) ?? 0;
+
+            if (lastRescan + config.avatar.rescan_interval > Date.now()) {
+                continue;
+            }
+
+            this.lastRescans.set(guild.id, Date.now());
+            log("Rescanning avatars in guild", guild.id);
+
+            const members = await guild.members.fetch().catch(logError);
+
+            for (const [, member] of members ?? []) {
+                if (!member.user.bot) {
+                    await this.scanAvatar(member).catch(logError);
+                }
+            }
         }
     }
 
@@ -153,7 +358,7 @@ export default class ProfileFilter extends Service implements HasEventListeners
         return null;
     }
 
-    async takeAction(member: GuildMember, action: Actions[keyof Actions], entity: keyof Actions) {
+    async takeAction(member: GuildMember, action: Actions[keyof Actions], entity: keyof Actions, reason?: string) {
         if (action === "mute")
             await this.client.infractionManager.createMemberMute(member, {
                 guild: member.guild,
@@ -161,7 +366,9 @@ export default class ProfileFilter extends Service implements HasEventListeners
                 autoRemoveQueue: true,
                 notifyUser: true,
                 sendLog: true,
-                reason: `Your ${entity} contains a blocked word/token. Please remove it and you'll be unmuted automatically.`
+                reason:
+                    reason ??
+                    `Your ${entity} contains a blocked word/token. Please remove it and you'll be unmuted automatically.`
             });
         else if (action === "warn")
             await this.client.infractionManager.createMemberWarn(member, {
@@ -169,7 +376,9 @@ export default class ProfileFilter extends Service implements HasEventListeners
                 moderator: this.client.user!,
                 notifyUser: true,
                 sendLog: true,
-                reason: `Your ${entity} contains a blocked word/token. Please remove it, or we may take further actions.`
+                reason:
+                    reason ??
+                    `Your ${entity} contains a blocked word/token. Please remove it, or we may take further actions.`
             });
         else log("No action was taken");
     }
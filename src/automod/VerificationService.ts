@@ -19,29 +19,51 @@
 
 import { VerificationEntry } from "@prisma/client";
 import bcrypt from "bcrypt";
+import { createCanvas } from "canvas";
 import { formatDistanceToNowStrict } from "date-fns";
 import {
     APIEmbed,
     ActionRowBuilder,
+    AttachmentBuilder,
     ButtonBuilder,
+    ButtonInteraction,
     ButtonStyle,
     Colors,
     Guild,
     GuildMember,
+    Interaction,
+    ModalBuilder,
+    ModalSubmitInteraction,
     PartialGuildMember,
+    TextInputBuilder,
+    TextInputStyle,
     escapeMarkdown,
     time
 } from "discord.js";
 import jwt from "jsonwebtoken";
 import Service from "../core/Service";
+import { GatewayEventListener } from "../decorators/GatewayEventListener";
 import { HasEventListeners } from "../types/HasEventListeners";
 import { logError } from "../utils/Logger";
+import { generateChallenge, normalizeChallengeAnswer, secureRandom } from "../utils/captcha";
 import { userInfo } from "../utils/embed";
 import { safeChannelFetch, safeMemberFetch } from "../utils/fetch";
 
 export const name = "verification";
 
 export default class VerificationService extends Service implements HasEventListeners {
+    @GatewayEventListener("interactionCreate")
+    async onInteractionCreate(interaction: Interaction) {
+        if (interaction.isButton() && interaction.customId.startsWith("verification__")) {
+            await this.onButtonInteraction(interaction);
+        } else if (
+            interaction.isModalSubmit() &&
+            interaction.customId.startsWith("verification__")
+        ) {
+            await this.onModalSubmit(interaction);
+        }
+    }
+
     // FIXME: do not create doubled entries if the user leaves and rejoins
     async onGuildMemberAdd(member: GuildMember) {
         if (member.user.bot) {
@@ -118,7 +140,11 @@ export default class VerificationService extends Service implements HasEventList
         });
     }
 
-    async onMemberVerificationFail(member: GuildMember, { attempts, guildId }: VerificationEntry, remainingTime: number) {
+    async onMemberVerificationFail(
+        member: GuildMember,
+        { attempts, guildId }: VerificationEntry,
+        remainingTime: number
+    ) {
         const config = this.client.configManager.config[guildId]?.verification;
 
         if (!config) {
@@ -195,7 +221,10 @@ export default class VerificationService extends Service implements HasEventList
     async createDatabaseEntry(member: GuildMember) {
         const config = this.client.configManager.config[member.guild.id]?.verification;
 
-        const seed = await bcrypt.hash((Math.random() * 100000000).toString(), await bcrypt.genSalt());
+        const seed = await bcrypt.hash(
+            (Math.random() * 100000000).toString(),
+            await bcrypt.genSalt()
+        );
         const token = jwt.sign(
             {
                 seed,
@@ -225,7 +254,9 @@ export default class VerificationService extends Service implements HasEventList
             return;
         }
 
-        const channelId = config.logging.channel ?? this.client.configManager.config[guild.id]?.logging?.primary_channel;
+        const channelId =
+            config.logging.channel ??
+            this.client.configManager.config[guild.id]?.logging?.primary_channel;
 
         if (!channelId) {
             return;
@@ -245,6 +276,10 @@ export default class VerificationService extends Service implements HasEventList
     }
 
     sendVerificationDMToMember(member: GuildMember, token: string) {
+        if (this.client.configManager.config[member.guild.id]?.verification?.method === "discord") {
+            return this.sendDiscordVerificationDMToMember(member);
+        }
+
         const url = `${process.env.FRONTEND_URL}/challenge/verify?t=${encodeURIComponent(token)}&u=${member.id}&g=${
             member.guild.id
         }&n=${encodeURIComponent(member.guild.name)}`;
@@ -260,8 +295,8 @@ export default class VerificationService extends Service implements HasEventList
                     description: `
                         Hello **${escapeMarkdown(member.user.username)}**,\n
                         [${member.guild.name}](https://discord.com/channels/${
-                        member.guild.id
-                    }) requires you to verify to continue. Click on the button below to complete verification. Alternatively, you can copy-paste this link into your browser:\n
+                            member.guild.id
+                        }) requires you to verify to continue. Click on the button below to complete verification. Alternatively, you can copy-paste this link into your browser:\n
                         ${url}\n
                         You might be asked to solve a captcha.\n
                         Sincerely,
@@ -269,7 +304,9 @@ export default class VerificationService extends Service implements HasEventList
                     `.replace(/(\r\n|\n)\t+/, "\n"),
                     footer: {
                         text: `You have ${formatDistanceToNowStrict(
-                            Date.now() - (this.client.configManager.config[member.guild.id]?.verification?.max_time ?? 0)
+                            Date.now() -
+                                (this.client.configManager.config[member.guild.id]?.verification
+                                    ?.max_time ?? 0)
                         )} to verify`
                     },
                     timestamp: new Date().toISOString()
@@ -283,6 +320,44 @@ export default class VerificationService extends Service implements HasEventList
         });
     }
 
+    sendDiscordVerificationDMToMember(member: GuildMember) {
+        return member.send({
+            embeds: [
+                {
+                    author: {
+                        icon_url: member.guild.iconURL() ?? undefined,
+                        name: "Verification Required"
+                    },
+                    color: Colors.Gold,
+                    description: `
+                        Hello **${escapeMarkdown(member.user.username)}**,\n
+                        [${member.guild.name}](https://discord.com/channels/${
+                            member.guild.id
+                        }) requires you to verify to continue. Click on the button below and solve the challenge to complete verification.\n
+                        Sincerely,
+                        **The Staff of ${member.guild.name}**
+                    `.replace(/(\r\n|\n)\t+/, "\n"),
+                    footer: {
+                        text: `You have ${formatDistanceToNowStrict(
+                            Date.now() -
+                                (this.client.configManager.config[member.guild.id]?.verification
+                                    ?.max_time ?? 0)
+                        )} to verify`
+                    },
+                    timestamp: new Date().toISOString()
+                }
+            ],
+            components: [
+                new ActionRowBuilder<ButtonBuilder>().addComponents(
+                    new ButtonBuilder()
+                        .setStyle(ButtonStyle.Primary)
+                        .setCustomId(`verification__start__${member.guild.id}`)
+                        .setLabel("Verify")
+                )
+            ]
+        });
+    }
+
     async sendVerificationSuccessDMToMember(member: GuildMember) {
         return member.send({
             embeds: [
@@ -351,7 +426,9 @@ export default class VerificationService extends Service implements HasEventList
         }
 
         const maxAttemptsExcceded =
-            typeof config?.max_attempts === "number" && config?.max_attempts > 0 && entry.attempts > config?.max_attempts;
+            typeof config?.max_attempts === "number" &&
+            config?.max_attempts > 0 &&
+            entry.attempts > config?.max_attempts;
 
         if (entry.token !== token || userIdFromPayload !== userId || maxAttemptsExcceded) {
             const remainingTime =
@@ -385,8 +462,8 @@ export default class VerificationService extends Service implements HasEventList
                             remainingTime === 0
                                 ? "Session expired"
                                 : Number.isFinite(remainingTime)
-                                ? `${formatDistanceToNowStrict(new Date(Date.now() - remainingTime))} remaining`
-                                : "Session never expires"
+                                  ? `${formatDistanceToNowStrict(new Date(Date.now() - remainingTime))} remaining`
+                                  : "Session never expires"
                         })`
                     },
                     {
@@ -458,6 +535,247 @@ export default class VerificationService extends Service implements HasEventList
         };
     }
 
+    checkExpiry(entry: VerificationEntry) {
+        const config = this.client.configManager.config[entry.guildId!]?.verification;
+        return (
+            entry.createdAt.getTime() + (config?.max_time ?? 0) > Date.now() &&
+            entry.attempts <=
+                ((config?.max_attempts ?? 0) === 0
+                    ? Number.POSITIVE_INFINITY
+                    : config!.max_attempts)
+        );
+    }
+
+    /**
+     * Generates a new challenge for the entry. Only a hash of the answer is stored, and every
+     * new challenge replaces the previous one.
+     */
+    async createChallenge(entry: VerificationEntry) {
+        const type =
+            this.client.configManager.config[entry.guildId]?.verification?.challenge_type ??
+            "image";
+        const challenge = generateChallenge(type);
+
+        await this.client.prisma.verificationEntry.update({
+            where: {
+                id: entry.id
+            },
+            data: {
+                challengeAnswer: await bcrypt.hash(
+                    normalizeChallengeAnswer(challenge.answer),
+                    await bcrypt.genSalt()
+                )
+            }
+        });
+
+        return challenge;
+    }
+
+    async createChallengeImage(entry: VerificationEntry) {
+        const { text } = await this.createChallenge(entry);
+        return this.renderChallengeImage(text);
+    }
+
+    renderChallengeImage(text: string) {
+        const canvas = createCanvas(40 + text.length * 32, 90);
+        const context = canvas.getContext("2d");
+        const randomColor = (min: number, max: number) =>
+            `rgb(${[0, 0, 0].map(() => Math.floor(min + secureRandom() * (max - min))).join(", ")})`;
+
+        context.fillStyle = randomColor(220, 255);
+        context.fillRect(0, 0, canvas.width, canvas.height);
+
+        for (let i = 0; i < 6; i++) {
+            context.strokeStyle = randomColor(100, 200);
+            context.lineWidth = 1 + secureRandom() * 2;
+            context.beginPath();
+            context.moveTo(secureRandom() * canvas.width, secureRandom() * canvas.height);
+            context.lineTo(secureRandom() * canvas.width, secureRandom() * canvas.height);
+            context.stroke();
+        }
+
+        context.font = "bold 40px sans-serif";
+        context.textBaseline = "middle";
+
+        for (const [index, character] of [...text].entries()) {
+            context.save();
+            context.translate(24 + index * 32, 45 + (secureRandom() - 0.5) * 16);
+            context.rotate((secureRandom() - 0.5) * 0.6);
+            context.fillStyle = randomColor(10, 110);
+            context.fillText(character, 0, 0);
+            context.restore();
+        }
+
+        for (let i = 0; i < 60; i++) {
+            context.fillStyle = randomColor(50, 200);
+            context.fillRect(secureRandom() * canvas.width, secureRandom() * canvas.height, 2, 2);
+        }
+
+        return canvas.toBuffer("image/png");
+    }
+
+    /**
+     * Checks the answer against the current challenge of the entry. A wrong answer counts as a
+     * failed attempt and invalidates the challenge.
+     */
+    async checkChallengeAnswer(entry: VerificationEntry, answer: string) {
+        if (
+            entry.challengeAnswer &&
+            (await bcrypt.compare(normalizeChallengeAnswer(answer), entry.challengeAnswer))
+        ) {
+            return true;
+        }
+
+        const updatedEntry = await this.client.prisma.verificationEntry.update({
+            where: {
+                id: entry.id
+            },
+            data: {
+                challengeAnswer: null,
+                attempts: {
+                    increment: 1
+                }
+            }
+        });
+
+        const config = this.client.configManager.config[entry.guildId]?.verification;
+        const guild = this.client.guilds.cache.get(entry.guildId);
+        const member = guild ? await safeMemberFetch(guild, entry.userId) : null;
+
+        if (config && member) {
+            const remainingTime =
+                config.max_time === 0
+                    ? Number.POSITIVE_INFINITY
+                    : Math.max(entry.createdAt.getTime() + config.max_time - Date.now(), 0);
+
+            await this.onMemberVerificationFail(member, updatedEntry, remainingTime).catch(
+                logError
+            );
+        }
+
+        return false;
+    }
+
+    protected async findEntryForInteraction(
+        interaction: ButtonInteraction | ModalSubmitInteraction,
+        guildId: string
+    ) {
+        const entry = await this.client.prisma.verificationEntry.findFirst({
+            where: {
+                userId: interaction.user.id,
+                guildId
+            },
+            orderBy: {
+                id: "desc"
+            }
+        });
+
+        if (!entry || !this.checkExpiry(entry)) {
+            await interaction.reply({
+                content: "Your verification session has expired or does not exist.",
+                ephemeral: true
+            });
+
+            return null;
+        }
+
+        return entry;
+    }
+
+    protected createAnswerModal(guildId: string, label: string) {
+        return new ModalBuilder()
+            .setCustomId(`verification__submit__${guildId}`)
+            .setTitle("Verification")
+            .addComponents(
+                new ActionRowBuilder<TextInputBuilder>().addComponents(
+                    new TextInputBuilder()
+                        .setCustomId("answer")
+                        .setLabel(label)
+                        .setStyle(TextInputStyle.Short)
+                        .setMinLength(1)
+                        .setMaxLength(20)
+                        .setRequired(true)
+                )
+            );
+    }
+
+    async onButtonInteraction(interaction: ButtonInteraction) {
+        const [, action, guildId] = interaction.customId.split("__");
+        const entry = await this.findEntryForInteraction(interaction, guildId);
+
+        if (!entry) {
+            return;
+        }
+
+        if (action === "answer") {
+            await interaction.showModal(
+                this.createAnswerModal(guildId, "Enter the characters shown in the image")
+            );
+            return;
+        }
+
+        const challenge = await this.createChallenge(entry);
+
+        if (
+            this.client.configManager.config[guildId]?.verification?.challenge_type === "arithmetic"
+        ) {
+            await interaction.showModal(
+                this.createAnswerModal(guildId, `What is ${challenge.text.replace(" = ?", "")}?`)
+            );
+            return;
+        }
+
+        await interaction.reply({
+            content: "Click on the button below and enter the characters shown in this image.",
+            files: [
+                new AttachmentBuilder(this.renderChallengeImage(challenge.text), {
+                    name: "challenge.png"
+                })
+            ],
+            components: [
+                new ActionRowBuilder<ButtonBuilder>().addComponents(
+                    new ButtonBuilder()
+                        .setStyle(ButtonStyle.Primary)
+                        .setCustomId(`verification__answer__${guildId}`)
+                        .setLabel("Answer")
+                )
+            ]
+        });
+    }
+
+    async onModalSubmit(interaction: ModalSubmitInteraction) {
+        const [, , guildId] = interaction.customId.split("__");
+        const entry = await this.findEntryForInteraction(interaction, guildId);
+
+        if (!entry) {
+            return;
+        }
+
+        await interaction.deferReply();
+
+        if (
+            !(await this.checkChallengeAnswer(
+                entry,
+                interaction.fields.getTextInputValue("answer")
+            ))
+        ) {
+            await interaction.editReply(
+                "That answer is incorrect. Click on the **Verify** button again to get a new challenge."
+            );
+            return;
+        }
+
+        const result = await this.attemptToVerifyUserByToken(
+            entry.userId,
+            entry.token,
+            "Discord Challenge"
+        );
+
+        await interaction.editReply(
+            result ? "You have been verified successfully." : "We were unable to verify you."
+        );
+    }
+
     async onMemberVerify(member: GuildMember) {
         const config = this.client.configManager.config[member.guild.id]?.verification;
 
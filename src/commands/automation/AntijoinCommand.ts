@@ -17,8 +17,14 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { PermissionsBitField } from "discord.js";
-import Command, { CommandMessage, CommandReturn, ValidationRule } from "../../core/Command";
+import { EmbedBuilder, PermissionsBitField, SlashCommandBuilder, User, time } from "discord.js";
+import Command, {
+    BasicCommandContext,
+    CommandMessage,
+    CommandReturn,
+    ValidationRule
+} from "../../core/Command";
+import { stringToTimeInterval } from "../../utils/datetime";
 
 export default class AntijoinCommand extends Command {
     public readonly name = "antijoin";
@@ -27,15 +33,111 @@ export default class AntijoinCommand extends Command {
     public readonly aliases = ["raidmode"];
 
     public readonly description = "Turn anti join mode on or off";
+    public readonly detailedDescription =
+        "Turns the raid mode on or off. While it is on, new members are kicked automatically. The raid mode ends by itself if a duration is given.";
+    public readonly argumentSyntaxes = ["[on|off|status] [duration]"];
+    public readonly slashCommandBuilder = new SlashCommandBuilder()
+        .addStringOption(option =>
+            option
+                .setName("action")
+                .setDescription(
+                    "Whether to turn it on or off, or show the status. Toggles by default"
+                )
+                .addChoices(
+                    { name: "On", value: "on" },
+                    { name: "Off", value: "off" },
+                    { name: "Status", value: "status" }
+                )
+        )
+        .addStringOption(option =>
+            option.setName("duration").setDescription("Turn the raid mode off after this duration")
+        );
 
-    async execute(message: CommandMessage): Promise<CommandReturn> {
-        const enabled = this.client.antijoin.toggle(message.guild!);
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const action =
+            (context.isLegacy ? context.args[0] : context.options.getString("action")) ?? "toggle";
+        const durationString = context.isLegacy
+            ? context.args.slice(1).join(" ")
+            : context.options.getString("duration");
+        const moderator = message.member!.user as User;
 
-        return {
-            __reply: true,
-            content:
-                `${this.emoji("check")} Turned ${enabled ? "on" : "off"} anti-join system.` +
-                (enabled ? " New users will automatically be kicked." : "")
-        };
+        if (!["on", "off", "status", "toggle"].includes(action)) {
+            await this.error(message, "The action must be one of `on`, `off` or `status`!");
+            return;
+        }
+
+        if (action === "status") {
+            return await this.status(message);
+        }
+
+        let duration: number | undefined;
+
+        if (durationString) {
+            const { error, result } = stringToTimeInterval(durationString, { milliseconds: true });
+
+            if (error) {
+                await this.error(message, error);
+                return;
+            }
+
+            duration = result;
+        }
+
+        await this.deferIfInteraction(message);
+
+        const enabled =
+            action === "toggle" ? !this.client.antijoin.map.get(message.guildId!) : action === "on";
+
+        if (enabled) {
+            await this.client.antijoin.enable(message.guild!, { duration, moderator });
+        } else {
+            await this.client.antijoin.disable(message.guild!, moderator);
+        }
+
+        await this.deferredReply(
+            message,
+            `${this.emoji("check")} Turned ${enabled ? "on" : "off"} anti-join system.` +
+                (enabled ? " New users will automatically be kicked." : "") +
+                (enabled && duration
+                    ? ` It will be turned off ${time(new Date(Date.now() + duration), "R")}.`
+                    : "")
+        );
+    }
+
+    private async status(message: CommandMessage) {
+        const raidMode = await this.client.antijoin.getRaidMode(message.guild!);
+
+        await this.deferredReply(message, {
+            embeds: [
+                new EmbedBuilder({
+                    title: "Raid mode",
+                    color: raidMode ? 0xf14a60 : 0x007bff,
+                    description: raidMode
+                        ? `Raid mode has been active since ${time(raidMode.createdAt, "R")}.`
+                        : "Raid mode is not active.",
+                    fields: raidMode
+                        ? [
+                              {
+                                  name: "Anti Join",
+                                  value: raidMode.antijoin ? "On" : "Off",
+                                  inline: true
+                              },
+                              {
+                                  name: "Server Locked",
+                                  value: raidMode.locked ? "Yes" : "No",
+                                  inline: true
+                              },
+                              {
+                                  name: "Expires",
+                                  value: raidMode.expiresAt
+                                      ? time(raidMode.expiresAt, "R")
+                                      : "Never",
+                                  inline: true
+                              }
+                          ]
+                        : []
+                }).setTimestamp()
+            ]
+        });
     }
 }
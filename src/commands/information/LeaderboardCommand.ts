@@ -0,0 +1,89 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { EmbedBuilder } from "discord.js";
+import Command, { CommandMessage, CommandReturn } from "../../core/Command";
+import Pagination from "../../utils/Pagination";
+
+export default class LeaderboardCommand extends Command {
+    public readonly name = "leaderboard";
+    public readonly permissions = [];
+    public readonly aliases = ["lb", "levels"];
+
+    public readonly description = "Shows the XP leaderboard of this server.";
+
+    async execute(message: CommandMessage): Promise<CommandReturn> {
+        if (!this.client.configManager.config[message.guildId!]?.leveling?.enabled) {
+            await this.error(message, "The leveling system is not enabled in this server.");
+            return;
+        }
+
+        await this.deferIfInteraction(message);
+
+        const guild = message.guild!;
+        const pagination = new Pagination(null, {
+            channelId: message.channelId!,
+            guildId: guild.id,
+            limit: 10,
+            userId: message.member!.user.id,
+            client: this.client,
+            timeout: 180_000,
+            maxData: () =>
+                this.client.prisma.userLevel.count({
+                    where: {
+                        guildId: guild.id
+                    }
+                }),
+            fetchData: ({ limit, offset }) =>
+                this.client.prisma.userLevel.findMany({
+                    where: {
+                        guildId: guild.id
+                    },
+                    orderBy: {
+                        xp: "desc"
+                    },
+                    skip: offset,
+                    take: limit
+                }),
+            embedBuilder({ data, currentPage, maxPages }) {
+                let description = "";
+                let position = (currentPage - 1) * 10;
+
+                for (const entry of data) {
+                    description += `**#${++position}** <@${entry.userId}> • Level **${entry.level}** • ${entry.xp} XP\n`;
+                }
+
+                return new EmbedBuilder({
+                    author: {
+                        name: `Leaderboard of ${guild.name}`,
+                        icon_url: guild.iconURL() ?? undefined
+                    },
+                    description: description === "" ? "*Nothing to show*" : description,
+                    footer: {
+                        text: `Page ${currentPage} of ${maxPages}`
+                    },
+                    color: 0x007bff
+                });
+            }
+        });
+
+        const reply = await this.deferredReply(message, await pagination.getMessageOptions(1));
+        await pagination.start(reply);
+    }
+}
@@ -0,0 +1,127 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { SlashCommandBuilder, User } from "discord.js";
+import Command, {
+    ArgumentType,
+    BasicCommandContext,
+    CommandMessage,
+    CommandReturn,
+    ValidationRule
+} from "../../core/Command";
+import { levelProgress } from "../../utils/levels";
+import { logError } from "../../utils/Logger";
+
+export default class RankCommand extends Command {
+    public readonly name = "rank";
+    public readonly validationRules: ValidationRule[] = [
+        {
+            types: [ArgumentType.User],
+            name: "user",
+            optional: true,
+            errors: {
+                "type:invalid": "Invalid user given",
+                "entity:null": "That user could not be found!"
+            },
+            entity: {
+                notNull: true
+            }
+        }
+    ];
+    public readonly permissions = [];
+    public readonly aliases = ["level"];
+
+    public readonly description = "Shows your or someone else's level and rank.";
+    public readonly argumentSyntaxes = ["[user]"];
+    public readonly slashCommandBuilder = new SlashCommandBuilder().addUserOption(option =>
+        option.setName("user").setDescription("The target user")
+    );
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        if (!this.client.configManager.config[message.guildId!]?.leveling?.enabled) {
+            await this.error(message, "The leveling system is not enabled in this server.");
+            return;
+        }
+
+        await this.deferIfInteraction(message);
+
+        const user: User =
+            (context.isLegacy ? context.parsedNamedArgs.user : context.options.getUser("user")) ??
+            message.member!.user;
+        const entry = await this.client.levelingService.getUserLevel(message.guildId!, user.id);
+
+        if (!entry) {
+            await this.error(
+                message,
+                user.id === message.member!.user.id
+                    ? "You don't have any XP yet. Start chatting to earn some!"
+                    : "That user doesn't have any XP yet."
+            );
+            return;
+        }
+
+        const rank = await this.client.levelingService.getRank(message.guildId!, entry.xp);
+
+        try {
+            const card = await this.client.levelingService.renderRankCard(user, entry, rank);
+
+            await this.deferredReply(message, {
+                files: [
+                    {
+                        attachment: card,
+                        name: "rank.png"
+                    }
+                ]
+            });
+        } catch (e) {
+            logError(e);
+
+            const { level, current, required } = levelProgress(entry.xp);
+
+            await this.deferredReply(message, {
+                embeds: [
+                    {
+                        author: {
+                            name: user.username,
+                            icon_url: user.displayAvatarURL()
+                        },
+                        fields: [
+                            {
+                                name: "Rank",
+                                value: `#${rank}`,
+                                inline: true
+                            },
+                            {
+                                name: "Level",
+                                value: `${level}`,
+                                inline: true
+                            },
+                            {
+                                name: "XP",
+                                value: `${current} / ${required}`,
+                                inline: true
+                            }
+                        ],
+                        color: 0x007bff
+                    }
+                ]
+            });
+        }
+    }
+}
@@ -0,0 +1,50 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ChatInputCommandInteraction, SlashCommandBuilder } from "discord.js";
+import Command, { CommandReturn } from "../../core/Command";
+
+export default class AppealCommand extends Command {
+    public readonly name = "appeal";
+    public readonly permissions = [];
+    public readonly supportsLegacy = false;
+    public readonly slashCommandBuilder = new SlashCommandBuilder()
+        .addIntegerOption(option =>
+            option
+                .setName("case")
+                .setDescription("The case number of the infraction you want to appeal")
+                .setMinValue(1)
+                .setRequired(true)
+        )
+        .addStringOption(option =>
+            option
+                .setName("server")
+                .setDescription(
+                    "The ID of the server where you received the infraction. Required in DMs"
+                )
+        )
+        .setDMPermission(true);
+    public readonly description = "Appeal an infraction you've received.";
+    public readonly detailedDescription =
+        "Appeal an infraction you've received. This command can also be used in DMs, which is useful if you're banned.";
+
+    async execute(interaction: ChatInputCommandInteraction): Promise<CommandReturn> {
+        await this.client.appealService.onAppealCommand(interaction);
+    }
+}
@@ -0,0 +1,123 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { AutoModHitSource } from "@prisma/client";
+import { EmbedBuilder, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import Command, {
+    ArgumentType,
+    BasicCommandContext,
+    CommandMessage,
+    CommandReturn,
+    ValidationRule
+} from "../../core/Command";
+
+export default class AutoModStatsCommand extends Command {
+    public readonly name = "automodstats";
+    public readonly validationRules: ValidationRule[] = [
+        {
+            types: [ArgumentType.Integer],
+            optional: true,
+            name: "days",
+            errors: {
+                "type:invalid": "Please specify a valid number of days!",
+                "number:range": "The number of days must be between 1 and 90"
+            },
+            number: {
+                min: 1,
+                max: 90
+            }
+        }
+    ];
+    public readonly permissions = [PermissionFlagsBits.ManageMessages];
+    public readonly aliases = ["automodstat", "amstats"];
+    public readonly slashCommandBuilder = new SlashCommandBuilder().addIntegerOption(option =>
+        option
+            .setName("days")
+            .setDescription("The number of days to show the statistics of. Defaults to 7")
+            .setMinValue(1)
+            .setMaxValue(90)
+    );
+    public readonly description = "View which AutoMod rules are triggering, and how often.";
+    public readonly argumentSyntaxes = ["[days]"];
+
+    protected readonly sourceNames: Record<AutoModHitSource, string> = {
+        MESSAGE_RULE: "Message rule",
+        MESSAGE_FILTER: "Message filter",
+        FILE_FILTER: "File filter",
+        AI_AUTOMOD: "AI AutoMod"
+    };
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        await this.deferIfInteraction(message);
+
+        const days: number =
+            (context.isLegacy
+                ? context.parsedNamedArgs.days
+                : context.options.getInteger("days")) ?? 7;
+        const stats = await this.client.autoModStatsService.getStats(message.guildId!, days);
+
+        if (stats.total === 0) {
+            await this.error(
+                message,
+                `AutoMod has not taken any action in the last ${days} day(s).`
+            );
+            return;
+        }
+
+        const rules = stats.rules
+            .slice(0, 10)
+            .map(
+                ({ source, rule, count, falsePositives }) =>
+                    `\`${rule.length > 50 ? `${rule.substring(0, 50)}...` : rule}\` (${
+                        this.sourceNames[source]
+                    }): **${count}** hit(s)${
+                        falsePositives > 0 ? `, **${falsePositives}** false positive(s)` : ""
+                    }`
+            )
+            .join("\n");
+
+        const timeline = stats.timeline
+            .slice(-14)
+            .map(
+                ({ date, count, falsePositives }) =>
+                    `\`${date}\`: **${count}**${falsePositives > 0 ? ` (${falsePositives} FP)` : ""}`
+            )
+            .join("\n");
+
+        await this.deferredReply(message, {
+            embeds: [
+                new EmbedBuilder({
+                    title: `AutoMod statistics for the last ${days} day(s)`,
+                    color: 0x007bff,
+                    description: `**${stats.total}** hit(s) in total, **${stats.falsePositives}** marked as false positive(s).`,
+                    fields: [
+                        {
+                            name: "Top Rules",
+                            value: rules
+                        },
+                        {
+                            name: stats.timeline.length > 14 ? "Last 14 Days" : "Daily Hits",
+                            value: timeline
+                        }
+                    ]
+                }).setTimestamp()
+            ]
+        });
+    }
+}
@@ -234,7 +234,7 @@ export default class BanCommand extends Command {
                                     : "*No message will be deleted*"
                             }
                         ],
-                        id: `${infraction.id}`,
+                        id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
                         reason: infraction.reason
                     })
                 ]
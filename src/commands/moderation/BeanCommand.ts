@@ -93,15 +93,12 @@ export default class BeanCommand extends Command {
             ? context.parsedNamedArgs.reason
             : context.options.getString("reason");
 
-        const { id, reason: finalReason } = await this.client.infractionManager.createUserBean(
-            user,
-            {
-                reason,
-                guild: message.guild!,
-                moderator: message.member!.user as User,
-                abortOnTemplateNotFound: true
-            }
-        );
+        const infraction = await this.client.infractionManager.createUserBean(user, {
+            reason,
+            guild: message.guild!,
+            moderator: message.member!.user as User,
+            abortOnTemplateNotFound: true
+        });
 
         await this.deferredReply(
             message,
@@ -111,9 +108,9 @@ export default class BeanCommand extends Command {
                         moderator: message.member!.user as User,
                         user,
                         actionDoneName: "beaned",
-                        id,
+                        id: this.client.infractionManager.getCaseNumber(infraction),
                         color: 0x007bff,
-                        reason: finalReason
+                        reason: infraction.reason
                     })
                 ]
             },
@@ -60,10 +60,11 @@ export default class InfractionClearCommand extends Command {
 
         if (!user) return;
 
-        const { count } = await this.client.prisma.infraction.deleteMany({
+        const infractions = await this.client.prisma.infraction.findMany({
             where: {
                 userId: user.id,
                 guildId: message.guildId!,
+                deletedAt: null,
                 type: type
                     ? {
                           in: [type as InfractionType]
@@ -71,6 +72,7 @@ export default class InfractionClearCommand extends Command {
                     : undefined
             }
         });
+        const count = await this.client.infractionManager.deleteInfractions(infractions, message.member!.user as User);
 
         if (count === 0) {
             await this.deferredReply(message, "No infractions found for this user!");
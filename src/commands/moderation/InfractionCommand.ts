@@ -21,6 +21,7 @@ import { InfractionType } from "@prisma/client";
 import { MessageMentions, PermissionsBitField, SlashCommandBuilder } from "discord.js";
 import Command, { ArgumentType, BasicCommandContext, CommandMessage, CommandReturn, ValidationRule } from "../../core/Command";
 import { safeUserFetch } from "../../utils/fetch";
+import { infractionImportMappers } from "../../utils/infractionTransfer";
 import { isSnowflake } from "../../utils/utils";
 
 const infractionTypes = [
@@ -76,8 +77,34 @@ const infractionTypes = [
 
 export default class InfractionCommand extends Command {
     public readonly name = "infraction";
-    public readonly subcommands = ["view", "create", "edit", "delete", "list", "clear", "s", "l"];
-    public readonly subcommandShortList = ["view", "create", "edit", "delete", "list", "clear"];
+    public readonly subcommands = [
+        "view",
+        "create",
+        "edit",
+        "delete",
+        "restore",
+        "history",
+        "list",
+        "clear",
+        "export",
+        "import",
+        "search",
+        "s",
+        "l"
+    ];
+    public readonly subcommandShortList = [
+        "view",
+        "create",
+        "edit",
+        "delete",
+        "restore",
+        "history",
+        "list",
+        "clear",
+        "export",
+        "import",
+        "search"
+    ];
     public readonly subCommandCheck = true;
     public readonly validationRules: ValidationRule[] = [
         {
@@ -102,13 +129,13 @@ export default class InfractionCommand extends Command {
             subcommand
                 .setName("view")
                 .setDescription("View information about an infraction")
-                .addIntegerOption(option => option.setName("id").setDescription("The infraction ID").setRequired(true))
+                .addIntegerOption(option => option.setName("id").setDescription("The case number of the infraction").setRequired(true))
         )
         .addSubcommand(subcommand =>
             subcommand
                 .setName("edit")
                 .setDescription("Update reason/duration of an infraction")
-                .addIntegerOption(option => option.setName("id").setDescription("The infraction ID").setRequired(true))
+                .addIntegerOption(option => option.setName("id").setDescription("The case number of the infraction").setRequired(true))
                 .addStringOption(option => option.setName("new_reason").setDescription("New reason to set"))
                 .addStringOption(option => option.setName("new_duration").setDescription("New duration to set"))
                 .addBooleanOption(option =>
@@ -121,7 +148,19 @@ export default class InfractionCommand extends Command {
             subcommand
                 .setName("delete")
                 .setDescription("Delete an infraction")
-                .addIntegerOption(option => option.setName("id").setDescription("The infraction ID").setRequired(true))
+                .addIntegerOption(option => option.setName("id").setDescription("The case number of the infraction").setRequired(true))
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("restore")
+                .setDescription("Restore a deleted infraction")
+                .addIntegerOption(option => option.setName("id").setDescription("The case number of the infraction").setRequired(true))
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("history")
+                .setDescription("View the revision history of an infraction")
+                .addIntegerOption(option => option.setName("id").setDescription("The case number of the infraction").setRequired(true))
         )
         .addSubcommand(subcommand =>
             subcommand
@@ -157,6 +196,84 @@ export default class InfractionCommand extends Command {
                 .addStringOption(option =>
                     option.setName("duration").setDescription("The duration of this infraction (e.g. 45, 1h30m)")
                 )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("search")
+                .setDescription("Search infractions")
+                .addUserOption(option => option.setName("user").setDescription("Filter by user"))
+                .addStringOption(option =>
+                    option
+                        .setName("type")
+                        .setDescription("Filter by infraction type")
+                        .setChoices(...infractionTypes)
+                )
+                .addUserOption(option => option.setName("moderator").setDescription("Filter by responsible moderator"))
+                .addStringOption(option =>
+                    option
+                        .setName("after")
+                        .setDescription("Only show infractions created after this date (e.g. 2024-01-31)")
+                )
+                .addStringOption(option =>
+                    option.setName("before").setDescription("Only show infractions created before this date")
+                )
+                .addStringOption(option =>
+                    option
+                        .setName("status")
+                        .setDescription("Filter by status")
+                        .setChoices({ name: "Active", value: "active" }, { name: "Expired", value: "expired" })
+                )
+                .addStringOption(option =>
+                    option.setName("reason").setDescription("Only show infractions whose reason contains this text")
+                )
+                .addBooleanOption(option =>
+                    option.setName("has_queue").setDescription("Filter by whether the infraction has a linked queue")
+                )
+                .addStringOption(option =>
+                    option
+                        .setName("sort")
+                        .setDescription("The field to sort by, defaults to creation date")
+                        .setChoices(
+                            { name: "Creation date", value: "created_at" },
+                            { name: "Case number", value: "case_number" },
+                            { name: "Expiry date", value: "expires_at" }
+                        )
+                )
+                .addStringOption(option =>
+                    option
+                        .setName("order")
+                        .setDescription("The sort order, defaults to descending")
+                        .setChoices({ name: "Ascending", value: "asc" }, { name: "Descending", value: "desc" })
+                )
+                .addBooleanOption(option =>
+                    option.setName("csv").setDescription("Send the results as a CSV file instead")
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("export")
+                .setDescription("Export infractions as a file")
+                .addUserOption(option => option.setName("user").setDescription("Only export infractions of this user"))
+                .addStringOption(option =>
+                    option
+                        .setName("format")
+                        .setDescription("The file format, defaults to JSON")
+                        .setChoices({ name: "JSON", value: "json" }, { name: "CSV", value: "csv" })
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("import")
+                .setDescription("Import infractions from a file")
+                .addAttachmentOption(option =>
+                    option.setName("file").setDescription("The JSON or CSV file to import").setRequired(true)
+                )
+                .addStringOption(option =>
+                    option
+                        .setName("format")
+                        .setDescription("The format of the file, detected automatically by default")
+                        .setChoices(...infractionImportMappers.map(({ name }) => ({ name, value: name })))
+                )
         );
 
     async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
@@ -198,14 +315,14 @@ export default class InfractionCommand extends Command {
 
                 context.parsedNamedArgs.user = user;
             }
-        } else {
+        } else if (!["export", "import", "search"].includes(subcommand)) {
             if (context.isLegacy && !context.args[1]) {
-                await message.reply(`${this.emoji("error")} Please provide an infraction ID to perform this action!`);
+                await message.reply(`${this.emoji("error")} Please provide a case number to perform this action!`);
                 return;
             }
 
             if (context.isLegacy && isNaN(parseInt(context.args[1]))) {
-                await message.reply(`${this.emoji("error")} Please provide a __valid__ infraction ID to perform this action!`);
+                await message.reply(`${this.emoji("error")} Please provide a __valid__ case number to perform this action!`);
                 return;
             }
 
@@ -105,6 +105,8 @@ export default class InfractionCreateCommand extends Command {
             }
         });
 
+        this.client.infractionManager.dispatchInfractionCreate(infraction);
+
         await this.client.loggerService.logInfractionCreate(infraction, user, interaction.user);
 
         await interaction.editReply({
@@ -17,7 +17,7 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { PermissionsBitField } from "discord.js";
+import { PermissionsBitField, User } from "discord.js";
 import Command, { ArgumentType, BasicCommandContext, CommandMessage, CommandReturn, ValidationRule } from "../../core/Command";
 
 export default class InfractionDeleteCommand extends Command {
@@ -27,8 +27,8 @@ export default class InfractionDeleteCommand extends Command {
             types: [ArgumentType.Integer],
             name: "id",
             errors: {
-                required: "Please provide an infraction ID!",
-                "type:invalid": "Please provide a __valid__ infraction ID!"
+                required: "Please provide a case number!",
+                "type:invalid": "Please provide a __valid__ case number!"
             }
         }
     ];
@@ -36,25 +36,29 @@ export default class InfractionDeleteCommand extends Command {
     public readonly permissionMode = "or";
 
     public readonly description = "Delete infractions.";
-    public readonly detailedDescription = "Delete an infraction for an user.";
-    public readonly argumentSyntaxes = ["<infraction_id>"];
+    public readonly detailedDescription =
+        "Delete an infraction for an user. Deleted infractions are kept in the revision history and can be restored.";
+    public readonly argumentSyntaxes = ["<case_number>"];
 
     async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
         const id = context.isLegacy ? context.parsedNamedArgs.id : context.options.getInteger("id", true);
 
-        const infraction = await this.client.prisma.infraction.findFirst({
-            where: { id, guildId: message.guildId! }
-        });
+        const infraction = await this.client.infractionManager.getInfractionByCaseNumber(message.guildId!, id, false);
 
         if (!infraction) {
-            await this.deferredReply(message, `${this.emoji("error")} Could not find an infraction with that ID!`);
+            await this.deferredReply(message, `${this.emoji("error")} Could not find an infraction with that case number!`);
             return;
         }
 
-        await this.client.prisma.infraction.deleteMany({
-            where: { id, guildId: message.guildId! }
-        });
+        const moderator = message.member!.user as User;
 
-        await this.success(message, `Successfully deleted infraction with ID \`${infraction.id}\`.`);
+        const caseNumber = this.client.infractionManager.getCaseNumber(infraction);
+
+        await this.client.infractionManager.deleteInfraction(infraction, moderator);
+
+        await this.success(
+            message,
+            `Successfully deleted infraction case \`#${caseNumber}\`. You can restore it with \`infraction restore ${caseNumber}\`.`
+        );
     }
 }
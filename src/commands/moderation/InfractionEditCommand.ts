@@ -36,7 +36,7 @@ export default class InfractionEditCommand extends Command {
     public readonly description = "Edit infractions.";
     public readonly detailedDescription =
         "Update an infraction with a new reason or duration or both.";
-    public readonly argumentSyntaxes = ["<infraction_id> [new_reason] [new_duration]"];
+    public readonly argumentSyntaxes = ["<case_number> [new_reason] [new_duration]"];
 
     async execute(interaction: ChatInputCommandInteraction): Promise<CommandReturn> {
         const id = interaction.options.getInteger("id", true);
@@ -64,64 +64,33 @@ export default class InfractionEditCommand extends Command {
             return;
         }
 
-        const infraction = await this.client.prisma.infraction.findFirst({
-            where: { id, guildId: interaction.guildId! }
-        });
+        const infraction = await this.client.infractionManager.getInfractionByCaseNumber(
+            interaction.guildId!,
+            id,
+            false
+        );
 
         if (!infraction) {
             await interaction.editReply(
-                `${this.emoji("error")} Could not find an infraction with that ID!`
+                `${this.emoji("error")} Could not find an infraction with that case number!`
             );
             return;
         }
 
-        if (
-            newDurationSeconds?.result &&
-            infraction.expiresAt &&
-            infraction.expiresAt.getTime() <= Date.now()
-        ) {
-            await interaction.editReply(
-                `${this.emoji(
-                    "error"
-                )} That infraction is expired, so you can't change it's duration!`
-            );
-            return;
-        }
-
-        if (
-            newDurationSeconds?.result &&
-            infraction.createdAt.getTime() + newDurationSeconds?.result * 1000 <= Date.now()
-        ) {
-            await interaction.editReply(
-                `${this.emoji(
-                    "error"
-                )} That duration makes the infraction expire in the past, which is not possible! Please make sure the time of infraction creation plus the new duration is greater than the current time!`
-            );
-            return;
-        }
-
-        if (newDurationSeconds?.result && infraction.expiresAt === null) {
-            await interaction.editReply(
-                `${this.emoji(
-                    "error"
-                )} This infraction did not have a duration in the first place, so you can't set one now.`
-            );
+        const durationError = newDurationSeconds?.result
+            ? this.client.infractionManager.getInfractionDurationError(
+                  infraction,
+                  newDurationSeconds.result
+              )
+            : null;
 
+        if (durationError) {
+            await interaction.editReply(`${this.emoji("error")} ${durationError}`);
             return;
         }
 
         const user = await safeUserFetch(this.client, infraction.userId);
 
-        if (newDurationSeconds && infraction.queueId) {
-            const queue = this.client.queueManager.queues.get(`${infraction.queueId}`);
-
-            if (queue) {
-                await queue.updateTime(
-                    new Date(infraction.createdAt.getTime() + newDurationSeconds.result * 1000)
-                );
-            }
-        }
-
         if (!silent) {
             await user?.send({
                 embeds: [
@@ -154,8 +123,8 @@ export default class InfractionEditCommand extends Command {
                                   ]
                                 : []),
                             {
-                                name: "Infraction ID",
-                                value: id.toString()
+                                name: "Case",
+                                value: `#${id}`
                             }
                         ]
                     }).setTimestamp()
@@ -171,15 +140,14 @@ export default class InfractionEditCommand extends Command {
             );
         }
 
-        await this.client.prisma.infraction.update({
-            data: {
+        await this.client.infractionManager.editInfraction(
+            infraction,
+            {
                 reason: newReason ?? undefined,
-                expiresAt: newDurationSeconds
-                    ? new Date(infraction.createdAt.getTime() + newDurationSeconds.result * 1000)
-                    : undefined
+                duration: newDurationSeconds?.result
             },
-            where: { id }
-        });
+            interaction.user
+        );
 
         await interaction.editReply({
             embeds: [
@@ -210,8 +178,8 @@ export default class InfractionEditCommand extends Command {
                               ]
                             : []),
                         {
-                            name: "ID",
-                            value: id.toString()
+                            name: "Case",
+                            value: `#${id}`
                         },
                         {
                             name: "Notifying User?",
@@ -0,0 +1,81 @@
+/**
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { MessageMentions, PermissionsBitField } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn, ValidationRule } from "../../core/Command";
+import { InfractionFileFormat } from "../../utils/infractionTransfer";
+import { isSnowflake } from "../../utils/utils";
+
+export default class InfractionExportCommand extends Command {
+    public readonly name = "infraction__export";
+    public readonly validationRules: ValidationRule[] = [];
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+
+    public readonly description = "Export infractions.";
+    public readonly detailedDescription =
+        "Export the infractions of this server, or of a single user, as a JSON or CSV file that can be imported again.";
+    public readonly argumentSyntaxes = ["[UserID|UserMention] [json|csv]"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        let userId: string | undefined;
+        let format: InfractionFileFormat = "json";
+
+        if (context.isLegacy) {
+            for (const arg of context.args.slice(1)) {
+                if (arg === "json" || arg === "csv") {
+                    format = arg;
+                } else if (isSnowflake(arg)) {
+                    userId = arg;
+                } else if (MessageMentions.UsersPattern.test(arg)) {
+                    userId = arg.substring(arg.includes("!") ? 3 : 2, arg.length - 1);
+                } else {
+                    await this.error(
+                        message,
+                        "Please provide a valid user mention or ID, or a format (`json` or `csv`)!"
+                    );
+                    return;
+                }
+            }
+        } else {
+            userId = context.options.getUser("user")?.id;
+            format = (context.options.getString("format") as InfractionFileFormat | null) ?? "json";
+        }
+
+        const { count, content } = await this.client.infractionManager.exportInfractions(
+            message.guildId!,
+            format,
+            userId
+        );
+
+        if (count === 0) {
+            await this.deferredReply(message, userId ? "No infractions found for this user!" : "No infractions found!");
+            return;
+        }
+
+        await this.deferredReply(message, {
+            content: `${this.emoji("check")} Successfully exported ${count} infraction${count === 1 ? "" : "s"}.`,
+            files: [
+                {
+                    attachment: Buffer.from(content),
+                    name: `infractions-${userId ?? message.guildId}.${format}`
+                }
+            ]
+        });
+    }
+}
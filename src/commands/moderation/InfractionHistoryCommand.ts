@@ -0,0 +1,101 @@
+/**
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { EmbedBuilder, PermissionsBitField, time } from "discord.js";
+import Command, { ArgumentType, BasicCommandContext, CommandMessage, CommandReturn, ValidationRule } from "../../core/Command";
+import Pagination from "../../utils/Pagination";
+import { formatInfractionRevision } from "../../utils/infractions";
+
+export default class InfractionHistoryCommand extends Command {
+    public readonly name = "infraction__history";
+    public readonly validationRules: ValidationRule[] = [
+        {
+            types: [ArgumentType.Integer],
+            name: "id",
+            errors: {
+                required: "Please provide a case number!",
+                "type:invalid": "Please provide a __valid__ case number!"
+            }
+        }
+    ];
+    public readonly permissions = [PermissionsBitField.Flags.ModerateMembers, PermissionsBitField.Flags.ViewAuditLog];
+    public readonly permissionMode = "or";
+
+    public readonly description = "View the revision history of an infraction.";
+    public readonly detailedDescription =
+        "Shows who edited, deleted or restored an infraction and when, including the previous and new values.";
+    public readonly argumentSyntaxes = ["<case_number>"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const id = context.isLegacy ? context.parsedNamedArgs.id : context.options.getInteger("id", true);
+
+        const infraction = await this.client.infractionManager.getInfractionByCaseNumber(message.guildId!, id);
+
+        if (!infraction) {
+            await this.deferredReply(message, `${this.emoji("error")} Could not find an infraction with that case number!`);
+            return;
+        }
+
+        const revisions = await this.client.infractionManager.getInfractionRevisions(infraction.id, infraction.guildId);
+        const entries = [
+            {
+                description: `Infraction created (${this.client.infractionManager.typeToString(infraction.type)})`,
+                moderatorId: infraction.moderatorId,
+                createdAt: infraction.createdAt
+            },
+            ...revisions.map(revision => ({
+                description: formatInfractionRevision(revision),
+                moderatorId: revision.moderatorId,
+                createdAt: revision.createdAt
+            }))
+        ];
+
+        const timestamp = new Date().toISOString();
+        const pagination = new Pagination(entries, {
+            channelId: message.channelId!,
+            guildId: message.guildId!,
+            limit: 5,
+            userId: message.member!.user.id,
+            client: this.client,
+            timeout: 180_000,
+            embedBuilder({ data, currentPage, maxPages }) {
+                let description = "";
+
+                for (const entry of data) {
+                    description += `### ${time(entry.createdAt, "F")} (${time(entry.createdAt, "R")})\n`;
+                    description += `${entry.description}\n`;
+                    description += `**Responsible Moderator:** <@${entry.moderatorId}>\n`;
+                }
+
+                return new EmbedBuilder({
+                    title: `History of Infraction #${this.client.infractionManager.getCaseNumber(infraction)}${infraction.deletedAt ? " (Deleted)" : ""}`,
+                    description,
+                    footer: {
+                        text: `Page ${currentPage} of ${maxPages} • ${revisions.length} revisions total`
+                    },
+                    color: 0x007bff,
+                    timestamp
+                });
+            }
+        });
+
+        const reply = await this.deferredReply(message, await pagination.getMessageOptions(1));
+        await pagination.start(reply);
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Attachment, Message, PermissionsBitField } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn, ValidationRule } from "../../core/Command";
+import { logError } from "../../utils/Logger";
+import { formatInfractionImportReport, infractionImportMappers } from "../../utils/infractionTransfer";
+import { request } from "../../utils/utils";
+
+export default class InfractionImportCommand extends Command {
+    public readonly name = "infraction__import";
+    public readonly validationRules: ValidationRule[] = [];
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+
+    public readonly description = "Import infractions.";
+    public readonly detailedDescription =
+        "Import infractions from a JSON or CSV file. SudoBot exports and Dyno, Carl-bot or Zeppelin style exports are supported. The format is detected automatically if not specified, and infractions that were already imported are skipped.";
+    public readonly argumentSyntaxes = ["[format]"];
+
+    protected readonly maxFileSize = 10 * 1024 * 1024;
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const attachment: Attachment | null | undefined =
+            message instanceof Message ? message.attachments.first() : message.options.getAttachment("file", true);
+        const format = context.isLegacy ? context.args[1] : context.options.getString("format");
+
+        if (!attachment) {
+            await this.error(message, "Please attach a file to import infractions from!");
+            return;
+        }
+
+        if (attachment.size > this.maxFileSize) {
+            await this.error(message, "The given file is too large to import!");
+            return;
+        }
+
+        if (format && !infractionImportMappers.some(mapper => mapper.name === format)) {
+            await this.error(
+                message,
+                `Invalid format provided! The available formats are: \`${infractionImportMappers
+                    .map(mapper => mapper.name)
+                    .join("`, `")}\`.`
+            );
+            return;
+        }
+
+        const [response, error] = await request({
+            url: attachment.url,
+            method: "GET",
+            responseType: "text"
+        });
+
+        if (error || !response) {
+            logError(error);
+            await this.error(message, "Failed to download the given file!");
+            return;
+        }
+
+        const report = await this.client.infractionManager.importInfractions(message.guildId!, response.data, format);
+        const invalid = report.errors.filter(error => error.index >= 0).length;
+
+        await this.deferredReply(message, {
+            content:
+                `${this.emoji(report.imported > 0 || report.errors.length === 0 ? "check" : "error")} ` +
+                `Imported **${report.imported}** of ${report.total} entries (format: \`${report.format ?? "unknown"}\`). ` +
+                `Skipped ${report.duplicates} already imported and ${invalid} invalid entries, see the attached report for details.`,
+            files: [
+                {
+                    attachment: Buffer.from(formatInfractionImportReport(report)),
+                    name: "import-report.txt"
+                }
+            ]
+        });
+    }
+}
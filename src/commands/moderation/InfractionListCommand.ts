@@ -58,7 +58,7 @@ export default class InfractionListCommand extends Command {
             : context.options.getUser("user", true);
 
         const infractions = await this.client.prisma.infraction.findMany({
-            where: { userId: user.id, guildId: message.guildId! },
+            where: { userId: user.id, guildId: message.guildId!, deletedAt: null },
             orderBy: { createdAt: "desc" }
         });
 
@@ -79,7 +79,9 @@ export default class InfractionListCommand extends Command {
                 let description = "";
 
                 for (const infraction of data) {
-                    description += `### Infraction #${infraction.id}\n`;
+                    description += `### Infraction #${this.client.infractionManager.getCaseNumber(infraction)}${
+                        infraction.caseNumber ? ` (Case #${infraction.caseNumber})` : ""
+                    }\n`;
                     description += `**Type:** ${
                         infraction.type === InfractionType.BULK_DELETE_MESSAGE
                             ? "Bulk message delete"
@@ -0,0 +1,58 @@
+/**
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { PermissionsBitField, User } from "discord.js";
+import Command, { ArgumentType, BasicCommandContext, CommandMessage, CommandReturn, ValidationRule } from "../../core/Command";
+
+export default class InfractionRestoreCommand extends Command {
+    public readonly name = "infraction__restore";
+    public readonly validationRules: ValidationRule[] = [
+        {
+            types: [ArgumentType.Integer],
+            name: "id",
+            errors: {
+                required: "Please provide a case number!",
+                "type:invalid": "Please provide a __valid__ case number!"
+            }
+        }
+    ];
+    public readonly permissions = [PermissionsBitField.Flags.ModerateMembers, PermissionsBitField.Flags.ViewAuditLog];
+    public readonly permissionMode = "or";
+
+    public readonly description = "Restore deleted infractions.";
+    public readonly detailedDescription = "Restore an infraction that was previously deleted.";
+    public readonly argumentSyntaxes = ["<case_number>"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const id = context.isLegacy ? context.parsedNamedArgs.id : context.options.getInteger("id", true);
+
+        const infraction = await this.client.infractionManager.getInfractionByCaseNumber(message.guildId!, id, true);
+
+        if (!infraction) {
+            await this.deferredReply(message, `${this.emoji("error")} Could not find a deleted infraction with that case number!`);
+            return;
+        }
+
+        const moderator = message.member!.user as User;
+
+        await this.client.infractionManager.restoreInfraction(infraction, moderator);
+
+        await this.success(message, `Successfully restored infraction case \`#${this.client.infractionManager.getCaseNumber(infraction)}\`.`);
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { EmbedBuilder, PermissionsBitField, escapeMarkdown, time } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn, ValidationRule } from "../../core/Command";
+import Pagination from "../../utils/Pagination";
+import {
+    buildInfractionSearchQuery,
+    parseInfractionSearchArgs,
+    parseInfractionSearchFilters
+} from "../../utils/infractionSearch";
+import { serializeInfractions } from "../../utils/infractionTransfer";
+
+export default class InfractionSearchCommand extends Command {
+    public readonly name = "infraction__search";
+    public readonly validationRules: ValidationRule[] = [];
+    public readonly permissions = [PermissionsBitField.Flags.ModerateMembers, PermissionsBitField.Flags.ViewAuditLog];
+    public readonly permissionMode = "or";
+
+    public readonly description = "Search infractions.";
+    public readonly detailedDescription =
+        "Search infractions by user, type, moderator, date range, status, reason and linked queue. Filters are given as `key:value` pairs, and any other text is matched against the reason. Use `--csv` to get the results as a CSV file.";
+    public readonly argumentSyntaxes = [
+        "[user:<user>] [type:<type>] [moderator:<user>] [after:<date>] [before:<date>] [status:active|expired] [has_queue:true|false] [sort:created_at|case_number|expires_at] [order:asc|desc] [--csv] [reason]"
+    ];
+
+    protected readonly maxCSVRows = 10_000;
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const csv = context.isLegacy ? context.args.includes("--csv") : !!context.options.getBoolean("csv");
+        const result = context.isLegacy
+            ? parseInfractionSearchArgs(context.args.slice(1).filter(arg => arg !== "--csv"))
+            : parseInfractionSearchFilters(
+                  Object.fromEntries(
+                      [
+                          ["user", context.options.getUser("user")?.id],
+                          ["type", context.options.getString("type")],
+                          ["moderator", context.options.getUser("moderator")?.id],
+                          ["after", context.options.getString("after")],
+                          ["before", context.options.getString("before")],
+                          ["status", context.options.getString("status")],
+                          ["reason", context.options.getString("reason")],
+                          ["has_queue", context.options.getBoolean("has_queue")],
+                          ["sort", context.options.getString("sort")],
+                          ["order", context.options.getString("order")]
+                      ].filter(([, value]) => value !== null && value !== undefined)
+                  )
+              );
+
+        if (result.error !== undefined) {
+            await this.error(message, result.error);
+            return;
+        }
+
+        const { where, orderBy } = buildInfractionSearchQuery(message.guildId!, result.filters);
+        const count = await this.client.prisma.infraction.count({ where });
+
+        if (count === 0) {
+            await this.deferredReply(message, "No infractions found matching the given filters!");
+            return;
+        }
+
+        if (csv) {
+            const infractions = await this.client.prisma.infraction.findMany({
+                where,
+                orderBy,
+                take: this.maxCSVRows
+            });
+
+            await this.deferredReply(message, {
+                content: `${this.emoji("check")} Found ${count} infraction${count === 1 ? "" : "s"}${
+                    count > this.maxCSVRows ? `, only the first ${this.maxCSVRows} are included` : ""
+                }.`,
+                files: [
+                    {
+                        attachment: Buffer.from(serializeInfractions(infractions, "csv")),
+                        name: "infractions.csv"
+                    }
+                ]
+            });
+
+            return;
+        }
+
+        const timestamp = new Date().toISOString();
+        const pagination = new Pagination(null, {
+            channelId: message.channelId!,
+            guildId: message.guildId!,
+            limit: 5,
+            userId: message.member!.user.id,
+            client: this.client,
+            timeout: 180_000,
+            maxData: () => Promise.resolve(count),
+            fetchData: ({ limit, offset }) =>
+                this.client.prisma.infraction.findMany({
+                    where,
+                    orderBy,
+                    skip: offset,
+                    take: limit
+                }),
+            embedBuilder: ({ data, currentPage, maxPages }) => {
+                let description = "";
+
+                for (const infraction of data) {
+                    description += `### Case #${this.client.infractionManager.getCaseNumber(infraction)}\n`;
+                    description += `**Type:** ${this.client.infractionManager.typeToString(infraction.type)}\n`;
+                    description += `**User:** <@${infraction.userId}> (${infraction.userId})\n`;
+                    description += `**Responsible Moderator:** <@${infraction.moderatorId}>\n`;
+                    description += `**Reason:** ${
+                        infraction.reason
+                            ? escapeMarkdown(this.truncate(infraction.reason, 200))
+                            : "*No reason provided*"
+                    }\n`;
+                    description += `**Created At:** ${time(infraction.createdAt, "F")} (${time(infraction.createdAt, "R")})\n`;
+
+                    if (infraction.expiresAt) {
+                        description += `**Expire${infraction.expiresAt.getTime() <= Date.now() ? "d" : "s"} At:** ${time(
+                            infraction.expiresAt,
+                            "R"
+                        )}\n`;
+                    }
+                }
+
+                return new EmbedBuilder({
+                    title: "Infraction Search Results",
+                    description,
+                    footer: {
+                        text: `Page ${currentPage} of ${maxPages} • ${count} infractions total`
+                    },
+                    color: 0x007bff,
+                    timestamp
+                });
+            }
+        });
+
+        const reply = await this.deferredReply(message, await pagination.getMessageOptions(1));
+        await pagination.start(reply);
+    }
+
+    protected truncate(content: string, length: number) {
+        return content.length > length ? `${content.substring(0, length - 3)}...` : content;
+    }
+}
@@ -28,8 +28,8 @@ export default class InfractionViewCommand extends Command {
             types: [ArgumentType.Integer],
             name: "id",
             errors: {
-                required: "Please provide an infraction ID!",
-                "type:invalid": "Please provide a __valid__ infraction ID!"
+                required: "Please provide a case number!",
+                "type:invalid": "Please provide a __valid__ case number!"
             }
         }
     ];
@@ -37,18 +37,16 @@ export default class InfractionViewCommand extends Command {
     public readonly permissionMode = "or";
     public readonly aliases: string[] = ["iv"];
 
-    public readonly description = "View an infraction by ID.";
-    public readonly argumentSyntaxes = ["<InfractionID>"];
+    public readonly description = "View an infraction by case number.";
+    public readonly argumentSyntaxes = ["<CaseNumber>"];
 
     async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
         const id = context.isLegacy ? context.parsedNamedArgs.id : context.options.getInteger("id", true);
 
-        const infraction = await this.client.prisma.infraction.findFirst({
-            where: { id, guildId: message.guildId! }
-        });
+        const infraction = await this.client.infractionManager.getInfractionByCaseNumber(message.guildId!, id, false);
 
         if (!infraction) {
-            await this.deferredReply(message, `${this.emoji("error")} Could not find an infraction with that ID!`);
+            await this.deferredReply(message, `${this.emoji("error")} Could not find an infraction with that case number!`);
             return;
         }
 
@@ -133,7 +133,7 @@ export default class KickCommand extends Command {
                         moderator: message.member!.user as User,
                         user: member.user,
                         actionDoneName: "kicked",
-                        id: infraction.id,
+                        id: this.client.infractionManager.getCaseNumber(infraction),
                         reason: infraction.reason,
                         description: `**${escapeMarkdown(
                             member.user.tag
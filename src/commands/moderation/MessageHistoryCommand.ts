@@ -0,0 +1,215 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { TrackedMessage } from "@prisma/client";
+import { formatDistanceToNowStrict } from "date-fns";
+import {
+    APIEmbedField,
+    EmbedBuilder,
+    PermissionFlagsBits,
+    SlashCommandBuilder,
+    time
+} from "discord.js";
+import Command, {
+    ArgumentType,
+    BasicCommandContext,
+    CommandMessage,
+    CommandReturn,
+    ValidationRule
+} from "../../core/Command";
+import Pagination from "../../utils/Pagination";
+import { isSnowflake } from "../../utils/utils";
+
+export default class MessageHistoryCommand extends Command {
+    public readonly name = "messagehistory";
+    public readonly validationRules: ValidationRule[] = [
+        {
+            types: [ArgumentType.String],
+            name: "target",
+            errors: {
+                required: "Please provide a message ID or a user!",
+                "type:invalid": "Please provide a valid message ID or user!"
+            }
+        }
+    ];
+    public readonly permissions = [PermissionFlagsBits.ManageMessages];
+    public readonly aliases = ["msghistory", "revisions"];
+
+    public readonly description =
+        "Shows the revision history of a tracked message or a user's tracked messages.";
+    public readonly argumentSyntaxes = ["<messageId|user>"];
+    public readonly slashCommandBuilder = new SlashCommandBuilder().addStringOption(option =>
+        option
+            .setName("target")
+            .setDescription("A message ID, or a user mention/ID")
+            .setRequired(true)
+    );
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        if (!this.client.messageTrackingService.isEnabled(message.guildId!)) {
+            await this.error(message, "Message tracking is not enabled in this server.");
+            return;
+        }
+
+        const target: string = context.isLegacy
+            ? context.parsedNamedArgs.target
+            : context.options.getString("target", true);
+        const id = isSnowflake(target)
+            ? target
+            : target.substring(target.includes("!") ? 3 : 2, target.length - 1);
+
+        if (!isSnowflake(id)) {
+            await this.error(message, "Please provide a valid message ID or user!");
+            return;
+        }
+
+        await this.deferIfInteraction(message);
+
+        const trackedMessage = await this.client.messageTrackingService.getMessage(id);
+
+        if (trackedMessage && trackedMessage.guildId === message.guildId) {
+            await this.deferredReply(message, {
+                embeds: [await this.createRevisionEmbed(trackedMessage)]
+            });
+
+            return;
+        }
+
+        const guildId = message.guildId!;
+        const where = {
+            guildId,
+            userId: id
+        };
+
+        if ((await this.client.prisma.trackedMessage.count({ where })) === 0) {
+            await this.error(message, "No tracked message or user was found with the given ID.");
+            return;
+        }
+
+        const user = await this.client.users.fetch(id).catch(() => null);
+        const pagination = new Pagination(null, {
+            channelId: message.channelId!,
+            guildId,
+            limit: 5,
+            userId: message.member!.user.id,
+            client: this.client,
+            timeout: 180_000,
+            maxData: () => this.client.prisma.trackedMessage.count({ where }),
+            fetchData: ({ limit, offset }) =>
+                this.client.prisma.trackedMessage.findMany({
+                    where,
+                    orderBy: {
+                        createdAt: "desc"
+                    },
+                    skip: offset,
+                    take: limit
+                }),
+            embedBuilder: ({ data, currentPage, maxPages }) =>
+                new EmbedBuilder({
+                    author: {
+                        name: `Tracked messages of ${user?.username ?? id}`,
+                        icon_url: user?.displayAvatarURL()
+                    },
+                    fields: data.map(trackedMessage => ({
+                        name: `${trackedMessage.messageId}${
+                            trackedMessage.deletedAt ? " (deleted)" : ""
+                        }`,
+                        value: `${this.truncate(trackedMessage.content || "*No content*", 900)}\n<#${
+                            trackedMessage.channelId
+                        }> • ${(trackedMessage.revisions as unknown[]).length} edit(s) • ${time(
+                            trackedMessage.createdAt,
+                            "R"
+                        )}`
+                    })),
+                    description: data.length === 0 ? "*Nothing to show*" : undefined,
+                    footer: {
+                        text: `Page ${currentPage} of ${maxPages}`
+                    },
+                    color: 0x007bff
+                })
+        });
+
+        const reply = await this.deferredReply(message, await pagination.getMessageOptions(1));
+        await pagination.start(reply);
+    }
+
+    protected async createRevisionEmbed(trackedMessage: TrackedMessage) {
+        const user = await this.client.users.fetch(trackedMessage.userId).catch(() => null);
+        const revisions = this.client.messageTrackingService.getRevisions(trackedMessage);
+        const fields: APIEmbedField[] = [];
+        let length = 0;
+
+        /**
+         * The newest revisions are added first, until either the field limit or the character
+         * budget of the embed is reached.
+         */
+        for (let index = revisions.length - 1; index >= 0 && fields.length < 20; index--) {
+            const revision = revisions[index];
+            const field = {
+                name: `${
+                    index === revisions.length - 1
+                        ? "Current"
+                        : index === 0
+                          ? "Original"
+                          : `Revision #${index + 1}`
+                } • ${formatDistanceToNowStrict(new Date(revision.editedAt), { addSuffix: true })}`,
+                value: this.truncate(
+                    `${this.truncate(revision.content || "*No content*", 900)}${
+                        revision.attachments.length > 0
+                            ? `\n**Attachments:** ${revision.attachments
+                                  .map(attachment => attachment.name)
+                                  .join(", ")}`
+                            : ""
+                    }`,
+                    1024
+                )
+            };
+
+            length += field.name.length + field.value.length;
+
+            if (length > 5000) {
+                break;
+            }
+
+            fields.unshift(field);
+        }
+
+        return new EmbedBuilder({
+            author: {
+                name: user?.username ?? trackedMessage.userId,
+                icon_url: user?.displayAvatarURL()
+            },
+            description: `Message \`${trackedMessage.messageId}\` in <#${trackedMessage.channelId}>${
+                trackedMessage.deletedAt ? `, deleted ${time(trackedMessage.deletedAt, "R")}` : ""
+            }.`,
+            fields,
+            footer: {
+                text:
+                    fields.length < revisions.length
+                        ? `Showing the latest ${fields.length} of ${revisions.length} version(s)`
+                        : `${revisions.length} version(s) total`
+            },
+            color: 0x007bff
+        }).setTimestamp(trackedMessage.createdAt);
+    }
+
+    protected truncate(content: string, length: number) {
+        return content.length > length ? `${content.substring(0, length - 3)}...` : content;
+    }
+}
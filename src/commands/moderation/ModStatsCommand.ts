@@ -67,7 +67,8 @@ export default class ModStatsCommand extends Command {
         const infractionCount = await this.client.prisma.infraction.count({
             where: {
                 moderatorId: user.id,
-                guildId: message.guildId!
+                guildId: message.guildId!,
+                deletedAt: null
             }
         });
 
@@ -181,6 +182,7 @@ export default class ModStatsCommand extends Command {
                     where: {
                         moderatorId: user.id,
                         guildId: message.guildId!,
+                        deletedAt: null,
                         createdAt: {
                             gte:
                                 filter === "all"
@@ -211,6 +213,7 @@ export default class ModStatsCommand extends Command {
                     where: {
                         moderatorId: user.id,
                         guildId: message.guildId!,
+                        deletedAt: null,
                         createdAt: {
                             gte:
                                 filter === "all"
@@ -236,7 +239,7 @@ export default class ModStatsCommand extends Command {
                 let description = "";
 
                 for (const infraction of data) {
-                    description += `### Infraction #${infraction.id}\n`;
+                    description += `### Infraction #${this.client.infractionManager.getCaseNumber(infraction)}\n`;
                     description += `**Type**: ${
                         infraction.type === InfractionType.BULK_DELETE_MESSAGE
                             ? "Bulk message delete"
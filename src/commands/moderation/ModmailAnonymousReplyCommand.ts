@@ -0,0 +1,28 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import ModmailReplyCommand from "./ModmailReplyCommand";
+
+export default class ModmailAnonymousReplyCommand extends ModmailReplyCommand {
+    public readonly name = "areply";
+    public readonly aliases = ["ar", "anonreply"];
+    public readonly description =
+        "Anonymously replies to the user of the modmail thread in the current channel.";
+    protected readonly anonymous = true;
+}
@@ -0,0 +1,72 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { GuildMember, Message, SlashCommandBuilder } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+
+export default class ModmailCloseCommand extends Command {
+    public readonly name = "close";
+    public readonly permissions = [];
+    public readonly aliases = ["mclose"];
+    public readonly description = "Closes the modmail thread in the current channel.";
+    public readonly argumentSyntaxes = ["[reason]"];
+    public readonly slashCommandBuilder = new SlashCommandBuilder().addStringOption(option =>
+        option.setName("reason").setDescription("The reason for closing the thread")
+    );
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const session = this.client.modmailService.getSessionByThread(message.channelId!);
+
+        if (!session) {
+            await this.error(message, "This channel is not a modmail thread!");
+            return;
+        }
+
+        if (!this.client.modmailService.isStaff(message.member as GuildMember)) {
+            await this.error(message, "You don't have permission to close modmail threads!");
+            return;
+        }
+
+        await this.deferIfInteraction(message);
+
+        const reason = context.isLegacy
+            ? (message as Message).content
+                  .substring(context.prefix.length)
+                  .trimStart()
+                  .replace(/^\S+/, "")
+                  .trim()
+            : context.options.getString("reason");
+
+        const { error } = await this.client.modmailService.close(
+            session,
+            message.guild!,
+            (message.member as GuildMember).user,
+            reason || undefined
+        );
+
+        if (error) {
+            await this.error(message, error);
+            return;
+        }
+
+        if (!context.isLegacy) {
+            await this.success(message, "The modmail thread has been closed.");
+        }
+    }
+}
@@ -0,0 +1,92 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { GuildMember, Message, SlashCommandBuilder } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+import { logError } from "../../utils/Logger";
+
+export default class ModmailReplyCommand extends Command {
+    public readonly name: string = "reply";
+    public readonly permissions = [];
+    public readonly aliases = ["r"];
+    public readonly description: string =
+        "Replies to the user of the modmail thread in the current channel.";
+    public readonly argumentSyntaxes = ["<message>"];
+    public readonly slashCommandBuilder = new SlashCommandBuilder()
+        .addStringOption(option =>
+            option
+                .setName("content")
+                .setDescription("The message to send")
+                .setMaxLength(4000)
+                .setRequired(true)
+        )
+        .addAttachmentOption(option =>
+            option.setName("attachment").setDescription("A file to send along with the message")
+        );
+
+    protected readonly anonymous: boolean = false;
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const session = this.client.modmailService.getSessionByThread(message.channelId!);
+
+        if (!session) {
+            await this.error(message, "This channel is not a modmail thread!");
+            return;
+        }
+
+        if (!this.client.modmailService.isStaff(message.member as GuildMember)) {
+            await this.error(message, "You don't have permission to reply to modmail threads!");
+            return;
+        }
+
+        await this.deferIfInteraction(message, { ephemeral: true });
+
+        const content = context.isLegacy
+            ? (message as Message).content
+                  .substring(context.prefix.length)
+                  .trimStart()
+                  .replace(/^\S+/, "")
+                  .trim()
+            : context.options.getString("content", true);
+        const attachment = context.isLegacy ? null : context.options.getAttachment("attachment");
+
+        const { error } = await this.client.modmailService.reply({
+            session,
+            member: message.member as GuildMember,
+            content: content || undefined,
+            attachments: context.isLegacy
+                ? [...(message as Message).attachments.values()]
+                : attachment
+                  ? [attachment]
+                  : [],
+            anonymous: this.anonymous
+        });
+
+        if (error) {
+            await this.error(message, error);
+            return;
+        }
+
+        if (context.isLegacy) {
+            await (message as Message).delete().catch(logError);
+        } else {
+            await this.success(message, "Message sent.");
+        }
+    }
+}
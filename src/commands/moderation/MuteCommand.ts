@@ -172,6 +172,7 @@ export default class MuteCommand extends Command {
             id,
             result,
             error,
+            infraction,
             reason: finalReason
         } = await this.client.infractionManager.createMemberMute(member, {
             guild: message.guild!,
@@ -211,7 +212,7 @@ export default class MuteCommand extends Command {
                                 : ""
                         }`,
                         actionDoneName: "muted",
-                        id,
+                        id: this.client.infractionManager.getCaseNumber(infraction!),
                         reason: finalReason,
                         fields: [
                             {
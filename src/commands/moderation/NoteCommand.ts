@@ -80,7 +80,7 @@ export default class NoteCreateCommand extends Command {
             );
         }
 
-        const { id, reason: finalReason } = await this.client.prisma.infraction.create({
+        const infraction = await this.client.prisma.infraction.create({
             data: {
                 guildId: message.guildId!,
                 moderatorId: message.member!.user.id,
@@ -90,13 +90,15 @@ export default class NoteCreateCommand extends Command {
             }
         });
 
+        this.client.infractionManager.dispatchInfractionCreate(infraction);
+
         await this.deferredReply(message, {
             embeds: [
                 await createModerationEmbed({
                     user,
                     moderator: message.member!.user as User,
-                    id,
-                    reason: finalReason,
+                    id: this.client.infractionManager.getCaseNumber(infraction),
+                    reason: infraction.reason,
                     actionDoneName: "noted"
                 })
             ]
@@ -0,0 +1,80 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import Command, {
+    ArgumentType,
+    BasicCommandContext,
+    CommandMessage,
+    CommandReturn,
+    ValidationRule
+} from "../../core/Command";
+
+export default class RaidCommand extends Command {
+    public readonly name = "raid";
+    public readonly subcommands = ["review"];
+    public readonly subCommandCheck = true;
+    public readonly validationRules: ValidationRule[] = [
+        {
+            types: [ArgumentType.String],
+            errors: {
+                required: `Please provide a valid subcommand! The valid commands are: \`${this.subcommands.join(
+                    "`, `"
+                )}\``,
+                "type:invalid": "Please provide a valid subcommand!"
+            },
+            name: "subcommand"
+        }
+    ];
+    public readonly permissions = [PermissionsBitField.Flags.BanMembers];
+    public readonly description = "Manage the raid waves detected in this server.";
+    public readonly slashCommandBuilder = new SlashCommandBuilder().addSubcommand(subcommand =>
+        subcommand
+            .setName("review")
+            .setDescription("Shows a raid wave, and confirms or undoes the action taken on it")
+            .addIntegerOption(option =>
+                option.setName("id").setDescription("The raid wave ID. Defaults to the latest one")
+            )
+            .addStringOption(option =>
+                option
+                    .setName("action")
+                    .setDescription("Confirm the raid wave, or undo the action taken on it")
+                    .addChoices(
+                        { name: "Confirm", value: "confirm" },
+                        { name: "Undo", value: "undo" }
+                    )
+            )
+    );
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const subcommand = context.isLegacy
+            ? context.parsedNamedArgs.subcommand
+            : context.options.getSubcommand(true);
+        const command = this.client.commands.get(`raid__${subcommand}`);
+
+        if (!command) {
+            await this.error(message, this.validationRules[0].errors!.required!);
+            return;
+        }
+
+        if (context.isLegacy) context.args.shift();
+
+        return await command.execute(message, context);
+    }
+}
@@ -0,0 +1,144 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { EmbedBuilder, PermissionsBitField, User, time } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+import { formatRaidWaveMembers } from "../../utils/raid";
+
+export default class RaidReviewCommand extends Command {
+    public readonly name = "raid__review";
+    public readonly permissions = [PermissionsBitField.Flags.BanMembers];
+    public readonly description =
+        "Shows a raid wave, and confirms or undoes the action taken on its members.";
+    public readonly argumentSyntaxes = ["[waveID] [confirm|undo]"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        let id: number | undefined;
+        let operation: string | undefined | null;
+
+        if (context.isLegacy) {
+            const [first, second] = context.args;
+
+            if (first && /^\d+$/.test(first)) {
+                id = parseInt(first);
+                operation = second;
+            } else {
+                operation = first;
+            }
+        } else {
+            id = context.options.getInteger("id") ?? undefined;
+            operation = context.options.getString("action");
+        }
+
+        if (operation && operation !== "confirm" && operation !== "undo") {
+            await this.error(message, "The action must be either `confirm` or `undo`!");
+            return;
+        }
+
+        await this.deferIfInteraction(message);
+
+        const wave = await this.client.antiraid.getWave(message.guildId!, id);
+
+        if (!wave) {
+            await this.error(
+                message,
+                id === undefined
+                    ? "No raid waves have been detected in this server."
+                    : "Could not find a raid wave with that ID!"
+            );
+            return;
+        }
+
+        if (operation) {
+            const result = await this.client.antiraid.reviewWave(
+                message.guild!,
+                wave,
+                message.member!.user as User,
+                operation as "confirm" | "undo"
+            );
+
+            if (result.error) {
+                await this.error(message, result.error);
+                return;
+            }
+
+            await this.deferredReply(
+                message,
+                operation === "confirm"
+                    ? `${this.emoji("check")} Raid wave **#${wave.id}** has been confirmed.`
+                    : `${this.emoji("check")} Raid wave **#${wave.id}** has been undone.${
+                          wave.action === "kick"
+                              ? " Kicked members can not be brought back."
+                              : wave.action === "none"
+                              ? ""
+                              : ` Reverted the action on **${result.count}** member(s).`
+                      }`
+            );
+
+            return;
+        }
+
+        const members = this.client.antiraid.getWaveMembers(wave);
+        const description = formatRaidWaveMembers(members);
+
+        await this.deferredReply(message, {
+            embeds: [
+                new EmbedBuilder({
+                    title: `Raid wave #${wave.id}`,
+                    color: wave.status === "UNDONE" ? 0x007bff : 0xf14a60,
+                    description,
+                    fields: [
+                        {
+                            name: "Status",
+                            value: wave.status[0] + wave.status.substring(1).toLowerCase(),
+                            inline: true
+                        },
+                        {
+                            name: "Action",
+                            value: wave.action,
+                            inline: true
+                        },
+                        {
+                            name: "Wave Score",
+                            value: `${wave.score}`,
+                            inline: true
+                        },
+                        {
+                            name: "Detected",
+                            value: time(wave.createdAt, "R"),
+                            inline: true
+                        },
+                        ...(wave.reviewedById
+                            ? [
+                                  {
+                                      name: "Reviewed By",
+                                      value: `<@${wave.reviewedById}>`,
+                                      inline: true
+                                  }
+                              ]
+                            : [])
+                    ],
+                    footer: {
+                        text: `${members.length} member(s)`
+                    }
+                }).setTimestamp()
+            ]
+        });
+    }
+}
@@ -95,6 +95,11 @@ export default class SnipeCommand extends Command implements HasEventListeners {
     async execute(message: CommandMessage, context: AnyCommandContext): Promise<CommandReturn> {
         const index = context.isLegacy ? (context.parsedNamedArgs.index ?? 1) - 1 : 0;
         const editSnipe = context.isLegacy && ["es", "editsnipe", "esnipe", "ces", "ceditsnipe"].includes(context.argv[0]);
+
+        if (this.client.messageTrackingService.isEnabled(message.guildId!)) {
+            return await this.executeFromStore(message, context, index, editSnipe);
+        }
+
         const messages = (editSnipe ? this.lastEditedMessages : this.lastDeletedMessages).get(message.guildId!);
         const lastMessage = editSnipe
             ? (messages?.[index] as [MessageInfo, MessageInfo])?.[1]
@@ -169,4 +174,87 @@ export default class SnipeCommand extends Command implements HasEventListeners {
             ]
         };
     }
+
+    protected async executeFromStore(
+        message: CommandMessage,
+        context: AnyCommandContext,
+        index: number,
+        editSnipe: boolean
+    ): Promise<CommandReturn> {
+        const type = editSnipe ? "edit" : "delete";
+        const count = await this.client.messageTrackingService.getSnipeCount(message.guildId!, type);
+
+        if (count > 0 && index >= count) {
+            await this.error(
+                message,
+                `Invalid message index - only ${count} ${editSnipe ? "edited" : "deleted"} message${
+                    count === 1 ? " is" : "s are"
+                } available to snipe.`
+            );
+            return;
+        }
+
+        const trackedMessage = await this.client.messageTrackingService.getSnipedMessage(message.guildId!, type, index);
+
+        if (!trackedMessage) {
+            await this.error(message, `No ${editSnipe ? "edited" : "deleted"} message was recorded yet.`);
+            return;
+        }
+
+        if (context.isLegacy && ["clearsnipe", "cs", "delsnipe", "csnipe", "ces", "ceditsnipe"].includes(context.argv[0])) {
+            const hasValue = context.args[0] !== undefined;
+
+            await this.client.messageTrackingService.clearSnipes(
+                message.guildId!,
+                type,
+                hasValue ? trackedMessage.id : undefined
+            );
+
+            await this.success(
+                message,
+                hasValue ? "Removed the given sniped message for this server." : "Cleared sniped messages for this server."
+            );
+            return;
+        }
+
+        const author = await this.client.users.fetch(trackedMessage.userId).catch(() => null);
+        const revisions = this.client.messageTrackingService.getRevisions(trackedMessage);
+        const date = editSnipe ? trackedMessage.editedAt : trackedMessage.deletedAt;
+
+        return {
+            __reply: true,
+            embeds: [
+                new EmbedBuilder({
+                    author: {
+                        name: author?.username ?? "Unknown",
+                        iconURL: author?.displayAvatarURL()
+                    },
+                    color: Math.floor(Math.random() * 0xffffff),
+                    footer: {
+                        text: `Sniped${
+                            date
+                                ? ` • ${editSnipe ? "Edited" : "Deleted"} ${formatDistanceToNowStrict(date, { addSuffix: true })}`
+                                : ""
+                        } • ${count} ${editSnipe ? "edited" : "deleted"} message${count === 1 ? "" : "s"} total`
+                    },
+                    ...(editSnipe
+                        ? {
+                              fields: [
+                                  {
+                                      name: "Before",
+                                      value: revisions.at(-2)?.content || "*No content*"
+                                  },
+                                  {
+                                      name: "After",
+                                      value: trackedMessage.content || "*No content*"
+                                  }
+                              ]
+                          }
+                        : {
+                              description: trackedMessage.content || "*No content*"
+                          })
+                })
+            ]
+        };
+    }
 }
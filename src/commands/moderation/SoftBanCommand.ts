@@ -216,7 +216,7 @@ export default class SoftBanCommand extends Command {
                                     : "*No message will be deleted*"
                             }
                         ],
-                        id: `${infraction.id}`,
+                        id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
                         reason: infraction.reason
                     })
                 ]
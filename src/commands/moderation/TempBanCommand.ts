@@ -249,7 +249,7 @@ export default class TempBanCommand extends Command {
                                 value: formatDistanceToNowStrict(new Date(Date.now() - duration!))
                             }
                         ],
-                        id: `${infraction.id}`,
+                        id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
                         reason: infraction.reason
                     })
                 ]
@@ -0,0 +1,129 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { SlashCommandBuilder } from "discord.js";
+import Command, {
+    ArgumentType,
+    BasicCommandContext,
+    CommandMessage,
+    CommandReturn,
+    ValidationRule
+} from "../../core/Command";
+
+export default class TicketCommand extends Command {
+    public readonly name = "ticket";
+    public readonly subcommands = [
+        "open",
+        "close",
+        "reopen",
+        "claim",
+        "add",
+        "remove",
+        "transcript",
+        "panel"
+    ];
+    public readonly subCommandCheck = true;
+    public readonly validationRules: ValidationRule[] = [
+        {
+            types: [ArgumentType.String],
+            errors: {
+                required: `Please provide a valid subcommand! The valid commands are: \`${this.subcommands.join(
+                    "`, `"
+                )}\``,
+                "type:invalid": "Please provide a valid subcommand!"
+            },
+            name: "subcommand"
+        }
+    ];
+    public readonly permissions = [];
+    public readonly aliases = ["tickets"];
+    public readonly description = "Open and manage support tickets.";
+    public readonly slashCommandBuilder = new SlashCommandBuilder()
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("open")
+                .setDescription("Opens a new ticket")
+                .addStringOption(option =>
+                    option.setName("subject").setDescription("What do you need help with?")
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("close")
+                .setDescription("Closes the ticket in the current channel")
+                .addStringOption(option =>
+                    option.setName("reason").setDescription("The reason for closing the ticket")
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName("reopen").setDescription("Reopens the ticket in the current channel")
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName("claim").setDescription("Claims the ticket in the current channel")
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("add")
+                .setDescription("Adds a user to the ticket in the current channel")
+                .addUserOption(option =>
+                    option.setName("user").setDescription("The user to add").setRequired(true)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("remove")
+                .setDescription("Removes a user from the ticket in the current channel")
+                .addUserOption(option =>
+                    option.setName("user").setDescription("The user to remove").setRequired(true)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("transcript")
+                .setDescription("Generates a transcript of the ticket in the current channel")
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("panel")
+                .setDescription("Sends a panel with a button to open tickets")
+                .addChannelOption(option =>
+                    option
+                        .setName("channel")
+                        .setDescription(
+                            "The channel where the panel will be sent, defaults to the current channel"
+                        )
+                )
+        );
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const subcommand = context.isLegacy
+            ? context.parsedNamedArgs.subcommand
+            : context.options.getSubcommand(true);
+        const command = this.client.commands.get(`ticket__${subcommand}`);
+
+        if (!command) {
+            await this.error(message, this.validationRules[0].errors!.required!);
+            return;
+        }
+
+        if (context.isLegacy) context.args.shift();
+
+        return await command.execute(message, context);
+    }
+}
@@ -0,0 +1,54 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { GuildMember, Message } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+
+export default class TicketOpenCommand extends Command {
+    public readonly name = "ticket__open";
+    public readonly permissions = [];
+    public readonly description = "Opens a new ticket.";
+    public readonly argumentSyntaxes = ["[subject]"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        await this.deferIfInteraction(message, { ephemeral: true });
+
+        const subject = context.isLegacy
+            ? (message as Message).content
+                  .substring(
+                      this.client.configManager.config[message.guildId!]?.prefix?.length ?? 1
+                  )
+                  .trimStart()
+                  .replace(/^\S+\s+\S+/, "")
+                  .trim()
+            : context.options.getString("subject");
+
+        const result = await this.client.ticketService.open(
+            message.member as GuildMember,
+            subject || undefined
+        );
+
+        if (result.error !== undefined) {
+            await this.error(message, result.error);
+            return;
+        }
+
+        await this.success(message, `Your ticket has been opened: <#${result.ticket.channelId}>`);
+    }
+}
@@ -0,0 +1,72 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Channel, GuildMember, Message, MessageMentions, TextBasedChannel } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+import { safeChannelFetch } from "../../utils/fetch";
+import { isSnowflake } from "../../utils/utils";
+
+export default class TicketPanelCommand extends Command {
+    public readonly name = "ticket__panel";
+    public readonly permissions = [];
+    public readonly description = "Sends a panel with a button to open tickets.";
+    public readonly argumentSyntaxes = ["[channel]"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        await this.deferIfInteraction(message, { ephemeral: true });
+
+        if (!this.client.ticketService.isStaff(message.member as GuildMember)) {
+            await this.error(message, "You don't have permission to send ticket panels!");
+            return;
+        }
+
+        if (!this.client.configManager.config[message.guildId!]?.tickets?.enabled) {
+            await this.error(message, "The ticket system is not enabled in this server.");
+            return;
+        }
+
+        let channel: Channel | null = context.isLegacy
+            ? message.channel
+            : (context.options.getChannel("channel") as Channel | null) ?? message.channel;
+
+        if (context.isLegacy && context.args[0]) {
+            const channelId = isSnowflake(context.args[0])
+                ? context.args[0]
+                : context.args[0].match(MessageMentions.ChannelsPattern)?.groups?.id;
+
+            channel = channelId ? await safeChannelFetch(message.guild!, channelId) : null;
+        }
+
+        if (!channel?.isTextBased()) {
+            await this.error(message, "Please specify a valid text channel!");
+            return;
+        }
+
+        await (channel as TextBasedChannel).send(
+            this.client.ticketService.createPanelMessageOptions(message.guild!)
+        );
+
+        if (message instanceof Message) {
+            await message.react(this.emoji("check")).catch(() => null);
+            return;
+        }
+
+        await this.success(message, "The ticket panel has been sent.");
+    }
+}
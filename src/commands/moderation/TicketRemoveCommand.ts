@@ -0,0 +1,84 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { GuildMember, User } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+import { safeUserFetch } from "../../utils/fetch";
+import { isSnowflake } from "../../utils/utils";
+
+export default class TicketRemoveCommand extends Command {
+    public readonly name = "ticket__remove";
+    public readonly permissions = [];
+    public readonly description = "Removes a user from the ticket in the current channel.";
+    public readonly argumentSyntaxes = ["<user>"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        if (context.isLegacy && context.args[0] === undefined) {
+            await this.error(message, "Please specify a user to remove!");
+            return;
+        }
+
+        await this.deferIfInteraction(message);
+
+        if (!this.client.ticketService.isStaff(message.member as GuildMember)) {
+            await this.error(message, "You don't have permission to manage ticket members!");
+            return;
+        }
+
+        const ticket = await this.client.ticketService.getTicketByChannel(
+            message.guildId!,
+            message.channelId!
+        );
+
+        if (!ticket) {
+            await this.error(message, "This channel is not a ticket!");
+            return;
+        }
+
+        const user: User | null = context.isLegacy
+            ? await safeUserFetch(
+                  this.client,
+                  isSnowflake(context.args[0])
+                      ? context.args[0]
+                      : context.args[0].substring(
+                            context.args[0].includes("!") ? 3 : 2,
+                            context.args[0].length - 1
+                        )
+              )
+            : context.options.getUser("user", true);
+
+        if (!user) {
+            await this.error(message, "Invalid user specified!");
+            return;
+        }
+
+        const { error } = await this.client.ticketService.removeMember(
+            ticket,
+            message.guild!,
+            user
+        );
+
+        if (error) {
+            await this.error(message, error);
+            return;
+        }
+
+        await this.success(message, `Successfully removed **${user.username}** from this ticket.`);
+    }
+}
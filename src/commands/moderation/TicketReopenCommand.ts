@@ -0,0 +1,61 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { GuildMember } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+
+export default class TicketReopenCommand extends Command {
+    public readonly name = "ticket__reopen";
+    public readonly permissions = [];
+    public readonly description = "Reopens the ticket in the current channel.";
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        await this.deferIfInteraction(message);
+
+        if (!this.client.ticketService.isStaff(message.member as GuildMember)) {
+            await this.error(message, "You don't have permission to reopen tickets!");
+            return;
+        }
+
+        const ticket = await this.client.ticketService.getTicketByChannel(
+            message.guildId!,
+            message.channelId!
+        );
+
+        if (!ticket) {
+            await this.error(message, "This channel is not a ticket!");
+            return;
+        }
+
+        const { error } = await this.client.ticketService.reopen(
+            ticket,
+            message.guild!,
+            (message.member as GuildMember).user
+        );
+
+        if (error) {
+            await this.error(message, error);
+            return;
+        }
+
+        if (!context.isLegacy) {
+            await this.success(message, `Ticket #${ticket.id} has been reopened.`);
+        }
+    }
+}
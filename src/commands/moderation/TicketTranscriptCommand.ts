@@ -0,0 +1,67 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { GuildMember } from "discord.js";
+import Command, { CommandMessage, CommandReturn } from "../../core/Command";
+
+export default class TicketTranscriptCommand extends Command {
+    public readonly name = "ticket__transcript";
+    public readonly permissions = [];
+    public readonly description = "Generates a transcript of the ticket in the current channel.";
+
+    async execute(message: CommandMessage): Promise<CommandReturn> {
+        await this.deferIfInteraction(message, { ephemeral: true });
+
+        const ticket = await this.client.ticketService.getTicketByChannel(
+            message.guildId!,
+            message.channelId!
+        );
+
+        if (!ticket) {
+            await this.error(message, "This channel is not a ticket!");
+            return;
+        }
+
+        if (
+            ticket.userId !== message.member!.user.id &&
+            !this.client.ticketService.isStaff(message.member as GuildMember)
+        ) {
+            await this.error(
+                message,
+                "You don't have permission to view the transcript of this ticket!"
+            );
+            return;
+        }
+
+        const { buffer, name } = await this.client.ticketService.createTranscript(
+            ticket,
+            message.channel!
+        );
+
+        await this.deferredReply(message, {
+            content: `Transcript of ticket #${ticket.id}:`,
+            files: [
+                {
+                    attachment: buffer,
+                    name
+                }
+            ]
+        });
+    }
+}
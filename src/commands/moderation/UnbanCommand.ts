@@ -131,7 +131,7 @@ export default class UnbanCommand extends Command {
                         user,
                         actionDoneName: "unbanned",
                         description: `**${escapeMarkdown(user.tag)}** has been unbanned.`,
-                        id: `${infraction.id}`,
+                        id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
                         reason: infraction.reason,
                         color: "Green"
                     })
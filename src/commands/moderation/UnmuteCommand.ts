@@ -147,7 +147,7 @@ export default class UnmuteCommand extends Command {
                         user: member.user,
                         actionDoneName: "unmuted",
                         description: `**${escapeMarkdown(member.user.tag)}** has been unmuted.`,
-                        id: `${id}`,
+                        id: this.client.infractionManager.getCaseNumber(infraction!),
                         reason: infraction?.reason,
                         color: "Green"
                     })
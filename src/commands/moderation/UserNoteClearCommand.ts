@@ -53,13 +53,15 @@ export default class UserNoteClearCommand extends Command {
             return;
         }
 
-        const { count } = await this.client.prisma.infraction.deleteMany({
+        const notes = await this.client.prisma.infraction.findMany({
             where: {
                 userId: user.id,
                 guildId: message.guildId!,
-                type: InfractionType.NOTE
+                type: InfractionType.NOTE,
+                deletedAt: null
             }
         });
+        const count = await this.client.infractionManager.deleteInfractions(notes, message.member!.user as User);
 
         if (count === 0) {
             await this.deferredReply(message, "No notes were found for this user.");
@@ -70,7 +70,7 @@ export default class UserNoteCreateCommand extends Command {
                   .trimEnd()
             : context.options.getString("content", true);
 
-        const { id } = await this.client.prisma.infraction.create({
+        const note = await this.client.prisma.infraction.create({
             data: {
                 guildId: message.guildId!,
                 moderatorId: message.member!.user.id,
@@ -80,9 +80,11 @@ export default class UserNoteCreateCommand extends Command {
             }
         });
 
+        this.client.infractionManager.dispatchInfractionCreate(note);
+
         await this.deferredReply(
             message,
-            `${this.emoji("check")} Successfully created note for user **${user.tag}**. The note ID is \`${id}\`.`
+            `${this.emoji("check")} Successfully created note for user **${user.tag}**. The note ID is \`${note.id}\`.`
         );
     }
 }
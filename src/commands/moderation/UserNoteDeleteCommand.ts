@@ -18,7 +18,7 @@
  */
 
 import { InfractionType } from "@prisma/client";
-import { PermissionsBitField } from "discord.js";
+import { PermissionsBitField, User } from "discord.js";
 import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
 
 export default class UserNoteDeleteCommand extends Command {
@@ -46,19 +46,22 @@ export default class UserNoteDeleteCommand extends Command {
             }
         }
 
-        const { count } = await this.client.prisma.infraction.deleteMany({
+        const note = await this.client.prisma.infraction.findFirst({
             where: {
                 id,
                 guildId: message.guildId!,
-                type: InfractionType.NOTE
+                type: InfractionType.NOTE,
+                deletedAt: null
             }
         });
 
-        if (count === 0) {
+        if (!note) {
             await this.error(message, "No such note found with that ID!");
             return;
         }
 
+        await this.client.infractionManager.deleteInfraction(note, message.member!.user as User);
+
         await this.deferredReply(message, `${this.emoji("check")} Successfully deleted the note.`);
     }
 }
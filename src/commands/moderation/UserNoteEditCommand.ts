@@ -62,7 +62,8 @@ export default class UserNoteEditCommand extends Command {
             where: {
                 id,
                 guildId: message.guildId!,
-                type: InfractionType.NOTE
+                type: InfractionType.NOTE,
+                deletedAt: null
             },
             data: {
                 reason: content
@@ -58,7 +58,8 @@ export default class UserNoteListCommand extends Command {
             where: {
                 userId: user.id,
                 guildId: message.guildId!,
-                type: InfractionType.NOTE
+                type: InfractionType.NOTE,
+                deletedAt: null
             }
         });
 
@@ -51,7 +51,8 @@ export default class UserNoteViewCommand extends Command {
             where: {
                 id,
                 guildId: message.guildId!,
-                type: InfractionType.NOTE
+                type: InfractionType.NOTE,
+                deletedAt: null
             }
         });
 
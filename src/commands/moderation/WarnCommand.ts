@@ -109,7 +109,7 @@ export default class WarnCommand extends Command {
                 ? context.parsedNamedArgs.reason
                 : context.options.getString("reason")) ?? undefined;
 
-        const { id, result, infraction } = await this.client.infractionManager.createMemberWarn(
+        const { result, infraction } = await this.client.infractionManager.createMemberWarn(
             member,
             {
                 guild: message.guild!,
@@ -136,7 +136,7 @@ export default class WarnCommand extends Command {
                                 : ""
                         }`,
                         actionDoneName: "warned",
-                        id,
+                        id: this.client.infractionManager.getCaseNumber(infraction),
                         reason: infraction.reason
                     })
                 ]
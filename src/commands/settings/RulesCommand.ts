@@ -0,0 +1,74 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import Command, {
+    ArgumentType,
+    BasicCommandContext,
+    CommandMessage,
+    CommandReturn,
+    ValidationRule
+} from "../../core/Command";
+
+export default class RulesCommand extends Command {
+    public readonly name = "rules";
+    public readonly subcommands = ["test"];
+    public readonly subCommandCheck = true;
+    public readonly validationRules: ValidationRule[] = [
+        {
+            types: [ArgumentType.String],
+            errors: {
+                required: `Please provide a valid subcommand! The valid commands are: \`${this.subcommands.join(
+                    "`, `"
+                )}\``,
+                "type:invalid": "Please provide a valid subcommand!"
+            },
+            name: "subcommand"
+        }
+    ];
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+    public readonly description = "Manage the message rules of this server.";
+    public readonly slashCommandBuilder = new SlashCommandBuilder().addSubcommand(subcommand =>
+        subcommand
+            .setName("test")
+            .setDescription("Runs the message rules against a message without taking any action")
+            .addStringOption(option =>
+                option
+                    .setName("message")
+                    .setDescription("A message link, or the text to test")
+                    .setRequired(true)
+            )
+    );
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const subcommand = context.isLegacy
+            ? context.parsedNamedArgs.subcommand
+            : context.options.getSubcommand(true);
+        const command = this.client.commands.get(`rules__${subcommand}`);
+
+        if (!command) {
+            await this.error(message, this.validationRules[0].errors!.required!);
+            return;
+        }
+
+        if (context.isLegacy) context.args.shift();
+
+        return await command.execute(message, context);
+    }
+}
@@ -0,0 +1,159 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    Collection,
+    EmbedBuilder,
+    GuildMember,
+    Message,
+    PermissionsBitField,
+    escapeMarkdown
+} from "discord.js";
+import { MessageRuleEvaluation, MessageRuleInput } from "../../automod/MessageRuleService";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+import { safeChannelFetch, safeMessageFetch } from "../../utils/fetch";
+import { parseMessageLink } from "../../utils/links";
+
+export default class RulesTestCommand extends Command {
+    public readonly name = "rules__test";
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+    public readonly description =
+        "Runs the message rules against a message without taking any action.";
+    public readonly argumentSyntaxes = ["<messageLink|text>"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const input = context.isLegacy
+            ? (message as Message).content
+                  .substring(context.prefix.length)
+                  .trimStart()
+                  .replace(/^\S+\s+\S+/, "")
+                  .trim()
+            : context.options.getString("message", true);
+
+        if (!input) {
+            await this.error(message, "Please provide a message link or some text to test!");
+            return;
+        }
+
+        const rules =
+            this.client.configManager.config[message.guildId!]?.message_rules?.rules ?? [];
+
+        if (rules.length === 0) {
+            await this.error(message, "There are no message rules configured in this server.");
+            return;
+        }
+
+        await this.deferIfInteraction(message);
+
+        const link = parseMessageLink(input);
+        let target: MessageRuleInput;
+        let url: string | null = null;
+
+        if (link) {
+            const channel =
+                link.guildId === message.guildId
+                    ? await safeChannelFetch(message.guild!, link.channelId)
+                    : null;
+            const fetchedMessage = channel?.isTextBased()
+                ? await safeMessageFetch(channel, link.messageId)
+                : null;
+
+            if (!fetchedMessage) {
+                await this.error(
+                    message,
+                    "Could not find a message with that link in this server!"
+                );
+                return;
+            }
+
+            target = fetchedMessage;
+            url = fetchedMessage.url;
+        } else {
+            // Plain text is tested as a hypothetical message sent by the command user in this channel
+            target = {
+                content: input,
+                attachments: new Collection(),
+                embeds: [],
+                deletable: true,
+                guildId: message.guildId,
+                channel: message.channel!,
+                channelId: message.channelId!,
+                author: (message.member as GuildMember).user,
+                member: message.member as GuildMember
+            };
+        }
+
+        const evaluations: MessageRuleEvaluation[] = [];
+
+        for (const rule of rules) {
+            evaluations.push(
+                await this.client.messageRuleService.evaluateRule(target, rule, !!link)
+            );
+        }
+
+        const matchedCount = evaluations.filter(evaluation => evaluation.matched).length;
+
+        await this.deferredReply(message, {
+            embeds: [
+                new EmbedBuilder({
+                    title: "Message rule test results",
+                    color: matchedCount > 0 ? 0xf14a60 : 0x007bff,
+                    description: `**${matchedCount}** out of **${rules.length}** rule(s) matched${
+                        url ? ` [this message](${url})` : " the given text"
+                    }.${rules.length > 25 ? "\nOnly the first 25 rules are shown below." : ""}`,
+                    fields: evaluations.slice(0, 25).map((evaluation, index) => ({
+                        name: `#${index + 1}: \`${rules[index].type}\`${
+                            rules[index].dry_run ? " (dry run)" : ""
+                        }`,
+                        value: this.describeEvaluation(evaluation, rules[index].actions).substring(
+                            0,
+                            1024
+                        )
+                    })),
+                    footer: {
+                        text: "No action was taken"
+                    }
+                }).setTimestamp()
+            ]
+        });
+    }
+
+    private describeEvaluation(
+        { matched, skipReason, details }: MessageRuleEvaluation,
+        actions: string[]
+    ) {
+        if (skipReason) {
+            return `${this.emoji("info")} Skipped: ${skipReason}`;
+        }
+
+        if (!matched) {
+            return `${this.emoji("error")} Not matched`;
+        }
+
+        let description = `${this.emoji("check")} Matched${
+            details?.title ? `: ${escapeMarkdown(details.title)}` : ""
+        }\nActions: \`${actions.join("`, `")}\``;
+
+        for (const field of details?.fields ?? []) {
+            description += `\n**${field.name}**: ${field.value}`;
+        }
+
+        return description;
+    }
+}
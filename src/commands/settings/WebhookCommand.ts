@@ -0,0 +1,78 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import Command, {
+    ArgumentType,
+    BasicCommandContext,
+    CommandMessage,
+    CommandReturn,
+    ValidationRule
+} from "../../core/Command";
+
+export default class WebhookCommand extends Command {
+    public readonly name = "webhook";
+    public readonly subcommands = ["test", "deliveries"];
+    public readonly subCommandCheck = true;
+    public readonly validationRules: ValidationRule[] = [
+        {
+            types: [ArgumentType.String],
+            errors: {
+                required: `Please provide a valid subcommand! The valid commands are: \`${this.subcommands.join(
+                    "`, `"
+                )}\``,
+                "type:invalid": "Please provide a valid subcommand!"
+            },
+            name: "subcommand"
+        }
+    ];
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+    public readonly description = "Manage the outgoing webhooks of this server.";
+    public readonly slashCommandBuilder = new SlashCommandBuilder()
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("test")
+                .setDescription("Sends a signed test event to a webhook endpoint")
+                .addStringOption(option =>
+                    option
+                        .setName("endpoint")
+                        .setDescription(
+                            "The name of the endpoint. Defaults to the only configured endpoint"
+                        )
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName("deliveries").setDescription("Shows the webhook delivery log")
+        );
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const subcommand = context.isLegacy
+            ? context.parsedNamedArgs.subcommand
+            : context.options.getSubcommand(true);
+        const command = this.client.commands.get(`webhook__${subcommand}`);
+
+        if (!command) {
+            await this.error(message, this.validationRules[0].errors!.required!);
+            return;
+        }
+
+        if (context.isLegacy) context.args.shift();
+
+        return await command.execute(message, context);
+    }
+}
@@ -0,0 +1,75 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { EmbedBuilder, PermissionsBitField, time } from "discord.js";
+import Command, { CommandMessage, CommandReturn } from "../../core/Command";
+import Pagination from "../../utils/Pagination";
+
+export default class WebhookDeliveriesCommand extends Command {
+    public readonly name = "webhook__deliveries";
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+    public readonly description = "Shows the webhook delivery log of this server.";
+
+    async execute(message: CommandMessage): Promise<CommandReturn> {
+        await this.deferIfInteraction(message);
+
+        const pagination = new Pagination(null, {
+            channelId: message.channelId!,
+            guildId: message.guildId!,
+            limit: 5,
+            userId: message.member!.user.id,
+            client: this.client,
+            timeout: 180_000,
+            maxData: () => this.client.webhookService.countDeliveries(message.guildId!),
+            fetchData: ({ limit, offset }) =>
+                this.client.webhookService.getDeliveries(message.guildId!, offset, limit),
+            embedBuilder: ({ data, currentPage, maxPages }) =>
+                new EmbedBuilder({
+                    title: "Webhook Deliveries",
+                    fields: data.map(delivery => ({
+                        name: `#${delivery.id} • ${delivery.event} → ${delivery.endpoint}`,
+                        value: [
+                            `**Status:** ${delivery.status[0]}${delivery.status
+                                .substring(1)
+                                .toLowerCase()}${
+                                delivery.responseStatus ? ` (HTTP ${delivery.responseStatus})` : ""
+                            }`,
+                            `**Attempts:** ${delivery.attempts}`,
+                            delivery.error
+                                ? `**Error:** ${delivery.error.substring(0, 200)}`
+                                : null,
+                            delivery.nextAttemptAt
+                                ? `**Next Attempt:** ${time(delivery.nextAttemptAt, "R")}`
+                                : null,
+                            time(delivery.createdAt, "R")
+                        ]
+                            .filter(Boolean)
+                            .join("\n")
+                    })),
+                    description: data.length === 0 ? "*Nothing to show*" : undefined,
+                    footer: {
+                        text: `Page ${currentPage} of ${maxPages}`
+                    },
+                    color: 0x007bff
+                })
+        });
+
+        const reply = await this.deferredReply(message, await pagination.getMessageOptions(1));
+        await pagination.start(reply);
+    }
+}
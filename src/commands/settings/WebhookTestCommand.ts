@@ -0,0 +1,66 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { PermissionsBitField } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+
+export default class WebhookTestCommand extends Command {
+    public readonly name = "webhook__test";
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+    public readonly description = "Sends a signed test event to a webhook endpoint.";
+    public readonly argumentSyntaxes = ["[endpoint]"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const endpoints = this.client.webhookService.getEndpoints(message.guildId!);
+        const name =
+            (context.isLegacy ? context.args[0] : context.options.getString("endpoint")) ??
+            (endpoints.length === 1 ? endpoints[0].name : undefined);
+
+        if (!name) {
+            await this.error(
+                message,
+                endpoints.length === 0
+                    ? "No webhook endpoints are configured in this server."
+                    : `Please specify an endpoint! The configured endpoints are: \`${endpoints
+                          .map(endpoint => endpoint.name)
+                          .join("`, `")}\``
+            );
+            return;
+        }
+
+        await this.deferIfInteraction(message);
+
+        const delivery = await this.client.webhookService.sendTest(message.guild!, name);
+
+        if (!delivery) {
+            await this.error(message, "Could not find a webhook endpoint with that name!");
+            return;
+        }
+
+        await this.deferredReply(
+            message,
+            delivery.status === "SUCCEEDED"
+                ? `${this.emoji("check")} The test event was delivered to **${name}** (HTTP ${
+                      delivery.responseStatus
+                  }). The delivery ID is \`${delivery.id}\`.`
+                : `${this.emoji("error")} Failed to deliver the test event to **${name}**: ${
+                      delivery.error
+                  }${delivery.status === "PENDING" ? "\nThe delivery will be retried." : ""}`
+        );
+    }
+}
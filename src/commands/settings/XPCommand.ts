@@ -0,0 +1,108 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import Command, {
+    ArgumentType,
+    BasicCommandContext,
+    CommandMessage,
+    CommandReturn,
+    ValidationRule
+} from "../../core/Command";
+
+export default class XPCommand extends Command {
+    public readonly name = "xp";
+    public readonly subcommands = ["set", "add", "reset", "import"];
+    public readonly subCommandCheck = true;
+    public readonly validationRules: ValidationRule[] = [
+        {
+            types: [ArgumentType.String],
+            errors: {
+                required: `Please provide a valid subcommand! The valid commands are: \`${this.subcommands.join(
+                    "`, `"
+                )}\``,
+                "type:invalid": "Please provide a valid subcommand!"
+            },
+            name: "subcommand"
+        }
+    ];
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+    public readonly description = "Manage the XP of the members.";
+    public readonly slashCommandBuilder = new SlashCommandBuilder()
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("set")
+                .setDescription("Sets the XP of a user")
+                .addUserOption(option =>
+                    option.setName("user").setDescription("The target user").setRequired(true)
+                )
+                .addIntegerOption(option =>
+                    option
+                        .setName("amount")
+                        .setDescription("The new XP amount")
+                        .setMinValue(0)
+                        .setRequired(true)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("add")
+                .setDescription("Adds XP to a user, use a negative amount to take XP away")
+                .addUserOption(option =>
+                    option.setName("user").setDescription("The target user").setRequired(true)
+                )
+                .addIntegerOption(option =>
+                    option
+                        .setName("amount")
+                        .setDescription("The amount of XP to add")
+                        .setRequired(true)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("reset")
+                .setDescription("Resets the XP of a user or everyone in this server")
+                .addUserOption(option =>
+                    option
+                        .setName("user")
+                        .setDescription("The target user, leave empty to reset everyone's XP")
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("import")
+                .setDescription("Imports XP from the message statistics of this server")
+        );
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        const subcommand = context.isLegacy
+            ? context.parsedNamedArgs.subcommand
+            : context.options.getSubcommand(true);
+        const command = this.client.commands.get(`xp__${subcommand}`);
+
+        if (!command) {
+            await this.error(message, this.validationRules[0].errors!.required!);
+            return;
+        }
+
+        if (context.isLegacy) context.args.shift();
+
+        return await command.execute(message, context);
+    }
+}
@@ -0,0 +1,36 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { PermissionsBitField } from "discord.js";
+import Command, { CommandMessage, CommandReturn } from "../../core/Command";
+
+export default class XPImportCommand extends Command {
+    public readonly name = "xp__import";
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+    public readonly description =
+        "Imports XP from the message statistics of this server. Members keep their current XP if it is higher than the imported amount.";
+
+    async execute(message: CommandMessage): Promise<CommandReturn> {
+        await this.deferIfInteraction(message);
+
+        const count = await this.client.levelingService.importFromStatistics(message.guildId!);
+
+        await this.success(message, `Successfully imported XP for **${count}** member(s).`);
+    }
+}
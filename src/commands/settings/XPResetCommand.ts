@@ -0,0 +1,72 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { PermissionsBitField, User } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+import { safeUserFetch } from "../../utils/fetch";
+import { isSnowflake } from "../../utils/utils";
+
+export default class XPResetCommand extends Command {
+    public readonly name = "xp__reset";
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+    public readonly description = "Resets the XP of a user or everyone in this server.";
+    public readonly argumentSyntaxes = ["<user|all>"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        if (context.isLegacy && context.args[0] === undefined) {
+            await this.error(
+                message,
+                "Please specify a user, or `all` to reset everyone's XP in this server!"
+            );
+            return;
+        }
+
+        await this.deferIfInteraction(message);
+
+        let user: User | null | undefined = undefined;
+
+        if (context.isLegacy && context.args[0] !== "all") {
+            user = await safeUserFetch(
+                this.client,
+                isSnowflake(context.args[0])
+                    ? context.args[0]
+                    : context.args[0].substring(
+                          context.args[0].includes("!") ? 3 : 2,
+                          context.args[0].length - 1
+                      )
+            );
+
+            if (!user) {
+                await this.error(message, "Invalid user specified!");
+                return;
+            }
+        } else if (!context.isLegacy) {
+            user = context.options.getUser("user");
+        }
+
+        const count = await this.client.levelingService.resetXP(message.guildId!, user?.id);
+
+        await this.success(
+            message,
+            user
+                ? `Successfully reset the XP of **${user.username}**.`
+                : `Successfully reset the XP of **${count}** member(s).`
+        );
+    }
+}
@@ -0,0 +1,77 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { PermissionsBitField, User } from "discord.js";
+import Command, { BasicCommandContext, CommandMessage, CommandReturn } from "../../core/Command";
+import { safeUserFetch } from "../../utils/fetch";
+import { isSnowflake } from "../../utils/utils";
+
+export default class XPSetCommand extends Command {
+    public readonly name = "xp__set";
+    public readonly permissions = [PermissionsBitField.Flags.ManageGuild];
+    public readonly description = "Sets the XP of a user.";
+    public readonly argumentSyntaxes = ["<user> <amount>"];
+
+    async execute(message: CommandMessage, context: BasicCommandContext): Promise<CommandReturn> {
+        if (context.isLegacy && context.args[0] === undefined) {
+            await this.error(message, "Please specify a user!");
+            return;
+        }
+
+        if (context.isLegacy && context.args[1] === undefined) {
+            await this.error(message, "Please specify the amount of XP!");
+            return;
+        }
+
+        await this.deferIfInteraction(message);
+
+        const user: User | null = context.isLegacy
+            ? await safeUserFetch(
+                  this.client,
+                  isSnowflake(context.args[0])
+                      ? context.args[0]
+                      : context.args[0].substring(
+                            context.args[0].includes("!") ? 3 : 2,
+                            context.args[0].length - 1
+                        )
+              )
+            : context.options.getUser("user", true);
+
+        if (!user) {
+            await this.error(message, "Invalid user specified!");
+            return;
+        }
+
+        const amount = context.isLegacy
+            ? parseInt(context.args[1])
+            : context.options.getInteger("amount", true);
+
+        if (isNaN(amount) || amount < 0) {
+            await this.error(message, "Please specify a valid amount of XP!");
+            return;
+        }
+
+        const entry = await this.client.levelingService.setXP(message.guildId!, user.id, amount);
+
+        await this.success(
+            message,
+            `Successfully set the XP of **${user.username}**. They now have **${entry.xp}** XP and are at level **${entry.level}**.`
+        );
+    }
+}
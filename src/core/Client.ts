@@ -31,12 +31,16 @@ import type AIAutoModService from "../automod/AIAutoModService";
 import type Antijoin from "../automod/Antijoin";
 import type Antiraid from "../automod/Antiraid";
 import type Antispam from "../automod/Antispam";
+import type AutoModStatsService from "../automod/AutoModStatsService";
 import type FileFilterService from "../automod/FileFilterService";
 import type MessageFilter from "../automod/MessageFilter";
 import type MessageRuleService from "../automod/MessageRuleService";
 import type ProfileFilter from "../automod/ProfileFilter";
 import type VerificationService from "../automod/VerificationService";
 import type AFKService from "../services/AFKService";
+import type AIChatService from "../services/AIChatService";
+import type AIProviderService from "../services/AIProviderService";
+import type AppealService from "../services/AppealService";
 import type AutoRoleService from "../services/AutoRoleService";
 import type BallotManager from "../services/BallotManager";
 import type BumpReminderService from "../services/BumpReminderService";
@@ -45,14 +49,19 @@ import type CommandManager from "../services/CommandManager";
 import type CommandPermissionOverwriteManager from "../services/CommandPermissionOverwriteManager";
 import type ConfigManager from "../services/ConfigManager";
 import type CooldownService from "../services/CooldownService";
+import type EscalationService from "../services/EscalationService";
+import type EventStreamService from "../services/EventStreamService";
 import type ExtensionService from "../services/ExtensionService";
 import type ImageRecognitionService from "../services/ImageRecognitionService";
 import type InfractionManager from "../services/InfractionManager";
 import type InviteTrackerService from "../services/InviteTrackerService";
 import type KeypressHandlerService from "../services/KeypressHandlerService";
+import type LevelingService from "../services/LevelingService";
 import type LogServer from "../services/LogServer";
 import type LoggerService from "../services/LoggerService";
+import type MessageTrackingService from "../services/MessageTrackingService";
 import type MetadataService from "../services/MetadataService";
+import type ModmailService from "../services/ModmailService";
 import type PermissionManager from "../services/PermissionManager";
 import type QueueManager from "../services/QueueManager";
 import type QuickMuteService from "../services/QuickMuteService";
@@ -61,11 +70,14 @@ import type ReportService from "../services/ReportService";
 import type SnippetManager from "../services/SnippetManager";
 import type StartupManager from "../services/StartupManager";
 import type StatsService from "../services/StatsService";
+import type TicketService from "../services/TicketService";
 import type TranslationService from "../services/TranslationService";
 import type TriggerService from "../services/TriggerService";
+import type WebhookService from "../services/WebhookService";
 import type WelcomerService from "../services/WelcomerService";
 import { ClientEvents } from "../types/ClientEvents";
 import { Logger } from "../utils/Logger";
+import { withInfractionCaseNumbers } from "../utils/caseNumbers";
 import { developmentMode } from "../utils/utils";
 import type Command from "./Command";
 import DynamicLoader from "./DynamicLoader";
@@ -78,10 +90,12 @@ class Client<R extends boolean = boolean> extends DiscordJSClient<R> {
     public readonly commands = new Collection<string, Command>();
     public readonly emojiMap = new Map<string, GuildEmoji>();
 
-    public readonly prisma = new PrismaClient({
-        errorFormat: "pretty",
-        log: developmentMode() ? ["error", "info", "query", "warn"] : ["error", "info", "warn"]
-    });
+    public readonly prisma = withInfractionCaseNumbers(
+        new PrismaClient({
+            errorFormat: "pretty",
+            log: developmentMode() ? ["error", "info", "query", "warn"] : ["error", "info", "warn"]
+        })
+    );
 
     public readonly server = new Server(this);
     public readonly dynamicLoader = new DynamicLoader(this);
@@ -127,6 +141,16 @@ class Client<R extends boolean = boolean> extends DiscordJSClient<R> {
         "@services/ReportService",
         "@services/StatsService",
         "@services/ImageRecognitionService",
+        "@services/TicketService",
+        "@services/LevelingService",
+        "@services/EscalationService",
+        "@services/AppealService",
+        "@services/ModmailService",
+        "@services/MessageTrackingService",
+        "@services/AIChatService",
+        "@services/AIProviderService",
+        "@services/WebhookService",
+        "@services/EventStreamService",
 
         "@automod/MessageFilter",
         "@automod/Antispam",
@@ -136,7 +160,8 @@ class Client<R extends boolean = boolean> extends DiscordJSClient<R> {
         "@automod/FileFilterService",
         "@automod/MessageRuleService",
         "@automod/AIAutoModService",
-        "@automod/VerificationService"
+        "@automod/VerificationService",
+        "@automod/AutoModStatsService"
     ];
 
     startupManager!: StartupManager;
@@ -166,6 +191,7 @@ class Client<R extends boolean = boolean> extends DiscordJSClient<R> {
     messageRuleService!: MessageRuleService;
     triggerService!: TriggerService;
     aiAutoMod!: AIAutoModService;
+    autoModStatsService!: AutoModStatsService;
     extensionService!: ExtensionService;
     bumpReminder!: BumpReminderService;
     logServer!: LogServer;
@@ -176,6 +202,16 @@ class Client<R extends boolean = boolean> extends DiscordJSClient<R> {
     commandPermissionOverwriteManager!: CommandPermissionOverwriteManager;
     statsService!: StatsService;
     imageRecognitionService!: ImageRecognitionService;
+    ticketService!: TicketService;
+    levelingService!: LevelingService;
+    escalation!: EscalationService;
+    appealService!: AppealService;
+    modmailService!: ModmailService;
+    messageTrackingService!: MessageTrackingService;
+    aiChatService!: AIChatService;
+    aiProviderService!: AIProviderService;
+    webhookService!: WebhookService;
+    eventStream!: EventStreamService;
 
     constructor(options: ClientOptions) {
         super(options);
@@ -65,6 +65,8 @@ export default class GuildAuditLogEntryCreateEventListener extends EventListener
                     }
                 });
 
+                this.client.infractionManager.dispatchInfractionCreate(infraction);
+
                 await this.client.loggerService.logUserBan({
                     moderator:
                         executor ??
@@ -76,7 +78,7 @@ export default class GuildAuditLogEntryCreateEventListener extends EventListener
                         } as unknown as User),
                     user,
                     guild,
-                    id: infraction.id.toString(),
+                    id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
                     includeDeleteMessageSeconds: false,
                     reason: reason ?? undefined
                 });
@@ -103,6 +105,8 @@ export default class GuildAuditLogEntryCreateEventListener extends EventListener
                     }
                 });
 
+                this.client.infractionManager.dispatchInfractionCreate(infraction);
+
                 await this.client.loggerService.logMemberKick({
                     moderator:
                         executor ??
@@ -114,7 +118,7 @@ export default class GuildAuditLogEntryCreateEventListener extends EventListener
                         } as unknown as User),
                     user,
                     guild,
-                    id: infraction.id.toString(),
+                    id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
                     reason: reason ?? undefined
                 });
             }
@@ -47,11 +47,13 @@ export default class GuildBanRemoveEvent extends EventListener<Events.GuildBanRe
                         }
                     });
 
+                    this.client.infractionManager.dispatchInfractionCreate(infraction);
+
                     await this.client.loggerService.logUserUnban({
                         moderator: auditLog.executor,
                         user: ban.user,
                         guild: ban.guild,
-                        id: infraction.id.toString(),
+                        id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
                         reason: ban.reason ?? undefined
                     });
                 }
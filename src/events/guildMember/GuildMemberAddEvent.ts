@@ -26,6 +26,17 @@ export default class GuildMemberAddEvent extends EventListener<Events.GuildMembe
     public readonly name = Events.GuildMemberAdd;
 
     async execute(member: GuildMember) {
+        const data = {
+            userId: member.id,
+            username: member.user.username,
+            bot: member.user.bot,
+            accountCreatedAt: member.user.createdAt,
+            joinedAt: member.joinedAt
+        };
+
+        this.client.eventStream.emitGuildEvent(member.guild.id, "member.joined", data);
+        this.client.webhookService.dispatch(member.guild.id, "member.joined", data).catch(logError);
+
         await this.client.loggerService.logGuildMemberAdd(member);
 
         if (this.client.antijoin.map.get(member.guild.id)) {
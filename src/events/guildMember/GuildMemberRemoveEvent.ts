@@ -26,6 +26,16 @@ export default class GuildMemberRemoveEvent extends EventListener<Events.GuildMe
     public readonly name = Events.GuildMemberRemove;
 
     async execute(member: GuildMember) {
+        const data = {
+            userId: member.id,
+            username: member.user.username,
+            bot: member.user.bot,
+            joinedAt: member.joinedAt
+        };
+
+        this.client.eventStream.emitGuildEvent(member.guild.id, "member.left", data);
+        this.client.webhookService.dispatch(member.guild.id, "member.left", data).catch(logError);
+
         await this.client.loggerService.logGuildMemberRemove(member);
         this.client.verification.onGuildMemberRemove(member).catch(logError);
     }
@@ -59,9 +59,11 @@ export default class GuildMemberUpdateEvent extends EventListener<Events.GuildMe
                             }
                         });
 
+                        this.client.infractionManager.dispatchInfractionCreate(infraction);
+
                         await this.client.loggerService.logMemberTimeout(newMember, {
                             moderator: auditLog.executor,
-                            id: infraction.id.toString(),
+                            id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
                             reason: auditLog.reason ?? undefined
                         });
                     }
@@ -89,9 +91,11 @@ export default class GuildMemberUpdateEvent extends EventListener<Events.GuildMe
                             }
                         });
 
+                        this.client.infractionManager.dispatchInfractionCreate(infraction);
+
                         await this.client.loggerService.logMemberTimeoutRemove(newMember, {
                             moderator: auditLog.executor,
-                            id: infraction.id.toString()
+                            id: `${this.client.infractionManager.getCaseNumber(infraction)}`
                         });
                     }
                 } catch (e) {
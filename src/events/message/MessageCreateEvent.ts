@@ -72,6 +72,9 @@ export default class MessageCreateEvent extends EventListener<Events.MessageCrea
 
         await this.client.antispam.onMessageCreate(message).catch(logError);
         this.client.statsService.onMessageCreate(message);
+        this.client.messageTrackingService.onMessageCreate(message).catch(logError);
+        this.client.levelingService.onMessageCreate(message as Message<true>).catch(logError);
+        this.client.aiChatService.onMessageCreate(message).catch(logError);
         this.client.triggerService.onMessageCreate(message);
 
         const value = await this.client.commandManager.runCommandFromMessage(message).catch(logError);
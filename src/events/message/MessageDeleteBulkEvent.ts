@@ -17,7 +17,15 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { AuditLogEvent, Collection, GuildTextBasedChannel, Message, PartialMessage, Snowflake, TextChannel } from "discord.js";
+import {
+    AuditLogEvent,
+    Collection,
+    GuildTextBasedChannel,
+    Message,
+    PartialMessage,
+    Snowflake,
+    TextChannel
+} from "discord.js";
 import EventListener from "../../core/EventListener";
 import { Events } from "../../types/ClientEvents";
 import { logError } from "../../utils/Logger";
@@ -25,7 +33,14 @@ import { logError } from "../../utils/Logger";
 export default class MessageDeleteBulkEvent extends EventListener<Events.MessageDeleteBulk> {
     public readonly name = Events.MessageDeleteBulk;
 
-    async execute(messages: Collection<Snowflake, Message | PartialMessage>, channel: GuildTextBasedChannel) {
+    async execute(
+        messages: Collection<Snowflake, Message | PartialMessage>,
+        channel: GuildTextBasedChannel
+    ) {
+        await this.client.messageTrackingService
+            .onMessageDeleteBulk(messages, channel)
+            .catch(logError);
+
         setTimeout(async () => {
             try {
                 const auditLog = (
@@ -17,20 +17,46 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { AuditLogEvent, Message, User } from "discord.js";
+import { AuditLogEvent, Message, PartialMessage, User } from "discord.js";
 import EventListener from "../../core/EventListener";
 import { Events } from "../../types/ClientEvents";
+import { logError } from "../../utils/Logger";
 
 export default class MessageDeleteEvent extends EventListener<Events.MessageDelete> {
     public readonly name = Events.MessageDelete;
 
-    async execute(message: Message) {
+    async execute(message: Message | PartialMessage) {
         const deletedTimestamp = Date.now();
 
-        if (message.author.bot || !message.guild || !message.inGuild()) return;
+        if (!message.guild || !message.inGuild()) return;
 
-        this.client.emit(Events.NormalMessageDelete, message);
-        this.client.statsService.onMessageDelete(message);
+        const trackedMessage =
+            (await this.client.messageTrackingService.onMessageDelete(message).catch(logError)) ??
+            null;
+
+        /**
+         * Uncached messages can only be logged if they were tracked.
+         */
+        const authorId = message.author?.id ?? trackedMessage?.userId;
+
+        if (message.author?.bot || !authorId) return;
+
+        const data = {
+            messageId: message.id,
+            channelId: message.channelId,
+            authorId,
+            content: message.content ?? trackedMessage?.content ?? null
+        };
+
+        this.client.eventStream.emitGuildEvent(message.guildId, "message.deleted", data);
+        this.client.webhookService
+            .dispatch(message.guildId, "message.deleted", data)
+            .catch(logError);
+
+        if (!message.partial) {
+            this.client.emit(Events.NormalMessageDelete, message);
+            this.client.statsService.onMessageDelete(message);
+        }
 
         setTimeout(async () => {
             const auditLogEntries = await message.guild
@@ -43,8 +69,8 @@ export default class MessageDeleteEvent extends EventListener<Events.MessageDele
             const auditLogEntry = auditLogEntries?.entries.find(
                 e =>
                     e.createdAt.getTime() - deletedTimestamp <= 2_000 &&
-                    e.targetId === message.author.id &&
-                    e.executorId !== message.author.id
+                    e.targetId === authorId &&
+                    e.executorId !== authorId
             );
 
             let moderator: User | null = null;
@@ -53,7 +79,7 @@ export default class MessageDeleteEvent extends EventListener<Events.MessageDele
                 moderator = auditLogEntry.executor;
             }
 
-            await this.client.loggerService.logMessageDelete(message, moderator);
+            await this.client.loggerService.logMessageDelete(message, moderator, trackedMessage);
         }, 1000);
     }
 }
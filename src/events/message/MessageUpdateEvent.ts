@@ -18,7 +18,7 @@
  */
 
 import { log } from "console";
-import { Message } from "discord.js";
+import { Message, PartialMessage } from "discord.js";
 import EventListener from "../../core/EventListener";
 import { Events } from "../../types/ClientEvents";
 import { logError } from "../../utils/Logger";
@@ -30,27 +30,50 @@ export default class MessageUpdateEvent extends EventListener<Events.MessageUpda
         (message: Message) => this.client.messageRuleService.onMessageCreate(message)
     ];
 
-    async execute(oldMessage: Message, newMessage: Message) {
-        if (newMessage.author.bot) {
+    async execute(oldMessage: Message | PartialMessage, newMessage: Message | PartialMessage) {
+        /**
+         * Message partials are enabled, so the new message might need to be fetched.
+         */
+        const message = newMessage.partial ? await newMessage.fetch().catch(logError) : newMessage;
+
+        if (!message || message.author.bot) {
             return;
         }
 
-        if (oldMessage.content === newMessage.content) return;
+        const trackedMessage =
+            (await this.client.messageTrackingService
+                .onMessageUpdate(oldMessage, message)
+                .catch(logError)) ?? null;
+
+        /**
+         * Uncached messages can only be compared with their tracked version, if there is any.
+         */
+        const oldContent = oldMessage.partial
+            ? trackedMessage
+                ? trackedMessage.content ?? ""
+                : message.content
+            : oldMessage.content;
 
-        this.client.emit(Events.NormalMessageUpdate, oldMessage, newMessage);
+        if (oldContent === message.content) return;
+
+        if (!oldMessage.partial) {
+            this.client.emit(Events.NormalMessageUpdate, oldMessage, message);
+        }
 
-        this.client.statsService.onMessageUpdate(oldMessage, newMessage);
+        this.client.statsService.onMessageUpdate(oldMessage, message);
 
         for (const listener of this.listeners) {
-            if (await listener(newMessage)) {
+            if (await listener(message)) {
                 return;
             }
         }
 
-        await this.client.loggerService.logMessageEdit(oldMessage, newMessage);
+        await this.client.loggerService.logMessageEdit(oldMessage, message, trackedMessage);
 
-        if (this.client.configManager.config[newMessage.guildId!]?.commands.rerun_on_edit) {
-            const value = await this.client.commandManager.runCommandFromMessage(newMessage).catch(logError);
+        if (this.client.configManager.config[message.guildId!]?.commands.rerun_on_edit) {
+            const value = await this.client.commandManager
+                .runCommandFromMessage(message)
+                .catch(logError);
 
             if (value === false) {
                 log("Command or snippet not found: all strategies failed");
@@ -46,10 +46,11 @@ const intents = [
     GatewayIntentBits.GuildEmojisAndStickers,
     GatewayIntentBits.GuildPresences,
     GatewayIntentBits.GuildInvites,
-    GatewayIntentBits.GuildVoiceStates
+    GatewayIntentBits.GuildVoiceStates,
+    GatewayIntentBits.DirectMessages
 ];
 
-const partials = [Partials.Channel];
+const partials = [Partials.Channel, Partials.Message];
 
 function spawnNativeProcess() {
     const path = process.env.EXPERIMENTAL_NATIVE_EXECUTABLE_PATH;
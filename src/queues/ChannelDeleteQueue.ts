@@ -22,12 +22,12 @@ import { safeChannelFetch } from "../utils/fetch";
 import { logError } from "../utils/Logger";
 
 export default class ChannelDeleteQueue extends Queue {
-    async run(channelId: string) {
+    async run(channelId: string, reason?: string) {
         try {
             const channel = await safeChannelFetch(this.guild, channelId);
 
             if (channel) {
-                await channel.delete("Removing infraction channel as it's expired.");
+                await channel.delete(reason ?? "Removing infraction channel as it's expired.");
             }
         } catch (e) {
             logError(e);
@@ -0,0 +1,40 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { logError } from "../utils/Logger";
+import Queue from "../utils/Queue";
+
+export default class TicketAutoCloseQueue extends Queue {
+    async run(ticketId: string) {
+        try {
+            const ticket = await this.client.ticketService.getTicketById(
+                this.guild.id,
+                parseInt(ticketId)
+            );
+
+            if (!ticket) {
+                return;
+            }
+
+            await this.client.ticketService.autoCloseIfInactive(ticket, this.guild);
+        } catch (e) {
+            logError(e);
+        }
+    }
+}
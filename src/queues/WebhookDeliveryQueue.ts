@@ -0,0 +1,30 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { logError } from "../utils/Logger";
+import Queue from "../utils/Queue";
+
+export default class WebhookDeliveryQueue extends Queue {
+    async run(deliveryId: string) {
+        try {
+            await this.client.webhookService.deliver(this.guild, parseInt(deliveryId));
+        } catch (e) {
+            logError(e);
+        }
+    }
+}
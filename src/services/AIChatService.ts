@@ -0,0 +1,304 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Message, Snowflake } from "discord.js";
+import AbstractConversationStore, { ConversationMessage } from "../ai/AbstractConversationStore";
+import DatabaseConversationStore from "../ai/DatabaseConversationStore";
+import JSONConversationStore from "../ai/JSONConversationStore";
+import MemoryConversationStore from "../ai/MemoryConversationStore";
+import { AIChatMessage } from "../ai/providers/AbstractAIProvider";
+import Service from "../core/Service";
+import { HasEventListeners } from "../types/HasEventListeners";
+import { SystemConfig } from "../types/SystemConfigSchema";
+import { logError } from "../utils/Logger";
+import { trimConversation } from "../utils/ai";
+import { chunkedString, getEmoji } from "../utils/utils";
+
+export const name = "aiChatService";
+
+type GenerateOptions = {
+    guildId: Snowflake;
+    userId: Snowflake;
+    messages: AIChatMessage[];
+};
+
+export default class AIChatService extends Service implements HasEventListeners {
+    protected readonly rateLimits = new Map<`${Snowflake}_${Snowflake}`, number[]>();
+    protected readonly stores: Record<
+        SystemConfig["ai"]["history_store"],
+        AbstractConversationStore
+    > = {
+        memory: new MemoryConversationStore(this.client),
+        json: new JSONConversationStore(this.client),
+        database: new DatabaseConversationStore(this.client)
+    };
+
+    get store() {
+        return this.stores[this.client.configManager.systemConfig.ai.history_store];
+    }
+
+    getConfig(guildId: Snowflake) {
+        return this.client.configManager.config[guildId]?.ai_chat;
+    }
+
+    isChannelAllowed(guildId: Snowflake, channelId: Snowflake, parentId?: Snowflake | null) {
+        const channels = this.getConfig(guildId)?.channels ?? [];
+
+        return (
+            channels.length === 0 ||
+            channels.includes(channelId) ||
+            (!!parentId && channels.includes(parentId))
+        );
+    }
+
+    /**
+     * Records a new request from the given user and reports whether they've exceeded the rate limit.
+     */
+    isRateLimited(guildId: Snowflake, userId: Snowflake) {
+        const config = this.getConfig(guildId);
+
+        if (!config) {
+            return false;
+        }
+
+        const key = `${guildId}_${userId}` as const;
+        const now = Date.now();
+        const timestamps = (this.rateLimits.get(key) ?? []).filter(
+            timestamp => now - timestamp < config.rate_limit.window
+        );
+
+        if (timestamps.length >= config.rate_limit.max) {
+            this.rateLimits.set(key, timestamps);
+            return true;
+        }
+
+        timestamps.push(now);
+        this.rateLimits.set(key, timestamps);
+        return false;
+    }
+
+    trim(guildId: Snowflake, messages: AIChatMessage[]) {
+        const config = this.getConfig(guildId);
+
+        return trimConversation(messages, {
+            maxMessages: config?.max_context_messages ?? 20,
+            maxTokens: config?.max_context_tokens ?? 4000
+        });
+    }
+
+    async saveExchange({
+        conversationId,
+        guildId,
+        userId,
+        parentId,
+        prompt,
+        responses
+    }: {
+        conversationId: Snowflake;
+        guildId: Snowflake;
+        userId: Snowflake;
+        parentId: Snowflake | null;
+        prompt: { messageId: Snowflake; content: string };
+        responses: Array<{ messageId: Snowflake; content: string }>;
+    }) {
+        const createdAt = Date.now();
+        let previousId = prompt.messageId;
+
+        await this.store.add({
+            messageId: prompt.messageId,
+            content: prompt.content,
+            conversationId,
+            parentId,
+            guildId,
+            userId,
+            role: "user",
+            createdAt
+        });
+
+        for (const [index, response] of responses.entries()) {
+            await this.store.add({
+                messageId: response.messageId,
+                content: response.content,
+                conversationId,
+                parentId: previousId,
+                guildId,
+                userId: this.client.user!.id,
+                role: "assistant",
+                createdAt: createdAt + index + 1
+            });
+
+            previousId = response.messageId;
+        }
+    }
+
+    async onMessageCreate(message: Message) {
+        if (message.author.bot || !message.inGuild()) {
+            return;
+        }
+
+        const config = this.getConfig(message.guildId);
+
+        if (
+            !config?.enabled ||
+            message.content.startsWith(this.client.configManager.config[message.guildId]!.prefix)
+        ) {
+            return;
+        }
+
+        const context = await this.getContext(message);
+
+        if (!context) {
+            return;
+        }
+
+        if (
+            !this.isChannelAllowed(
+                message.guildId,
+                message.channelId,
+                message.channel.isThread() ? message.channel.parentId : null
+            )
+        ) {
+            return;
+        }
+
+        if (this.isRateLimited(message.guildId, message.author.id)) {
+            await message
+                .reply(
+                    `${getEmoji(
+                        this.client,
+                        "error"
+                    )} You're sending messages too quickly. Please try again later.`
+                )
+                .catch(logError);
+            return;
+        }
+
+        const content = message.content
+            .replace(new RegExp(`<@!?${this.client.user!.id}>`, "g"), "")
+            .trim();
+
+        if (!content) {
+            return;
+        }
+
+        await message.channel.sendTyping().catch(logError);
+
+        const result = await this.generate({
+            guildId: message.guildId,
+            userId: message.author.id,
+            messages: this.trim(message.guildId, [
+                ...context.history.map(({ role, content }) => ({ role, content })),
+                { role: "user", content }
+            ])
+        });
+
+        if (result.error !== undefined) {
+            await message
+                .reply(`${getEmoji(this.client, "error")} ${result.error}`)
+                .catch(logError);
+            return;
+        }
+
+        const responses: Array<{ messageId: Snowflake; content: string }> = [];
+        let target: Message = message;
+
+        for (const chunk of chunkedString(result.content, 2000)) {
+            const reply =
+                (await target
+                    .reply({ content: chunk, allowedMentions: { parse: [] } })
+                    .catch(logError)) ?? null;
+
+            if (!reply) {
+                break;
+            }
+
+            responses.push({ messageId: reply.id, content: chunk });
+            target = reply;
+        }
+
+        if (responses.length === 0) {
+            return;
+        }
+
+        await this.saveExchange({
+            conversationId: context.conversationId,
+            guildId: message.guildId,
+            userId: message.author.id,
+            parentId: context.history.at(-1)?.messageId ?? null,
+            prompt: { messageId: message.id, content },
+            responses
+        }).catch(logError);
+    }
+
+    /**
+     * Finds the conversation the given message belongs to, if any. Replies to AI messages continue the
+     * reply chain, while mentions in an AI thread continue the thread's conversation.
+     */
+    protected async getContext(
+        message: Message<true>
+    ): Promise<{ conversationId: Snowflake; history: ConversationMessage[] } | null> {
+        const config = this.getConfig(message.guildId)!;
+
+        if (message.reference?.messageId) {
+            const parent = await this.store.get(message.reference.messageId);
+
+            if (parent?.role === "assistant") {
+                const history = [parent];
+
+                while (history.length < config.max_context_messages && history[0].parentId) {
+                    const previous = await this.store.get(history[0].parentId);
+
+                    if (!previous) {
+                        break;
+                    }
+
+                    history.unshift(previous);
+                }
+
+                return { conversationId: parent.conversationId, history };
+            }
+        }
+
+        if (message.channel.isThread() && message.mentions.users.has(this.client.user!.id)) {
+            const history = await this.store.getConversation(
+                message.channelId,
+                config.max_context_messages
+            );
+
+            if (history.length === 0) {
+                return null;
+            }
+
+            return { conversationId: message.channelId, history };
+        }
+
+        return null;
+    }
+
+    generate({ guildId, userId, messages }: GenerateOptions) {
+        const config = this.getConfig(guildId);
+
+        return this.client.aiProviderService.complete({
+            provider: config?.provider,
+            systemPrompt: config?.system_prompt,
+            userId,
+            messages
+        });
+    }
+}
@@ -0,0 +1,111 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import AbstractAIProvider, {
+    CompletionOptions,
+    CompletionResult
+} from "../ai/providers/AbstractAIProvider";
+import CloudflareProvider from "../ai/providers/CloudflareProvider";
+import GeminiProvider from "../ai/providers/GeminiProvider";
+import MockProvider from "../ai/providers/MockProvider";
+import OpenAICompatibleProvider from "../ai/providers/OpenAICompatibleProvider";
+import OpenAIProvider from "../ai/providers/OpenAIProvider";
+import PerspectiveProvider from "../ai/providers/PerspectiveProvider";
+import Service from "../core/Service";
+import { SystemConfig } from "../types/SystemConfigSchema";
+import { logError } from "../utils/Logger";
+import { ModerationScores } from "../utils/ai";
+
+export const name = "aiProviderService";
+
+type CompletionProviderName = Exclude<SystemConfig["ai"]["provider"], "auto">;
+type ModerationProviderName = SystemConfig["ai"]["moderation_provider"];
+
+export default class AIProviderService extends Service {
+    protected readonly providers: Record<
+        CompletionProviderName | ModerationProviderName,
+        AbstractAIProvider
+    > = {
+        gemini: new GeminiProvider(this.client),
+        openai: new OpenAIProvider(this.client),
+        cloudflare: new CloudflareProvider(this.client),
+        openai_compatible: new OpenAICompatibleProvider(this.client),
+        perspective: new PerspectiveProvider(this.client),
+        mock: new MockProvider(this.client)
+    };
+
+    /**
+     * The providers tried, in order, when the provider is set to "auto".
+     */
+    protected readonly autoProviders: CompletionProviderName[] = ["gemini", "cloudflare", "openai"];
+
+    getCompletionProvider(name: CompletionProviderName | "auto" = "auto") {
+        const resolved =
+            name === "auto" ? this.client.configManager.systemConfig.ai.provider : name;
+
+        if (resolved !== "auto") {
+            return this.providers[resolved];
+        }
+
+        for (const providerName of this.autoProviders) {
+            if (this.providers[providerName].isConfigured()) {
+                return this.providers[providerName];
+            }
+        }
+
+        return null;
+    }
+
+    getModerationProvider() {
+        const provider =
+            this.providers[this.client.configManager.systemConfig.ai.moderation_provider];
+        return provider.moderate && provider.isConfigured() ? provider : null;
+    }
+
+    async complete({
+        provider: providerName,
+        ...options
+    }: CompletionOptions & {
+        provider?: CompletionProviderName | "auto";
+    }): Promise<CompletionResult> {
+        const provider = this.getCompletionProvider(providerName);
+
+        if (!provider?.complete) {
+            return { error: "No suitable AI service provider was configured." };
+        }
+
+        try {
+            return await provider.complete(options);
+        } catch (error) {
+            logError(error);
+            return {
+                error: "An error has occurred while trying to communicate with the AI model."
+            };
+        }
+    }
+
+    /**
+     * Scores the given text with the configured moderation provider.
+     *
+     * @returns The scores, or null if no moderation provider is available.
+     */
+    async moderate(text: string): Promise<ModerationScores | null> {
+        return (await this.getModerationProvider()?.moderate?.(text)) ?? null;
+    }
+}
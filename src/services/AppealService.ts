@@ -0,0 +1,725 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Appeal, AppealStatus, Infraction, InfractionType, Prisma } from "@prisma/client";
+import {
+    APIEmbed,
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    ChatInputCommandInteraction,
+    Colors,
+    Guild,
+    GuildMember,
+    Interaction,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    PermissionFlagsBits,
+    TextInputBuilder,
+    TextInputStyle,
+    User,
+    escapeMarkdown
+} from "discord.js";
+import Service from "../core/Service";
+import { GatewayEventListener } from "../decorators/GatewayEventListener";
+import { HasEventListeners } from "../types/HasEventListeners";
+import { logError } from "../utils/Logger";
+import { safeChannelFetch, safeMemberFetch, safeUserFetch } from "../utils/fetch";
+
+export const name = "appealService";
+
+type AppealActionResult =
+    | {
+          error: string;
+          appeal?: undefined;
+      }
+    | {
+          error?: undefined;
+          appeal: Appeal;
+      };
+
+type AppealReviewAction = "accept" | "deny" | "info";
+
+export default class AppealService extends Service implements HasEventListeners {
+    protected readonly banTypes: InfractionType[] = [
+        InfractionType.BAN,
+        InfractionType.TEMPBAN,
+        InfractionType.MASSBAN
+    ];
+    protected readonly muteTypes: InfractionType[] = [InfractionType.MUTE, InfractionType.TIMEOUT];
+    protected readonly statusColors: Record<AppealStatus, number> = {
+        PENDING: Colors.Gold,
+        ACCEPTED: Colors.Green,
+        DENIED: Colors.Red,
+        INFO_REQUESTED: Colors.Orange
+    };
+
+    @GatewayEventListener("interactionCreate")
+    async onInteractionCreate(interaction: Interaction) {
+        if (
+            interaction.isChatInputCommand() &&
+            !interaction.inGuild() &&
+            interaction.commandName === "appeal"
+        ) {
+            await this.onAppealCommand(interaction);
+        } else if (interaction.isButton() && interaction.customId.startsWith("appeal__")) {
+            await this.onButtonInteraction(interaction);
+        } else if (interaction.isModalSubmit() && interaction.customId.startsWith("appeal__")) {
+            await this.onModalSubmit(interaction);
+        }
+    }
+
+    getConfig(guildId: string) {
+        return this.client.configManager.config[guildId]?.infractions?.appeals;
+    }
+
+    isAppealable(infraction: Infraction) {
+        const config = this.getConfig(infraction.guildId);
+
+        return (
+            !!config?.enabled &&
+            (config.appealable_types as string[]).includes(infraction.type.toLowerCase())
+        );
+    }
+
+    /**
+     * Creates the action row with the "Appeal" button that gets attached to infraction DMs.
+     * Returns an empty array if the infraction can't be appealed.
+     */
+    createAppealActionRows(infraction: Infraction) {
+        if (!this.isAppealable(infraction)) {
+            return [];
+        }
+
+        return [
+            new ActionRowBuilder<ButtonBuilder>().addComponents(
+                new ButtonBuilder()
+                    .setCustomId(
+                        `appeal__open__${infraction.guildId}__${this.client.infractionManager.getCaseNumber(infraction)}`
+                    )
+                    .setLabel("Appeal")
+                    .setEmoji("📨")
+                    .setStyle(ButtonStyle.Secondary)
+            )
+        ];
+    }
+
+    getAppealById(id: number) {
+        return this.client.prisma.appeal.findFirst({
+            where: {
+                id
+            }
+        });
+    }
+
+    async checkEligibility(
+        guildId: string,
+        caseNumber: number,
+        userId: string
+    ): Promise<
+        { error: string; infraction?: undefined } | { error?: undefined; infraction: Infraction }
+    > {
+        const infraction = await this.client.infractionManager.getInfractionByCaseNumber(
+            guildId,
+            caseNumber,
+            false
+        );
+
+        if (!infraction || infraction.userId !== userId) {
+            return { error: "No such infraction found." };
+        }
+
+        const config = this.getConfig(infraction.guildId);
+
+        if (!config?.enabled) {
+            return {
+                error: "Appeals are not enabled in the server where this infraction was issued."
+            };
+        }
+
+        if (!this.isAppealable(infraction)) {
+            return { error: "This infraction can't be appealed." };
+        }
+
+        const appeals = await this.client.prisma.appeal.findMany({
+            where: {
+                infractionId: infraction.id
+            }
+        });
+
+        if (
+            appeals.some(
+                appeal =>
+                    appeal.status === AppealStatus.PENDING ||
+                    appeal.status === AppealStatus.INFO_REQUESTED
+            )
+        ) {
+            return { error: "You already have a pending appeal for this infraction." };
+        }
+
+        if (appeals.length >= config.max_per_infraction) {
+            return {
+                error: `You can't appeal this infraction more than ${config.max_per_infraction} time(s).`
+            };
+        }
+
+        const lastAppeal = await this.client.prisma.appeal.findFirst({
+            where: {
+                guildId: infraction.guildId,
+                userId
+            },
+            orderBy: {
+                createdAt: "desc"
+            }
+        });
+
+        if (lastAppeal && Date.now() - lastAppeal.createdAt.getTime() < config.cooldown) {
+            return {
+                error: `You're appealing too fast. You can appeal again <t:${Math.round(
+                    (lastAppeal.createdAt.getTime() + config.cooldown) / 1000
+                )}:R>.`
+            };
+        }
+
+        return { infraction };
+    }
+
+    async create(
+        guildId: string,
+        caseNumber: number,
+        user: User,
+        content: string
+    ): Promise<AppealActionResult> {
+        const eligibility = await this.checkEligibility(guildId, caseNumber, user.id);
+
+        if (eligibility.error !== undefined) {
+            return { error: eligibility.error };
+        }
+
+        const { infraction } = eligibility;
+        const guild = this.client.guilds.cache.get(infraction.guildId);
+        const config = this.getConfig(infraction.guildId);
+        const channel =
+            guild && config?.channel ? await safeChannelFetch(guild, config.channel) : null;
+
+        if (!channel?.isTextBased()) {
+            return {
+                error: "The appeal channel is not configured properly. Please contact the server staff."
+            };
+        }
+
+        let appeal = await this.client.prisma.appeal.create({
+            data: {
+                infractionId: infraction.id,
+                guildId: infraction.guildId,
+                userId: user.id,
+                content
+            }
+        });
+
+        const message = await channel
+            .send({
+                embeds: [this.createStaffEmbed(appeal, infraction, user)],
+                components: [this.createStaffActionRow(appeal)]
+            })
+            .catch(logError);
+
+        if (message) {
+            appeal = await this.client.prisma.appeal.update({
+                where: {
+                    id: appeal.id
+                },
+                data: {
+                    channelId: channel.id,
+                    messageId: message.id
+                }
+            });
+        }
+
+        return { appeal };
+    }
+
+    async addInformation(
+        appeal: Appeal,
+        user: User,
+        information: string
+    ): Promise<AppealActionResult> {
+        if (appeal.userId !== user.id || appeal.status !== AppealStatus.INFO_REQUESTED) {
+            return { error: "No more information was requested for this appeal." };
+        }
+
+        const updatedAppeal = await this.client.prisma.appeal.update({
+            where: {
+                id: appeal.id
+            },
+            data: {
+                content: `${appeal.content}\n\n**Additional information:**\n${information}`,
+                status: AppealStatus.PENDING
+            }
+        });
+
+        await this.updateStaffMessage(updatedAppeal, user, true);
+        return { appeal: updatedAppeal };
+    }
+
+    async review(
+        appeal: Appeal,
+        reviewer: GuildMember,
+        action: AppealReviewAction,
+        response?: string
+    ): Promise<AppealActionResult> {
+        if (appeal.status === AppealStatus.ACCEPTED || appeal.status === AppealStatus.DENIED) {
+            return { error: "This appeal has already been reviewed." };
+        }
+
+        const infraction = await this.client.prisma.infraction.findFirst({
+            where: {
+                id: appeal.infractionId,
+                deletedAt: null
+            }
+        });
+
+        if (!infraction) {
+            return { error: "The infraction of this appeal no longer exists." };
+        }
+
+        if (!this.canReview(reviewer, infraction)) {
+            return { error: "You don't have permission to review this appeal." };
+        }
+
+        const user = await safeUserFetch(this.client, appeal.userId);
+
+        if (!user) {
+            return { error: "The user who submitted this appeal could not be found." };
+        }
+
+        if (action === "accept") {
+            const error = await this.revokeInfraction(infraction, reviewer, user);
+
+            if (error) {
+                return { error };
+            }
+        }
+
+        const status =
+            action === "accept"
+                ? AppealStatus.ACCEPTED
+                : action === "deny"
+                  ? AppealStatus.DENIED
+                  : AppealStatus.INFO_REQUESTED;
+
+        const updatedAppeal = await this.client.prisma.appeal.update({
+            where: {
+                id: appeal.id
+            },
+            data: {
+                status,
+                response: response ?? null,
+                reviewerId: reviewer.id,
+                reviewedAt: new Date()
+            }
+        });
+
+        if (action !== "info") {
+            await this.client.prisma.infraction.update({
+                where: {
+                    id: infraction.id
+                },
+                data: {
+                    metadata: {
+                        ...((infraction.metadata as Prisma.JsonObject | null) ?? {}),
+                        appeal_id: appeal.id,
+                        appeal_status: status.toLowerCase(),
+                        appeal_reviewed_by: reviewer.id
+                    }
+                }
+            });
+        }
+
+        await this.updateStaffMessage(updatedAppeal, user, action === "info");
+        await this.notifyUser(updatedAppeal, infraction, reviewer.guild, user).catch(logError);
+
+        return { appeal: updatedAppeal };
+    }
+
+    protected canReview(member: GuildMember, infraction: Infraction) {
+        return member.permissions.has(
+            this.banTypes.includes(infraction.type)
+                ? PermissionFlagsBits.BanMembers
+                : PermissionFlagsBits.ModerateMembers,
+            true
+        );
+    }
+
+    protected async revokeInfraction(infraction: Infraction, reviewer: GuildMember, user: User) {
+        const options = {
+            guild: reviewer.guild,
+            moderator: reviewer.user,
+            reason: `Appeal accepted for infraction #${this.client.infractionManager.getCaseNumber(infraction)}`,
+            sendLog: true
+        };
+
+        if (this.banTypes.includes(infraction.type)) {
+            const { error, noSuchBan } = await this.client.infractionManager.removeUserBan(
+                user,
+                options
+            );
+
+            if (error && !noSuchBan) {
+                return "Failed to unban the user. Make sure that I have enough permissions to do it.";
+            }
+        } else if (this.muteTypes.includes(infraction.type)) {
+            const member = await safeMemberFetch(reviewer.guild, user.id);
+
+            if (member) {
+                const { error } = await this.client.infractionManager.removeMemberMute(member, {
+                    ...options,
+                    notifyUser: false
+                });
+
+                if (error && error !== "This user is not muted") {
+                    return error;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    protected async notifyUser(appeal: Appeal, infraction: Infraction, guild: Guild, user: User) {
+        const caseNumber = this.client.infractionManager.getCaseNumber(infraction);
+        const description =
+            appeal.status === AppealStatus.ACCEPTED
+                ? `Your appeal for infraction #${caseNumber} has been accepted.`
+                : appeal.status === AppealStatus.DENIED
+                  ? `Your appeal for infraction #${caseNumber} has been denied.`
+                  : `The staff members have requested more information about your appeal for infraction #${caseNumber}.`;
+
+        await user.send({
+            embeds: [
+                {
+                    author: {
+                        name: `Appeal #${appeal.id} in ${guild.name}`,
+                        icon_url: guild.iconURL() ?? undefined
+                    },
+                    description,
+                    fields: appeal.response
+                        ? [
+                              {
+                                  name: "Response",
+                                  value: appeal.response
+                              }
+                          ]
+                        : [],
+                    color: this.statusColors[appeal.status],
+                    timestamp: new Date().toISOString()
+                }
+            ],
+            components:
+                appeal.status === AppealStatus.INFO_REQUESTED
+                    ? [
+                          new ActionRowBuilder<ButtonBuilder>().addComponents(
+                              new ButtonBuilder()
+                                  .setCustomId(`appeal__reply__${appeal.id}`)
+                                  .setLabel("Provide Information")
+                                  .setStyle(ButtonStyle.Primary)
+                          )
+                      ]
+                    : []
+        });
+    }
+
+    protected async updateStaffMessage(appeal: Appeal, user: User, keepComponents: boolean) {
+        const guild = this.client.guilds.cache.get(appeal.guildId);
+
+        if (!guild || !appeal.channelId || !appeal.messageId) {
+            return;
+        }
+
+        const channel = await safeChannelFetch(guild, appeal.channelId);
+
+        if (!channel?.isTextBased()) {
+            return;
+        }
+
+        const infraction = await this.client.prisma.infraction.findFirst({
+            where: {
+                id: appeal.infractionId
+            }
+        });
+
+        if (!infraction) {
+            return;
+        }
+
+        try {
+            const message = await channel.messages.fetch(appeal.messageId);
+
+            await message.edit({
+                embeds: [this.createStaffEmbed(appeal, infraction, user)],
+                components: keepComponents ? [this.createStaffActionRow(appeal)] : []
+            });
+        } catch (e) {
+            logError(e);
+        }
+    }
+
+    protected createStaffEmbed(appeal: Appeal, infraction: Infraction, user: User): APIEmbed {
+        return {
+            author: {
+                name: `Appeal #${appeal.id}`,
+                icon_url: user.displayAvatarURL()
+            },
+            description: appeal.content,
+            fields: [
+                {
+                    name: "User",
+                    value: `${escapeMarkdown(user.username)} (${user.id})`,
+                    inline: true
+                },
+                {
+                    name: "Infraction",
+                    value: `#${this.client.infractionManager.getCaseNumber(infraction)} (${infraction.type})`,
+                    inline: true
+                },
+                {
+                    name: "Status",
+                    value: `${appeal.status}${appeal.reviewerId ? ` by <@${appeal.reviewerId}>` : ""}`,
+                    inline: true
+                },
+                {
+                    name: "Infraction Reason",
+                    value: infraction.reason ?? "*No reason provided*"
+                },
+                ...(appeal.response
+                    ? [
+                          {
+                              name: "Response",
+                              value: appeal.response
+                          }
+                      ]
+                    : [])
+            ],
+            color: this.statusColors[appeal.status],
+            timestamp: appeal.createdAt.toISOString()
+        };
+    }
+
+    protected createStaffActionRow(appeal: Appeal) {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`appeal__accept__${appeal.id}`)
+                .setLabel("Accept")
+                .setStyle(ButtonStyle.Success),
+            new ButtonBuilder()
+                .setCustomId(`appeal__deny__${appeal.id}`)
+                .setLabel("Deny")
+                .setStyle(ButtonStyle.Danger),
+            new ButtonBuilder()
+                .setCustomId(`appeal__info__${appeal.id}`)
+                .setLabel("Request Info")
+                .setStyle(ButtonStyle.Secondary)
+                .setDisabled(appeal.status === AppealStatus.INFO_REQUESTED)
+        );
+    }
+
+    createAppealModal(infraction: Infraction) {
+        const caseNumber = this.client.infractionManager.getCaseNumber(infraction);
+
+        return new ModalBuilder()
+            .setCustomId(`appeal__submit__${infraction.guildId}__${caseNumber}`)
+            .setTitle(`Appeal Infraction #${caseNumber}`)
+            .addComponents(
+                new ActionRowBuilder<TextInputBuilder>().addComponents(
+                    new TextInputBuilder()
+                        .setCustomId("content")
+                        .setLabel("Why should this infraction be revoked?")
+                        .setStyle(TextInputStyle.Paragraph)
+                        .setMinLength(10)
+                        .setMaxLength(2000)
+                        .setRequired(true)
+                )
+            );
+    }
+
+    protected createResponseModal(
+        customId: string,
+        title: string,
+        label: string,
+        required: boolean
+    ) {
+        return new ModalBuilder()
+            .setCustomId(customId)
+            .setTitle(title)
+            .addComponents(
+                new ActionRowBuilder<TextInputBuilder>().addComponents(
+                    new TextInputBuilder()
+                        .setCustomId("content")
+                        .setLabel(label)
+                        .setStyle(TextInputStyle.Paragraph)
+                        .setMaxLength(1000)
+                        .setRequired(required)
+                )
+            );
+    }
+
+    /**
+     * Handles the `appeal` command. The server defaults to the one the command was used in, so
+     * that users only need to provide it when appealing from DMs.
+     */
+    async onAppealCommand(interaction: ChatInputCommandInteraction) {
+        const guildId = interaction.guildId ?? interaction.options.getString("server");
+
+        if (!guildId) {
+            await interaction.reply({
+                content: "Please provide the ID of the server where you received the infraction.",
+                ephemeral: true
+            });
+
+            return;
+        }
+
+        await this.showAppealModal(
+            interaction,
+            guildId,
+            interaction.options.getInteger("case", true)
+        );
+    }
+
+    async showAppealModal(
+        interaction: ChatInputCommandInteraction | ButtonInteraction,
+        guildId: string,
+        caseNumber: number
+    ) {
+        const { error, infraction } = await this.checkEligibility(
+            guildId,
+            caseNumber,
+            interaction.user.id
+        );
+
+        if (error !== undefined) {
+            await interaction.reply({
+                content: error,
+                ephemeral: true
+            });
+
+            return;
+        }
+
+        await interaction.showModal(this.createAppealModal(infraction));
+    }
+
+    protected async onButtonInteraction(interaction: ButtonInteraction) {
+        const [, action, id, caseNumber] = interaction.customId.split("__");
+
+        if (action === "open") {
+            await this.showAppealModal(interaction, id, parseInt(caseNumber));
+            return;
+        }
+
+        if (action === "reply") {
+            await interaction.showModal(
+                this.createResponseModal(
+                    `appeal__reply_submit__${id}`,
+                    "Provide Information",
+                    "Additional information",
+                    true
+                )
+            );
+
+            return;
+        }
+
+        if (!["accept", "deny", "info"].includes(action)) {
+            return;
+        }
+
+        await interaction.showModal(
+            this.createResponseModal(
+                `appeal__review__${action}__${id}`,
+                action === "accept"
+                    ? "Accept Appeal"
+                    : action === "deny"
+                      ? "Deny Appeal"
+                      : "Request Information",
+                action === "info" ? "What do you want to know?" : "Response to the user",
+                action === "info"
+            )
+        );
+    }
+
+    protected async onModalSubmit(interaction: ModalSubmitInteraction) {
+        const [, action, ...rest] = interaction.customId.split("__");
+        const content = interaction.fields.getTextInputValue("content");
+
+        await interaction.deferReply({ ephemeral: true });
+
+        if (action === "submit") {
+            const result = await this.create(rest[0], parseInt(rest[1]), interaction.user, content);
+
+            await interaction.editReply(
+                result.error ??
+                    `Your appeal has been submitted (ID: ${result.appeal.id}). You'll be notified once it has been reviewed.`
+            );
+
+            return;
+        }
+
+        const appeal = await this.getAppealById(parseInt(rest[rest.length - 1]));
+
+        if (!appeal) {
+            await interaction.editReply("This appeal no longer exists.");
+            return;
+        }
+
+        if (action === "reply_submit") {
+            const { error } = await this.addInformation(appeal, interaction.user, content);
+            await interaction.editReply(
+                error ?? "Your response has been sent to the staff members."
+            );
+            return;
+        }
+
+        const guild = this.client.guilds.cache.get(appeal.guildId);
+        const member =
+            interaction.inGuild() && guild
+                ? await safeMemberFetch(guild, interaction.user.id)
+                : null;
+
+        if (action !== "review") {
+            await interaction.editReply("Unknown action.");
+            return;
+        }
+
+        if (!member) {
+            await interaction.editReply("You must be a member of the server to review appeals.");
+            return;
+        }
+
+        const { error } = await this.review(
+            appeal,
+            member,
+            rest[0] as AppealReviewAction,
+            content || undefined
+        );
+
+        await interaction.editReply(error ?? "Operation completed.");
+    }
+}
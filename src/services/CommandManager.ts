@@ -205,6 +205,15 @@ export default class CommandManager extends Service {
 
         if (!command) {
             log("Command not found, trying to find a snippet");
+
+            if (this.client.modmailService.getSessionByThread(message.channelId)) {
+                return await this.client.modmailService.replyWithSnippet(
+                    message,
+                    foundPrefix,
+                    commandName
+                );
+            }
+
             return await this.client.snippetManager.onMessageCreate(
                 message,
                 foundPrefix,
@@ -299,6 +308,11 @@ export default class CommandManager extends Service {
         interaction: Exclude<CommandMessage, Message>,
         checkOnly = false
     ) {
+        if (!interaction.inGuild()) {
+            // Commands that work in DMs are handled by their respective services
+            return;
+        }
+
         const config = this.client.configManager.config[interaction.guildId!];
 
         if (!config) {
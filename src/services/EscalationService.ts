@@ -0,0 +1,168 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Infraction, InfractionType } from "@prisma/client";
+import { formatDistanceToNowStrict } from "date-fns";
+import { Guild, GuildMember, Message, TextChannel, User } from "discord.js";
+import Service from "../core/Service";
+import { EscalationRule } from "../types/EscalationRuleSchema";
+import { logError } from "../utils/Logger";
+import { calculateInfractionScore, findTriggeredRule } from "../utils/escalation";
+import { safeMemberFetch } from "../utils/fetch";
+
+export const name = "escalation";
+
+type EscalationActionOptions = {
+    reason: string;
+    message?: Message;
+    messageChannel?: TextChannel;
+};
+
+export default class EscalationService extends Service {
+    /**
+     * Checks the escalation rules of the guild after an infraction was created, and takes the
+     * action of the rule with the highest threshold that the user has just reached.
+     */
+    async onInfractionCreate(guild: Guild, user: User, infraction: Infraction) {
+        const config = this.client.configManager.config[guild.id]?.infractions?.escalation;
+
+        if (!config?.enabled || config.rules.length === 0) {
+            return;
+        }
+
+        const windows = config.rules.map(rule => rule.window);
+        const longestWindow = windows.includes(0) ? 0 : Math.max(...windows);
+        const now = Date.now();
+        const infractions = await this.client.prisma.infraction.findMany({
+            where: {
+                guildId: guild.id,
+                userId: user.id,
+                deletedAt: null,
+                createdAt: longestWindow > 0 ? { gte: new Date(now - longestWindow) } : undefined
+            },
+            select: {
+                id: true,
+                type: true,
+                createdAt: true
+            }
+        });
+        const previousInfractions = infractions.filter(({ id }) => id !== infraction.id);
+        const triggered = findTriggeredRule(config.rules, rule => ({
+            previous: calculateInfractionScore(
+                previousInfractions,
+                config.weights,
+                rule.window,
+                now
+            ),
+            current: calculateInfractionScore(infractions, config.weights, rule.window, now)
+        }));
+
+        if (!triggered) {
+            return;
+        }
+
+        const { rule, index, score } = triggered;
+
+        if (rule.action === "ban" && infraction.type === InfractionType.BAN) {
+            return;
+        }
+
+        await this.takeAction(guild, (await safeMemberFetch(guild, user.id)) ?? user, rule, {
+            reason: this.createReason(rule, index, score, now)
+        });
+    }
+
+    protected createReason(rule: EscalationRule, index: number, score: number, now: number) {
+        return `Automatic escalation: rule ${this.describeRule(rule, index)} was triggered (${score} point(s)${
+            rule.window > 0
+                ? ` in the last ${formatDistanceToNowStrict(new Date(now - rule.window))}`
+                : ""
+        })`;
+    }
+
+    /**
+     * Takes the action of the given rule through the infraction manager. Only bans can be
+     * taken against users who are not in the guild.
+     */
+    async takeAction(
+        guild: Guild,
+        target: GuildMember | User,
+        rule: Pick<EscalationRule, "action" | "duration">,
+        { reason, message, messageChannel }: EscalationActionOptions
+    ) {
+        const member = target instanceof GuildMember ? target : null;
+        const user = member?.user ?? (target as User);
+        const common = {
+            guild,
+            moderator: this.client.user!,
+            reason,
+            notifyUser: true,
+            sendLog: true,
+            skipEscalation: true
+        };
+
+        switch (rule.action) {
+            case "verbal_warn":
+                await message?.channel
+                    .send({
+                        content: `Hey ${user.toString()}, please follow the rules of the server!`
+                    })
+                    .catch(logError);
+                break;
+
+            case "warn":
+                if (member) {
+                    await this.client.infractionManager.createMemberWarn(member, common);
+                }
+
+                break;
+
+            case "mute":
+                if (member) {
+                    await this.client.infractionManager.createMemberMute(member, {
+                        ...common,
+                        duration: rule.duration || 1000 * 60 * 60,
+                        messageChannel,
+                        autoRemoveQueue: true
+                    });
+                }
+
+                break;
+
+            case "kick":
+                if (member) {
+                    await this.client.infractionManager.createMemberKick(member, common);
+                }
+
+                break;
+
+            case "ban":
+                await this.client.infractionManager.createUserBan(user, {
+                    ...common,
+                    duration: rule.duration || undefined,
+                    autoRemoveQueue: true
+                });
+                break;
+        }
+    }
+
+    describeRule(rule: Pick<EscalationRule, "name" | "threshold">, index: number) {
+        return `#${index + 1}${rule.name ? ` "${rule.name}"` : ""} (threshold ${rule.threshold})`;
+    }
+}
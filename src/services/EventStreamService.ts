@@ -0,0 +1,140 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { User } from "@prisma/client";
+import { Snowflake } from "discord.js";
+import { CorsOptions } from "cors";
+import { Server as HttpServer } from "http";
+import { Server } from "socket.io";
+import { fetchAPITokenUser } from "../api/middleware/RequireAuthMiddleware";
+import Service from "../core/Service";
+import { log } from "../utils/Logger";
+
+export const name = "eventStream";
+
+/**
+ * Streams guild events to dashboard clients. The stream runs on the API server, under the
+ * `/events` namespace. Clients connect with an API token, then subscribe to the guilds they
+ * have access to.
+ */
+export default class EventStreamService extends Service {
+    public readonly MAX_CONNECTIONS = 100;
+    public readonly MAX_CONNECTIONS_PER_USER = 5;
+    private io?: Server;
+
+    /**
+     * Uses the same CORS options as the API server, so that dashboards that can call the API
+     * can also connect to the stream.
+     */
+    attach(server: HttpServer, cors: CorsOptions) {
+        this.io = new Server(server, { cors });
+
+        const namespace = this.io.of("/events");
+
+        namespace.use(async (socket, next) => {
+            const token =
+                socket.handshake.auth?.token ??
+                socket.request.headers.authorization?.replace(/^Bearer\s+/i, "");
+
+            if (!token) {
+                next(new Error("No API token provided"));
+                return;
+            }
+
+            let user: User;
+
+            try {
+                user = await fetchAPITokenUser(this.client, token);
+            } catch (e) {
+                log(e);
+                next(new Error("Invalid API token"));
+                return;
+            }
+
+            const sockets = [...namespace.sockets.values()];
+
+            if (
+                sockets.length >= this.MAX_CONNECTIONS ||
+                sockets.filter(other => other.data.user.id === user.id).length >=
+                    this.MAX_CONNECTIONS_PER_USER
+            ) {
+                next(new Error("Too many connections"));
+                return;
+            }
+
+            socket.data.user = user;
+            socket.data.token = token;
+            next();
+        });
+
+        namespace.on("connection", socket => {
+            const expiresIn = (socket.data.user as User).tokenExpiresAt!.getTime() - Date.now();
+
+            // setTimeout() cannot wait longer than this, the token is checked again on subscribe
+            const timeout =
+                expiresIn <= 2_147_483_647
+                    ? setTimeout(() => socket.disconnect(true), expiresIn)
+                    : undefined;
+
+            socket.on("disconnect", () => clearTimeout(timeout));
+
+            socket.on("subscribe", async (guildId: unknown, callback?: unknown) => {
+                const reply = typeof callback === "function" ? callback : () => {};
+                let user: User;
+
+                try {
+                    user = await fetchAPITokenUser(this.client, socket.data.token);
+                } catch (e) {
+                    log(e);
+                    reply({ error: "Your API token has expired." });
+                    socket.disconnect(true);
+                    return;
+                }
+
+                socket.data.user = user;
+
+                if (typeof guildId !== "string" || !user.guilds.includes(guildId)) {
+                    reply({ error: "Access denied." });
+                    return;
+                }
+
+                await socket.join(`guild:${guildId}`);
+                reply({ success: true });
+            });
+
+            socket.on("unsubscribe", async (guildId: unknown, callback?: unknown) => {
+                if (typeof guildId === "string") {
+                    await socket.leave(`guild:${guildId}`);
+                }
+
+                if (typeof callback === "function") {
+                    callback({ success: true });
+                }
+            });
+        });
+    }
+
+    emitGuildEvent(guildId: Snowflake, event: string, data: unknown) {
+        this.io?.of("/events").to(`guild:${guildId}`).emit(event, {
+            guildId,
+            createdAt: new Date().toISOString(),
+            data
+        });
+    }
+}
@@ -35,10 +35,13 @@ export default class ImageRecognitionService extends Service {
 
     async boot() {
         for (const guild in this.client.configManager.config) {
+            const profileFilter = this.client.configManager.config[guild]?.profile_filter;
+
             if (
                 this.client.configManager.config[guild]?.message_rules?.rules.some(
                     rule => rule.type === "EXPERIMENTAL_nsfw_filter"
-                )
+                ) ||
+                (profileFilter?.enabled && profileFilter.scan.includes("avatar") && profileFilter.avatar.nsfw)
             ) {
                 logInfo("Loading NSFWJS model for NSFW image recognition");
 
@@ -88,6 +91,10 @@ export default class ImageRecognitionService extends Service {
         return this.worker!.recognize(image);
     }
 
+    isNSFWModelLoaded() {
+        return this.nsfwJsModel !== null;
+    }
+
     async detectNSFW(image: Uint8Array | Buffer) {
         if (!this.tensorFlow) {
             throw new Error("Tensorflow is not loaded");
@@ -17,13 +17,14 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Infraction, InfractionType } from "@prisma/client";
+import { Infraction, InfractionType, Prisma } from "@prisma/client";
 import { AlignmentEnum, AsciiTable3 } from "ascii-table3";
 import { formatDistanceToNowStrict } from "date-fns";
 import {
     APIEmbed,
     APIEmbedField,
     APIUser,
+    CategoryChannel,
     ChannelType,
     ColorResolvable,
     DiscordAPIError,
@@ -48,9 +49,19 @@ import {
 import path from "path";
 import { CommandAbortedError } from "../core/Command";
 import Service from "../core/Service";
-import { log, logError } from "../utils/Logger";
+import { log, logError, logInfo } from "../utils/Logger";
 import QueueEntry from "../utils/QueueEntry";
-import { safeChannelFetch } from "../utils/fetch";
+import { allocateCaseNumbers } from "../utils/caseNumbers";
+import { safeChannelFetch, safeUserFetch } from "../utils/fetch";
+import {
+    InfractionFileFormat,
+    InfractionImportReport,
+    getInfractionFingerprint,
+    getStoredInfractionSourceId,
+    parseInfractionImport,
+    serializeInfractions
+} from "../utils/infractionTransfer";
+import { InfractionRevisableFields, getInfractionChanges } from "../utils/infractions";
 import { getEmoji, wait } from "../utils/utils";
 
 export const name = "infractionManager";
@@ -74,6 +85,41 @@ export default class InfractionManager extends Service {
         WARNING: 5
     };
 
+    async boot() {
+        await this.assignMissingCaseNumbers();
+    }
+
+    /**
+     * Infractions created before case numbers were introduced do not have one yet.
+     */
+    async assignMissingCaseNumbers() {
+        const infractions = await this.client.prisma.infraction.findMany({
+            where: { caseNumber: null },
+            select: { id: true, guildId: true },
+            orderBy: { id: "asc" }
+        });
+        const infractionsByGuild = new Map<string, number[]>();
+
+        for (const { id, guildId } of infractions) {
+            infractionsByGuild.set(guildId, [...(infractionsByGuild.get(guildId) ?? []), id]);
+        }
+
+        for (const [guildId, ids] of infractionsByGuild) {
+            const caseNumbers = await allocateCaseNumbers(this.client.prisma, guildId, ids.length);
+
+            await this.client.prisma.$transaction(
+                ids.map((id, index) =>
+                    this.client.prisma.infraction.update({
+                        where: { id },
+                        data: { caseNumber: caseNumbers[index] }
+                    })
+                )
+            );
+
+            logInfo(`Assigned case numbers to ${ids.length} infraction(s) in guild ${guildId}`);
+        }
+    }
+
     calculatePoints(infractionCounts: Record<InfractionType, number>) {
         let points = 0;
 
@@ -164,7 +210,8 @@ export default class InfractionManager extends Service {
             by: "type",
             where: {
                 userId,
-                guildId
+                guildId,
+                deletedAt: null
             },
             _count: true
         });
@@ -210,8 +257,8 @@ export default class InfractionManager extends Service {
             color: 0x007bff,
             fields: [
                 {
-                    name: "ID",
-                    value: infraction.id.toString(),
+                    name: "Case",
+                    value: `#${this.getCaseNumber(infraction)}`,
                     inline: true
                 },
                 {
@@ -319,6 +366,278 @@ export default class InfractionManager extends Service {
         return finalReason;
     }
 
+    async updateInfraction(
+        infraction: Infraction,
+        data: Partial<InfractionRevisableFields>,
+        moderator: User
+    ) {
+        const changes = getInfractionChanges(infraction, data);
+
+        if (changes.length === 0) {
+            return { infraction, changes };
+        }
+
+        const [updatedInfraction] = await this.client.prisma.$transaction([
+            this.client.prisma.infraction.update({
+                where: { id: infraction.id },
+                data: {
+                    ...data,
+                    deletedById:
+                        data.deletedAt === undefined ? undefined : data.deletedAt && moderator.id
+                }
+            }),
+            this.client.prisma.infractionRevision.createMany({
+                data: changes.map(change => ({
+                    ...change,
+                    infractionId: infraction.id,
+                    guildId: infraction.guildId,
+                    moderatorId: moderator.id
+                }))
+            })
+        ]);
+
+        const eventData = {
+            infraction: updatedInfraction,
+            changes,
+            moderatorId: moderator.id
+        };
+
+        this.client.eventStream.emitGuildEvent(infraction.guildId, "infraction.updated", eventData);
+        this.client.webhookService
+            .dispatch(infraction.guildId, "infraction.updated", eventData)
+            .catch(logError);
+
+        return { infraction: updatedInfraction, changes };
+    }
+
+    getInfractionDurationError(infraction: Infraction, duration: number) {
+        if (infraction.expiresAt && infraction.expiresAt.getTime() <= Date.now()) {
+            return "That infraction is expired, so you can't change it's duration!";
+        }
+
+        if (infraction.createdAt.getTime() + duration * 1000 <= Date.now()) {
+            return "That duration makes the infraction expire in the past, which is not possible! Please make sure the time of infraction creation plus the new duration is greater than the current time!";
+        }
+
+        if (infraction.expiresAt === null) {
+            return "This infraction did not have a duration in the first place, so you can't set one now.";
+        }
+
+        return null;
+    }
+
+    /**
+     * Updates the reason and/or duration (in seconds) of an infraction, reschedules
+     * its queue and logs the changes.
+     */
+    async editInfraction(
+        infraction: Infraction,
+        { reason, duration }: { reason?: string; duration?: number },
+        moderator: User
+    ) {
+        const expiresAt = duration
+            ? new Date(infraction.createdAt.getTime() + duration * 1000)
+            : undefined;
+
+        if (expiresAt && infraction.queueId) {
+            const queue = this.client.queueManager.queues.get(`${infraction.queueId}`);
+
+            if (queue) {
+                await queue.updateTime(expiresAt);
+            }
+        }
+
+        const result = await this.updateInfraction(infraction, { reason, expiresAt }, moderator);
+
+        if (result.changes.length > 0) {
+            await this.client.loggerService.logInfractionUpdate(
+                result.infraction,
+                result.changes,
+                await safeUserFetch(this.client, infraction.userId),
+                moderator
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Soft-deletes an infraction, so that it can be restored later, and logs the deletion.
+     */
+    async deleteInfraction(infraction: Infraction, moderator: User) {
+        const result = await this.updateInfraction(
+            infraction,
+            { deletedAt: new Date() },
+            moderator
+        );
+
+        if (result.changes.length > 0) {
+            await this.client.loggerService.logInfractionDeleteOrRestore(
+                result.infraction,
+                await safeUserFetch(this.client, infraction.userId),
+                moderator,
+                "Deleted"
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Soft-deletes the given infractions one by one.
+     *
+     * @returns The number of infractions that were deleted
+     */
+    async deleteInfractions(infractions: readonly Infraction[], moderator: User) {
+        let count = 0;
+
+        for (const infraction of infractions) {
+            const { changes } = await this.deleteInfraction(infraction, moderator);
+
+            if (changes.length > 0) {
+                count++;
+            }
+        }
+
+        return count;
+    }
+
+    async restoreInfraction(infraction: Infraction, moderator: User) {
+        const result = await this.updateInfraction(infraction, { deletedAt: null }, moderator);
+
+        if (result.changes.length > 0) {
+            await this.client.loggerService.logInfractionDeleteOrRestore(
+                result.infraction,
+                await safeUserFetch(this.client, infraction.userId),
+                moderator,
+                "Restored"
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the case number shown to users and moderators for an infraction. Infractions
+     * that have not been numbered yet fall back to their ID.
+     */
+    getCaseNumber(infraction: Pick<Infraction, "id" | "caseNumber">) {
+        return infraction.caseNumber ?? infraction.id;
+    }
+
+    /**
+     * Sends `infraction.created` to the event stream and the webhooks of the guild. Every code
+     * path that records an infraction must call this.
+     */
+    dispatchInfractionCreate(infraction: Infraction) {
+        this.client.eventStream.emitGuildEvent(infraction.guildId, "infraction.created", {
+            infraction
+        });
+        this.client.webhookService
+            .dispatch(infraction.guildId, "infraction.created", { infraction })
+            .catch(logError);
+    }
+
+    /**
+     * Finds an infraction by the case number that is shown to users and moderators.
+     *
+     * @param deleted Whether to look for a deleted infraction. Both are matched if not given.
+     */
+    getInfractionByCaseNumber(guildId: Snowflake, caseNumber: number, deleted?: boolean) {
+        return this.client.prisma.infraction.findFirst({
+            where: {
+                guildId,
+                caseNumber,
+                deletedAt: deleted === undefined ? undefined : deleted ? { not: null } : null
+            }
+        });
+    }
+
+    getInfractionRevisions(infractionId: number, guildId: Snowflake) {
+        return this.client.prisma.infractionRevision.findMany({
+            where: { infractionId, guildId },
+            orderBy: { createdAt: "asc" }
+        });
+    }
+
+    async exportInfractions(guildId: Snowflake, format: InfractionFileFormat, userId?: Snowflake) {
+        const infractions = await this.client.prisma.infraction.findMany({
+            where: { guildId, userId, deletedAt: null },
+            orderBy: { createdAt: "asc" }
+        });
+
+        return {
+            count: infractions.length,
+            content: serializeInfractions(infractions, format)
+        };
+    }
+
+    async importInfractions(
+        guildId: Snowflake,
+        content: string,
+        format?: string | null
+    ): Promise<InfractionImportReport> {
+        const parsed = parseInfractionImport(content, format);
+        const existingInfractions = await this.client.prisma.infraction.findMany({
+            where: {
+                guildId,
+                userId: {
+                    in: [...new Set(parsed.infractions.map(infraction => infraction.userId))]
+                }
+            },
+            select: {
+                id: true,
+                type: true,
+                userId: true,
+                moderatorId: true,
+                createdAt: true,
+                metadata: true
+            }
+        });
+        const fingerprints = new Set(
+            existingInfractions.map(infraction =>
+                getInfractionFingerprint({
+                    ...infraction,
+                    sourceId: getStoredInfractionSourceId(infraction)
+                })
+            )
+        );
+        const infractions = parsed.infractions.filter(infraction => {
+            const fingerprint = getInfractionFingerprint(infraction);
+
+            if (fingerprints.has(fingerprint)) {
+                return false;
+            }
+
+            fingerprints.add(fingerprint);
+            return true;
+        });
+
+        if (infractions.length > 0) {
+            const createdInfractions = await this.client.prisma.infraction.createManyAndReturn({
+                data: infractions.map(({ sourceId, metadata, ...infraction }) => ({
+                    ...infraction,
+                    guildId,
+                    metadata: {
+                        ...metadata,
+                        imported_from: parsed.format,
+                        source_id: sourceId
+                    } as Prisma.InputJsonObject
+                }))
+            });
+
+            createdInfractions.forEach(infraction => this.dispatchInfractionCreate(infraction));
+        }
+
+        return {
+            format: parsed.format,
+            total: parsed.total,
+            imported: infractions.length,
+            duplicates: parsed.infractions.length - infractions.length,
+            errors: parsed.errors
+        };
+    }
+
     private async sendDMBuildEmbed(guild: Guild, options: SendDMOptions) {
         const { fields, description, actionDoneName, id, reason, color, title } = options;
 
@@ -326,8 +645,8 @@ export default class InfractionManager extends Service {
             ...(this.client.configManager.config[guild.id]!.infractions?.send_ids_to_user
                 ? [
                       {
-                          name: "Infraction ID",
-                          value: `${id}`,
+                          name: "Case",
+                          value: `#${id}`,
                           inline: false
                       }
                   ]
@@ -365,7 +684,10 @@ export default class InfractionManager extends Service {
 
         try {
             await user.send({
-                embeds: [embed]
+                embeds: [embed],
+                components: infraction
+                    ? this.client.appealService.createAppealActionRows(infraction)
+                    : undefined
             });
 
             return true;
@@ -400,7 +722,8 @@ export default class InfractionManager extends Service {
             deleteMessageSeconds,
             notifyUser,
             sendLog,
-            abortOnTemplateNotFound
+            abortOnTemplateNotFound,
+            skipEscalation
         }: CreateUserBanOptions & { deleteMessageSeconds: number }
     ) {
         reason = this.processInfractionReason(guild.id, reason, abortOnTemplateNotFound) ?? reason;
@@ -417,7 +740,10 @@ export default class InfractionManager extends Service {
                 }
             }
         });
-        const { id } = infraction;
+
+        this.dispatchInfractionCreate(infraction);
+
+        const id = this.getCaseNumber(infraction);
 
         if (sendLog)
             this.client.loggerService.logUserSoftBan({
@@ -447,6 +773,11 @@ export default class InfractionManager extends Service {
 
             await wait(1500);
             await guild.bans.remove(user, `Softban remove: ${reason}`);
+
+            if (!skipEscalation) {
+                this.client.escalation.onInfractionCreate(guild, user, infraction).catch(logError);
+            }
+
             return infraction;
         } catch (e) {
             logError(e);
@@ -465,7 +796,8 @@ export default class InfractionManager extends Service {
             duration,
             sendLog,
             autoRemoveQueue,
-            abortOnTemplateNotFound
+            abortOnTemplateNotFound,
+            skipEscalation
         }: CreateUserBanOptions
     ) {
         reason = this.processInfractionReason(guild.id, reason, abortOnTemplateNotFound) ?? reason;
@@ -484,6 +816,8 @@ export default class InfractionManager extends Service {
             }
         });
 
+        this.dispatchInfractionCreate(infraction);
+
         if (autoRemoveQueue) {
             log("Auto remove", this.client.queueManager.queues);
             await this.autoRemoveUnbanQueue(guild, user).catch(logError);
@@ -493,7 +827,7 @@ export default class InfractionManager extends Service {
             this.client.loggerService.logUserBan({
                 moderator,
                 guild,
-                id: `${infraction.id}`,
+                id: `${this.getCaseNumber(infraction)}`,
                 user,
                 deleteMessageSeconds,
                 reason,
@@ -502,9 +836,10 @@ export default class InfractionManager extends Service {
 
         if (notifyUser) {
             await this.sendDM(user, guild, {
-                id: infraction.id,
+                id: this.getCaseNumber(infraction),
                 actionDoneName: "banned",
                 reason,
+                infraction,
                 fields: duration
                     ? [
                           {
@@ -541,6 +876,10 @@ export default class InfractionManager extends Service {
                 );
             }
 
+            if (!skipEscalation) {
+                this.client.escalation.onInfractionCreate(guild, user, infraction).catch(logError);
+            }
+
             return infraction;
         } catch (e) {
             logError(e);
@@ -623,13 +962,17 @@ export default class InfractionManager extends Service {
             }
         });
 
+        this.dispatchInfractionCreate(infraction);
+
         await this.sendDM(user, guild, {
-            id: infraction.id,
+            id: this.getCaseNumber(infraction),
             actionDoneName: "beaned",
             reason,
             color: 0x007bff
         });
 
+        this.client.escalation.onInfractionCreate(guild, user, infraction).catch(logError);
+
         return infraction;
     }
 
@@ -685,11 +1028,13 @@ export default class InfractionManager extends Service {
             }
         });
 
+        this.dispatchInfractionCreate(infraction);
+
         if (sendLog)
             this.client.loggerService.logUserUnban({
                 moderator,
                 guild,
-                id: `${infraction.id}`,
+                id: `${this.getCaseNumber(infraction)}`,
                 user,
                 reason
             });
@@ -699,7 +1044,14 @@ export default class InfractionManager extends Service {
 
     async createMemberKick(
         member: GuildMember,
-        { guild, moderator, reason, notifyUser, abortOnTemplateNotFound }: CommonOptions
+        {
+            guild,
+            moderator,
+            reason,
+            notifyUser,
+            abortOnTemplateNotFound,
+            skipEscalation
+        }: CommonOptions
     ) {
         if (!member.kickable) return null;
 
@@ -714,24 +1066,34 @@ export default class InfractionManager extends Service {
             }
         });
 
+        this.dispatchInfractionCreate(infraction);
+
         this.client.loggerService.logMemberKick({
             moderator,
             guild,
-            id: `${infraction.id}`,
+            id: `${this.getCaseNumber(infraction)}`,
             member,
             reason
         });
 
         if (notifyUser) {
             await this.sendDM(member.user, guild, {
-                id: infraction.id,
+                id: this.getCaseNumber(infraction),
                 actionDoneName: "kicked",
-                reason
+                reason,
+                infraction
             });
         }
 
         try {
             await member.kick(reason);
+
+            if (!skipEscalation) {
+                this.client.escalation
+                    .onInfractionCreate(guild, member.user, infraction)
+                    .catch(logError);
+            }
+
             return infraction;
         } catch (e) {
             logError(e);
@@ -741,7 +1103,7 @@ export default class InfractionManager extends Service {
 
     async createMemberWarn(
         member: GuildMember,
-        { guild, moderator, reason, notifyUser, abortOnTemplateNotFound }: CommonOptions
+        { guild, moderator, reason, notifyUser, abortOnTemplateNotFound, skipEscalation }: CommonOptions
     ) {
         reason = this.processInfractionReason(guild.id, reason, abortOnTemplateNotFound) ?? reason;
 
@@ -755,11 +1117,13 @@ export default class InfractionManager extends Service {
             }
         });
 
+        this.dispatchInfractionCreate(infraction);
+
         this.client.loggerService.logMemberWarning({
             moderator,
             member,
             guild,
-            id: `${infraction.id}`,
+            id: `${this.getCaseNumber(infraction)}`,
             reason
         });
 
@@ -767,7 +1131,7 @@ export default class InfractionManager extends Service {
 
         if (notifyUser) {
             result = await this.sendDM(member.user, guild, {
-                id: infraction.id,
+                id: this.getCaseNumber(infraction),
                 actionDoneName: "warned",
                 reason,
                 fallback: true,
@@ -775,6 +1139,12 @@ export default class InfractionManager extends Service {
             });
         }
 
+        if (!skipEscalation) {
+            this.client.escalation
+                .onInfractionCreate(guild, member.user, infraction)
+                .catch(logError);
+        }
+
         return { id: infraction.id, result, reason, infraction };
     }
 
@@ -859,6 +1229,10 @@ export default class InfractionManager extends Service {
                   })
                 : null;
 
+            if (infraction) {
+                this.dispatchInfractionCreate(infraction);
+            }
+
             if (
                 sendLog &&
                 this.client.configManager.config[messageChannel.guildId!]?.logging?.enabled &&
@@ -870,7 +1244,7 @@ export default class InfractionManager extends Service {
                         channel: messageChannel,
                         count,
                         guild,
-                        id: !infraction ? undefined : `${infraction.id}`,
+                        id: !infraction ? undefined : `${this.getCaseNumber(infraction)}`,
                         user,
                         moderator,
                         reason,
@@ -912,7 +1286,8 @@ export default class InfractionManager extends Service {
             bulkDeleteReason,
             sendLog,
             autoRemoveQueue,
-            abortOnTemplateNotFound
+            abortOnTemplateNotFound,
+            skipEscalation
         }: CreateMemberMuteOptions
     ) {
         const mutedRole = this.client.configManager.config[guild.id]?.muting?.role;
@@ -991,7 +1366,9 @@ export default class InfractionManager extends Service {
             }
         });
 
-        const { id } = infraction;
+        this.dispatchInfractionCreate(infraction);
+
+        const id = this.getCaseNumber(infraction);
 
         if (sendLog) {
             this.client.loggerService.logMemberMute({
@@ -1043,7 +1420,13 @@ export default class InfractionManager extends Service {
             });
         }
 
-        return { id, result, reason, infraction };
+        if (!skipEscalation) {
+            this.client.escalation
+                .onInfractionCreate(guild, member.user, infraction)
+                .catch(logError);
+        }
+
+        return { id: infraction.id, result, reason, infraction };
     }
 
     async removeMemberMute(
@@ -1102,12 +1485,14 @@ export default class InfractionManager extends Service {
             }
         });
 
+        this.dispatchInfractionCreate(infraction);
+
         if (sendLog) {
             this.client.loggerService.logMemberUnmute({
                 moderator,
                 member,
                 guild,
-                id: `${infraction.id}`,
+                id: `${this.getCaseNumber(infraction)}`,
                 reason
             });
         }
@@ -1116,7 +1501,7 @@ export default class InfractionManager extends Service {
 
         if (notifyUser) {
             result = await this.sendDM(member.user, guild, {
-                id: infraction.id,
+                id: this.getCaseNumber(infraction),
                 actionDoneName: "unmuted",
                 reason,
                 color: "Green"
@@ -1225,10 +1610,12 @@ export default class InfractionManager extends Service {
             })?.catch(logError);
         }
 
-        await this.client.prisma.infraction.createMany({
+        const infractions = await this.client.prisma.infraction.createManyAndReturn({
             data: createInfractionData
         });
 
+        infractions.forEach(infraction => this.dispatchInfractionCreate(infraction));
+
         if (sendLog)
             await this.client.loggerService.logUserMassBan({
                 users: completedUsers,
@@ -1319,10 +1706,12 @@ export default class InfractionManager extends Service {
             })?.catch(logError);
         }
 
-        await this.client.prisma.infraction.createMany({
+        const infractions = await this.client.prisma.infraction.createManyAndReturn({
             data: createInfractionData
         });
 
+        infractions.forEach(infraction => this.dispatchInfractionCreate(infraction));
+
         if (sendLog)
             await this.client.loggerService.logUserMassBan({
                 users: completedUsers,
@@ -1338,7 +1727,8 @@ export default class InfractionManager extends Service {
         const infractions = await this.client.prisma.infraction.findMany({
             where: {
                 userId: user.id,
-                guildId: guild.id
+                guildId: guild.id,
+                deletedAt: null
             }
         });
 
@@ -1465,6 +1855,42 @@ export default class InfractionManager extends Service {
         });
     }
 
+    async createPrivateChannel({
+        parentChannel,
+        user,
+        name,
+        reason,
+        permissionOverwrites = [],
+        allow = [PermissionFlagsBits.ViewChannel, PermissionFlagsBits.ReadMessageHistory]
+    }: CreatePrivateChannelOptions) {
+        return await parentChannel.guild.channels.create({
+            name,
+            type: ChannelType.GuildText,
+            parent: parentChannel.id,
+            reason,
+            permissionOverwrites: [
+                ...parentChannel.permissionOverwrites.cache.values(),
+                ...permissionOverwrites,
+                {
+                    id: user.id,
+                    allow
+                }
+            ] satisfies OverwriteData[]
+        });
+    }
+
+    async createPrivateThread({ channel, user, name, reason }: CreatePrivateThreadOptions) {
+        const thread = (await channel.threads.create({
+            name,
+            autoArchiveDuration: ThreadAutoArchiveDuration.OneWeek,
+            type: ChannelType.PrivateThread,
+            reason
+        })) as PrivateThreadChannel;
+
+        await thread.members.add(user, "Adding the target user");
+        return thread;
+    }
+
     private async notifyUserInPrivateChannel({
         infraction,
         parentChannel,
@@ -1477,21 +1903,11 @@ export default class InfractionManager extends Service {
                 this.client.configManager.config[parentChannel.guild.id]?.infractions
                     ?.dm_fallback_channel_expires_in;
 
-            const channel = await parentChannel.guild.channels.create({
-                name: `infraction-${infraction.id}`,
-                type: ChannelType.GuildText,
-                parent: parentChannel.id,
-                reason: "Creating fallback channel to notify the user about their infraction",
-                permissionOverwrites: [
-                    ...parentChannel.permissionOverwrites.cache.values(),
-                    {
-                        id: user.id,
-                        allow: [
-                            PermissionFlagsBits.ViewChannel,
-                            PermissionFlagsBits.ReadMessageHistory
-                        ]
-                    }
-                ] satisfies OverwriteData[]
+            const channel = await this.createPrivateChannel({
+                parentChannel,
+                user,
+                name: `infraction-${this.getCaseNumber(infraction)}`,
+                reason: "Creating fallback channel to notify the user about their infraction"
             });
 
             await this.sendDMEmbedToChannel(channel, embed, actionDoneName, user);
@@ -1526,14 +1942,12 @@ export default class InfractionManager extends Service {
         embed
     }: Omit<NotifyUserFallbackOptions, "guild"> & { channel: TextChannel }) {
         try {
-            const thread = (await channel.threads.create({
-                name: `Infraction #${infraction.id}`,
-                autoArchiveDuration: ThreadAutoArchiveDuration.OneWeek,
-                type: ChannelType.PrivateThread,
+            const thread = await this.createPrivateThread({
+                channel,
+                user,
+                name: `Infraction #${this.getCaseNumber(infraction)}`,
                 reason: "Creating fallback thread to notify the user about their infraction"
-            })) as PrivateThreadChannel;
-
-            await thread.members.add(user, "Adding the target user");
+            });
 
             await this.sendDMEmbedToChannel(thread, embed, actionDoneName, user);
         } catch (e) {
@@ -1553,6 +1967,22 @@ interface NotifyUserFallbackOptions {
     embed: EmbedBuilder;
 }
 
+export type CreatePrivateChannelOptions = {
+    parentChannel: TextChannel | CategoryChannel;
+    user: User;
+    name: string;
+    reason?: string;
+    permissionOverwrites?: OverwriteData[];
+    allow?: bigint[];
+};
+
+export type CreatePrivateThreadOptions = {
+    channel: TextChannel;
+    user: User;
+    name: string;
+    reason?: string;
+};
+
 export type CreateUserMassBanOptions = Omit<
     CreateUserBanOptions & {
         users: readonly string[];
@@ -1576,6 +2006,7 @@ export type CommonOptions = {
     notifyUser?: boolean;
     sendLog?: boolean;
     abortOnTemplateNotFound?: boolean;
+    skipEscalation?: boolean;
 };
 
 export type CreateUserBanOptions = CommonOptions & {
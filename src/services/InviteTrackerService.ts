@@ -26,8 +26,22 @@ import { wait } from "../utils/utils";
 
 export const name = "inviteTracker";
 
+type NewMemberInvite =
+    | {
+          isVanity: true;
+          vanity: Vanity;
+          invite: undefined;
+      }
+    | {
+          isVanity: false;
+          vanity: undefined;
+          invite: Invite;
+      }
+    | undefined;
+
 export default class InviteTrackerService extends Service implements HasEventListeners {
     public readonly invites = new Collection<`${Snowflake}_${string}`, number>();
+    protected readonly memberInvites = new Collection<`${Snowflake}_${Snowflake}`, Promise<NewMemberInvite>>();
 
     @GatewayEventListener("ready")
     async onReady() {
@@ -105,19 +119,24 @@ export default class InviteTrackerService extends Service implements HasEventLis
         }
     }
 
-    async findNewMemberInviteLink(member: GuildMember): Promise<
-        | {
-              isVanity: true;
-              vanity: Vanity;
-              invite: undefined;
-          }
-        | {
-              isVanity: false;
-              vanity: undefined;
-              invite: Invite;
-          }
-        | undefined
-    > {
+    /**
+     * Finds the invite that the member joined with. Invite uses can only be compared once per
+     * join, so the result is shared with every caller for a minute.
+     */
+    findNewMemberInviteLink(member: GuildMember) {
+        const key = `${member.guild.id}_${member.id}` as const;
+        let promise = this.memberInvites.get(key);
+
+        if (!promise) {
+            promise = this.fetchNewMemberInviteLink(member);
+            this.memberInvites.set(key, promise);
+            setTimeout(() => this.memberInvites.delete(key), 60_000);
+        }
+
+        return promise;
+    }
+
+    protected async fetchNewMemberInviteLink(member: GuildMember): Promise<NewMemberInvite> {
         if (!this.client.configManager.config[member.guild.id]?.invite_tracking?.enabled) {
             return;
         }
@@ -0,0 +1,345 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { UserLevel } from "@prisma/client";
+import { GuildMember, Message, Snowflake, User } from "discord.js";
+import Service from "../core/Service";
+import { HasEventListeners } from "../types/HasEventListeners";
+import { logError } from "../utils/Logger";
+import { safeChannelFetch } from "../utils/fetch";
+import { levelFromXP, levelProgress, randomXP } from "../utils/levels";
+
+export const name = "levelingService";
+
+export default class LevelingService extends Service implements HasEventListeners {
+    protected readonly lastXPGain = new Map<`${Snowflake}_${Snowflake}`, number>();
+    protected canvas: typeof import("canvas") | null = null;
+    protected lastXPGainPruneAt = Date.now();
+
+    async onMessageCreate(message: Message<true>) {
+        if (message.author.bot) {
+            return;
+        }
+
+        const config = this.client.configManager.config[message.guildId]?.leveling;
+
+        if (
+            !config?.enabled ||
+            config.no_xp_channels.includes(message.channelId) ||
+            (message.channel.isThread() &&
+                message.channel.parentId &&
+                config.no_xp_channels.includes(message.channel.parentId)) ||
+            (config.no_xp_roles.length > 0 &&
+                message.member?.roles.cache.hasAny(...config.no_xp_roles))
+        ) {
+            return;
+        }
+
+        const key = `${message.guildId}_${message.author.id}` as const;
+        const lastGain = this.lastXPGain.get(key);
+
+        if (lastGain !== undefined && Date.now() - lastGain < config.cooldown) {
+            return;
+        }
+
+        this.pruneXPGains();
+        this.lastXPGain.set(key, Date.now());
+
+        const multiplier =
+            config.channel_multipliers[message.channelId] ??
+            (message.channel.isThread() && message.channel.parentId
+                ? config.channel_multipliers[message.channel.parentId]
+                : undefined) ??
+            1;
+        const xp = Math.round(
+            randomXP(
+                Math.min(config.xp_range.min, config.xp_range.max),
+                Math.max(config.xp_range.min, config.xp_range.max)
+            ) * multiplier
+        );
+
+        if (xp <= 0) {
+            return;
+        }
+
+        const previous = await this.getUserLevel(message.guildId, message.author.id);
+        const entry = await this.setXP(
+            message.guildId,
+            message.author.id,
+            (previous?.xp ?? 0) + xp,
+            {
+                lastMessageAt: new Date()
+            }
+        );
+
+        if (entry.level > (previous?.level ?? 0) && message.member) {
+            await this.onLevelUp(message, message.member, entry).catch(logError);
+        }
+    }
+
+    /**
+     * Evicts the cooldown entries that have already expired, at most once per minute.
+     */
+    protected pruneXPGains() {
+        const now = Date.now();
+
+        if (now - this.lastXPGainPruneAt < 60_000) {
+            return;
+        }
+
+        this.lastXPGainPruneAt = now;
+
+        for (const [key, lastGain] of this.lastXPGain) {
+            const guildId = key.slice(0, key.indexOf("_"));
+            const cooldown = this.client.configManager.config[guildId]?.leveling?.cooldown ?? 0;
+
+            if (now - lastGain >= cooldown) {
+                this.lastXPGain.delete(key);
+            }
+        }
+    }
+
+    getUserLevel(guildId: Snowflake, userId: Snowflake) {
+        return this.client.prisma.userLevel.findUnique({
+            where: {
+                guildId_userId: {
+                    guildId,
+                    userId
+                }
+            }
+        });
+    }
+
+    async setXP(
+        guildId: Snowflake,
+        userId: Snowflake,
+        xp: number,
+        extra: Partial<Pick<UserLevel, "lastMessageAt">> = {}
+    ) {
+        const value = Math.max(0, xp);
+        const level = levelFromXP(value);
+
+        return await this.client.prisma.userLevel.upsert({
+            where: {
+                guildId_userId: {
+                    guildId,
+                    userId
+                }
+            },
+            create: {
+                guildId,
+                userId,
+                xp: value,
+                level,
+                ...extra
+            },
+            update: {
+                xp: value,
+                level,
+                ...extra
+            }
+        });
+    }
+
+    async addXP(guildId: Snowflake, userId: Snowflake, xp: number) {
+        const entry = await this.getUserLevel(guildId, userId);
+        return await this.setXP(guildId, userId, (entry?.xp ?? 0) + xp);
+    }
+
+    async resetXP(guildId: Snowflake, userId?: Snowflake) {
+        const { count } = await this.client.prisma.userLevel.deleteMany({
+            where: {
+                guildId,
+                userId
+            }
+        });
+
+        for (const key of this.lastXPGain.keys()) {
+            if (key.startsWith(`${guildId}_`) && (!userId || key === `${guildId}_${userId}`)) {
+                this.lastXPGain.delete(key);
+            }
+        }
+
+        return count;
+    }
+
+    async getRank(guildId: Snowflake, xp: number) {
+        return (
+            (await this.client.prisma.userLevel.count({
+                where: {
+                    guildId,
+                    xp: {
+                        gt: xp
+                    }
+                }
+            })) + 1
+        );
+    }
+
+    /**
+     * Imports the message counts from the statistics table, giving each message the average XP of the configured range.
+     * Members who already have more XP than their imported amount keep their current XP.
+     */
+    async importFromStatistics(guildId: Snowflake) {
+        const config = this.client.configManager.config[guildId]?.leveling;
+        const xpPerMessage = Math.round(
+            ((config?.xp_range.min ?? 15) + (config?.xp_range.max ?? 25)) / 2
+        );
+        const statistics = await this.client.prisma.userStatistics.findMany({
+            where: {
+                guildId
+            }
+        });
+
+        const levels = await this.client.prisma.userLevel.findMany({
+            where: {
+                guildId,
+                userId: {
+                    in: statistics.map(entry => entry.userId)
+                }
+            }
+        });
+        const currentXP = new Map(levels.map(entry => [entry.userId, entry.xp]));
+
+        for (const entry of statistics) {
+            const xp = entry.messagesSent * xpPerMessage;
+            const existingXP = currentXP.get(entry.userId) ?? 0;
+
+            if (xp > existingXP) {
+                await this.setXP(guildId, entry.userId, xp);
+            }
+        }
+
+        return statistics.length;
+    }
+
+    async syncRoleRewards(member: GuildMember, level: number) {
+        const config = this.client.configManager.config[member.guild.id]?.leveling;
+
+        if (!config?.role_rewards.length) {
+            return;
+        }
+
+        const eligible = config.role_rewards
+            .filter(reward => reward.level <= level)
+            .sort((a, b) => a.level - b.level);
+
+        if (eligible.length === 0) {
+            return;
+        }
+
+        const rolesToAdd =
+            config.reward_mode === "stack"
+                ? eligible.map(reward => reward.role)
+                : [eligible.at(-1)!.role];
+        const rolesToRemove =
+            config.reward_mode === "replace"
+                ? config.role_rewards
+                      .map(reward => reward.role)
+                      .filter(role => !rolesToAdd.includes(role) && member.roles.cache.has(role))
+                : [];
+        const missingRoles = rolesToAdd.filter(role => !member.roles.cache.has(role));
+
+        if (missingRoles.length > 0) {
+            await member.roles.add(missingRoles, `Reached level ${level}`);
+        }
+
+        if (rolesToRemove.length > 0) {
+            await member.roles.remove(rolesToRemove, "Replaced by a higher level reward role");
+        }
+    }
+
+    async renderRankCard(user: User, entry: Pick<UserLevel, "xp">, rank: number) {
+        this.canvas ??= await import("canvas");
+
+        const { createCanvas, loadImage } = this.canvas;
+        const { level, current, required } = levelProgress(entry.xp);
+        const canvas = createCanvas(934, 282);
+        const context = canvas.getContext("2d");
+
+        context.fillStyle = "#23272a";
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.fillStyle = "#2c2f33";
+        context.fillRect(20, 20, canvas.width - 40, canvas.height - 40);
+
+        const avatar = await loadImage(user.displayAvatarURL({ extension: "png", size: 256 }));
+
+        context.save();
+        context.beginPath();
+        context.arc(141, 141, 90, 0, Math.PI * 2);
+        context.closePath();
+        context.clip();
+        context.drawImage(avatar, 51, 51, 180, 180);
+        context.restore();
+
+        context.fillStyle = "#ffffff";
+        context.font = "bold 36px sans-serif";
+        context.fillText(user.username, 270, 120);
+
+        context.textAlign = "right";
+        context.font = "bold 30px sans-serif";
+        context.fillStyle = "#007bff";
+        context.fillText(`LEVEL ${level}`, canvas.width - 60, 80);
+        context.fillStyle = "#ffffff";
+        context.fillText(`RANK #${rank}`, canvas.width - 60, 120);
+
+        context.font = "24px sans-serif";
+        context.fillStyle = "#b9bbbe";
+        context.fillText(`${current} / ${required} XP`, canvas.width - 60, 170);
+        context.textAlign = "left";
+
+        const barWidth = canvas.width - 330;
+
+        context.fillStyle = "#484b4e";
+        context.fillRect(270, 190, barWidth, 36);
+        context.fillStyle = "#007bff";
+        context.fillRect(270, 190, Math.round((barWidth * current) / required), 36);
+
+        return canvas.toBuffer("image/png");
+    }
+
+    protected async onLevelUp(message: Message<true>, member: GuildMember, entry: UserLevel) {
+        const config = this.client.configManager.config[message.guildId]?.leveling;
+
+        await this.syncRoleRewards(member, entry.level).catch(logError);
+
+        if (!config?.announcements.enabled) {
+            return;
+        }
+
+        const channel = config.announcements.channel
+            ? await safeChannelFetch(message.guild, config.announcements.channel)
+            : message.channel;
+
+        if (!channel?.isTextBased()) {
+            return;
+        }
+
+        await channel.send({
+            content: config.announcements.message
+                .replace(/:mention:/g, member.toString())
+                .replace(/:username:/g, member.user.username)
+                .replace(/:level:/g, entry.level.toString())
+                .replace(/:xp:/g, entry.xp.toString()),
+            allowedMentions: {
+                users: [member.id]
+            }
+        });
+    }
+}
@@ -17,8 +17,8 @@
  * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Infraction } from "@prisma/client";
-import { formatDistanceToNowStrict } from "date-fns";
+import { Infraction, RaidMode, TrackedMessage } from "@prisma/client";
+import { formatDistanceStrict, formatDistanceToNowStrict } from "date-fns";
 import {
     APIEmbedField,
     ActionRowBuilder,
@@ -26,6 +26,7 @@ import {
     BanOptions,
     ButtonBuilder,
     ButtonStyle,
+    Channel,
     ChannelType,
     Collection,
     ColorResolvable,
@@ -41,6 +42,7 @@ import {
     MessageResolvable,
     MessageType,
     NonThreadGuildBasedChannel,
+    PartialMessage,
     Role,
     TextChannel,
     User,
@@ -52,32 +54,35 @@ import {
     time
 } from "discord.js";
 import Service from "../core/Service";
+import { LogEventType } from "../types/LogEventSchema";
 import { MessageRuleType } from "../types/MessageRuleSchema";
-import { NotUndefined } from "../types/NotUndefined";
 import { log, logError } from "../utils/Logger";
 import { userInfo } from "../utils/embed";
+import { InfractionRevisionChange, formatInfractionRevision } from "../utils/infractions";
+import { LogContext, isLogIgnored, resolveLogChannel } from "../utils/logging";
+import { ScoredRaidJoin, formatRaidWaveMembers } from "../utils/raid";
 import { isTextableChannel } from "../utils/utils";
-import { GuildConfig } from "./ConfigManager";
+import { TrackedAttachment } from "./MessageTrackingService";
 
 export const name = "loggerService";
 
-type LoggingChannelType = Exclude<keyof NotUndefined<GuildConfig["logging"]>, "enabled">;
-
 export default class LoggerService extends Service {
     private async send(
         guild: Guild,
+        event: LogEventType,
         options: string | MessagePayload | MessageCreateOptions,
-        channel?: LoggingChannelType
+        context?: LogContext
     ) {
-        const channelId =
-            this.client.configManager.config[guild.id]?.logging?.[channel ?? "primary_channel"] ??
-            this.client.configManager.config[guild.id]?.logging?.primary_channel;
-        const enabled = this.client.configManager.config[guild.id]?.logging?.enabled;
+        const config = this.client.configManager.config[guild.id]?.logging;
+
+        if (!config?.enabled || (context && isLogIgnored(config.ignore, context))) return null;
 
-        if (!enabled || !channelId) return null;
+        const channelId = resolveLogChannel(config, event);
+
+        if (!channelId) return null;
 
         try {
-            const channel = await guild.channels.fetch(channelId as string);
+            const channel = await guild.channels.fetch(channelId);
 
             if (!channel || !isTextableChannel(channel)) return null;
 
@@ -88,6 +93,29 @@ export default class LoggerService extends Service {
         }
     }
 
+    /**
+     * Threads are ignored along with their parent channel.
+     */
+    private createLogContext(
+        guild: Guild,
+        {
+            user,
+            member,
+            channel
+        }: { user?: User | null; member?: GuildMember | null; channel?: Channel | null }
+    ): LogContext {
+        const roles = (member ?? (user ? guild.members.cache.get(user.id) : null))?.roles.cache;
+        const parent = channel?.isThread() ? channel.parent : channel;
+
+        return {
+            userId: user?.id,
+            bot: user?.bot,
+            roles: roles ? [...roles.keys()] : undefined,
+            channelId: parent?.id,
+            categoryId: parent && "parentId" in parent ? parent.parentId : null
+        };
+    }
+
     private createLogEmbed({
         options,
         title,
@@ -133,8 +161,8 @@ export default class LoggerService extends Service {
                 ...(id
                     ? [
                           {
-                              name: "Infraction ID",
-                              value: `${id}`
+                              name: "Case",
+                              value: `#${id}`
                           }
                       ]
                     : []),
@@ -165,12 +193,14 @@ export default class LoggerService extends Service {
 
     private async sendLogEmbed(
         guild: Guild,
+        event: LogEventType,
         options: CreateLogEmbedOptions,
         extraOptions?: MessagePayload | MessageCreateOptions,
-        channel?: LoggingChannelType
+        context?: LogContext
     ) {
         return await this.send(
             guild,
+            event,
             {
                 ...(extraOptions ?? {}),
                 embeds: [
@@ -178,7 +208,7 @@ export default class LoggerService extends Service {
                     ...(extraOptions && "embeds" in extraOptions ? extraOptions.embeds ?? [] : [])
                 ]
             } as unknown as MessageCreateOptions | MessagePayload,
-            channel
+            context
         );
     }
 
@@ -276,38 +306,46 @@ export default class LoggerService extends Service {
             messageType = "flagged for profanity";
         }
 
-        await this.sendLogEmbed(message.guild!, {
-            title: "AI AutoMod has flagged this message",
-            color: Colors.Red,
-            user: message.author,
-            fields: [
-                {
-                    name: "Score",
-                    value: `Toxicity: ${toxicityScore.toFixed(2)}%\nThreat: ${threatScore.toFixed(
-                        2
-                    )}%\nSevere Toxicity: ${severeToxicityScore.toFixed(
-                        2
-                    )}%\nNSFW: ${explicitScore.toFixed(2)}%\nFlirtation: ${flirtationScore.toFixed(
-                        2
-                    )}%\nIdentity Attack: ${identityAttackScore.toFixed(
-                        2
-                    )}%\nInsult: ${insultScore.toFixed(2)}%\nProfanity: ${profanityScore.toFixed(
-                        2
-                    )}%`
-                },
-                {
-                    name: "Reason",
-                    value: messageType ? `This message seems to be ${messageType}.` : "Unknown"
-                }
-            ],
-            footerText: "Flagged",
-            moderator: this.client.user!
-        });
+        return await this.sendLogEmbed(
+            message.guild!,
+            "automod_ai",
+            {
+                title: "AI AutoMod has flagged this message",
+                color: Colors.Red,
+                user: message.author,
+                fields: [
+                    {
+                        name: "Score",
+                        value: `Toxicity: ${toxicityScore.toFixed(2)}%\nThreat: ${threatScore.toFixed(
+                            2
+                        )}%\nSevere Toxicity: ${severeToxicityScore.toFixed(
+                            2
+                        )}%\nNSFW: ${explicitScore.toFixed(2)}%\nFlirtation: ${flirtationScore.toFixed(
+                            2
+                        )}%\nIdentity Attack: ${identityAttackScore.toFixed(
+                            2
+                        )}%\nInsult: ${insultScore.toFixed(2)}%\nProfanity: ${profanityScore.toFixed(
+                            2
+                        )}%`
+                    },
+                    {
+                        name: "Reason",
+                        value: messageType ? `This message seems to be ${messageType}.` : "Unknown"
+                    }
+                ],
+                footerText: "Flagged",
+                moderator: this.client.user!
+            },
+            {
+                components: [this.client.autoModStatsService.createFalsePositiveActionRow()]
+            }
+        );
     }
 
     async logInfractionCreate(infraction: Infraction, user: User, moderator: User) {
         await this.sendLogEmbed(
             this.client.guilds.cache.get(infraction.guildId)!,
+            "infraction_create",
             {
                 title: "Infraction Created",
                 color: Colors.Red,
@@ -327,12 +365,73 @@ export default class LoggerService extends Service {
                         : [])
                 ],
                 reason: infraction.reason,
-                id: infraction.id.toString(),
+                id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
                 moderator,
                 footerText: "Created"
-            },
-            undefined,
-            "infraction_logging_channel"
+            }
+        );
+    }
+
+    async logInfractionUpdate(
+        infraction: Infraction,
+        changes: InfractionRevisionChange[],
+        user: User | null,
+        moderator: User
+    ) {
+        await this.sendLogEmbed(
+            this.client.guilds.cache.get(infraction.guildId)!,
+            "infraction_update",
+            {
+                title: "Infraction Updated",
+                color: Colors.Gold,
+                user: user ?? undefined,
+                fields: [
+                    {
+                        name: "Type",
+                        value: this.client.infractionManager.typeToString(infraction.type)
+                    },
+                    {
+                        name: "Changes",
+                        value: changes
+                            .map(change => `- ${formatInfractionRevision(change)}`)
+                            .join("\n")
+                    }
+                ],
+                id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
+                moderator,
+                footerText: "Updated"
+            }
+        );
+    }
+
+    async logInfractionDeleteOrRestore(
+        infraction: Infraction,
+        user: User | null,
+        moderator: User,
+        action: "Deleted" | "Restored"
+    ) {
+        await this.sendLogEmbed(
+            this.client.guilds.cache.get(infraction.guildId)!,
+            "infraction_delete",
+            {
+                title: `Infraction ${action}`,
+                color: action === "Deleted" ? Colors.Red : Colors.Green,
+                user: user ?? undefined,
+                fields: [
+                    {
+                        name: "Type",
+                        value: this.client.infractionManager.typeToString(infraction.type)
+                    },
+                    {
+                        name: "Created At",
+                        value: `${time(infraction.createdAt, "F")} (${time(infraction.createdAt, "R")})`
+                    }
+                ],
+                reason: infraction.reason,
+                id: `${this.client.infractionManager.getCaseNumber(infraction)}`,
+                moderator,
+                footerText: action
+            }
         );
     }
 
@@ -346,31 +445,43 @@ export default class LoggerService extends Service {
         }
 
         if (oldChannel) {
-            await this.sendLogEmbed(oldChannel.guild, {
-                title: "Member left voice channel",
-                color: Colors.Red,
-                user,
-                fields: [
-                    {
-                        name: "Channel",
-                        value: oldChannel.toString()
-                    }
-                ],
-                footerText: "Left"
-            });
+            await this.sendLogEmbed(
+                oldChannel.guild,
+                "voice_join_leave",
+                {
+                    title: "Member left voice channel",
+                    color: Colors.Red,
+                    user,
+                    fields: [
+                        {
+                            name: "Channel",
+                            value: oldChannel.toString()
+                        }
+                    ],
+                    footerText: "Left"
+                },
+                undefined,
+                this.createLogContext(oldChannel.guild, { user, channel: oldChannel })
+            );
         } else if (newChannel) {
-            await this.sendLogEmbed(newChannel.guild, {
-                title: "Member joined voice channel",
-                color: Colors.Green,
-                user,
-                fields: [
-                    {
-                        name: "Channel",
-                        value: newChannel.toString()
-                    }
-                ],
-                footerText: "Joined"
-            });
+            await this.sendLogEmbed(
+                newChannel.guild,
+                "voice_join_leave",
+                {
+                    title: "Member joined voice channel",
+                    color: Colors.Green,
+                    user,
+                    fields: [
+                        {
+                            name: "Channel",
+                            value: newChannel.toString()
+                        }
+                    ],
+                    footerText: "Joined"
+                },
+                undefined,
+                this.createLogContext(newChannel.guild, { user, channel: newChannel })
+            );
         }
     }
 
@@ -387,25 +498,31 @@ export default class LoggerService extends Service {
         moderator?: User;
         channel: VoiceChannel;
     }) {
-        await this.sendLogEmbed(guild, {
-            title: "Member disconnected",
-            color: Colors.Red,
-            user,
-            reason,
-            footerText: "Disconnected",
-            moderator,
-            fields: [
-                {
-                    name: "Channel",
-                    value: channel?.toString() ?? "None"
-                },
+        await this.sendLogEmbed(
+            guild,
+            "voice_disconnect",
+            {
+                title: "Member disconnected",
+                color: Colors.Red,
+                user,
+                reason,
+                footerText: "Disconnected",
+                moderator,
+                fields: [
+                    {
+                        name: "Channel",
+                        value: channel?.toString() ?? "None"
+                    },
 
-                {
-                    name: "User",
-                    value: userInfo(user)
-                }
-            ]
-        });
+                    {
+                        name: "User",
+                        value: userInfo(user)
+                    }
+                ]
+            },
+            undefined,
+            this.createLogContext(guild, { user, channel })
+        );
     }
 
     async logMemberDeaf({
@@ -421,25 +538,31 @@ export default class LoggerService extends Service {
         moderator?: User;
         channel: VoiceChannel;
     }) {
-        await this.sendLogEmbed(guild, {
-            title: "Member deafened",
-            color: Colors.Red,
-            user,
-            reason,
-            footerText: "Deafened",
-            moderator,
-            fields: [
-                {
-                    name: "Channel",
-                    value: channel?.toString() ?? "None"
-                },
+        await this.sendLogEmbed(
+            guild,
+            "voice_deafen",
+            {
+                title: "Member deafened",
+                color: Colors.Red,
+                user,
+                reason,
+                footerText: "Deafened",
+                moderator,
+                fields: [
+                    {
+                        name: "Channel",
+                        value: channel?.toString() ?? "None"
+                    },
 
-                {
-                    name: "User",
-                    value: userInfo(user)
-                }
-            ]
-        });
+                    {
+                        name: "User",
+                        value: userInfo(user)
+                    }
+                ]
+            },
+            undefined,
+            this.createLogContext(guild, { user, channel })
+        );
     }
 
     async logMemberUndeaf({
@@ -455,25 +578,31 @@ export default class LoggerService extends Service {
         moderator?: User;
         channel: VoiceChannel;
     }) {
-        await this.sendLogEmbed(guild, {
-            title: "Member undeafened",
-            color: Colors.Green,
-            user,
-            reason,
-            footerText: "Undeafened",
-            moderator,
-            fields: [
-                {
-                    name: "Channel",
-                    value: channel?.toString() ?? "None"
-                },
+        await this.sendLogEmbed(
+            guild,
+            "voice_deafen",
+            {
+                title: "Member undeafened",
+                color: Colors.Green,
+                user,
+                reason,
+                footerText: "Undeafened",
+                moderator,
+                fields: [
+                    {
+                        name: "Channel",
+                        value: channel?.toString() ?? "None"
+                    },
 
-                {
-                    name: "User",
-                    value: userInfo(user)
-                }
-            ]
-        });
+                    {
+                        name: "User",
+                        value: userInfo(user)
+                    }
+                ]
+            },
+            undefined,
+            this.createLogContext(guild, { user, channel })
+        );
     }
 
     async logMemberVoiceMute({
@@ -489,25 +618,31 @@ export default class LoggerService extends Service {
         moderator?: User;
         channel: VoiceChannel;
     }) {
-        await this.sendLogEmbed(guild, {
-            title: "Member voice muted",
-            color: Colors.Red,
-            user,
-            reason,
-            footerText: "Voice Muted",
-            moderator,
-            fields: [
-                {
-                    name: "Channel",
-                    value: channel?.toString() ?? "None"
-                },
+        await this.sendLogEmbed(
+            guild,
+            "voice_mute",
+            {
+                title: "Member voice muted",
+                color: Colors.Red,
+                user,
+                reason,
+                footerText: "Voice Muted",
+                moderator,
+                fields: [
+                    {
+                        name: "Channel",
+                        value: channel?.toString() ?? "None"
+                    },
 
-                {
-                    name: "User",
-                    value: userInfo(user)
-                }
-            ]
-        });
+                    {
+                        name: "User",
+                        value: userInfo(user)
+                    }
+                ]
+            },
+            undefined,
+            this.createLogContext(guild, { user, channel })
+        );
     }
 
     async logMemberVoiceUnmute({
@@ -523,25 +658,31 @@ export default class LoggerService extends Service {
         moderator?: User;
         channel: VoiceChannel;
     }) {
-        await this.sendLogEmbed(guild, {
-            title: "Member unmuted",
-            color: Colors.Green,
-            user,
-            reason,
-            footerText: "Unmuted",
-            moderator,
-            fields: [
-                {
-                    name: "Channel",
-                    value: channel?.toString() ?? "None"
-                },
+        await this.sendLogEmbed(
+            guild,
+            "voice_mute",
+            {
+                title: "Member unmuted",
+                color: Colors.Green,
+                user,
+                reason,
+                footerText: "Unmuted",
+                moderator,
+                fields: [
+                    {
+                        name: "Channel",
+                        value: channel?.toString() ?? "None"
+                    },
 
-                {
-                    name: "User",
-                    value: userInfo(user)
-                }
-            ]
-        });
+                    {
+                        name: "User",
+                        value: userInfo(user)
+                    }
+                ]
+            },
+            undefined,
+            this.createLogContext(guild, { user, channel })
+        );
     }
 
     async logMemberVoiceMove({
@@ -559,69 +700,101 @@ export default class LoggerService extends Service {
         newChannel: VoiceState["channel"];
         oldChannel: VoiceState["channel"];
     }) {
-        await this.sendLogEmbed(guild, {
-            title: "Member moved to a new voice channel",
-            color: Colors.Blurple,
-            user,
-            reason,
-            footerText: "Moved",
-            moderator,
-            fields: [
-                {
-                    name: "From",
-                    value: oldChannel?.toString() ?? "None",
-                    inline: true
-                },
-                {
-                    name: "To",
-                    value: newChannel?.toString() ?? "None",
-                    inline: true
-                },
-                {
-                    name: "User",
-                    value: userInfo(user)
-                }
-            ]
-        });
+        await this.sendLogEmbed(
+            guild,
+            "voice_move",
+            {
+                title: "Member moved to a new voice channel",
+                color: Colors.Blurple,
+                user,
+                reason,
+                footerText: "Moved",
+                moderator,
+                fields: [
+                    {
+                        name: "From",
+                        value: oldChannel?.toString() ?? "None",
+                        inline: true
+                    },
+                    {
+                        name: "To",
+                        value: newChannel?.toString() ?? "None",
+                        inline: true
+                    },
+                    {
+                        name: "User",
+                        value: userInfo(user)
+                    }
+                ]
+            },
+            undefined,
+            this.createLogContext(guild, { user, channel: newChannel })
+        );
     }
 
     async logMessageRuleAction({
         message,
         embedOptions = {},
         rule,
-        actions
+        actions,
+        dryRun = false,
+        violations
     }: {
         message: Message;
         actions: MessageRuleType["actions"];
         embedOptions?: CreateLogEmbedOptions;
         rule: MessageRuleType["type"];
+        dryRun?: boolean;
+        violations?: {
+            count: number;
+            window: number;
+        };
     }) {
         log("Actions", actions);
 
-        await this.sendLogEmbed(message.guild!, {
-            color: Colors.Red,
-            user: message.author,
-            footerText: "AutoMod",
-            moderator: this.client.user!,
-            ...embedOptions,
-            fields: [
-                ...(embedOptions.fields ?? []),
-                {
-                    name: "Rule",
-                    value: `\`${rule}\``,
-                    inline: true
-                },
-                {
-                    name: "Actions taken",
-                    value: `\`${actions.length === 0 ? "none" : actions.join("`, `")}\``,
-                    inline: true
-                },
-                {
-                    name: "Message",
-                    value: `${message.url}`
-                }
-            ]
-        });
+        return await this.sendLogEmbed(
+            message.guild!,
+            "automod_message_rule",
+            {
+                color: dryRun ? Colors.Gold : Colors.Red,
+                user: message.author,
+                footerText: dryRun ? "AutoMod • Dry run" : "AutoMod",
+                moderator: this.client.user!,
+                ...embedOptions,
+                fields: [
+                    ...(embedOptions.fields ?? []),
+                    {
+                        name: "Rule",
+                        value: `\`${rule}\``,
+                        inline: true
+                    },
+                    {
+                        name: dryRun ? "Actions that would have been taken" : "Actions taken",
+                        value: `\`${actions.length === 0 ? "none" : actions.join("`, `")}\``,
+                        inline: true
+                    },
+                    ...(violations
+                        ? [
+                              {
+                                  name: "Violations",
+                                  value: `${violations.count} in the last ${formatDistanceStrict(
+                                      0,
+                                      violations.window
+                                  )}`,
+                                  inline: true
+                              }
+                          ]
+                        : []),
+                    {
+                        name: "Message",
+                        value: `${message.url}`
+                    }
+                ]
+            },
+            {
+                components: [this.client.autoModStatsService.createFalsePositiveActionRow()]
+            }
+        );
     }
 
     async logFileFilterDeletedMessage(
@@ -632,25 +805,63 @@ export default class LoggerService extends Service {
             url
         }: { hash: string; url: string; name?: string; contentType?: string | null }
     ) {
-        await this.sendLogEmbed(message.guild!, {
-            title: "Blocked file detected",
+        return await this.sendLogEmbed(
+            message.guild!,
+            "automod_file_filter",
+            {
+                title: "Blocked file detected",
+                color: Colors.Red,
+                user: message.author,
+                fields: [
+                    {
+                        name: "File",
+                        value:
+                            `${
+                                name ? `[${escapeMarkdown(name)}](${url})` : `[Unnamed](${url})`
+                            }: \`${hash}\`` + (contentType ? ` (\`${contentType}\`)` : "")
+                    }
+                ],
+                footerText: "Deleted",
+                moderator: this.client.user!
+            },
+            {
+                components: [this.client.autoModStatsService.createFalsePositiveActionRow()]
+            }
+        );
+    }
+
+    async logMemberTimeout(
+        member: GuildMember,
+        {
+            reason,
+            id,
+            moderator
+        }: Omit<CommonUserActionOptions, "guild" | "id"> & { reason?: string; id?: string | number }
+    ) {
+        await this.sendLogEmbed(member.guild, "member_timeout", {
+            title: "Member timed-out",
             color: Colors.Red,
-            user: message.author,
+            user: member.user,
             fields: [
                 {
-                    name: "File",
-                    value:
-                        `${
-                            name ? `[${escapeMarkdown(name)}](${url})` : `[Unnamed](${url})`
-                        }: \`${hash}\`` + (contentType ? ` (\`${contentType}\`)` : "")
+                    name: "Duration",
+                    value: formatDistanceToNowStrict(member.communicationDisabledUntil!)
+                },
+                {
+                    name: "User Information",
+                    value: `Username: ${
+                        member.user.username
+                    }\nMention: ${member.user.toString()}\nID: ${member.user.id}`
                 }
             ],
-            footerText: "Deleted",
-            moderator: this.client.user!
+            footerText: "Timed-out",
+            reason,
+            id: id?.toString(),
+            moderator
         });
     }
 
-    async logMemberTimeout(
+    async logMemberTimeoutRemove(
         member: GuildMember,
         {
             reason,
@@ -658,145 +869,122 @@ export default class LoggerService extends Service {
             moderator
         }: Omit<CommonUserActionOptions, "guild" | "id"> & { reason?: string; id?: string | number }
     ) {
+        await this.sendLogEmbed(member.guild, "member_timeout", {
+            title: "Member timeout removed",
+            color: Colors.Green,
+            user: member.user,
+            fields: [
+                {
+                    name: "User Information",
+                    value: `Username: ${
+                        member.user.username
+                    }\nMention: ${member.user.toString()}\nID: ${member.user.id}`
+                }
+            ],
+            footerText: "Timed-out removed",
+            reason,
+            id: id?.toString(),
+            moderator
+        });
+    }
+
+    async logChannelCreate(channel: NonThreadGuildBasedChannel) {
         await this.sendLogEmbed(
-            member.guild,
+            channel.guild,
+            "channel_create",
             {
-                title: "Member timed-out",
-                color: Colors.Red,
-                user: member.user,
+                title: "Channel Created",
+                color: Colors.Green,
                 fields: [
                     {
-                        name: "Duration",
-                        value: formatDistanceToNowStrict(member.communicationDisabledUntil!)
+                        name: "Name",
+                        value: channel.name
                     },
                     {
-                        name: "User Information",
-                        value: `Username: ${
-                            member.user.username
-                        }\nMention: ${member.user.toString()}\nID: ${member.user.id}`
+                        name: "ID",
+                        value: channel.id
+                    },
+                    {
+                        name: "Mention",
+                        value: channel.toString()
+                    },
+                    {
+                        name: "Type",
+                        value: ChannelType[channel.type]
                     }
                 ],
-                footerText: "Timed-out",
-                reason,
-                id: id?.toString(),
-                moderator
+                footerText: "Created"
             },
             undefined,
-            "infraction_logging_channel"
+            this.createLogContext(channel.guild, { channel })
         );
     }
 
-    async logMemberTimeoutRemove(
-        member: GuildMember,
-        {
-            reason,
-            id,
-            moderator
-        }: Omit<CommonUserActionOptions, "guild" | "id"> & { reason?: string; id?: string | number }
-    ) {
+    async logChannelDelete(channel: NonThreadGuildBasedChannel) {
         await this.sendLogEmbed(
-            member.guild,
+            channel.guild,
+            "channel_delete",
             {
-                title: "Member timeout removed",
-                color: Colors.Green,
-                user: member.user,
+                title: "Channel Deleted",
+                color: Colors.Red,
                 fields: [
                     {
-                        name: "User Information",
-                        value: `Username: ${
-                            member.user.username
-                        }\nMention: ${member.user.toString()}\nID: ${member.user.id}`
+                        name: "Name",
+                        value: channel.name
+                    },
+                    {
+                        name: "ID",
+                        value: channel.id
+                    },
+                    {
+                        name: "Type",
+                        value: ChannelType[channel.type]
                     }
                 ],
-                footerText: "Timed-out removed",
-                reason,
-                id: id?.toString(),
-                moderator
+                footerText: "Deleted"
             },
             undefined,
-            "infraction_logging_channel"
+            this.createLogContext(channel.guild, { channel })
         );
     }
 
-    async logChannelCreate(channel: NonThreadGuildBasedChannel) {
-        await this.sendLogEmbed(channel.guild, {
-            title: "Channel Created",
-            color: Colors.Green,
-            fields: [
-                {
-                    name: "Name",
-                    value: channel.name
-                },
-                {
-                    name: "ID",
-                    value: channel.id
-                },
-                {
-                    name: "Mention",
-                    value: channel.toString()
-                },
-                {
-                    name: "Type",
-                    value: ChannelType[channel.type]
-                }
-            ],
-            footerText: "Created"
-        });
-    }
-
-    async logChannelDelete(channel: NonThreadGuildBasedChannel) {
-        await this.sendLogEmbed(channel.guild, {
-            title: "Channel Deleted",
-            color: Colors.Red,
-            fields: [
-                {
-                    name: "Name",
-                    value: channel.name
-                },
-                {
-                    name: "ID",
-                    value: channel.id
-                },
-                {
-                    name: "Type",
-                    value: ChannelType[channel.type]
-                }
-            ],
-            footerText: "Deleted"
-        });
-    }
-
     async logChannelUpdate(
         oldChannel: NonThreadGuildBasedChannel,
         newChannel: NonThreadGuildBasedChannel
     ) {
-        await this.sendLogEmbed(newChannel.guild, {
-            title: "Channel Updated",
-            color: Colors.Green,
-            fields: [
-                {
-                    name: "Old Name",
-                    value: oldChannel.name,
-                    inline: true
-                },
-                {
-                    name: "New Name",
-                    value: newChannel.name,
-                    inline: true
-                },
-                {
-                    name: "ID",
-                    value: newChannel.id
-                }
-            ],
-            footerText: "Updated"
-        });
+        await this.sendLogEmbed(
+            newChannel.guild,
+            "channel_update",
+            {
+                title: "Channel Updated",
+                color: Colors.Green,
+                fields: [
+                    {
+                        name: "Old Name",
+                        value: oldChannel.name,
+                        inline: true
+                    },
+                    {
+                        name: "New Name",
+                        value: newChannel.name,
+                        inline: true
+                    },
+                    {
+                        name: "ID",
+                        value: newChannel.id
+                    }
+                ],
+                footerText: "Updated"
+            },
+            undefined,
+            this.createLogContext(newChannel.guild, { channel: newChannel })
+        );
     }
 
     async logRoleCreate(role: Role) {
         const permissions = role.permissions.toArray();
 
-        await this.sendLogEmbed(role.guild, {
+        await this.sendLogEmbed(role.guild, "role_create", {
             title: "Role Created",
             color: Colors.Green,
             fields: [
@@ -831,7 +1019,7 @@ export default class LoggerService extends Service {
     async logRoleDelete(role: Role) {
         const permissions = role.permissions.toArray();
 
-        await this.sendLogEmbed(role.guild, {
+        await this.sendLogEmbed(role.guild, "role_delete", {
             title: "Role Deleted",
             color: Colors.Red,
             fields: [
@@ -869,7 +1057,7 @@ export default class LoggerService extends Service {
             permission => !newRolePermissions.includes(permission)
         );
 
-        await this.sendLogEmbed(newRole.guild, {
+        await this.sendLogEmbed(newRole.guild, "role_update", {
             title: "Role Updated",
             color: Colors.Green,
             fields: [
@@ -913,38 +1101,52 @@ export default class LoggerService extends Service {
     }
 
     async logNicknameUpdate(oldMember: GuildMember, newMember: GuildMember) {
-        await this.sendLogEmbed(newMember.guild, {
-            title: "Member nickname updated",
-            user: newMember.user,
-            color: 0x007bff,
-            fields: [
-                {
-                    name: "Old Nickname",
-                    value: oldMember.nickname ?? "*Nothing*",
-                    inline: true
-                },
-                {
-                    name: "New Nickname",
-                    value: newMember.nickname ?? "*Nothing*",
-                    inline: true
-                },
-                {
-                    name: "User Information",
-                    value: `Username: ${
-                        newMember.user.username
-                    }\nMention: ${newMember.user.toString()}\nID: ${newMember.user.id}`
-                }
-            ],
-            footerText: "Updated"
-        });
+        await this.sendLogEmbed(
+            newMember.guild,
+            "member_nickname_update",
+            {
+                title: "Member nickname updated",
+                user: newMember.user,
+                color: 0x007bff,
+                fields: [
+                    {
+                        name: "Old Nickname",
+                        value: oldMember.nickname ?? "*Nothing*",
+                        inline: true
+                    },
+                    {
+                        name: "New Nickname",
+                        value: newMember.nickname ?? "*Nothing*",
+                        inline: true
+                    },
+                    {
+                        name: "User Information",
+                        value: `Username: ${
+                            newMember.user.username
+                        }\nMention: ${newMember.user.toString()}\nID: ${newMember.user.id}`
+                    }
+                ],
+                footerText: "Updated"
+            },
+            undefined,
+            this.createLogContext(newMember.guild, { user: newMember.user, member: newMember })
+        );
     }
 
     async logMemberRoleUpdate(oldMember: GuildMember, newMember: GuildMember) {
         const added = newMember.roles.cache.filter(role => !oldMember.roles.cache.has(role.id));
         const removed = oldMember.roles.cache.filter(role => !newMember.roles.cache.has(role.id));
+        const context = this.createLogContext(newMember.guild, {
+            user: newMember.user,
+            member: oldMember
+        });
+
+        // Only the roles the member kept count, so granting or removing an ignored role is logged
+        context.roles = context.roles?.filter(role => newMember.roles.cache.has(role));
 
         await this.sendLogEmbed(
             newMember.guild,
+            "member_role_update",
             {
                 title: "Member roles updated",
                 user: newMember.user,
@@ -978,7 +1180,8 @@ export default class LoggerService extends Service {
                 allowedMentions: {
                     roles: []
                 }
-            }
+            },
+            context
         );
     }
 
@@ -1000,6 +1203,7 @@ export default class LoggerService extends Service {
 
         await this.sendLogEmbed(
             member.guild,
+            "member_join",
             {
                 title: "New member joined",
                 user: member.user,
@@ -1089,7 +1293,7 @@ export default class LoggerService extends Service {
                 } members total`
             },
             undefined,
-            "join_leave_channel"
+            this.createLogContext(member.guild, { user: member.user, member })
         );
     }
 
@@ -1102,6 +1306,7 @@ export default class LoggerService extends Service {
 
         await this.sendLogEmbed(
             member.guild,
+            "member_leave",
             {
                 title: "Member left",
                 user: member.user,
@@ -1140,15 +1345,21 @@ export default class LoggerService extends Service {
                 } members total`
             },
             undefined,
-            "join_leave_channel"
+            this.createLogContext(member.guild, { user: member.user, member })
         );
     }
 
-    async logMessageEdit(oldMessage: Message, newMessage: Message) {
+    async logMessageEdit(
+        oldMessage: Message | PartialMessage,
+        newMessage: Message,
+        trackedMessage?: TrackedMessage | null
+    ) {
         if (!this.client.configManager.config[newMessage.guildId!]?.logging?.events.message_edit) {
             return;
         }
 
+        const oldContent = oldMessage.partial ? trackedMessage?.content ?? "" : oldMessage.content;
+
         const changedEmbeds = [];
         const mainArray =
             oldMessage.embeds.length > newMessage.embeds.length
@@ -1199,12 +1410,13 @@ export default class LoggerService extends Service {
 
         await this.sendLogEmbed(
             newMessage.guild!,
+            "message_edit",
             {
                 title: "Message Updated",
                 user: newMessage.author,
                 color: 0x007bff,
                 options: {
-                    description: `### Before\n${oldMessage.content}\n\n### After\n${newMessage.content}`
+                    description: `### Before\n${oldContent}\n\n### After\n${newMessage.content}`
                 },
                 fields: [
                     {
@@ -1250,15 +1462,54 @@ export default class LoggerService extends Service {
                           ]
                         : undefined
             },
-            "message_logging_channel"
+            this.createLogContext(newMessage.guild!, {
+                user: newMessage.author,
+                member: newMessage.member,
+                channel: newMessage.channel
+            })
         );
     }
 
-    async logMessageDelete(message: Message, moderator?: User | null) {
+    async logMessageDelete(
+        message: Message | PartialMessage,
+        moderator?: User | null,
+        trackedMessage?: TrackedMessage | null
+    ) {
         if (!this.client.configManager.config[message.guildId!]?.logging?.events.message_delete) {
             return;
         }
 
+        const author =
+            message.author ??
+            (trackedMessage
+                ? await this.client.users.fetch(trackedMessage.userId).catch(logError)
+                : null);
+
+        if (!author) {
+            return;
+        }
+
+        const content = message.partial ? trackedMessage?.content : message.content;
+        const attachments = message.partial
+            ? ((trackedMessage?.attachments ?? []) as TrackedAttachment[]).map(
+                  a =>
+                      ({
+                          attachment: a.url,
+                          name: a.name
+                      }) as AttachmentBuilder
+              )
+            : [
+                  ...message.attachments
+                      .map(
+                          a =>
+                              ({
+                                  attachment: a.proxyURL,
+                                  name: a.name
+                              }) as AttachmentBuilder
+                      )
+                      .values()
+              ];
+
         const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
             new ButtonBuilder()
                 .setStyle(ButtonStyle.Link)
@@ -1285,9 +1536,7 @@ export default class LoggerService extends Service {
         const fields = [
             {
                 name: "User",
-                value: `${message.author.toString()}\nUsername: ${message.author.username}\nID: ${
-                    message.author.id
-                }`,
+                value: `${author.toString()}\nUsername: ${author.username}\nID: ${author.id}`,
                 inline: !!moderator
             }
         ];
@@ -1319,47 +1568,184 @@ export default class LoggerService extends Service {
 
         await this.sendLogEmbed(
             message.guild!,
+            "message_delete",
             {
                 title: "Message Deleted",
                 color: Colors.Red,
-                user: message.author,
+                user: author,
                 options: {
-                    description: message.content
+                    description: content || "*No content*"
+                },
+                fields,
+                footerText: "Deleted"
+            },
+            {
+                components: [row],
+                files: attachments,
+                embeds: message.embeds
+            },
+            this.createLogContext(message.guild!, {
+                user: author,
+                member: message.member,
+                channel: message.channel
+            })
+        );
+    }
+
+    async logRaid({ guild, action }: { guild: Guild; action: string }) {
+        await this.sendLogEmbed(guild, "raid", {
+            title: "Possible raid detected",
+            reason: "Too many users joined in a short timeframe.",
+            color: Colors.Red,
+            fields: [
+                {
+                    name: "Action",
+                    value: action
+                }
+            ],
+            footerText: "Raid detected"
+        });
+    }
+
+    async logRaidWave({
+        guild,
+        id,
+        action,
+        score,
+        members
+    }: {
+        guild: Guild;
+        id: number;
+        action: string;
+        score: number;
+        members: ScoredRaidJoin[];
+    }) {
+        const description = formatRaidWaveMembers(members);
+
+        await this.sendLogEmbed(guild, "raid", {
+            title: "Raid wave detected",
+            reason: "A cluster of suspicious members joined in a short timeframe.",
+            color: Colors.Red,
+            options: {
+                description
+            },
+            fields: [
+                {
+                    name: "Wave ID",
+                    value: `${id}`,
+                    inline: true
+                },
+                {
+                    name: "Members",
+                    value: `${members.length}`,
+                    inline: true
+                },
+                {
+                    name: "Wave Score",
+                    value: `${score}`,
+                    inline: true
+                },
+                {
+                    name: "Action",
+                    value: action
+                }
+            ],
+            footerText: "Raid detected"
+        });
+    }
+
+    async logRaidWaveReview({
+        guild,
+        id,
+        moderator,
+        status,
+        count,
+        undone
+    }: {
+        guild: Guild;
+        id: number;
+        moderator: User;
+        status: "Confirmed" | "Undone";
+        count: number;
+        undone?: number;
+    }) {
+        await this.sendLogEmbed(guild, "raid", {
+            title: `Raid wave ${status.toLowerCase()}`,
+            color: status === "Confirmed" ? Colors.Red : Colors.Green,
+            moderator,
+            fields: [
+                {
+                    name: "Wave ID",
+                    value: `${id}`,
+                    inline: true
                 },
-                fields,
-                footerText: "Deleted"
-            },
-            {
-                components: [row],
-                files: [
-                    ...message.attachments
-                        .map(
-                            a =>
-                                ({
-                                    attachment: a.proxyURL,
-                                    name: a.name
-                                } as AttachmentBuilder)
-                        )
-                        .values()
-                ],
-                embeds: message.embeds
-            },
-            "message_logging_channel"
-        );
+                {
+                    name: "Members",
+                    value: `${count}`,
+                    inline: true
+                },
+                ...(undone !== undefined
+                    ? [
+                          {
+                              name: "Undone",
+                              value: `${undone} of ${count}`,
+                              inline: true
+                          }
+                      ]
+                    : [])
+            ],
+            footerText: status
+        });
     }
 
-    async logRaid({ guild, action }: { guild: Guild; action: string }) {
-        await this.sendLogEmbed(guild, {
-            title: "Possible raid detected",
-            reason: "Too many users joined in a short timeframe.",
+    async logRaidModeStatus({
+        guild,
+        raidMode,
+        moderator
+    }: {
+        guild: Guild;
+        raidMode: RaidMode;
+        moderator?: User;
+    }) {
+        return await this.sendLogEmbed(guild, "raid_mode", {
+            title: "Raid mode is active",
             color: Colors.Red,
+            moderator,
             fields: [
                 {
-                    name: "Action",
-                    value: action
+                    name: "Anti Join",
+                    value: raidMode.antijoin ? "On, new members will be kicked" : "Off",
+                    inline: true
+                },
+                {
+                    name: "Server Locked",
+                    value: raidMode.locked ? "Yes" : "No",
+                    inline: true
+                },
+                {
+                    name: "Expires",
+                    value: raidMode.expiresAt ? time(raidMode.expiresAt, "R") : "Never"
                 }
             ],
-            footerText: "Raid detected"
+            footerText: "Raid mode"
+        });
+    }
+
+    async logRaidModeEnd({
+        guild,
+        moderator,
+        expired
+    }: {
+        guild: Guild;
+        moderator?: User;
+        expired: boolean;
+    }) {
+        await this.sendLogEmbed(guild, "raid_mode", {
+            title: "Raid mode has ended",
+            reason: expired ? "The raid mode has expired." : undefined,
+            color: Colors.Green,
+            moderator,
+            footerText: "Raid mode"
         });
     }
 
@@ -1388,7 +1774,7 @@ export default class LoggerService extends Service {
             countSuccess === 0 ? "" : `Success: ${countSuccess}\n`
         }${countFailed === 0 ? "" : `Failed: ${countFailed}\n`}`;
 
-        await this.sendLogEmbed(guild, {
+        await this.sendLogEmbed(guild, "server_lock", {
             title: `Server ${action.toLowerCase()}`,
             reason: reason ?? "The user ran a command to perform this action",
             moderator,
@@ -1413,7 +1799,7 @@ export default class LoggerService extends Service {
         channel: GuildChannel;
         reason?: string;
     }) {
-        await this.sendLogEmbed(guild, {
+        await this.sendLogEmbed(guild, "channel_lock", {
             title: `Channel ${action.toLowerCase()}`,
             reason: reason ?? "The user ran a command to perform this action",
             moderator,
@@ -1438,42 +1824,37 @@ export default class LoggerService extends Service {
         duration,
         includeDeleteMessageSeconds = true
     }: LogUserBanOptions) {
-        await this.sendLogEmbed(
-            guild,
-            {
-                user,
-                title: "A user was banned",
-                footerText: (duration ? "Temporarily " : "") + "Banned",
-                reason: reason ?? null,
-                moderator,
-                id,
-                color: Colors.Red,
-                fields: [
-                    ...(includeDeleteMessageSeconds
-                        ? [
-                              {
-                                  name: "Message Deletion Timeframe",
-                                  value: deleteMessageSeconds
-                                      ? formatDistanceToNowStrict(
-                                            new Date(Date.now() - deleteMessageSeconds * 1000)
-                                        )
-                                      : "*No timeframe provided*"
-                              }
-                          ]
-                        : []),
-                    ...(duration
-                        ? [
-                              {
-                                  name: "Duration",
-                                  value: formatDistanceToNowStrict(new Date(Date.now() - duration))
-                              }
-                          ]
-                        : [])
-                ]
-            },
-            undefined,
-            "infraction_logging_channel"
-        );
+        await this.sendLogEmbed(guild, "member_ban", {
+            user,
+            title: "A user was banned",
+            footerText: (duration ? "Temporarily " : "") + "Banned",
+            reason: reason ?? null,
+            moderator,
+            id,
+            color: Colors.Red,
+            fields: [
+                ...(includeDeleteMessageSeconds
+                    ? [
+                          {
+                              name: "Message Deletion Timeframe",
+                              value: deleteMessageSeconds
+                                  ? formatDistanceToNowStrict(
+                                        new Date(Date.now() - deleteMessageSeconds * 1000)
+                                    )
+                                  : "*No timeframe provided*"
+                          }
+                      ]
+                    : []),
+                ...(duration
+                    ? [
+                          {
+                              name: "Duration",
+                              value: formatDistanceToNowStrict(new Date(Date.now() - duration))
+                          }
+                      ]
+                    : [])
+            ]
+        });
     }
 
     async logUserSoftBan({
@@ -1484,47 +1865,37 @@ export default class LoggerService extends Service {
         guild,
         id
     }: LogUserBanOptions) {
-        await this.sendLogEmbed(
-            guild,
-            {
-                user,
-                title: "A user was softbanned",
-                footerText: "Softbanned",
-                reason: reason ?? null,
-                moderator,
-                id,
-                color: Colors.Red,
-                fields: [
-                    {
-                        name: "Message Deletion Timeframe",
-                        value: deleteMessageSeconds
-                            ? formatDistanceToNowStrict(
-                                  new Date(Date.now() - deleteMessageSeconds * 1000)
-                              )
-                            : "*No timeframe provided*"
-                    }
-                ]
-            },
-            undefined,
-            "infraction_logging_channel"
-        );
+        await this.sendLogEmbed(guild, "member_ban", {
+            user,
+            title: "A user was softbanned",
+            footerText: "Softbanned",
+            reason: reason ?? null,
+            moderator,
+            id,
+            color: Colors.Red,
+            fields: [
+                {
+                    name: "Message Deletion Timeframe",
+                    value: deleteMessageSeconds
+                        ? formatDistanceToNowStrict(
+                              new Date(Date.now() - deleteMessageSeconds * 1000)
+                          )
+                        : "*No timeframe provided*"
+                }
+            ]
+        });
     }
 
     async logUserUnban({ moderator, user, reason, guild, id }: LogUserUnbanOptions) {
-        this.sendLogEmbed(
-            guild,
-            {
-                user,
-                title: "A user was unbanned",
-                footerText: "Unbanned",
-                reason: reason ?? null,
-                moderator,
-                id,
-                color: Colors.Green
-            },
-            undefined,
-            "infraction_logging_channel"
-        );
+        this.sendLogEmbed(guild, "member_unban", {
+            user,
+            title: "A user was unbanned",
+            footerText: "Unbanned",
+            reason: reason ?? null,
+            moderator,
+            id,
+            color: Colors.Green
+        });
     }
 
     async logMemberKick({
@@ -1535,20 +1906,15 @@ export default class LoggerService extends Service {
         id,
         user
     }: CommonUserActionOptions & { member?: GuildMember; user?: User; reason?: string }) {
-        this.sendLogEmbed(
-            guild,
-            {
-                user: user ?? member!.user,
-                title: "A member was kicked",
-                footerText: "Kicked",
-                reason: reason ?? null,
-                moderator,
-                id,
-                color: Colors.Orange
-            },
-            undefined,
-            "infraction_logging_channel"
-        );
+        this.sendLogEmbed(guild, "member_kick", {
+            user: user ?? member!.user,
+            title: "A member was kicked",
+            footerText: "Kicked",
+            reason: reason ?? null,
+            moderator,
+            id,
+            color: Colors.Orange
+        });
     }
 
     async logMemberMute({
@@ -1559,28 +1925,23 @@ export default class LoggerService extends Service {
         id,
         duration
     }: CommonUserActionOptions & { member: GuildMember; reason?: string; duration?: number }) {
-        this.sendLogEmbed(
-            guild,
-            {
-                user: member.user,
-                title: "A member was muted",
-                footerText: "Muted",
-                reason: reason ?? null,
-                moderator,
-                id,
-                color: Colors.DarkGold,
-                fields: [
-                    {
-                        name: "Duration",
-                        value: duration
-                            ? formatDistanceToNowStrict(new Date(Date.now() - duration))
-                            : "*No duration was specified*"
-                    }
-                ]
-            },
-            undefined,
-            "infraction_logging_channel"
-        );
+        this.sendLogEmbed(guild, "member_mute", {
+            user: member.user,
+            title: "A member was muted",
+            footerText: "Muted",
+            reason: reason ?? null,
+            moderator,
+            id,
+            color: Colors.DarkGold,
+            fields: [
+                {
+                    name: "Duration",
+                    value: duration
+                        ? formatDistanceToNowStrict(new Date(Date.now() - duration))
+                        : "*No duration was specified*"
+                }
+            ]
+        });
     }
 
     async logMemberWarning({
@@ -1590,20 +1951,15 @@ export default class LoggerService extends Service {
         guild,
         id
     }: CommonUserActionOptions & { member: GuildMember; reason?: string }) {
-        this.sendLogEmbed(
-            guild,
-            {
-                user: member.user,
-                title: "A member was warned",
-                footerText: "Warned",
-                reason: reason ?? null,
-                moderator,
-                id,
-                color: Colors.Gold
-            },
-            undefined,
-            "infraction_logging_channel"
-        );
+        this.sendLogEmbed(guild, "member_warn", {
+            user: member.user,
+            title: "A member was warned",
+            footerText: "Warned",
+            reason: reason ?? null,
+            moderator,
+            id,
+            color: Colors.Gold
+        });
     }
 
     async logBulkDeleteMessages({
@@ -1617,9 +1973,20 @@ export default class LoggerService extends Service {
         channel
     }: LogMessageBulkDelete) {
         const sendJSON = this.client.configManager.config[guild.id]?.logging?.bulk_delete_send_json;
+        const cachedMessages = messages.filter(
+            (m): m is Message => typeof m !== "string" && !(m as Message | PartialMessage).partial
+        );
+        const uncachedMessageIds = messages
+            .filter(m => !cachedMessages.includes(m as Message))
+            .map(m => (typeof m === "string" ? m : m.id));
+        const trackedMessages =
+            sendJSON && uncachedMessageIds.length > 0
+                ? await this.client.messageTrackingService.getMessages(uncachedMessageIds)
+                : [];
 
         const message = await this.sendLogEmbed(
             guild,
+            "message_bulk_delete",
             {
                 user,
                 title: "Messages deleted in bulk",
@@ -1643,13 +2010,16 @@ export default class LoggerService extends Service {
                 ? {
                       files: [
                           {
-                              attachment: this.generateBulkDeleteJSON(messages),
+                              attachment: this.generateBulkDeleteJSON(
+                                  cachedMessages,
+                                  channel,
+                                  trackedMessages
+                              ),
                               name: "messages.json"
                           }
                       ]
                   }
-                : undefined,
-            "infraction_logging_channel"
+                : undefined
         );
 
         if (messages.length > 0 && sendJSON) {
@@ -1683,20 +2053,15 @@ export default class LoggerService extends Service {
         guild,
         id
     }: CommonUserActionOptions & { member: GuildMember; reason?: string }) {
-        this.sendLogEmbed(
-            guild,
-            {
-                user: member.user,
-                title: "A member was unmuted",
-                footerText: "Unmuted",
-                reason: reason ?? null,
-                moderator,
-                id,
-                color: Colors.Green
-            },
-            undefined,
-            "infraction_logging_channel"
-        );
+        this.sendLogEmbed(guild, "member_mute", {
+            user: member.user,
+            title: "A member was unmuted",
+            footerText: "Unmuted",
+            reason: reason ?? null,
+            moderator,
+            id,
+            color: Colors.Green
+        });
     }
 
     async logBlockedWordOrToken({
@@ -1728,21 +2093,28 @@ export default class LoggerService extends Service {
                 return;
         }
 
-        this.sendLogEmbed(guild, {
-            user,
-            title,
-            footerText: "AutoMod",
-            color: Colors.Yellow,
-            fields: [
-                {
-                    name: blockType[0].toUpperCase() + blockType.substring(1),
-                    value
+        return await this.sendLogEmbed(
+            guild,
+            "automod_blocked_word",
+            {
+                user,
+                title,
+                footerText: "AutoMod",
+                color: Colors.Yellow,
+                fields: [
+                    {
+                        name: blockType[0].toUpperCase() + blockType.substring(1),
+                        value
+                    }
+                ],
+                options: {
+                    description: `${content}`
                 }
-            ],
-            options: {
-                description: `${content}`
+            },
+            {
+                components: [this.client.autoModStatsService.createFalsePositiveActionRow()]
             }
-        });
+        );
     }
 
     async logUserMassBan({
@@ -1752,35 +2124,30 @@ export default class LoggerService extends Service {
         moderator,
         deleteMessageSeconds
     }: LogUserMassBanOptions) {
-        await this.sendLogEmbed(
-            guild,
-            {
-                title: "A massban was executed",
-                footerText: "Banned",
-                reason: reason ?? null,
-                moderator,
-                color: Colors.Red,
-                fields: [
-                    {
-                        name: "Message Deletion Timeframe",
-                        value: deleteMessageSeconds
-                            ? formatDistanceToNowStrict(
-                                  new Date(Date.now() - deleteMessageSeconds * 1000)
-                              )
-                            : "*No timeframe provided*"
-                    }
-                ],
-                options: {
-                    description: `The following users were banned:\n\n${users.reduce(
-                        (acc, user) =>
-                            acc + (acc === "" ? "" : "\n") + "<@" + user + "> (`" + user + "`)",
-                        ""
-                    )}`
+        await this.sendLogEmbed(guild, "member_ban", {
+            title: "A massban was executed",
+            footerText: "Banned",
+            reason: reason ?? null,
+            moderator,
+            color: Colors.Red,
+            fields: [
+                {
+                    name: "Message Deletion Timeframe",
+                    value: deleteMessageSeconds
+                        ? formatDistanceToNowStrict(
+                              new Date(Date.now() - deleteMessageSeconds * 1000)
+                          )
+                        : "*No timeframe provided*"
                 }
-            },
-            undefined,
-            "infraction_logging_channel"
-        );
+            ],
+            options: {
+                description: `The following users were banned:\n\n${users.reduce(
+                    (acc, user) =>
+                        acc + (acc === "" ? "" : "\n") + "<@" + user + "> (`" + user + "`)",
+                    ""
+                )}`
+            }
+        });
     }
 
     async logMemberMassKick({
@@ -1789,28 +2156,27 @@ export default class LoggerService extends Service {
         guild,
         moderator
     }: Omit<LogUserMassBanOptions, "deleteMessageSeconds">) {
-        await this.sendLogEmbed(
-            guild,
-            {
-                title: "A masskick was executed",
-                footerText: "Kicked",
-                reason: reason ?? null,
-                moderator,
-                color: Colors.Orange,
-                options: {
-                    description: `The following users were kicked:\n\n${users.reduce(
-                        (acc, user) =>
-                            acc + (acc === "" ? "" : "\n") + "<@" + user + "> (`" + user + "`)",
-                        ""
-                    )}`
-                }
-            },
-            undefined,
-            "infraction_logging_channel"
-        );
+        await this.sendLogEmbed(guild, "member_kick", {
+            title: "A masskick was executed",
+            footerText: "Kicked",
+            reason: reason ?? null,
+            moderator,
+            color: Colors.Orange,
+            options: {
+                description: `The following users were kicked:\n\n${users.reduce(
+                    (acc, user) =>
+                        acc + (acc === "" ? "" : "\n") + "<@" + user + "> (`" + user + "`)",
+                    ""
+                )}`
+            }
+        });
     }
 
-    generateBulkDeleteJSON(messages: MessageResolvable[]) {
+    generateBulkDeleteJSON(
+        messages: MessageResolvable[],
+        channel: TextChannel,
+        trackedMessages: TrackedMessage[] = []
+    ) {
         const mappedMessages = (
             (messages instanceof Collection ? [...messages.values()] : messages) as Message[]
         ).map(m => ({
@@ -1839,20 +2205,40 @@ export default class LoggerService extends Service {
             }
         }));
 
+        const mappedTrackedMessages = trackedMessages.map(m => {
+            const author = this.client.users.cache.get(m.userId);
+
+            return {
+                id: m.messageId,
+                channelId: m.channelId,
+                guildId: m.guildId,
+                content: m.content ?? "",
+                createdTimestamp: m.createdAt.getTime(),
+                editedTimestamp: m.editedAt?.getTime() ?? null,
+                attachments: m.attachments,
+                author: {
+                    id: m.userId,
+                    username: author?.username ?? "Unknown"
+                },
+                authorAvatarURL: author?.displayAvatarURL(),
+                tracked: true
+            };
+        });
+
         return Buffer.from(
             JSON.stringify(
                 {
-                    messages: mappedMessages,
+                    messages: [...mappedMessages, ...mappedTrackedMessages],
                     generatedAt: new Date().toISOString(),
-                    channel: (messages.at(0) as Message)!.channel.toJSON({
+                    channel: channel.toJSON({
                         id: true,
                         name: true,
                         type: true
                     }),
                     guild: {
-                        id: (messages.at(0) as Message)!.guild!.id,
-                        name: (messages.at(0) as Message)!.guild!.name,
-                        iconURL: (messages.at(0) as Message)!.guild!.iconURL() ?? undefined
+                        id: channel.guild.id,
+                        name: channel.guild.name,
+                        iconURL: channel.guild.iconURL() ?? undefined
                     },
                     version: this.client.metadata.data.version
                 },
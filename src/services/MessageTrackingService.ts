@@ -0,0 +1,315 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { TrackedMessage } from "@prisma/client";
+import { Collection, GuildTextBasedChannel, Message, PartialMessage, Snowflake } from "discord.js";
+import Service from "../core/Service";
+import { GatewayEventListener } from "../decorators/GatewayEventListener";
+import { HasEventListeners } from "../types/HasEventListeners";
+import { log, logError } from "../utils/Logger";
+
+export const name = "messageTrackingService";
+
+export type TrackedAttachment = {
+    id: string;
+    name: string;
+    url: string;
+    size: number;
+    contentType: string | null;
+};
+
+export type TrackedMessageRevision = {
+    content: string | null;
+    attachments: TrackedAttachment[];
+    editedAt: string;
+};
+
+export type SnipeType = "delete" | "edit";
+
+export default class MessageTrackingService extends Service implements HasEventListeners {
+    protected readonly purgeInterval = 3_600_000;
+    protected interval?: ReturnType<typeof setInterval>;
+
+    @GatewayEventListener("ready")
+    onReady() {
+        this.interval ??= setInterval(
+            () => this.purgeExpired().catch(logError),
+            this.purgeInterval
+        );
+    }
+
+    isEnabled(guildId: Snowflake, channelId?: Snowflake) {
+        const config = this.client.configManager.config[guildId]?.message_tracking;
+        return !!config?.enabled && (!channelId || !config.excluded_channels.includes(channelId));
+    }
+
+    protected shouldTrack(message: Message | PartialMessage) {
+        return (
+            !!message.guildId &&
+            !message.author?.bot &&
+            this.isEnabled(message.guildId, message.channelId) &&
+            (!message.channel.isThread() ||
+                !message.channel.parentId ||
+                this.isEnabled(message.guildId, message.channel.parentId))
+        );
+    }
+
+    protected getAttachments(message: Message | PartialMessage): TrackedAttachment[] {
+        return message.attachments.map(attachment => ({
+            id: attachment.id,
+            name: attachment.name,
+            url: attachment.url,
+            size: attachment.size,
+            contentType: attachment.contentType
+        }));
+    }
+
+    getMessage(messageId: Snowflake) {
+        return this.client.prisma.trackedMessage.findFirst({
+            where: {
+                messageId
+            }
+        });
+    }
+
+    getMessages(messageIds: Snowflake[]) {
+        return this.client.prisma.trackedMessage.findMany({
+            where: {
+                messageId: {
+                    in: messageIds
+                }
+            },
+            orderBy: {
+                createdAt: "asc"
+            }
+        });
+    }
+
+    /**
+     * Returns every known version of the given message, from the oldest to the current one.
+     */
+    getRevisions(message: TrackedMessage): TrackedMessageRevision[] {
+        return [
+            ...(message.revisions as TrackedMessageRevision[]),
+            {
+                content: message.content,
+                attachments: message.attachments as TrackedAttachment[],
+                editedAt: (message.editedAt ?? message.createdAt).toISOString()
+            }
+        ];
+    }
+
+    async onMessageCreate(message: Message) {
+        if (!this.shouldTrack(message)) {
+            return;
+        }
+
+        await this.client.prisma.trackedMessage.create({
+            data: {
+                messageId: message.id,
+                guildId: message.guildId!,
+                channelId: message.channelId,
+                userId: message.author.id,
+                content: message.content || null,
+                attachments: this.getAttachments(message),
+                createdAt: message.createdAt
+            }
+        });
+    }
+
+    /**
+     * Records a new revision of the given message.
+     *
+     * @returns The tracked message as it was before this update, if any
+     */
+    async onMessageUpdate(oldMessage: Message | PartialMessage, newMessage: Message) {
+        if (!this.shouldTrack(newMessage)) {
+            return null;
+        }
+
+        const tracked = await this.getMessage(newMessage.id);
+
+        if (!tracked) {
+            if (oldMessage.partial) {
+                return null;
+            }
+
+            await this.client.prisma.trackedMessage.create({
+                data: {
+                    messageId: newMessage.id,
+                    guildId: newMessage.guildId!,
+                    channelId: newMessage.channelId,
+                    userId: newMessage.author.id,
+                    content: newMessage.content || null,
+                    attachments: this.getAttachments(newMessage),
+                    revisions: [
+                        {
+                            content: oldMessage.content || null,
+                            attachments: this.getAttachments(oldMessage),
+                            editedAt: (oldMessage.editedAt ?? oldMessage.createdAt).toISOString()
+                        }
+                    ],
+                    editedAt: newMessage.editedAt ?? new Date(),
+                    createdAt: newMessage.createdAt
+                }
+            });
+
+            return null;
+        }
+
+        if ((tracked.content ?? "") === newMessage.content) {
+            return tracked;
+        }
+
+        await this.client.prisma.trackedMessage.update({
+            where: {
+                id: tracked.id
+            },
+            data: {
+                content: newMessage.content || null,
+                attachments: this.getAttachments(newMessage),
+                revisions: [
+                    ...(tracked.revisions as TrackedMessageRevision[]),
+                    {
+                        content: tracked.content,
+                        attachments: tracked.attachments as TrackedAttachment[],
+                        editedAt: (tracked.editedAt ?? tracked.createdAt).toISOString()
+                    }
+                ],
+                editedAt: newMessage.editedAt ?? new Date(),
+                editSnipe: true
+            }
+        });
+
+        return tracked;
+    }
+
+    /**
+     * Marks the given message as deleted.
+     *
+     * @returns The tracked message, if any
+     */
+    async onMessageDelete(message: Message | PartialMessage) {
+        if (!message.guildId || !this.isEnabled(message.guildId)) {
+            return null;
+        }
+
+        const tracked = await this.getMessage(message.id);
+
+        if (!tracked) {
+            return null;
+        }
+
+        return await this.client.prisma.trackedMessage.update({
+            where: {
+                id: tracked.id
+            },
+            data: {
+                deletedAt: new Date()
+            }
+        });
+    }
+
+    async onMessageDeleteBulk(
+        messages: Collection<Snowflake, Message | PartialMessage>,
+        channel: GuildTextBasedChannel
+    ) {
+        if (!this.isEnabled(channel.guildId)) {
+            return;
+        }
+
+        await this.client.prisma.trackedMessage.updateMany({
+            where: {
+                messageId: {
+                    in: [...messages.keys()]
+                }
+            },
+            data: {
+                deletedAt: new Date()
+            }
+        });
+    }
+
+    protected getSnipeFilter(guildId: Snowflake, type: SnipeType) {
+        return type === "delete"
+            ? {
+                  guildId,
+                  deleteSnipe: true,
+                  deletedAt: {
+                      not: null
+                  }
+              }
+            : {
+                  guildId,
+                  editSnipe: true,
+                  editedAt: {
+                      not: null
+                  }
+              };
+    }
+
+    getSnipeCount(guildId: Snowflake, type: SnipeType) {
+        return this.client.prisma.trackedMessage.count({
+            where: this.getSnipeFilter(guildId, type)
+        });
+    }
+
+    getSnipedMessage(guildId: Snowflake, type: SnipeType, index: number) {
+        return this.client.prisma.trackedMessage.findFirst({
+            where: this.getSnipeFilter(guildId, type),
+            orderBy: type === "delete" ? { deletedAt: "desc" } : { editedAt: "desc" },
+            skip: index
+        });
+    }
+
+    async clearSnipes(guildId: Snowflake, type: SnipeType, id?: number) {
+        const { count } = await this.client.prisma.trackedMessage.updateMany({
+            where: {
+                ...this.getSnipeFilter(guildId, type),
+                id
+            },
+            data: type === "delete" ? { deleteSnipe: false } : { editSnipe: false }
+        });
+
+        return count;
+    }
+
+    async purgeExpired() {
+        for (const guildId in this.client.configManager.config) {
+            const config = this.client.configManager.config[guildId]?.message_tracking;
+
+            if (!config?.enabled || !config.retention) {
+                continue;
+            }
+
+            const { count } = await this.client.prisma.trackedMessage.deleteMany({
+                where: {
+                    guildId,
+                    createdAt: {
+                        lt: new Date(Date.now() - config.retention)
+                    }
+                }
+            });
+
+            if (count > 0) {
+                log(`Purged ${count} expired tracked messages in guild ${guildId}`);
+            }
+        }
+    }
+}
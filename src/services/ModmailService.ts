@@ -0,0 +1,672 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ModmailSession } from "@prisma/client";
+import {
+    ActionRowBuilder,
+    Attachment,
+    ChannelType,
+    Collection,
+    Colors,
+    ForumChannel,
+    Guild,
+    GuildMember,
+    Interaction,
+    Message,
+    MessageCreateOptions,
+    PermissionFlagsBits,
+    Snowflake,
+    StringSelectMenuBuilder,
+    StringSelectMenuInteraction,
+    TextChannel,
+    ThreadAutoArchiveDuration,
+    ThreadChannel,
+    User,
+    time
+} from "discord.js";
+import Service from "../core/Service";
+import { GatewayEventListener } from "../decorators/GatewayEventListener";
+import { HasEventListeners } from "../types/HasEventListeners";
+import { logError } from "../utils/Logger";
+import { userInfo } from "../utils/embed";
+import { safeChannelFetch, safeMemberFetch } from "../utils/fetch";
+import { generateTranscript, messageToTranscriptMessage } from "../utils/transcript";
+
+export const name = "modmailService";
+
+type ModmailActionResult =
+    | {
+          error: string;
+          session?: undefined;
+      }
+    | {
+          error?: undefined;
+          session: ModmailSession;
+      };
+
+type ModmailReplyOptions = {
+    session: ModmailSession;
+    member: GuildMember;
+    content?: string;
+    attachments?: Attachment[];
+    files?: MessageCreateOptions["files"];
+    anonymous?: boolean;
+};
+
+export default class ModmailService extends Service implements HasEventListeners {
+    protected readonly sessions = new Collection<Snowflake, ModmailSession>();
+    protected readonly threads = new Collection<Snowflake, ModmailSession>();
+    protected readonly pendingMessages = new Collection<Snowflake, Message>();
+    protected readonly transcriptMessageLimit = 5000;
+
+    @GatewayEventListener("ready")
+    async onReady() {
+        const sessions = await this.client.prisma.modmailSession.findMany({
+            where: {
+                open: true
+            }
+        });
+
+        for (const session of sessions) {
+            this.addSession(session);
+        }
+    }
+
+    @GatewayEventListener("messageCreate")
+    async onMessageCreate(message: Message) {
+        if (message.author.bot || message.inGuild() || message.channel.type !== ChannelType.DM) {
+            return;
+        }
+
+        if (this.client.commandManager.isBanned(message.author.id)) {
+            return;
+        }
+
+        await this.onDirectMessage(message);
+    }
+
+    @GatewayEventListener("interactionCreate")
+    async onInteractionCreate(interaction: Interaction) {
+        if (interaction.isStringSelectMenu() && interaction.customId === "modmail__guild_select") {
+            await this.onGuildSelect(interaction);
+        }
+    }
+
+    isStaff(member: GuildMember) {
+        const staffRoles =
+            this.client.configManager.config[member.guild.id]?.modmail?.staff_roles ?? [];
+
+        return (
+            member.permissions.has(PermissionFlagsBits.ManageMessages, true) ||
+            (staffRoles.length > 0 && member.roles.cache.hasAny(...staffRoles))
+        );
+    }
+
+    getSessionByThread(threadId: Snowflake) {
+        return this.threads.get(threadId);
+    }
+
+    getSessionByUser(userId: Snowflake) {
+        return this.sessions.get(userId);
+    }
+
+    protected addSession(session: ModmailSession) {
+        this.sessions.set(session.userId, session);
+        this.threads.set(session.threadId, session);
+    }
+
+    protected removeSession(session: ModmailSession) {
+        this.sessions.delete(session.userId);
+        this.threads.delete(session.threadId);
+    }
+
+    protected async onDirectMessage(message: Message) {
+        const session = this.sessions.get(message.author.id);
+
+        if (session) {
+            const thread = await this.fetchThread(session);
+
+            if (thread) {
+                await this.relayToThread(thread, message);
+                return;
+            }
+
+            // The thread was deleted manually, so start over with a new one
+            await this.markClosed(session, this.client.user!.id).catch(logError);
+        }
+
+        const guilds = await this.getAvailableGuilds(message.author);
+
+        if (guilds.length === 0) {
+            return;
+        }
+
+        if (guilds.length === 1) {
+            await this.openAndRelay(guilds[0], message);
+            return;
+        }
+
+        this.pendingMessages.set(message.author.id, message);
+
+        await message
+            .reply({
+                content: "Which server do you want to contact?",
+                components: [
+                    new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+                        new StringSelectMenuBuilder()
+                            .setCustomId("modmail__guild_select")
+                            .setPlaceholder("Select a server")
+                            .addOptions(
+                                guilds.slice(0, 25).map(guild => ({
+                                    label: guild.name,
+                                    value: guild.id
+                                }))
+                            )
+                    )
+                ]
+            })
+            .catch(logError);
+    }
+
+    protected async onGuildSelect(interaction: StringSelectMenuInteraction) {
+        const message = this.pendingMessages.get(interaction.user.id);
+        const guild = this.client.guilds.cache.get(interaction.values[0]);
+
+        if (!message || !guild) {
+            await interaction.update({
+                content: "This selection has expired. Please send your message again.",
+                components: []
+            });
+
+            return;
+        }
+
+        this.pendingMessages.delete(interaction.user.id);
+        await interaction.update({
+            content: `Contacting the staff members of **${guild.name}**...`,
+            components: []
+        });
+
+        await this.openAndRelay(guild, message);
+    }
+
+    protected async getAvailableGuilds(user: User) {
+        const guilds: Guild[] = [];
+
+        for (const guild of this.client.guilds.cache.values()) {
+            const config = this.client.configManager.config[guild.id]?.modmail;
+
+            if (config?.enabled && config.channel && (await safeMemberFetch(guild, user.id))) {
+                guilds.push(guild);
+            }
+        }
+
+        return guilds;
+    }
+
+    protected async openAndRelay(guild: Guild, message: Message) {
+        const result = await this.open(guild, message.author);
+
+        if (result.error !== undefined) {
+            await message.reply(result.error).catch(logError);
+            return;
+        }
+
+        const thread = await this.fetchThread(result.session);
+
+        if (thread) {
+            await this.relayToThread(thread, message);
+        }
+    }
+
+    async open(guild: Guild, user: User): Promise<ModmailActionResult> {
+        const config = this.client.configManager.config[guild.id]?.modmail;
+
+        if (!config?.enabled) {
+            return { error: "Modmail is not enabled in this server." };
+        }
+
+        if (this.sessions.has(user.id)) {
+            return { error: "You already have an open modmail thread." };
+        }
+
+        const channel = config.channel ? await safeChannelFetch(guild, config.channel) : null;
+
+        if (
+            !channel ||
+            (channel.type !== ChannelType.GuildForum && channel.type !== ChannelType.GuildText)
+        ) {
+            return {
+                error: "The modmail channel is not configured properly. Please contact the server staff."
+            };
+        }
+
+        const member = await safeMemberFetch(guild, user.id);
+        const infoMessage = {
+            embeds: [
+                {
+                    author: {
+                        name: user.username,
+                        icon_url: user.displayAvatarURL()
+                    },
+                    description: "A new modmail thread has been opened.",
+                    fields: [
+                        {
+                            name: "User",
+                            value: userInfo(user),
+                            inline: true
+                        },
+                        {
+                            name: "Account Created",
+                            value: time(user.createdAt, "R"),
+                            inline: true
+                        },
+                        {
+                            name: "Joined Server",
+                            value: member?.joinedAt ? time(member.joinedAt, "R") : "*Unknown*",
+                            inline: true
+                        }
+                    ],
+                    color: Colors.Green,
+                    timestamp: new Date().toISOString()
+                }
+            ]
+        };
+
+        let thread: ThreadChannel;
+
+        try {
+            if (channel.type === ChannelType.GuildForum) {
+                thread = await (channel as ForumChannel).threads.create({
+                    name: `modmail-${user.username}`,
+                    message: infoMessage
+                });
+            } else {
+                thread = await (channel as TextChannel).threads.create({
+                    name: `modmail-${user.username}`,
+                    autoArchiveDuration: ThreadAutoArchiveDuration.OneWeek,
+                    reason: `Modmail thread for ${user.username}`
+                });
+
+                await thread.send(infoMessage);
+            }
+        } catch (e) {
+            logError(e);
+            return {
+                error: "Failed to create a modmail thread. Please contact the server staff."
+            };
+        }
+
+        const session = await this.client.prisma.modmailSession.create({
+            data: {
+                guildId: guild.id,
+                userId: user.id,
+                threadId: thread.id
+            }
+        });
+
+        this.addSession(session);
+
+        await user
+            .send({
+                embeds: [
+                    {
+                        author: {
+                            name: guild.name,
+                            icon_url: guild.iconURL() ?? undefined
+                        },
+                        description:
+                            config.greeting ??
+                            "Thanks for your message! The staff members will reply to you as soon as possible.",
+                        color: Colors.Green,
+                        timestamp: new Date().toISOString()
+                    }
+                ]
+            })
+            .catch(logError);
+
+        return { session };
+    }
+
+    protected async relayToThread(thread: ThreadChannel, message: Message) {
+        try {
+            if (thread.archived) {
+                await thread.setArchived(false);
+            }
+
+            await thread.send({
+                embeds: [
+                    {
+                        author: {
+                            name: message.author.username,
+                            icon_url: message.author.displayAvatarURL()
+                        },
+                        description: message.content || undefined,
+                        footer: {
+                            text: `User ID: ${message.author.id}`
+                        },
+                        color: Colors.Blurple,
+                        timestamp: message.createdAt.toISOString()
+                    }
+                ],
+                files: message.attachments.map(attachment => ({
+                    attachment: attachment.url,
+                    name: attachment.name
+                }))
+            });
+
+            await message.react("✅").catch(logError);
+        } catch (e) {
+            logError(e);
+            await message.react("❌").catch(logError);
+        }
+    }
+
+    async reply({
+        session,
+        member,
+        content,
+        attachments = [],
+        files = [],
+        anonymous = false
+    }: ModmailReplyOptions): Promise<ModmailActionResult> {
+        if (!content && attachments.length === 0 && files.length === 0) {
+            return { error: "Please provide a message to send!" };
+        }
+
+        const thread = await this.fetchThread(session);
+
+        if (!thread) {
+            return { error: "The thread of this modmail session no longer exists." };
+        }
+
+        const user = await this.client.users.fetch(session.userId).catch(() => null);
+
+        if (!user) {
+            return { error: "Could not find the user of this modmail session." };
+        }
+
+        const anonymousName =
+            this.client.configManager.config[member.guild.id]?.modmail?.anonymous_name ??
+            "Staff Team";
+        const allFiles = [
+            ...attachments.map(attachment => ({
+                attachment: attachment.url,
+                name: attachment.name
+            })),
+            ...files
+        ];
+
+        try {
+            await user.send({
+                embeds: [
+                    {
+                        author: {
+                            name: anonymous ? anonymousName : member.user.username,
+                            icon_url: anonymous
+                                ? member.guild.iconURL() ?? undefined
+                                : member.user.displayAvatarURL()
+                        },
+                        description: content,
+                        footer: {
+                            text: member.guild.name
+                        },
+                        color: Colors.Gold,
+                        timestamp: new Date().toISOString()
+                    }
+                ],
+                files: allFiles
+            });
+        } catch (e) {
+            logError(e);
+            return {
+                error: "Failed to send the message to the user. They might have their DMs disabled."
+            };
+        }
+
+        await thread
+            .send({
+                embeds: [
+                    {
+                        author: {
+                            name: `${member.user.username}${anonymous ? " (anonymous)" : ""}`,
+                            icon_url: member.user.displayAvatarURL()
+                        },
+                        description: content,
+                        footer: {
+                            text: "Sent to the user"
+                        },
+                        color: Colors.Gold,
+                        timestamp: new Date().toISOString()
+                    }
+                ],
+                files: allFiles
+            })
+            .catch(logError);
+
+        return { session };
+    }
+
+    /**
+     * Sends a snippet to the user of the modmail session bound to the channel of the given message.
+     *
+     * @returns Whether the snippet was found and sent
+     */
+    async replyWithSnippet(message: Message, prefix: string, name: string) {
+        const session = this.threads.get(message.channelId);
+
+        if (!session || !message.member || !this.isStaff(message.member)) {
+            return false;
+        }
+
+        const { options, found } = await this.client.snippetManager.createMessageOptionsFromSnippet(
+            {
+                name,
+                guildId: message.guildId!,
+                channelId: message.channelId,
+                member: message.member,
+                content: message.content,
+                prefix
+            }
+        );
+
+        if (!found || !options) {
+            return false;
+        }
+
+        const { error } = await this.reply({
+            session,
+            member: message.member,
+            content: options.content || undefined,
+            files: options.files,
+            anonymous: true
+        });
+
+        if (error) {
+            await message.reply(error).catch(logError);
+        } else {
+            await message.delete().catch(logError);
+        }
+
+        return true;
+    }
+
+    async close(
+        session: ModmailSession,
+        guild: Guild,
+        user: User,
+        reason?: string
+    ): Promise<ModmailActionResult> {
+        if (!session.open) {
+            return { error: "This modmail thread is already closed." };
+        }
+
+        const thread = await this.fetchThread(session);
+        const updatedSession = await this.markClosed(session, user.id);
+        const config = this.client.configManager.config[guild.id]?.modmail;
+        const recipient = await this.client.users.fetch(session.userId).catch(() => null);
+
+        if (thread) {
+            await thread
+                .send({
+                    embeds: [
+                        {
+                            author: {
+                                name: "Modmail thread closed"
+                            },
+                            description: `This thread was closed by ${user.toString()}.`,
+                            fields: [
+                                {
+                                    name: "Reason",
+                                    value: reason ?? "*No reason provided*"
+                                }
+                            ],
+                            color: Colors.Red,
+                            timestamp: new Date().toISOString()
+                        }
+                    ]
+                })
+                .catch(logError);
+
+            await this.sendTranscriptLog(updatedSession, guild, thread, recipient, reason).catch(
+                logError
+            );
+            await thread.setLocked(true).catch(logError);
+            await thread.setArchived(true).catch(logError);
+        }
+
+        await recipient
+            ?.send({
+                embeds: [
+                    {
+                        author: {
+                            name: guild.name,
+                            icon_url: guild.iconURL() ?? undefined
+                        },
+                        description:
+                            config?.close_message ??
+                            "Your modmail thread has been closed. If you need further help, feel free to send another message.",
+                        color: Colors.Red,
+                        timestamp: new Date().toISOString()
+                    }
+                ]
+            })
+            .catch(logError);
+
+        return { session: updatedSession };
+    }
+
+    protected async markClosed(session: ModmailSession, closedById: Snowflake) {
+        this.removeSession(session);
+
+        return await this.client.prisma.modmailSession.update({
+            where: {
+                id: session.id
+            },
+            data: {
+                open: false,
+                closedById,
+                closedAt: new Date()
+            }
+        });
+    }
+
+    protected async fetchThread(session: ModmailSession) {
+        const guild = this.client.guilds.cache.get(session.guildId);
+        const channel = guild ? await safeChannelFetch(guild, session.threadId) : null;
+        return channel?.isThread() ? channel : null;
+    }
+
+    protected async sendTranscriptLog(
+        session: ModmailSession,
+        guild: Guild,
+        thread: ThreadChannel,
+        recipient: User | null,
+        reason?: string
+    ) {
+        const config = this.client.configManager.config[guild.id]?.modmail;
+
+        if (!config?.log_channel) {
+            return;
+        }
+
+        const logChannel = await safeChannelFetch(guild, config.log_channel);
+
+        if (!logChannel?.isTextBased()) {
+            return;
+        }
+
+        const messages: Message[] = [];
+        let before: Snowflake | undefined;
+
+        while (messages.length < this.transcriptMessageLimit) {
+            const fetched = await thread.messages.fetch({ limit: 100, before });
+
+            if (fetched.size === 0) {
+                break;
+            }
+
+            messages.push(...fetched.values());
+            before = fetched.lastKey();
+        }
+
+        await logChannel.send({
+            embeds: [
+                {
+                    author: {
+                        name: `Modmail thread #${session.id} closed`,
+                        icon_url: recipient?.displayAvatarURL()
+                    },
+                    fields: [
+                        {
+                            name: "User",
+                            value: recipient ? userInfo(recipient) : session.userId,
+                            inline: true
+                        },
+                        {
+                            name: "Closed By",
+                            value: session.closedById
+                                ? `<@${session.closedById}> (${session.closedById})`
+                                : "*Unknown*",
+                            inline: true
+                        },
+                        {
+                            name: "Reason",
+                            value: reason ?? "*No reason provided*"
+                        }
+                    ],
+                    color: Colors.Red,
+                    timestamp: new Date().toISOString()
+                }
+            ],
+            files: [
+                {
+                    attachment: generateTranscript(
+                        messages.reverse().map(messageToTranscriptMessage),
+                        {
+                            title: `Modmail #${session.id} - ${recipient?.username ?? session.userId}`,
+                            format: config.transcript_format
+                        }
+                    ),
+                    name: `modmail-${session.id}.${config.transcript_format === "html" ? "html" : "txt"}`
+                }
+            ]
+        });
+    }
+}
@@ -0,0 +1,906 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Ticket, TicketStatus } from "@prisma/client";
+import {
+    ActionRowBuilder,
+    AnyThreadChannel,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    CategoryChannel,
+    ChannelType,
+    Collection,
+    Colors,
+    DMChannel,
+    Guild,
+    GuildMember,
+    Interaction,
+    Message,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    NonThreadGuildBasedChannel,
+    PermissionFlagsBits,
+    PrivateThreadChannel,
+    Snowflake,
+    TextBasedChannel,
+    TextChannel,
+    TextInputBuilder,
+    TextInputStyle,
+    User,
+    roleMention,
+    time
+} from "discord.js";
+import path from "path";
+import Service from "../core/Service";
+import { GatewayEventListener } from "../decorators/GatewayEventListener";
+import { HasEventListeners } from "../types/HasEventListeners";
+import { logError } from "../utils/Logger";
+import QueueEntry from "../utils/QueueEntry";
+import { userInfo } from "../utils/embed";
+import { safeChannelFetch, safeMemberFetch } from "../utils/fetch";
+import { generateTranscript, messageToTranscriptMessage } from "../utils/transcript";
+
+export const name = "ticketService";
+
+type TicketActionResult =
+    | {
+          error: string;
+          ticket?: undefined;
+      }
+    | {
+          error?: undefined;
+          ticket: Ticket;
+      };
+
+type TicketChannel = TextChannel | PrivateThreadChannel;
+
+export default class TicketService extends Service implements HasEventListeners {
+    protected readonly openTickets = new Collection<Snowflake, Ticket>();
+    protected readonly activitySyncInterval = 60_000;
+    protected readonly transcriptMessageLimit = 5000;
+    protected readonly participantPermissions = [
+        PermissionFlagsBits.ViewChannel,
+        PermissionFlagsBits.SendMessages,
+        PermissionFlagsBits.ReadMessageHistory,
+        PermissionFlagsBits.AttachFiles,
+        PermissionFlagsBits.EmbedLinks
+    ];
+
+    @GatewayEventListener("ready")
+    async onReady() {
+        const tickets = await this.client.prisma.ticket.findMany({
+            where: {
+                status: TicketStatus.OPEN
+            }
+        });
+
+        for (const ticket of tickets) {
+            this.openTickets.set(ticket.channelId, ticket);
+        }
+    }
+
+    @GatewayEventListener("messageCreate")
+    async onMessageCreate(message: Message) {
+        if (message.author.bot || !message.inGuild()) {
+            return;
+        }
+
+        const ticket = this.openTickets.get(message.channelId);
+
+        if (!ticket || Date.now() - ticket.lastActivityAt.getTime() < this.activitySyncInterval) {
+            return;
+        }
+
+        ticket.lastActivityAt = new Date();
+
+        await this.client.prisma.ticket
+            .update({
+                where: {
+                    id: ticket.id
+                },
+                data: {
+                    lastActivityAt: ticket.lastActivityAt
+                }
+            })
+            .catch(logError);
+    }
+
+    @GatewayEventListener("channelDelete")
+    async onChannelDelete(channel: DMChannel | NonThreadGuildBasedChannel) {
+        if (!channel.isDMBased()) {
+            await this.closeDeletedTicket(channel.guild, channel.id);
+        }
+    }
+
+    @GatewayEventListener("threadDelete")
+    async onThreadDelete(thread: AnyThreadChannel) {
+        await this.closeDeletedTicket(thread.guild, thread.id);
+    }
+
+    @GatewayEventListener("interactionCreate")
+    async onInteractionCreate(interaction: Interaction) {
+        if (!interaction.inGuild()) {
+            return;
+        }
+
+        if (interaction.isButton() && interaction.customId.startsWith("ticket__")) {
+            await this.onButtonInteraction(interaction);
+        } else if (interaction.isModalSubmit() && interaction.customId === "ticket__open_modal") {
+            await this.onOpenModalSubmit(interaction);
+        }
+    }
+
+    isStaff(member: GuildMember) {
+        const staffRoles =
+            this.client.configManager.config[member.guild.id]?.tickets?.staff_roles ?? [];
+
+        return (
+            member.permissions.has(PermissionFlagsBits.ManageChannels, true) ||
+            (staffRoles.length > 0 && member.roles.cache.hasAny(...staffRoles))
+        );
+    }
+
+    getTicketByChannel(guildId: Snowflake, channelId: Snowflake) {
+        return this.client.prisma.ticket.findFirst({
+            where: {
+                guildId,
+                channelId
+            }
+        });
+    }
+
+    getTicketById(guildId: Snowflake, id: number) {
+        return this.client.prisma.ticket.findFirst({
+            where: {
+                guildId,
+                id
+            }
+        });
+    }
+
+    async open(member: GuildMember, subject?: string): Promise<TicketActionResult> {
+        const config = this.client.configManager.config[member.guild.id]?.tickets;
+
+        if (!config?.enabled) {
+            return { error: "The ticket system is not enabled in this server." };
+        }
+
+        const count = await this.client.prisma.ticket.count({
+            where: {
+                guildId: member.guild.id,
+                userId: member.id,
+                status: TicketStatus.OPEN
+            }
+        });
+
+        if (count >= config.max_open_tickets) {
+            return {
+                error: `You can't have more than ${config.max_open_tickets} open ticket(s) at a time.`
+            };
+        }
+
+        const parentChannel = config.parent_channel
+            ? await safeChannelFetch(member.guild, config.parent_channel)
+            : null;
+
+        if (
+            !parentChannel ||
+            (config.mode === "channel" && parentChannel.type !== ChannelType.GuildCategory) ||
+            (config.mode === "thread" && parentChannel.type !== ChannelType.GuildText)
+        ) {
+            return {
+                error: "The ticket parent channel is not configured properly. Please contact the server staff."
+            };
+        }
+
+        const name = `ticket-${member.user.username}`;
+        const reason = `Opening a ticket for ${member.user.username}`;
+        let channel: TicketChannel;
+
+        try {
+            channel =
+                config.mode === "channel"
+                    ? await this.client.infractionManager.createPrivateChannel({
+                          parentChannel: parentChannel as CategoryChannel,
+                          user: member.user,
+                          name,
+                          reason,
+                          permissionOverwrites: config.staff_roles.map(id => ({
+                              id,
+                              allow: this.participantPermissions
+                          })),
+                          allow: this.participantPermissions
+                      })
+                    : await this.client.infractionManager.createPrivateThread({
+                          channel: parentChannel as TextChannel,
+                          user: member.user,
+                          name,
+                          reason
+                      });
+        } catch (e) {
+            logError(e);
+            return {
+                error: "Failed to create the ticket channel. Please make sure the bot has the required permissions."
+            };
+        }
+
+        const ticket = await this.client.prisma.ticket.create({
+            data: {
+                guildId: member.guild.id,
+                channelId: channel.id,
+                userId: member.id,
+                subject,
+                thread: config.mode === "thread"
+            }
+        });
+
+        this.openTickets.set(channel.id, ticket);
+
+        await channel
+            .send({
+                content: `${member.toString()}${
+                    config.mode === "thread" && config.staff_roles.length > 0
+                        ? ` ${config.staff_roles.map(id => roleMention(id)).join(" ")}`
+                        : ""
+                }`,
+                embeds: [
+                    {
+                        author: {
+                            name: `Ticket #${ticket.id}`,
+                            icon_url: member.user.displayAvatarURL()
+                        },
+                        description:
+                            config.welcome_message ??
+                            "Thanks for opening a ticket! A staff member will be with you shortly.",
+                        fields: [
+                            {
+                                name: "Subject",
+                                value: subject ?? "*No subject provided*"
+                            }
+                        ],
+                        color: Colors.Green,
+                        timestamp: new Date().toISOString()
+                    }
+                ],
+                components: [this.createOpenTicketActionRow(ticket)]
+            })
+            .catch(logError);
+
+        await this.scheduleAutoClose(ticket, member.guild);
+        return { ticket };
+    }
+
+    async close(
+        ticket: Ticket,
+        guild: Guild,
+        user: User,
+        reason?: string
+    ): Promise<TicketActionResult> {
+        if (ticket.status === TicketStatus.CLOSED) {
+            return { error: "This ticket is already closed." };
+        }
+
+        const updatedTicket = await this.client.prisma.ticket.update({
+            where: {
+                id: ticket.id
+            },
+            data: {
+                status: TicketStatus.CLOSED,
+                closedById: user.id,
+                closedAt: new Date()
+            }
+        });
+
+        this.openTickets.delete(ticket.channelId);
+        await this.removeAutoCloseQueue(ticket, guild);
+
+        const channel = await this.fetchTicketChannel(ticket, guild);
+
+        if (channel) {
+            await channel
+                .send({
+                    embeds: [
+                        {
+                            author: {
+                                name: `Ticket #${ticket.id} closed`
+                            },
+                            description: `This ticket was closed by ${user.toString()}.`,
+                            fields: [
+                                {
+                                    name: "Reason",
+                                    value: reason ?? "*No reason provided*"
+                                }
+                            ],
+                            color: Colors.Red,
+                            timestamp: new Date().toISOString()
+                        }
+                    ],
+                    components: [this.createClosedTicketActionRow(updatedTicket)]
+                })
+                .catch(logError);
+
+            await this.sendTranscriptLog(updatedTicket, guild, channel, reason).catch(logError);
+            await this.setParticipantAccess(updatedTicket, channel, false).catch(logError);
+        }
+
+        const deleteAfter =
+            this.client.configManager.config[guild.id]?.tickets?.delete_closed_after;
+
+        if (deleteAfter) {
+            await this.client.queueManager.add(
+                new QueueEntry({
+                    args: [ticket.channelId, `Removing ticket #${ticket.id} as it's closed`],
+                    client: this.client,
+                    createdAt: new Date(),
+                    filePath: path.resolve(__dirname, "../queues/ChannelDeleteQueue"),
+                    guild,
+                    name: "ChannelDeleteQueue",
+                    userId: user.id,
+                    willRunAt: new Date(Date.now() + deleteAfter)
+                })
+            );
+        }
+
+        return { ticket: updatedTicket };
+    }
+
+    async reopen(ticket: Ticket, guild: Guild, user: User): Promise<TicketActionResult> {
+        if (ticket.status === TicketStatus.OPEN) {
+            return { error: "This ticket is already open." };
+        }
+
+        const channel = await this.fetchTicketChannel(ticket, guild);
+
+        if (!channel) {
+            return { error: "The channel of this ticket no longer exists." };
+        }
+
+        for (const queue of this.client.queueManager.queues.values()) {
+            if (
+                queue.options.name === "ChannelDeleteQueue" &&
+                queue.options.guild.id === guild.id &&
+                queue.options.args[0] === ticket.channelId
+            ) {
+                await this.client.queueManager.remove(queue);
+            }
+        }
+
+        const updatedTicket = await this.client.prisma.ticket.update({
+            where: {
+                id: ticket.id
+            },
+            data: {
+                status: TicketStatus.OPEN,
+                closedById: null,
+                closedAt: null,
+                lastActivityAt: new Date()
+            }
+        });
+
+        this.openTickets.set(updatedTicket.channelId, updatedTicket);
+        await this.setParticipantAccess(updatedTicket, channel, true).catch(logError);
+
+        await channel
+            .send({
+                embeds: [
+                    {
+                        author: {
+                            name: `Ticket #${ticket.id} reopened`
+                        },
+                        description: `This ticket was reopened by ${user.toString()}.`,
+                        color: Colors.Green,
+                        timestamp: new Date().toISOString()
+                    }
+                ],
+                components: [this.createOpenTicketActionRow(updatedTicket)]
+            })
+            .catch(logError);
+
+        await this.scheduleAutoClose(updatedTicket, guild);
+        return { ticket: updatedTicket };
+    }
+
+    async claim(ticket: Ticket, member: GuildMember): Promise<TicketActionResult> {
+        if (ticket.status === TicketStatus.CLOSED) {
+            return { error: "Cannot claim a closed ticket." };
+        }
+
+        if (ticket.claimedById === member.id) {
+            return { error: "You've already claimed this ticket." };
+        }
+
+        const updatedTicket = await this.updateTicket(ticket, {
+            claimedById: member.id
+        });
+
+        const channel = await this.fetchTicketChannel(ticket, member.guild);
+
+        await channel
+            ?.send({
+                embeds: [
+                    {
+                        description: `This ticket has been claimed by ${member.toString()}.`,
+                        color: Colors.Blurple
+                    }
+                ]
+            })
+            .catch(logError);
+
+        return { ticket: updatedTicket };
+    }
+
+    async addMember(ticket: Ticket, guild: Guild, user: User): Promise<TicketActionResult> {
+        if (ticket.status === TicketStatus.CLOSED) {
+            return { error: "Cannot add members to a closed ticket." };
+        }
+
+        if (ticket.userId === user.id || ticket.members.includes(user.id)) {
+            return { error: "That user is already a member of this ticket." };
+        }
+
+        const channel = await this.fetchTicketChannel(ticket, guild);
+
+        if (!channel) {
+            return { error: "The channel of this ticket no longer exists." };
+        }
+
+        await this.setUserAccess(channel, user.id, true);
+
+        return {
+            ticket: await this.updateTicket(ticket, {
+                members: [...ticket.members, user.id]
+            })
+        };
+    }
+
+    async removeMember(ticket: Ticket, guild: Guild, user: User): Promise<TicketActionResult> {
+        if (ticket.userId === user.id) {
+            return { error: "Cannot remove the owner of the ticket." };
+        }
+
+        if (!ticket.members.includes(user.id)) {
+            return { error: "That user is not a member of this ticket." };
+        }
+
+        const channel = await this.fetchTicketChannel(ticket, guild);
+
+        if (channel && ticket.status === TicketStatus.OPEN) {
+            await this.setUserAccess(channel, user.id, false);
+        }
+
+        return {
+            ticket: await this.updateTicket(ticket, {
+                members: ticket.members.filter(id => id !== user.id)
+            })
+        };
+    }
+
+    async createTranscript(ticket: Ticket, channel: TextBasedChannel) {
+        const messages: Message[] = [];
+        let before: Snowflake | undefined;
+
+        while (messages.length < this.transcriptMessageLimit) {
+            const fetched = await channel.messages.fetch({ limit: 100, before });
+
+            if (fetched.size === 0) {
+                break;
+            }
+
+            messages.push(...fetched.values());
+            before = fetched.lastKey();
+        }
+
+        const format =
+            this.client.configManager.config[ticket.guildId]?.tickets?.transcript_format ?? "html";
+
+        return {
+            name: `ticket-${ticket.id}.${format === "html" ? "html" : "txt"}`,
+            buffer: generateTranscript(messages.reverse().map(messageToTranscriptMessage), {
+                title: `Ticket #${ticket.id}${ticket.subject ? ` - ${ticket.subject}` : ""}`,
+                format
+            })
+        };
+    }
+
+    async autoCloseIfInactive(ticket: Ticket, guild: Guild) {
+        const timeout = this.client.configManager.config[guild.id]?.tickets?.inactivity_timeout;
+
+        if (!timeout || ticket.status !== TicketStatus.OPEN) {
+            return;
+        }
+
+        const lastActivityAt =
+            this.openTickets.get(ticket.channelId)?.lastActivityAt ?? ticket.lastActivityAt;
+        const remaining = lastActivityAt.getTime() + timeout - Date.now();
+
+        if (remaining > 0) {
+            await this.scheduleAutoClose(ticket, guild, remaining);
+            return;
+        }
+
+        await this.close(ticket, guild, this.client.user!, "Closed due to inactivity");
+    }
+
+    fetchTicketChannel(ticket: Ticket, guild: Guild) {
+        return safeChannelFetch(guild, ticket.channelId) as Promise<TicketChannel | null>;
+    }
+
+    /**
+     * Closes the open ticket of a channel that was deleted by hand, so that it no longer counts
+     * towards the open ticket limit.
+     */
+    protected async closeDeletedTicket(guild: Guild, channelId: Snowflake) {
+        const ticket = this.openTickets.get(channelId);
+
+        if (!ticket) {
+            return;
+        }
+
+        this.openTickets.delete(channelId);
+        await this.removeAutoCloseQueue(ticket, guild);
+        await this.client.prisma.ticket
+            .update({
+                where: {
+                    id: ticket.id
+                },
+                data: {
+                    status: TicketStatus.CLOSED,
+                    closedById: this.client.user!.id,
+                    closedAt: new Date()
+                }
+            })
+            .catch(logError);
+    }
+
+    protected async updateTicket(ticket: Ticket, data: Partial<Omit<Ticket, "id">>) {
+        const updatedTicket = await this.client.prisma.ticket.update({
+            where: {
+                id: ticket.id
+            },
+            data
+        });
+
+        if (updatedTicket.status === TicketStatus.OPEN) {
+            this.openTickets.set(updatedTicket.channelId, updatedTicket);
+        }
+
+        return updatedTicket;
+    }
+
+    protected async setUserAccess(channel: TicketChannel, userId: Snowflake, access: boolean) {
+        if (channel.type === ChannelType.PrivateThread) {
+            if (access) {
+                await channel.members.add(userId, "Adding ticket participant");
+            } else {
+                await channel.members.remove(userId, "Removing ticket participant");
+            }
+
+            return;
+        }
+
+        if (access) {
+            await channel.permissionOverwrites.create(userId, {
+                ViewChannel: true,
+                SendMessages: true,
+                ReadMessageHistory: true,
+                AttachFiles: true,
+                EmbedLinks: true
+            });
+        } else {
+            await channel.permissionOverwrites.delete(userId);
+        }
+    }
+
+    protected async setParticipantAccess(ticket: Ticket, channel: TicketChannel, access: boolean) {
+        if (channel.type === ChannelType.PrivateThread && access) {
+            await channel.setArchived(false);
+            await channel.setLocked(false);
+        }
+
+        for (const userId of [ticket.userId, ...ticket.members]) {
+            await this.setUserAccess(channel, userId, access).catch(logError);
+        }
+
+        if (channel.type === ChannelType.PrivateThread && !access) {
+            await channel.setLocked(true);
+            await channel.setArchived(true);
+        }
+    }
+
+    protected async sendTranscriptLog(
+        ticket: Ticket,
+        guild: Guild,
+        channel: TicketChannel,
+        reason?: string
+    ) {
+        const logChannelId = this.client.configManager.config[guild.id]?.tickets?.log_channel;
+
+        if (!logChannelId) {
+            return;
+        }
+
+        const logChannel = await safeChannelFetch(guild, logChannelId);
+
+        if (!logChannel?.isTextBased()) {
+            return;
+        }
+
+        const { buffer, name } = await this.createTranscript(ticket, channel);
+        const owner = await this.client.users.fetch(ticket.userId).catch(() => null);
+
+        await logChannel.send({
+            embeds: [
+                {
+                    author: {
+                        name: `Ticket #${ticket.id} closed`,
+                        icon_url: owner?.displayAvatarURL()
+                    },
+                    fields: [
+                        {
+                            name: "Opened By",
+                            value: owner ? userInfo(owner) : ticket.userId,
+                            inline: true
+                        },
+                        {
+                            name: "Closed By",
+                            value: ticket.closedById
+                                ? `<@${ticket.closedById}> (${ticket.closedById})`
+                                : "*Unknown*",
+                            inline: true
+                        },
+                        {
+                            name: "Claimed By",
+                            value: ticket.claimedById
+                                ? `<@${ticket.claimedById}> (${ticket.claimedById})`
+                                : "*Not claimed*",
+                            inline: true
+                        },
+                        {
+                            name: "Subject",
+                            value: ticket.subject ?? "*No subject provided*"
+                        },
+                        {
+                            name: "Reason",
+                            value: reason ?? "*No reason provided*"
+                        },
+                        {
+                            name: "Opened",
+                            value: time(ticket.createdAt, "R"),
+                            inline: true
+                        }
+                    ],
+                    color: Colors.Red,
+                    timestamp: new Date().toISOString()
+                }
+            ],
+            files: [
+                {
+                    attachment: buffer,
+                    name
+                }
+            ]
+        });
+    }
+
+    protected async scheduleAutoClose(ticket: Ticket, guild: Guild, after?: number) {
+        const timeout = this.client.configManager.config[guild.id]?.tickets?.inactivity_timeout;
+
+        if (!timeout) {
+            return;
+        }
+
+        await this.removeAutoCloseQueue(ticket, guild);
+        await this.client.queueManager.add(
+            new QueueEntry({
+                args: [ticket.id.toString()],
+                client: this.client,
+                createdAt: new Date(),
+                filePath: path.resolve(__dirname, "../queues/TicketAutoCloseQueue"),
+                guild,
+                name: "TicketAutoCloseQueue",
+                userId: this.client.user!.id,
+                willRunAt: new Date(Date.now() + (after ?? timeout))
+            })
+        );
+    }
+
+    protected async removeAutoCloseQueue(ticket: Ticket, guild: Guild) {
+        for (const queue of this.client.queueManager.queues.values()) {
+            if (
+                queue.options.name === "TicketAutoCloseQueue" &&
+                queue.options.guild.id === guild.id &&
+                queue.options.args[0] === ticket.id.toString()
+            ) {
+                await this.client.queueManager.remove(queue);
+            }
+        }
+    }
+
+    createPanelMessageOptions(guild: Guild) {
+        return {
+            embeds: [
+                {
+                    author: {
+                        name: guild.name,
+                        icon_url: guild.iconURL() ?? undefined
+                    },
+                    title: "Support Tickets",
+                    description:
+                        "Need help from the staff? Click the button below to open a private ticket.",
+                    color: 0x007bff
+                }
+            ],
+            components: [
+                new ActionRowBuilder<ButtonBuilder>().addComponents(
+                    new ButtonBuilder()
+                        .setCustomId("ticket__open")
+                        .setLabel("Open a Ticket")
+                        .setEmoji("🎫")
+                        .setStyle(ButtonStyle.Primary)
+                )
+            ]
+        };
+    }
+
+    protected createOpenTicketActionRow(ticket: Ticket) {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`ticket__close__${ticket.id}`)
+                .setLabel("Close")
+                .setEmoji("🔒")
+                .setStyle(ButtonStyle.Danger),
+            new ButtonBuilder()
+                .setCustomId(`ticket__claim__${ticket.id}`)
+                .setLabel("Claim")
+                .setEmoji("🙋")
+                .setStyle(ButtonStyle.Secondary)
+        );
+    }
+
+    protected createClosedTicketActionRow(ticket: Ticket) {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`ticket__reopen__${ticket.id}`)
+                .setLabel("Reopen")
+                .setEmoji("🔓")
+                .setStyle(ButtonStyle.Success),
+            new ButtonBuilder()
+                .setCustomId(`ticket__transcript__${ticket.id}`)
+                .setLabel("Transcript")
+                .setEmoji("📄")
+                .setStyle(ButtonStyle.Secondary)
+        );
+    }
+
+    protected async onButtonInteraction(interaction: ButtonInteraction<"cached" | "raw">) {
+        const [, action, id] = interaction.customId.split("__");
+
+        if (action === "open") {
+            await interaction.showModal(
+                new ModalBuilder()
+                    .setCustomId("ticket__open_modal")
+                    .setTitle("Open a Ticket")
+                    .addComponents(
+                        new ActionRowBuilder<TextInputBuilder>().addComponents(
+                            new TextInputBuilder()
+                                .setCustomId("subject")
+                                .setLabel("Subject")
+                                .setPlaceholder("What do you need help with?")
+                                .setStyle(TextInputStyle.Paragraph)
+                                .setMaxLength(1000)
+                                .setRequired(false)
+                        )
+                    )
+            );
+
+            return;
+        }
+
+        const guild = this.client.guilds.cache.get(interaction.guildId);
+        const member = guild ? await safeMemberFetch(guild, interaction.user.id) : null;
+        const ticket = guild ? await this.getTicketById(guild.id, parseInt(id)) : null;
+
+        if (!guild || !member || !ticket) {
+            await interaction.reply({
+                content: "This ticket no longer exists.",
+                ephemeral: true
+            });
+
+            return;
+        }
+
+        const isStaff = this.isStaff(member);
+
+        if (
+            (action === "close" || action === "transcript"
+                ? !isStaff && ticket.userId !== member.id
+                : !isStaff) ||
+            !["close", "claim", "reopen", "transcript"].includes(action)
+        ) {
+            await interaction.reply({
+                content: "You don't have permission to perform this action.",
+                ephemeral: true
+            });
+
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        if (action === "transcript") {
+            const channel = await this.fetchTicketChannel(ticket, guild);
+
+            if (!channel) {
+                await interaction.editReply("The channel of this ticket no longer exists.");
+                return;
+            }
+
+            const { buffer, name } = await this.createTranscript(ticket, channel);
+
+            await interaction.editReply({
+                files: [
+                    {
+                        attachment: buffer,
+                        name
+                    }
+                ]
+            });
+
+            return;
+        }
+
+        const { error } =
+            action === "close"
+                ? await this.close(ticket, guild, member.user)
+                : action === "reopen"
+                  ? await this.reopen(ticket, guild, member.user)
+                  : await this.claim(ticket, member);
+
+        await interaction.editReply(error ?? "Operation completed.");
+    }
+
+    protected async onOpenModalSubmit(interaction: ModalSubmitInteraction<"cached" | "raw">) {
+        const guild = this.client.guilds.cache.get(interaction.guildId);
+        const member = guild ? await safeMemberFetch(guild, interaction.user.id) : null;
+
+        if (!member) {
+            await interaction.reply({
+                content: "Could not find you in this server. Please try again later.",
+                ephemeral: true
+            });
+
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        const result = await this.open(
+            member,
+            interaction.fields.getTextInputValue("subject") || undefined
+        );
+
+        if (result.error !== undefined) {
+            await interaction.editReply(result.error);
+            return;
+        }
+
+        await interaction.editReply(`Your ticket has been opened: <#${result.ticket.channelId}>`);
+    }
+}
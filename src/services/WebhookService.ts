@@ -0,0 +1,249 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { Guild, Snowflake } from "discord.js";
+import path from "path";
+import Service from "../core/Service";
+import { GatewayEventListener } from "../decorators/GatewayEventListener";
+import { GuildConfig } from "../types/GuildConfigSchema";
+import { HasEventListeners } from "../types/HasEventListeners";
+import { log, logError } from "../utils/Logger";
+import QueueEntry from "../utils/QueueEntry";
+import {
+    WebhookEvent,
+    WebhookPayload,
+    getWebhookRetryDelay,
+    sendWebhookRequest,
+    webhookEventMatches
+} from "../utils/webhooks";
+
+export const name = "webhookService";
+
+type WebhookEndpoint = NonNullable<GuildConfig["webhooks"]>["endpoints"][number];
+
+export default class WebhookService extends Service implements HasEventListeners {
+    protected readonly purgeInterval = 3_600_000;
+    protected interval?: ReturnType<typeof setInterval>;
+
+    @GatewayEventListener("ready")
+    onReady() {
+        this.interval ??= setInterval(
+            () => this.purgeDeliveries().catch(logError),
+            this.purgeInterval
+        );
+    }
+
+    getEndpoints(guildId: Snowflake) {
+        return this.client.configManager.config[guildId]?.webhooks?.endpoints ?? [];
+    }
+
+    /**
+     * Records a delivery for every enabled endpoint that listens to the event, and queues them.
+     */
+    async dispatch(guildId: Snowflake, event: WebhookEvent, data: unknown) {
+        const config = this.client.configManager.config[guildId]?.webhooks;
+
+        if (!config?.enabled) {
+            return [];
+        }
+
+        const deliveries = [];
+
+        for (const endpoint of config.endpoints) {
+            if (endpoint.enabled && webhookEventMatches(endpoint.events, event)) {
+                deliveries.push(await this.createDelivery(guildId, endpoint, event, data));
+            }
+        }
+
+        return deliveries;
+    }
+
+    /**
+     * Sends a test event to the given endpoint right away, regardless of its event filters.
+     */
+    async sendTest(guild: Guild, endpointName: string) {
+        const endpoint = this.getEndpoints(guild.id).find(({ name }) => name === endpointName);
+
+        if (!endpoint) {
+            return null;
+        }
+
+        const delivery = await this.createDelivery(
+            guild.id,
+            endpoint,
+            "webhook.test",
+            { message: "This is a test delivery." },
+            false
+        );
+
+        return await this.deliver(guild, delivery.id);
+    }
+
+    async deliver(guild: Guild, deliveryId: number) {
+        const delivery = await this.client.prisma.webhookDelivery.findFirst({
+            where: {
+                id: deliveryId,
+                guildId: guild.id,
+                status: "PENDING"
+            }
+        });
+
+        if (!delivery) {
+            return null;
+        }
+
+        const config = this.client.configManager.config[guild.id]?.webhooks;
+        const endpoint = config?.endpoints.find(({ name }) => name === delivery.endpoint);
+
+        if (!config?.enabled || !endpoint?.enabled) {
+            return await this.client.prisma.webhookDelivery.update({
+                where: { id: delivery.id },
+                data: {
+                    status: "FAILED",
+                    error: "The endpoint is no longer enabled",
+                    nextAttemptAt: null
+                }
+            });
+        }
+
+        const result = await sendWebhookRequest({
+            url: endpoint.url,
+            secret: endpoint.secret,
+            event: delivery.event,
+            deliveryId: delivery.id,
+            body: delivery.body,
+            allowedPrivateHosts:
+                this.client.configManager.systemConfig.webhooks.allowed_private_hosts
+        });
+
+        const attempts = delivery.attempts + 1;
+        const retry = !result.ok && attempts < config.max_attempts;
+        const nextAttemptAt = retry
+            ? new Date(Date.now() + getWebhookRetryDelay(attempts, config.retry_delay))
+            : null;
+
+        const updatedDelivery = await this.client.prisma.webhookDelivery.update({
+            where: { id: delivery.id },
+            data: {
+                status: result.ok ? "SUCCEEDED" : retry ? "PENDING" : "FAILED",
+                url: endpoint.url,
+                attempts,
+                responseStatus: result.status,
+                error: result.error,
+                nextAttemptAt
+            }
+        });
+
+        if (nextAttemptAt) {
+            await this.queueDelivery(guild, delivery.id, nextAttemptAt);
+        }
+
+        return updatedDelivery;
+    }
+
+    getDeliveries(guildId: Snowflake, offset: number, limit: number) {
+        return this.client.prisma.webhookDelivery.findMany({
+            where: { guildId },
+            orderBy: { id: "desc" },
+            skip: offset,
+            take: limit
+        });
+    }
+
+    countDeliveries(guildId: Snowflake) {
+        return this.client.prisma.webhookDelivery.count({ where: { guildId } });
+    }
+
+    /**
+     * Deletes finished deliveries that are older than the retention period of their guild.
+     */
+    async purgeDeliveries() {
+        for (const guildId in this.client.configManager.config) {
+            const retention =
+                this.client.configManager.config[guildId]?.webhooks?.delivery_retention;
+
+            if (!retention) {
+                continue;
+            }
+
+            const { count } = await this.client.prisma.webhookDelivery.deleteMany({
+                where: {
+                    guildId,
+                    status: {
+                        not: "PENDING"
+                    },
+                    createdAt: {
+                        lt: new Date(Date.now() - retention)
+                    }
+                }
+            });
+
+            if (count > 0) {
+                log(`Purged ${count} old webhook deliveries in guild ${guildId}`);
+            }
+        }
+    }
+
+    protected async createDelivery(
+        guildId: Snowflake,
+        endpoint: WebhookEndpoint,
+        event: WebhookEvent,
+        data: unknown,
+        queue = true
+    ) {
+        const payload: WebhookPayload = {
+            event,
+            guildId,
+            createdAt: new Date().toISOString(),
+            data
+        };
+
+        const delivery = await this.client.prisma.webhookDelivery.create({
+            data: {
+                guildId,
+                endpoint: endpoint.name,
+                url: endpoint.url,
+                event,
+                body: JSON.stringify(payload)
+            }
+        });
+
+        const guild = this.client.guilds.cache.get(guildId);
+
+        if (queue && guild) {
+            await this.queueDelivery(guild, delivery.id, new Date());
+        }
+
+        return delivery;
+    }
+
+    protected async queueDelivery(guild: Guild, deliveryId: number, willRunAt: Date) {
+        await this.client.queueManager.add(
+            new QueueEntry({
+                args: [deliveryId.toString()],
+                client: this.client,
+                createdAt: new Date(),
+                filePath: path.resolve(__dirname, "../queues/WebhookDeliveryQueue"),
+                guild,
+                name: "WebhookDeliveryQueue",
+                userId: this.client.user!.id,
+                willRunAt
+            })
+        );
+    }
+}
@@ -0,0 +1,67 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { z } from "zod";
+
+export const AntispamAction = z.enum(["verbal_warn", "warn", "mute", "mute_clear", "auto"]);
+
+const AntispamDetectorCommon = {
+    enabled: z.boolean().default(true),
+    timeframe: z.number().int().min(1).describe("The time window in milliseconds"),
+    action: AntispamAction.optional().describe(
+        "The action to take when this detector is triggered. Defaults to the antispam action"
+    )
+};
+
+export const AntispamVolumeDetectorSchema = z.object({
+    ...AntispamDetectorCommon,
+    limit: z
+        .number()
+        .int()
+        .min(1)
+        .describe("The detector is triggered when the total reaches this limit")
+});
+
+export const AntispamCrossChannelDetectorSchema = z.object({
+    ...AntispamDetectorCommon,
+    min_channels: z
+        .number()
+        .int()
+        .min(2)
+        .describe("The number of distinct channels the same content must be posted in")
+});
+
+export const AntispamDetectorsSchema = z.object({
+    attachments: AntispamVolumeDetectorSchema.optional(),
+    links: AntispamVolumeDetectorSchema.optional(),
+    mentions: AntispamVolumeDetectorSchema.optional(),
+    cross_channel: AntispamCrossChannelDetectorSchema.optional()
+});
+
+export const AntispamDetectorOverridesSchema = z.object({
+    attachments: AntispamVolumeDetectorSchema.partial().optional(),
+    links: AntispamVolumeDetectorSchema.partial().optional(),
+    mentions: AntispamVolumeDetectorSchema.partial().optional(),
+    cross_channel: AntispamCrossChannelDetectorSchema.partial().optional()
+});
+
+export type AntispamActionName = z.infer<typeof AntispamAction>;
+export type AntispamDetectors = z.infer<typeof AntispamDetectorsSchema>;
+export type AntispamDetectorOverrides = z.infer<typeof AntispamDetectorOverridesSchema>;
+export type AntispamDetectorName = keyof AntispamDetectors;
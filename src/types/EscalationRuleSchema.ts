@@ -0,0 +1,42 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { z } from "zod";
+
+export const EscalationAction = z.enum(["verbal_warn", "warn", "mute", "kick", "ban"]);
+
+export const EscalationRuleSchema = z.object({
+    name: z.string().optional(),
+    threshold: z.number().positive(),
+    window: z
+        .number()
+        .int()
+        .min(0)
+        .default(0)
+        .describe("The time window in milliseconds. Set this to 0 to count every infraction"),
+    action: EscalationAction,
+    duration: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Duration of mutes and bans. Bans are temporary when this is set")
+});
+
+export type EscalationRule = z.infer<typeof EscalationRuleSchema>;
@@ -18,7 +18,14 @@
  */
 
 import { z } from "zod";
-import { MessageRuleSchema } from "./MessageRuleSchema";
+import {
+    AntispamAction,
+    AntispamDetectorOverridesSchema,
+    AntispamDetectorsSchema
+} from "./AntispamDetectorSchema";
+import { EscalationRuleSchema } from "./EscalationRuleSchema";
+import { LogEventType, LogIgnoreListSchema } from "./LogEventSchema";
+import { MessageRuleSchema, NSFWScoreThresholds } from "./MessageRuleSchema";
 import { zSnowflake } from "./SnowflakeSchema";
 import { TriggerSchema } from "./TriggerSchema";
 
@@ -69,7 +76,37 @@ export const GuildConfigSchema = z.object({
                     "A record of reason templates. The key is the name of the template, and the value is the template itself."
                 )
                 .default({}),
-            reason_template_placeholder_wrapper: z.string().default("{{%name%}}")
+            reason_template_placeholder_wrapper: z.string().default("{{%name%}}"),
+            escalation: z
+                .object({
+                    enabled: z.boolean().default(false),
+                    weights: z
+                        .record(z.string(), z.number().min(0))
+                        .describe(
+                            "The weight of each infraction type (e.g. warning, mute, kick). Types without a weight are not counted."
+                        )
+                        .default({ warning: 1 }),
+                    rules: z.array(EscalationRuleSchema).default([])
+                })
+                .optional(),
+            appeals: z
+                .object({
+                    enabled: z.boolean().default(false),
+                    channel: zSnowflake
+                        .describe("The channel where new appeals will be sent for review")
+                        .optional(),
+                    appealable_types: z
+                        .array(z.enum(["ban", "tempban", "mute", "timeout", "warning", "kick"]))
+                        .default(["ban", "tempban", "mute", "timeout"]),
+                    cooldown: z
+                        .number()
+                        .int()
+                        .min(0)
+                        .describe("The minimum time between two appeals from the same user, in milliseconds")
+                        .default(86_400_000), // 1 day
+                    max_per_infraction: z.number().int().min(1).default(2)
+                })
+                .optional()
         })
         .optional(),
     muting: z
@@ -113,7 +150,16 @@ export const GuildConfigSchema = z.object({
                     member_leave: true,
                     member_join: true,
                     message_delete: true
-                })
+                }),
+            routing: z
+                .record(LogEventType, zSnowflake.nullable())
+                .default({})
+                .describe(
+                    "Maps log event types to channels. Set an event to null to disable it. Events that are not mapped go to their default channel, or the primary channel"
+                ),
+            ignore: LogIgnoreListSchema.default({}).describe(
+                "Channels, categories, users and roles to exclude from message, member, voice and channel logs"
+            )
         })
         .optional(),
     message_reporting: z
@@ -185,17 +231,21 @@ export const GuildConfigSchema = z.object({
                     timeframe: z.number().int().min(0).optional()
                 })
                 .optional(),
-            action: z
-                .union([
-                    z.literal("verbal_warn"),
-                    z.literal("warn"),
-                    z.literal("warn"),
-                    z.literal("mute"),
-                    z.literal("mute_clear"),
-                    z.literal("auto")
-                ])
-                .optional(),
-            disabled_channels: z.array(zSnowflake).default([])
+            action: AntispamAction.optional(),
+            escalation: z
+                .array(EscalationRuleSchema.omit({ window: true }))
+                .optional()
+                .describe(
+                    "Escalation rules used by the auto action, where the threshold is the spam level of the user"
+                ),
+            disabled_channels: z.array(zSnowflake).default([]),
+            detectors: AntispamDetectorsSchema.default({}).describe(
+                "Detectors for attachment, link, mention and cross-channel spam"
+            ),
+            channel_overrides: z
+                .record(zSnowflake, AntispamDetectorOverridesSchema)
+                .default({})
+                .describe("Per-channel overrides of the detector settings")
         })
         .optional(),
     antiraid: z
@@ -215,7 +265,52 @@ export const GuildConfigSchema = z.object({
             send_log: z.boolean().optional().default(true),
             channels: z.array(zSnowflake).default([]),
             channel_mode: z.literal("exclude").or(z.literal("include")).default("exclude"),
-            ignore_private_channels: z.boolean().optional().default(true)
+            ignore_private_channels: z.boolean().optional().default(true),
+            raid_mode_duration: z
+                .number()
+                .int()
+                .min(0)
+                .default(0)
+                .describe(
+                    "How long the raid mode started by the antiraid system lasts, in milliseconds. Set this to 0 to keep it on until it is turned off manually"
+                ),
+            heuristics: z
+                .object({
+                    enabled: z.boolean().default(false),
+                    window: z
+                        .number()
+                        .int()
+                        .min(1000)
+                        .default(60_000)
+                        .describe("How long the recent joins are remembered, in milliseconds"),
+                    min_wave_size: z.number().int().min(2).default(5),
+                    min_score: z
+                        .number()
+                        .min(0)
+                        .max(100)
+                        .default(50)
+                        .describe("The score a join needs to be considered a part of a raid wave"),
+                    new_account_age: z
+                        .number()
+                        .int()
+                        .min(0)
+                        .default(1000 * 60 * 60 * 24 * 7),
+                    username_similarity: z.number().min(0).max(1).default(0.8),
+                    weights: z
+                        .object({
+                            new_account: z.number().min(0).default(35),
+                            no_avatar: z.number().min(0).default(15),
+                            similar_username: z.number().min(0).default(30),
+                            same_invite: z.number().min(0).default(20)
+                        })
+                        .default({})
+                })
+                .optional(),
+            wave_action: z
+                .enum(["none", "kick", "ban", "quarantine"])
+                .default("none")
+                .describe("The action to take on every member of a detected raid wave"),
+            quarantine_role: zSnowflake.optional()
         })
         .optional(),
     welcomer: z
@@ -250,15 +345,33 @@ export const GuildConfigSchema = z.object({
     profile_filter: z
         .object({
             enabled: z.boolean().optional().default(false),
-            scan: z.array(z.literal("status").or(z.literal("nickname")).or(z.literal("username"))).default([]),
+            scan: z
+                .array(z.literal("status").or(z.literal("nickname")).or(z.literal("username")).or(z.literal("avatar")))
+                .default([]),
             actions: z
                 .object({
                     status: z.literal("mute").or(z.literal("warn")).or(z.literal("none")).default("none"),
                     nickname: z.literal("mute").or(z.literal("warn")).or(z.literal("none")).default("none"),
-                    username: z.literal("mute").or(z.literal("warn")).or(z.literal("none")).default("none")
+                    username: z.literal("mute").or(z.literal("warn")).or(z.literal("none")).default("none"),
+                    avatar: z.literal("mute").or(z.literal("warn")).or(z.literal("none")).default("none")
                 })
                 .default({})
                 .optional(),
+            avatar: z
+                .object({
+                    nsfw: z.boolean().default(true).describe("Scan avatars for explicit content"),
+                    ocr: z.boolean().default(true).describe("Scan the text in avatars for blocked words and tokens"),
+                    score_thresholds: NSFWScoreThresholds,
+                    rescan_interval: z
+                        .number()
+                        .int()
+                        .min(0)
+                        .default(0)
+                        .describe(
+                            "Rescan the avatars of all members periodically, in milliseconds. Set this to 0 to disable"
+                        )
+                })
+                .default({}),
             inherit_from_message_filter: z
                 .object({
                     tokens: z.boolean().optional().default(false),
@@ -313,7 +426,11 @@ export const GuildConfigSchema = z.object({
         .object({
             enabled: z.boolean().default(false),
             rules: z.array(MessageRuleSchema).default([]),
-            global_disabled_channels: z.array(zSnowflake).default([])
+            global_disabled_channels: z.array(zSnowflake).default([]),
+            dry_run: z
+                .boolean()
+                .default(false)
+                .describe("Only log the actions that would have been taken by any rule")
         })
         .optional(),
     auto_triggers: z
@@ -341,6 +458,18 @@ export const GuildConfigSchema = z.object({
                 .default({})
         })
         .optional(),
+    automod_stats: z
+        .object({
+            hit_retention: z
+                .number()
+                .int()
+                .min(0)
+                .describe(
+                    "How long AutoMod hits are kept for the statistics, in milliseconds. Set this to 0 to keep them forever"
+                )
+                .default(31_536_000_000) // 365 days
+        })
+        .default({}),
     extensions: z
         .object({
             enabled: z.boolean().optional(),
@@ -392,6 +521,13 @@ export const GuildConfigSchema = z.object({
                     })
                 ])
                 .optional(),
+            method: z
+                .enum(["recaptcha", "challenge", "discord"])
+                .default("recaptcha")
+                .describe(
+                    "recaptcha and challenge are solved on the website, either with Google reCAPTCHA or a self-hosted challenge. discord shows the challenge inside Discord"
+                ),
+            challenge_type: z.enum(["image", "arithmetic"]).default("image"),
             max_attempts: z.number().int().default(0).describe("Set this to 0 to allow every attempt"),
             max_time: z
                 .number()
@@ -412,6 +548,159 @@ export const GuildConfigSchema = z.object({
         .object({
             enabled: z.boolean().default(false)
         })
+        .optional(),
+    tickets: z
+        .object({
+            enabled: z.boolean().default(false),
+            mode: z.enum(["channel", "thread"]).default("channel"),
+            parent_channel: zSnowflake
+                .optional()
+                .describe("A category in channel mode, or a text channel in thread mode"),
+            log_channel: zSnowflake.optional(),
+            staff_roles: z.array(zSnowflake).default([]),
+            max_open_tickets: z.number().int().min(1).default(1),
+            transcript_format: z.enum(["html", "text"]).default("html"),
+            inactivity_timeout: z
+                .number()
+                .int()
+                .min(0)
+                .default(0)
+                .describe("Set this to 0 to disable inactivity auto-close"),
+            delete_closed_after: z
+                .number()
+                .int()
+                .min(0)
+                .default(0)
+                .describe("Set this to 0 to keep closed tickets until they're deleted manually"),
+            welcome_message: z.string().optional()
+        })
+        .optional(),
+    message_tracking: z
+        .object({
+            enabled: z.boolean().default(false),
+            retention: z
+                .number()
+                .int()
+                .min(0)
+                .describe(
+                    "How long tracked messages are kept, in milliseconds. Set this to 0 to keep them forever"
+                )
+                .default(2_592_000_000), // 30 days
+            excluded_channels: z.array(zSnowflake).default([])
+        })
+        .optional(),
+    modmail: z
+        .object({
+            enabled: z.boolean().default(false),
+            channel: zSnowflake
+                .optional()
+                .describe("A forum or text channel where modmail threads will be created"),
+            log_channel: zSnowflake.optional(),
+            staff_roles: z.array(zSnowflake).default([]),
+            transcript_format: z.enum(["html", "text"]).default("html"),
+            anonymous_name: z.string().default("Staff Team"),
+            greeting: z.string().optional(),
+            close_message: z.string().optional()
+        })
+        .optional(),
+    leveling: z
+        .object({
+            enabled: z.boolean().default(false),
+            cooldown: z.number().int().min(0).default(60_000),
+            xp_range: z
+                .object({
+                    min: z.number().int().min(0).default(15),
+                    max: z.number().int().min(0).default(25)
+                })
+                .default({}),
+            channel_multipliers: z.record(zSnowflake, z.number().min(0)).default({}),
+            no_xp_channels: z.array(zSnowflake).default([]),
+            no_xp_roles: z.array(zSnowflake).default([]),
+            announcements: z
+                .object({
+                    enabled: z.boolean().default(true),
+                    channel: zSnowflake
+                        .optional()
+                        .describe("Defaults to the channel where the user leveled up"),
+                    message: z
+                        .string()
+                        .default(":mention: has reached level **:level:**! Congratulations!")
+                })
+                .default({}),
+            role_rewards: z
+                .array(
+                    z.object({
+                        level: z.number().int().min(1),
+                        role: zSnowflake
+                    })
+                )
+                .default([]),
+            reward_mode: z
+                .enum(["stack", "replace"])
+                .default("stack")
+                .describe("Whether to keep the previous reward roles or replace them with the new one")
+        })
+        .optional(),
+    ai_chat: z
+        .object({
+            enabled: z.boolean().default(false),
+            provider: z
+                .enum(["auto", "gemini", "openai", "cloudflare", "openai_compatible", "mock"])
+                .default("auto")
+                .describe("The provider to use. \"auto\" uses the default provider of the bot"),
+            system_prompt: z.string().optional(),
+            channels: z
+                .array(zSnowflake)
+                .default([])
+                .describe("Channels where the AI can be used. Leave empty to allow all channels"),
+            rate_limit: z
+                .object({
+                    max: z.number().int().min(1).default(5),
+                    window: z.number().int().min(1).default(60_000)
+                })
+                .default({}),
+            max_context_messages: z.number().int().min(1).default(20),
+            max_context_tokens: z.number().int().min(1).default(4000)
+        })
+        .optional(),
+    webhooks: z
+        .object({
+            enabled: z.boolean().default(false),
+            max_attempts: z.number().int().min(1).max(20).default(5),
+            retry_delay: z
+                .number()
+                .int()
+                .min(1000)
+                .default(30_000)
+                .describe("The delay before the first retry. It doubles after each failed attempt"),
+            delivery_retention: z
+                .number()
+                .int()
+                .min(0)
+                .describe(
+                    "How long finished deliveries are kept in the delivery log, in milliseconds. Set this to 0 to keep them forever"
+                )
+                .default(604_800_000), // 7 days
+            endpoints: z
+                .array(
+                    z.object({
+                        name: z.string().min(1),
+                        url: z.string().url(),
+                        secret: z
+                            .string()
+                            .min(16)
+                            .describe("The secret used to sign the deliveries with HMAC-SHA256"),
+                        events: z
+                            .array(z.string())
+                            .default(["*"])
+                            .describe(
+                                "The events to deliver, e.g. infraction.created, infraction.* or * for all events"
+                            ),
+                        enabled: z.boolean().default(true)
+                    })
+                )
+                .default([])
+        })
         .optional()
 });
 
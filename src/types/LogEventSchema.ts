@@ -0,0 +1,76 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { z } from "zod";
+import { zSnowflake } from "./SnowflakeSchema";
+
+export const LogEventType = z.enum([
+    "message_edit",
+    "message_delete",
+    "message_bulk_delete",
+    "member_join",
+    "member_leave",
+    "member_nickname_update",
+    "member_role_update",
+    "voice_join_leave",
+    "voice_disconnect",
+    "voice_move",
+    "voice_mute",
+    "voice_deafen",
+    "channel_create",
+    "channel_update",
+    "channel_delete",
+    "channel_lock",
+    "server_lock",
+    "role_create",
+    "role_update",
+    "role_delete",
+    "infraction_create",
+    "infraction_update",
+    "infraction_delete",
+    "member_ban",
+    "member_unban",
+    "member_kick",
+    "member_mute",
+    "member_timeout",
+    "member_warn",
+    "automod_ai",
+    "automod_file_filter",
+    "automod_message_rule",
+    "automod_blocked_word",
+    "raid",
+    "raid_mode"
+]);
+
+export type LogEventType = z.infer<typeof LogEventType>;
+
+export const LogIgnoreListSchema = z.object({
+    channels: z.array(zSnowflake).default([]),
+    categories: z
+        .array(zSnowflake)
+        .default([])
+        .describe("Events that happen in any channel of these categories are not logged"),
+    users: z.array(zSnowflake).default([]),
+    roles: z
+        .array(zSnowflake)
+        .default([])
+        .describe("Events caused by or affecting members with any of these roles are not logged"),
+    bots: z.boolean().default(false)
+});
+
+export type LogIgnoreList = z.infer<typeof LogIgnoreListSchema>;
@@ -22,11 +22,68 @@ import { zSnowflake } from "./SnowflakeSchema";
 
 export const MessageRuleAction = z.enum(["delete", "verbal_warn", "warn", "mute", "clear"]);
 
+export const MessageRuleChannelType = z.enum([
+    "text",
+    "announcement",
+    "voice",
+    "stage",
+    "public_thread",
+    "private_thread",
+    "announcement_thread"
+]);
+
+const AgeRange = {
+    min: z.number().int().min(0).optional().describe("In milliseconds"),
+    max: z.number().int().min(0).optional().describe("In milliseconds")
+};
+
+export type MessageRuleConditionType =
+    | { all: MessageRuleConditionType[] }
+    | { any: MessageRuleConditionType[] }
+    | { not: MessageRuleConditionType }
+    | { type: "member_age"; min?: number; max?: number }
+    | { type: "account_age"; min?: number; max?: number }
+    | { type: "roles"; roles: string[]; mode?: "any" | "all" }
+    | { type: "category"; categories: string[] }
+    | { type: "channel_type"; channel_types: z.infer<typeof MessageRuleChannelType>[] }
+    | { type: "has_attachments"; value: boolean }
+    | { type: "permission_level"; min?: number; max?: number };
+
+export const MessageRuleCondition: z.ZodType<MessageRuleConditionType> = z.lazy(() =>
+    z.union([
+        z.object({ all: z.array(MessageRuleCondition) }),
+        z.object({ any: z.array(MessageRuleCondition) }),
+        z.object({ not: MessageRuleCondition }),
+        z.object({ type: z.literal("member_age"), ...AgeRange }),
+        z.object({ type: z.literal("account_age"), ...AgeRange }),
+        z.object({
+            type: z.literal("roles"),
+            roles: z.array(zSnowflake),
+            mode: z
+                .enum(["any", "all"])
+                .optional()
+                .describe("Whether the member needs any or all of the roles. Defaults to any")
+        }),
+        z.object({ type: z.literal("category"), categories: z.array(zSnowflake) }),
+        z.object({
+            type: z.literal("channel_type"),
+            channel_types: z.array(MessageRuleChannelType)
+        }),
+        z.object({ type: z.literal("has_attachments"), value: z.boolean() }),
+        z.object({
+            type: z.literal("permission_level"),
+            min: z.number().int().min(0).max(100).optional(),
+            max: z.number().int().min(0).max(100).optional()
+        })
+    ])
+);
+
 const hasStringArrayData = {
     data: z.array(z.string()).default([])
 };
 
 const Common = {
+    name: z.string().optional().describe("A name to identify this rule in the AutoMod statistics"),
     disabled_channels: z.array(zSnowflake).default([]),
     immune_roles: z.array(zSnowflake).default([]),
     immune_users: z.array(zSnowflake).default([]),
@@ -36,7 +93,36 @@ const Common = {
     mute_reason: z.string().optional(),
     common_reason: z.string().optional(),
     mute_duration: z.number().int().default(-1),
-    mode: z.enum(["normal", "inverse"]).default("normal")
+    mode: z.enum(["normal", "inverse"]).default("normal"),
+    dry_run: z
+        .boolean()
+        .default(false)
+        .describe("Only log the actions that would have been taken, without taking them"),
+    thresholds: z
+        .array(
+            z.object({
+                threshold: z.number().int().min(1),
+                window: z
+                    .number()
+                    .int()
+                    .min(1)
+                    .describe("The time window to count the matches in, in milliseconds"),
+                actions: z.array(MessageRuleAction).default([])
+            })
+        )
+        .default([])
+        .describe(
+            "Extra actions to take when a user matches this rule a number of times in the given time window"
+        ),
+    persist_thresholds: z
+        .boolean()
+        .default(false)
+        .describe(
+            "Store the matches in the database so that the threshold windows survive restarts"
+        ),
+    conditions: MessageRuleCondition.optional().describe(
+        "The rule only applies to the messages that meet these conditions"
+    )
 };
 
 export const DomainRule = z.object({
@@ -92,6 +178,58 @@ export const BlockMassMentionRule = z.object({
     max_role_mentions: z.number().int().default(-1)
 });
 
+export const CapsRatioRule = z.object({
+    ...Common,
+    type: z.literal("caps_ratio"),
+    min_length: z
+        .number()
+        .int()
+        .min(1)
+        .default(10)
+        .describe("Messages with fewer letters than this are ignored"),
+    max_caps_percentage: z.number().min(0).max(100).default(70)
+});
+
+export const EmojiLimitRule = z.object({
+    ...Common,
+    type: z.literal("emoji_limit"),
+    max_emojis: z.number().int().min(0).default(15)
+});
+
+export const ZalgoRule = z.object({
+    ...Common,
+    type: z.literal("zalgo"),
+    max_combining_chars: z
+        .number()
+        .int()
+        .min(1)
+        .default(3)
+        .describe("The maximum number of combining characters stacked on a single character")
+});
+
+export const MaxLinesRule = z.object({
+    ...Common,
+    type: z.literal("max_lines"),
+    max_lines: z.number().int().min(1).default(20),
+    max_newlines: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("The maximum number of consecutive line breaks, to catch messages padded with empty lines")
+});
+
+export const InvisibleCharsRule = z.object({
+    ...Common,
+    type: z.literal("invisible_chars"),
+    max_invisible_chars: z
+        .number()
+        .int()
+        .min(0)
+        .default(0)
+        .describe("The maximum number of zero-width and text direction override characters")
+});
+
 export const ImageRule = z.object({
     ...Common,
     type: z.literal("image"),
@@ -122,17 +260,19 @@ export const URLCrawlRule = z
     })
     .describe("Experimental. Use at your own risk.");
 
+export const NSFWScoreThresholds = z
+    .object({
+        hentai: z.number().min(0).max(1).default(0.35),
+        porn: z.number().min(0).max(1).default(0.35),
+        sexy: z.number().min(0).max(1).default(0.8)
+    })
+    .default({});
+
 export const NSFWFilter = z
     .object({
         ...Common,
         type: z.literal("EXPERIMENTAL_nsfw_filter"),
-        score_thresholds: z
-            .object({
-                hentai: z.number().min(0).max(1).default(0.35),
-                porn: z.number().min(0).max(1).default(0.35),
-                sexy: z.number().min(0).max(1).default(0.8)
-            })
-            .default({})
+        score_thresholds: NSFWScoreThresholds
     })
     .describe("Experimental. Use at your own risk.");
 
@@ -148,7 +288,12 @@ export const MessageRuleSchema = z.union([
     ImageRule,
     EmbedRule,
     URLCrawlRule,
-    NSFWFilter
+    NSFWFilter,
+    CapsRatioRule,
+    EmojiLimitRule,
+    ZalgoRule,
+    MaxLinesRule,
+    InvisibleCharsRule
 ]);
 
 export type MessageRuleType = z.infer<typeof MessageRuleSchema>;
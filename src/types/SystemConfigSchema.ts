@@ -85,6 +85,16 @@ export const SystemConfigSchema = z.object({
             default_mode: z.enum(["enable_all", "disable_all"]).default("enable_all")
         })
         .default({}),
+    webhooks: z
+        .object({
+            allowed_private_hosts: z
+                .array(z.string())
+                .default([])
+                .describe(
+                    "Hosts that webhooks may be delivered to even though they resolve to a loopback, link-local or private address"
+                )
+        })
+        .default({}),
     log_server: z
         .object({
             enabled: z.boolean().default(false),
@@ -108,7 +118,40 @@ export const SystemConfigSchema = z.object({
             enabled: z.boolean().default(false),
             sync_delay: z.number().int().default(60_000)
         })
-        .optional()
+        .optional(),
+    ai: z
+        .object({
+            history_store: z
+                .enum(["memory", "json", "database"])
+                .default("memory")
+                .describe("Where AI conversation history is stored"),
+            memory_store_size: z.number().int().min(1).default(100),
+            provider: z
+                .enum(["auto", "gemini", "openai", "cloudflare", "openai_compatible", "mock"])
+                .default("auto")
+                .describe(
+                    "The default completion provider. \"auto\" picks the first one that is configured"
+                ),
+            moderation_provider: z.enum(["perspective", "openai", "mock"]).default("perspective"),
+            openai_compatible: z
+                .object({
+                    url: z
+                        .string()
+                        .url()
+                        .describe(
+                            "The base URL of an OpenAI compatible API, e.g. http://localhost:11434/v1"
+                        ),
+                    model: z.string(),
+                    timeout: z
+                        .number()
+                        .int()
+                        .min(1000)
+                        .default(60_000)
+                        .describe("How long to wait for a completion, in milliseconds")
+                })
+                .optional()
+        })
+        .default({})
 });
 
 export type SystemConfig = z.infer<typeof SystemConfigSchema>;
@@ -86,6 +86,13 @@ export default class QueueEntry {
             );
             const queue = new QueueClass(this.options);
             await queue.run(...this.options.args);
+
+            this.options.client.eventStream?.emitGuildEvent(this.options.guild.id, "queue.ran", {
+                id: this.id,
+                name: this.options.name,
+                userId: this.options.userId,
+                willRunAt: this.options.willRunAt
+            });
         } catch (e) {
             logError(e);
             logError("Error occurred during running the queue.");
@@ -0,0 +1,97 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * A rough estimation of the number of tokens in the given text, assuming ~4 characters per token.
+ */
+export function estimateTokens(text: string) {
+    return Math.ceil(text.length / 4);
+}
+
+export type TrimConversationOptions = {
+    maxMessages: number;
+    maxTokens: number;
+};
+
+/**
+ * Drops the oldest messages of a conversation until it fits in the given limits.
+ * The most recent message is always kept.
+ */
+export function trimConversation<T extends { content: string }>(
+    messages: T[],
+    { maxMessages, maxTokens }: TrimConversationOptions
+) {
+    const result: T[] = [];
+    let tokens = 0;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const messageTokens = estimateTokens(messages[i].content);
+
+        if (
+            result.length > 0 &&
+            (result.length >= maxMessages || tokens + messageTokens > maxTokens)
+        ) {
+            break;
+        }
+
+        tokens += messageTokens;
+        result.unshift(messages[i]);
+    }
+
+    return result;
+}
+
+export const moderationAttributes = [
+    "toxicity",
+    "severe_toxicity",
+    "threat",
+    "identity_attack",
+    "insult",
+    "profanity",
+    "sexually_explicit",
+    "flirtation"
+] as const;
+
+export type ModerationAttribute = (typeof moderationAttributes)[number];
+
+/**
+ * Moderation scores, from 0 to 100.
+ */
+export type ModerationScores = Record<ModerationAttribute, number>;
+
+/**
+ * The deterministic completion of the mock AI provider: the last message is echoed back.
+ */
+export function mockCompletion(messages: Array<{ content: string }>) {
+    return `Mock response #${messages.length}: ${messages.at(-1)?.content ?? ""}`;
+}
+
+/**
+ * The deterministic moderation scores of the mock AI provider. An attribute scores 100 when the
+ * text contains a `[mock:<attribute>]` marker, and 0 otherwise.
+ */
+export function mockModerationScores(text: string) {
+    const scores = {} as ModerationScores;
+
+    for (const attribute of moderationAttributes) {
+        scores[attribute] = text.includes(`[mock:${attribute}]`) ? 100 : 0;
+    }
+
+    return scores;
+}
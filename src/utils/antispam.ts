@@ -0,0 +1,149 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    AntispamActionName,
+    AntispamDetectorName,
+    AntispamDetectorOverrides,
+    AntispamDetectors
+} from "../types/AntispamDetectorSchema";
+
+export type AntispamEntry = {
+    messageId: string;
+    channelId: string;
+    timestamp: number;
+    content: string;
+    attachments: number;
+    links: number;
+    mentions: number;
+};
+
+export type AntispamDetection = {
+    detector: ResolvedAntispamDetector;
+    entries: AntispamEntry[];
+};
+
+export type ResolvedAntispamDetector = {
+    name: AntispamDetectorName;
+    timeframe: number;
+    threshold: number;
+    action?: AntispamActionName;
+};
+
+export function countLinks(content: string) {
+    return content.match(/https?:\/\/[^\s<>]+/gi)?.length ?? 0;
+}
+
+/**
+ * Merges the channel overrides into the detector settings. Detectors that are disabled or
+ * incomplete after merging are left out.
+ */
+export function resolveAntispamDetectors(
+    detectors: AntispamDetectors,
+    overrides?: AntispamDetectorOverrides
+) {
+    const resolved: ResolvedAntispamDetector[] = [];
+
+    for (const name of ["attachments", "links", "mentions"] as const) {
+        const { enabled, timeframe, limit, action } = { ...detectors[name], ...overrides?.[name] };
+
+        if (enabled !== false && timeframe && limit) {
+            resolved.push({ name, timeframe, threshold: limit, action });
+        }
+    }
+
+    const { enabled, timeframe, min_channels, action } = {
+        ...detectors.cross_channel,
+        ...overrides?.cross_channel
+    };
+
+    if (enabled !== false && timeframe && min_channels) {
+        resolved.push({ name: "cross_channel", timeframe, threshold: min_channels, action });
+    }
+
+    return resolved;
+}
+
+export function getEntriesWithin(
+    entries: readonly AntispamEntry[],
+    timeframe: number,
+    now = Date.now()
+) {
+    return entries.filter(entry => entry.timestamp > now - timeframe);
+}
+
+/**
+ * Runs the given detectors against the tracked entries of a user. Returns the first triggered
+ * detector, along with the entries that should be cleaned up.
+ */
+export function detectSpam(
+    entries: readonly AntispamEntry[],
+    detectors: readonly ResolvedAntispamDetector[],
+    now = Date.now()
+): AntispamDetection | null {
+    for (const detector of detectors) {
+        const recent = getEntriesWithin(entries, detector.timeframe, now);
+
+        if (detector.name === "cross_channel") {
+            const groups = new Map<string, AntispamEntry[]>();
+
+            for (const entry of recent) {
+                const content = entry.content.trim().toLowerCase();
+
+                if (content === "") {
+                    continue;
+                }
+
+                const group = groups.get(content) ?? [];
+                group.push(entry);
+                groups.set(content, group);
+            }
+
+            for (const group of groups.values()) {
+                if (new Set(group.map(entry => entry.channelId)).size >= detector.threshold) {
+                    return { detector, entries: group };
+                }
+            }
+
+            continue;
+        }
+
+        const key = detector.name;
+        const offending = recent.filter(entry => entry[key] > 0);
+        const total = offending.reduce((total, entry) => total + entry[key], 0);
+
+        if (total >= detector.threshold) {
+            return { detector, entries: offending };
+        }
+    }
+
+    return null;
+}
+
+export function groupEntriesByChannel(entries: readonly AntispamEntry[]) {
+    const channels = new Map<string, string[]>();
+
+    for (const entry of entries) {
+        const messageIds = channels.get(entry.channelId) ?? [];
+        messageIds.push(entry.messageId);
+        channels.set(entry.channelId, messageIds);
+    }
+
+    return channels;
+}
@@ -0,0 +1,55 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+export type AutoModHitTimelineEntry = {
+    date: string;
+    count: number;
+    falsePositives: number;
+};
+
+/**
+ * Builds the timeline of the given per-day hit counts, including the days without any hits.
+ */
+export function fillHitTimeline(
+    days: AutoModHitTimelineEntry[],
+    since: Date,
+    until: Date = new Date()
+) {
+    const entries = new Map<string, AutoModHitTimelineEntry>();
+    const day = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), since.getUTCDate()));
+
+    while (day <= until) {
+        const date = day.toISOString().substring(0, 10);
+        entries.set(date, { date, count: 0, falsePositives: 0 });
+        day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    for (const { date, count, falsePositives } of days) {
+        const entry = entries.get(date);
+
+        if (!entry) {
+            continue;
+        }
+
+        entry.count += count;
+        entry.falsePositives += falsePositives;
+    }
+
+    return [...entries.values()];
+}
@@ -66,6 +66,16 @@ export const cache = <F extends AnyFunction, I extends boolean = false>(
     return callback as ReturnValue<I, F>;
 };
 
+export const invalidateCache = (id: string | number) => {
+    const entry = data.get(`${id}`);
+
+    if (entry?.timeout) {
+        clearTimeout(entry.timeout);
+    }
+
+    data.delete(`${id}`);
+};
+
 export const resetCache = () => {
     data.forEach(entry => entry.timeout && clearTimeout(entry.timeout));
     data.clear();
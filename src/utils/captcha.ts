@@ -0,0 +1,91 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { randomInt } from "crypto";
+
+export type VerificationChallengeType = "image" | "arithmetic";
+
+export type VerificationChallenge = {
+    text: string;
+    answer: string;
+};
+
+/**
+ * Characters that are easy to tell apart when drawn, so 0/O and 1/I are left out.
+ */
+export const CHALLENGE_CHARACTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/**
+ * Returns a random integer between `min` and `max`, both inclusive.
+ */
+export type RandomIntegerGenerator = (min: number, max: number) => number;
+
+/**
+ * Uses a cryptographically secure source, so that the answers can't be predicted.
+ */
+export const secureRandomInteger: RandomIntegerGenerator = (min, max) => randomInt(min, max + 1);
+
+/**
+ * Returns a cryptographically secure random number between 0 (inclusive) and 1 (exclusive).
+ */
+export function secureRandom() {
+    return randomInt(0, 2 ** 48 - 1) / (2 ** 48 - 1);
+}
+
+export function generateChallenge(
+    type: VerificationChallengeType,
+    length = 6,
+    randomInteger: RandomIntegerGenerator = secureRandomInteger
+): VerificationChallenge {
+    if (type === "arithmetic") {
+        const operator = ["+", "-", "×"][randomInteger(0, 2)];
+        let first = randomInteger(1, operator === "×" ? 10 : 20);
+        let second = randomInteger(1, operator === "×" ? 10 : 20);
+
+        if (operator === "-" && second > first) {
+            [first, second] = [second, first];
+        }
+
+        return {
+            text: `${first} ${operator} ${second} = ?`,
+            answer: `${
+                operator === "+"
+                    ? first + second
+                    : operator === "-"
+                      ? first - second
+                      : first * second
+            }`
+        };
+    }
+
+    let text = "";
+
+    for (let i = 0; i < length; i++) {
+        text += CHALLENGE_CHARACTERS[randomInteger(0, CHALLENGE_CHARACTERS.length - 1)];
+    }
+
+    return {
+        text,
+        answer: text
+    };
+}
+
+export function normalizeChallengeAnswer(answer: string) {
+    return answer.replace(/\s+/g, "").toUpperCase();
+}
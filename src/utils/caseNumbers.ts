@@ -0,0 +1,103 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import type { PrismaClient } from "@prisma/client";
+
+type CaseCounterClient = {
+    infractionCaseCounter: {
+        upsert(args: {
+            where: { guildId: string };
+            create: { guildId: string; lastCaseNumber: number };
+            update: { lastCaseNumber: { increment: number } };
+            select: { lastCaseNumber: true };
+        }): PromiseLike<{ lastCaseNumber: number }>;
+    };
+};
+
+/**
+ * Reserves `count` sequential case numbers for the given guild.
+ */
+export async function allocateCaseNumbers(prisma: CaseCounterClient, guildId: string, count = 1) {
+    const { lastCaseNumber } = await prisma.infractionCaseCounter.upsert({
+        where: { guildId },
+        create: { guildId, lastCaseNumber: count },
+        update: { lastCaseNumber: { increment: count } },
+        select: { lastCaseNumber: true }
+    });
+
+    return Array.from({ length: count }, (_, index) => lastCaseNumber - count + index + 1);
+}
+
+/**
+ * Assigns case numbers to the infractions of a `createMany` call that don't have one yet.
+ */
+async function assignCaseNumbers<T extends { guildId: string; caseNumber?: number | null }>(
+    client: PrismaClient,
+    infractions: T | T[]
+) {
+    const data = Array.isArray(infractions) ? infractions : [infractions];
+    const pending = new Map<string, T[]>();
+
+    for (const infraction of data) {
+        if (infraction.caseNumber === undefined) {
+            pending.set(infraction.guildId, [
+                ...(pending.get(infraction.guildId) ?? []),
+                infraction
+            ]);
+        }
+    }
+
+    for (const [guildId, infractions] of pending) {
+        const caseNumbers = await allocateCaseNumbers(client, guildId, infractions.length);
+
+        infractions.forEach((infraction, index) => {
+            infraction.caseNumber = caseNumbers[index];
+        });
+    }
+
+    return data;
+}
+
+/**
+ * Assigns per-guild case numbers to every infraction created through the client.
+ */
+export function withInfractionCaseNumbers(client: PrismaClient) {
+    return client.$extends({
+        name: "infractionCaseNumbers",
+        query: {
+            infraction: {
+                async create({ args, query }) {
+                    if (args.data.caseNumber === undefined) {
+                        [args.data.caseNumber] = await allocateCaseNumbers(
+                            client,
+                            args.data.guildId
+                        );
+                    }
+
+                    return query(args);
+                },
+                async createMany({ args, query }) {
+                    return query({ ...args, data: await assignCaseNumbers(client, args.data) });
+                },
+                async createManyAndReturn({ args, query }) {
+                    return query({ ...args, data: await assignCaseNumbers(client, args.data) });
+                }
+            }
+        }
+    });
+}
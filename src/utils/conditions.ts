@@ -0,0 +1,96 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { z } from "zod";
+import { MessageRuleChannelType, MessageRuleConditionType } from "../types/MessageRuleSchema";
+
+export type MessageRuleConditionContext = {
+    /**
+     * How long ago the member joined the server, in milliseconds.
+     */
+    memberAge: number | null;
+
+    /**
+     * How long ago the account was created, in milliseconds.
+     */
+    accountAge: number;
+    roles: string[];
+    categoryId: string | null;
+    channelType: z.infer<typeof MessageRuleChannelType> | null;
+    attachmentCount: number;
+
+    /**
+     * The permission level of the member, if the server uses level based permissions.
+     */
+    permissionLevel: number | null;
+};
+
+function isInRange(value: number | null, min?: number, max?: number) {
+    return (
+        value !== null && (min === undefined || value >= min) && (max === undefined || value <= max)
+    );
+}
+
+/**
+ * Checks whether the given context meets a message rule condition.
+ */
+export function evaluateCondition(
+    condition: MessageRuleConditionType,
+    context: MessageRuleConditionContext
+): boolean {
+    if ("all" in condition) {
+        return condition.all.every(child => evaluateCondition(child, context));
+    }
+
+    if ("any" in condition) {
+        return condition.any.some(child => evaluateCondition(child, context));
+    }
+
+    if ("not" in condition) {
+        return !evaluateCondition(condition.not, context);
+    }
+
+    switch (condition.type) {
+        case "member_age":
+            return isInRange(context.memberAge, condition.min, condition.max);
+
+        case "account_age":
+            return isInRange(context.accountAge, condition.min, condition.max);
+
+        case "roles":
+            return condition.mode === "all"
+                ? condition.roles.every(role => context.roles.includes(role))
+                : condition.roles.some(role => context.roles.includes(role));
+
+        case "category":
+            return context.categoryId !== null && condition.categories.includes(context.categoryId);
+
+        case "channel_type":
+            return (
+                context.channelType !== null &&
+                condition.channel_types.includes(context.channelType)
+            );
+
+        case "has_attachments":
+            return context.attachmentCount > 0 === condition.value;
+
+        case "permission_level":
+            return isInRange(context.permissionLevel, condition.min, condition.max);
+    }
+}
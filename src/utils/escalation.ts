@@ -0,0 +1,74 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Infraction } from "@prisma/client";
+import { EscalationRule } from "../types/EscalationRuleSchema";
+
+export type EscalationScore = {
+    previous: number;
+    current: number;
+};
+
+/**
+ * Sums up the weights of the given infractions. Types without a weight don't count.
+ */
+export function calculateInfractionScore(
+    infractions: readonly Pick<Infraction, "type" | "createdAt">[],
+    weights: Record<string, number>,
+    window = 0,
+    now = Date.now()
+) {
+    let score = 0;
+
+    for (const infraction of infractions) {
+        if (window > 0 && infraction.createdAt.getTime() < now - window) {
+            continue;
+        }
+
+        score += weights[infraction.type.toLowerCase()] ?? 0;
+    }
+
+    return score;
+}
+
+/**
+ * Finds the rule with the highest threshold that was crossed when the score went from
+ * `previous` to `current`.
+ */
+export function findTriggeredRule<R extends Pick<EscalationRule, "threshold">>(
+    rules: readonly R[],
+    getScore: (rule: R) => EscalationScore
+) {
+    let triggered: { rule: R; index: number; score: number } | null = null;
+
+    for (let index = 0; index < rules.length; index++) {
+        const rule = rules[index];
+        const { previous, current } = getScore(rule);
+
+        if (
+            previous < rule.threshold &&
+            current >= rule.threshold &&
+            (!triggered || rule.threshold >= triggered.rule.threshold)
+        ) {
+            triggered = { rule, index, score: current };
+        }
+    }
+
+    return triggered;
+}
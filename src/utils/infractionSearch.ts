@@ -0,0 +1,165 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { zSnowflake } from "../types/SnowflakeSchema";
+import { resolveInfractionType } from "./infractionTransfer";
+
+const zBoolean = z.union([
+    z.boolean(),
+    z.enum(["true", "false", "yes", "no"]).transform(value => value === "true" || value === "yes")
+]);
+
+const zUserId = z.preprocess(
+    value => (typeof value === "string" ? value.replace(/^<@!?(\d+)>$/, "$1") : value),
+    zSnowflake
+);
+
+export const InfractionSearchSchema = z
+    .object({
+        user: zUserId.optional(),
+        type: z
+            .string()
+            .transform((value, context) => {
+                const type = resolveInfractionType(value);
+
+                if (!type) {
+                    context.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        message: `Unsupported infraction type: ${value}`
+                    });
+
+                    return z.NEVER;
+                }
+
+                return type;
+            })
+            .optional(),
+        moderator: zUserId.optional(),
+        after: z.coerce.date().optional(),
+        before: z.coerce.date().optional(),
+        status: z.enum(["active", "expired"]).optional(),
+        reason: z.string().min(1).max(200).optional(),
+        has_queue: zBoolean.optional(),
+        sort: z.enum(["created_at", "case_number", "expires_at"]).default("created_at"),
+        order: z.enum(["asc", "desc"]).default("desc")
+    })
+    .refine(({ after, before }) => !after || !before || after <= before, {
+        message: "The start date must be before the end date",
+        path: ["after"]
+    });
+
+export type InfractionSearchFilters = z.infer<typeof InfractionSearchSchema>;
+
+export const infractionSearchKeys = [
+    "user",
+    "type",
+    "moderator",
+    "after",
+    "before",
+    "status",
+    "reason",
+    "has_queue",
+    "sort",
+    "order"
+] as const;
+
+const sortFields = {
+    created_at: "createdAt",
+    case_number: "caseNumber",
+    expires_at: "expiresAt"
+} as const;
+
+export function parseInfractionSearchFilters(
+    query: Record<string, unknown>
+):
+    | { error: string; filters?: undefined }
+    | { error?: undefined; filters: InfractionSearchFilters } {
+    const result = InfractionSearchSchema.safeParse(query);
+
+    if (!result.success) {
+        const [issue] = result.error.issues;
+        return {
+            error:
+                issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+        };
+    }
+
+    return { filters: result.data };
+}
+
+/**
+ * Parses legacy command arguments, e.g. `type:ban moderator:@user after:2024-01-01 spam links`.
+ * Arguments that are not `key:value` pairs form the reason filter.
+ */
+export function parseInfractionSearchArgs(args: string[]) {
+    const query: Record<string, string> = {};
+    const reason: string[] = [];
+
+    for (const arg of args) {
+        const index = arg.indexOf(":");
+        const key = index === -1 ? "" : arg.substring(0, index).toLowerCase();
+
+        if ((infractionSearchKeys as readonly string[]).includes(key)) {
+            query[key] = arg.substring(index + 1);
+        } else {
+            reason.push(arg);
+        }
+    }
+
+    if (reason.length > 0) {
+        query.reason ??= reason.join(" ");
+    }
+
+    return parseInfractionSearchFilters(query);
+}
+
+export function buildInfractionSearchQuery(
+    guildId: string,
+    filters: InfractionSearchFilters,
+    now = new Date()
+) {
+    const where: Prisma.InfractionWhereInput = {
+        guildId,
+        deletedAt: null,
+        userId: filters.user,
+        type: filters.type,
+        moderatorId: filters.moderator,
+        createdAt:
+            filters.after || filters.before
+                ? { gte: filters.after, lte: filters.before }
+                : undefined,
+        reason: filters.reason ? { contains: filters.reason, mode: "insensitive" } : undefined,
+        queueId:
+            filters.has_queue === undefined ? undefined : filters.has_queue ? { not: null } : null
+    };
+
+    if (filters.status === "active") {
+        where.OR = [{ expiresAt: null }, { expiresAt: { gt: now } }];
+    } else if (filters.status === "expired") {
+        where.expiresAt = { lte: now };
+    }
+
+    const orderBy: Prisma.InfractionOrderByWithRelationInput[] = [
+        { [sortFields[filters.sort]]: filters.order },
+        { id: filters.order }
+    ];
+
+    return { where, orderBy };
+}
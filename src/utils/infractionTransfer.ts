@@ -0,0 +1,587 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { Infraction, InfractionType } from "@prisma/client";
+import { z } from "zod";
+import { zSnowflake } from "../types/SnowflakeSchema";
+
+export type InfractionFileFormat = "json" | "csv";
+
+export type ExportableInfraction = Pick<
+    Infraction,
+    | "id"
+    | "type"
+    | "userId"
+    | "guildId"
+    | "moderatorId"
+    | "reason"
+    | "expiresAt"
+    | "metadata"
+    | "createdAt"
+    | "updatedAt"
+>;
+
+export type ImportedInfraction = {
+    type: InfractionType;
+    userId: string;
+    moderatorId: string;
+    reason: string | null;
+    expiresAt: Date | null;
+    createdAt: Date;
+    metadata: Record<string, unknown> | null;
+    sourceId: string | null;
+};
+
+/**
+ * Maps entries of a third-party (or native) export onto infractions.
+ * Additional mappers can be passed to `parseInfractionImport()`.
+ */
+export interface InfractionImportMapper {
+    name: string;
+    detect(entry: Record<string, unknown>): boolean;
+    schema: z.ZodType<ImportedInfraction, z.ZodTypeDef, unknown>;
+}
+
+export type InfractionImportError = {
+    index: number;
+    messages: string[];
+};
+
+export type ParsedInfractionImport = {
+    format: string | null;
+    total: number;
+    infractions: ImportedInfraction[];
+    errors: InfractionImportError[];
+};
+
+export type InfractionImportReport = {
+    format: string | null;
+    total: number;
+    imported: number;
+    duplicates: number;
+    errors: InfractionImportError[];
+};
+
+export const infractionExportFields = [
+    "id",
+    "type",
+    "userId",
+    "guildId",
+    "moderatorId",
+    "reason",
+    "expiresAt",
+    "createdAt",
+    "updatedAt",
+    "metadata"
+] as const;
+
+const infractionTypeAliases: Record<string, InfractionType> = {
+    ban: InfractionType.BAN,
+    hackban: InfractionType.BAN,
+    forceban: InfractionType.BAN,
+    massban: InfractionType.MASSBAN,
+    tempban: InfractionType.TEMPBAN,
+    softban: InfractionType.SOFTBAN,
+    unban: InfractionType.UNBAN,
+    kick: InfractionType.KICK,
+    masskick: InfractionType.MASSKICK,
+    mute: InfractionType.MUTE,
+    tempmute: InfractionType.MUTE,
+    unmute: InfractionType.UNMUTE,
+    warn: InfractionType.WARNING,
+    warning: InfractionType.WARNING,
+    note: InfractionType.NOTE,
+    timeout: InfractionType.TIMEOUT,
+    untimeout: InfractionType.TIMEOUT_REMOVE,
+    timeout_remove: InfractionType.TIMEOUT_REMOVE,
+    purge: InfractionType.BULK_DELETE_MESSAGE,
+    clean: InfractionType.BULK_DELETE_MESSAGE,
+    bulk_delete_message: InfractionType.BULK_DELETE_MESSAGE,
+    bean: InfractionType.BEAN
+};
+
+/* Zeppelin stores case types as numbers. */
+const zeppelinCaseTypes: Record<number, InfractionType> = {
+    1: InfractionType.BAN,
+    2: InfractionType.UNBAN,
+    3: InfractionType.NOTE,
+    4: InfractionType.WARNING,
+    5: InfractionType.KICK,
+    6: InfractionType.MUTE,
+    7: InfractionType.UNMUTE,
+    9: InfractionType.SOFTBAN
+};
+
+export function resolveInfractionType(type: string) {
+    return (
+        infractionTypeAliases[
+            type
+                .trim()
+                .toLowerCase()
+                .replace(/[\s-]+/g, "_")
+        ] ?? null
+    );
+}
+
+/**
+ * Identifies an infraction across imports. The source ID tells apart infractions of the same
+ * type that were given to the same user by the same moderator at the same time.
+ */
+export function getInfractionFingerprint({
+    type,
+    userId,
+    moderatorId,
+    createdAt,
+    sourceId
+}: Pick<ImportedInfraction, "type" | "userId" | "moderatorId" | "createdAt" | "sourceId">) {
+    return `${type}:${userId}:${moderatorId}:${createdAt.getTime()}${sourceId ? `:${sourceId}` : ""}`;
+}
+
+/**
+ * Returns the ID an existing infraction would have in an import. Imported infractions keep the
+ * ID of their source, while native ones are exported with their own ID.
+ */
+export function getStoredInfractionSourceId({ id, metadata }: Pick<Infraction, "id" | "metadata">) {
+    if (
+        metadata &&
+        typeof metadata === "object" &&
+        !Array.isArray(metadata) &&
+        "imported_from" in metadata
+    ) {
+        return typeof metadata.source_id === "string" ? metadata.source_id : null;
+    }
+
+    return `${id}`;
+}
+
+const zInfractionType = z.union([z.string(), z.number()]).transform((value, context) => {
+    const type =
+        typeof value === "number" ? zeppelinCaseTypes[value] ?? null : resolveInfractionType(value);
+
+    if (!type) {
+        context.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Unsupported infraction type: ${value}`
+        });
+
+        return z.NEVER;
+    }
+
+    return type;
+});
+
+/* Numbers below 10^12 are treated as UNIX timestamps in seconds. */
+const zTimestamp = z.union([z.string(), z.number(), z.date()]).transform((value, context) => {
+    const date =
+        value instanceof Date
+            ? value
+            : typeof value === "number" || /^\d+$/.test(value)
+              ? new Date(Number(value) < 1e12 ? Number(value) * 1000 : Number(value))
+              : new Date(value);
+
+    if (isNaN(date.getTime())) {
+        context.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Invalid date: ${value}`
+        });
+
+        return z.NEVER;
+    }
+
+    return date;
+});
+
+const zUserReference = z.union([
+    zSnowflake,
+    z.object({ id: zSnowflake }).transform(user => user.id)
+]);
+
+const zReason = z
+    .string()
+    .nullish()
+    .transform(reason => reason?.trim() || null);
+
+const zSourceId = z
+    .union([z.string(), z.number()])
+    .nullish()
+    .transform(id => (id === null || id === undefined ? null : `${id}`));
+
+/* Durations are in seconds. */
+const zDuration = z.number().nonnegative().nullish();
+
+function getExpiry(createdAt: Date, duration?: number | null, expiresAt?: Date | null) {
+    if (expiresAt) {
+        return expiresAt;
+    }
+
+    return duration ? new Date(createdAt.getTime() + duration * 1000) : null;
+}
+
+export const sudobotInfractionImportMapper: InfractionImportMapper = {
+    name: "sudobot",
+    detect: entry => "userId" in entry && "moderatorId" in entry,
+    schema: z
+        .object({
+            id: zSourceId,
+            type: z.nativeEnum(InfractionType),
+            userId: zSnowflake,
+            moderatorId: zSnowflake,
+            reason: zReason,
+            expiresAt: zTimestamp.nullish(),
+            createdAt: zTimestamp,
+            metadata: z.record(z.unknown()).nullish()
+        })
+        .transform(entry => ({
+            type: entry.type,
+            userId: entry.userId,
+            moderatorId: entry.moderatorId,
+            reason: entry.reason,
+            expiresAt: entry.expiresAt ?? null,
+            createdAt: entry.createdAt,
+            metadata: entry.metadata ?? null,
+            sourceId: entry.id
+        }))
+};
+
+export const dynoInfractionImportMapper: InfractionImportMapper = {
+    name: "dyno",
+    detect: entry => "mod" in entry && "user" in entry,
+    schema: z
+        .object({
+            caseNum: zSourceId,
+            type: zInfractionType,
+            user: zUserReference,
+            mod: zUserReference,
+            reason: zReason,
+            duration: zDuration,
+            createdAt: zTimestamp
+        })
+        .transform(entry => ({
+            type: entry.type,
+            userId: entry.user,
+            moderatorId: entry.mod,
+            reason: entry.reason,
+            expiresAt: getExpiry(entry.createdAt, entry.duration),
+            createdAt: entry.createdAt,
+            metadata: null,
+            sourceId: entry.caseNum
+        }))
+};
+
+export const carlbotInfractionImportMapper: InfractionImportMapper = {
+    name: "carlbot",
+    detect: entry => "action" in entry && ("target_id" in entry || "offender_id" in entry),
+    schema: z
+        .object({
+            case_id: zSourceId,
+            action: zInfractionType,
+            target_id: zSnowflake.optional(),
+            offender_id: zSnowflake.optional(),
+            moderator_id: zSnowflake,
+            reason: zReason,
+            duration: zDuration,
+            timestamp: zTimestamp
+        })
+        .refine(entry => entry.target_id || entry.offender_id, {
+            message: "Either target_id or offender_id is required",
+            path: ["target_id"]
+        })
+        .transform(entry => ({
+            type: entry.action,
+            userId: (entry.target_id ?? entry.offender_id)!,
+            moderatorId: entry.moderator_id,
+            reason: entry.reason,
+            expiresAt: getExpiry(entry.timestamp, entry.duration),
+            createdAt: entry.timestamp,
+            metadata: null,
+            sourceId: entry.case_id
+        }))
+};
+
+export const zeppelinInfractionImportMapper: InfractionImportMapper = {
+    name: "zeppelin",
+    detect: entry => "case_number" in entry || ("user_id" in entry && "mod_id" in entry),
+    schema: z
+        .object({
+            case_number: zSourceId,
+            type: zInfractionType,
+            user_id: zSnowflake,
+            mod_id: zSnowflake,
+            created_at: zTimestamp,
+            notes: z.array(z.object({ body: z.string() })).default([])
+        })
+        .transform(entry => ({
+            type: entry.type,
+            userId: entry.user_id,
+            moderatorId: entry.mod_id,
+            reason: entry.notes[0]?.body.trim() || null,
+            expiresAt: null,
+            createdAt: entry.created_at,
+            metadata: null,
+            sourceId: entry.case_number
+        }))
+};
+
+export const infractionImportMappers: InfractionImportMapper[] = [
+    sudobotInfractionImportMapper,
+    dynoInfractionImportMapper,
+    carlbotInfractionImportMapper,
+    zeppelinInfractionImportMapper
+];
+
+function escapeCSVField(value: string) {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function parseCSV(content: string) {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+
+            continue;
+        }
+
+        if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && content[i + 1] === "\n") {
+                i++;
+            }
+
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(row => row.length > 1 || row[0] !== "");
+}
+
+export function serializeInfractions(
+    infractions: ExportableInfraction[],
+    format: InfractionFileFormat
+) {
+    if (format === "json") {
+        return JSON.stringify(
+            infractions.map(infraction =>
+                Object.fromEntries(infractionExportFields.map(field => [field, infraction[field]]))
+            ),
+            null,
+            4
+        );
+    }
+
+    const rows = infractions.map(infraction =>
+        infractionExportFields
+            .map(field => {
+                const value = infraction[field];
+
+                if (value === null || value === undefined) {
+                    return "";
+                }
+
+                if (value instanceof Date) {
+                    return value.toISOString();
+                }
+
+                return escapeCSVField(
+                    typeof value === "object" ? JSON.stringify(value) : `${value}`
+                );
+            })
+            .join(",")
+    );
+
+    return [infractionExportFields.join(","), ...rows].join("\n") + "\n";
+}
+
+function parseCSVEntries(content: string) {
+    const [header, ...rows] = parseCSV(content);
+
+    if (!header) {
+        return [];
+    }
+
+    return rows.map(row =>
+        Object.fromEntries(
+            header.map((name, index) => {
+                const value = row[index] ?? "";
+
+                if (value === "") {
+                    return [name, null];
+                }
+
+                if (name === "metadata") {
+                    try {
+                        return [name, JSON.parse(value)];
+                    } catch {
+                        return [name, value];
+                    }
+                }
+
+                return [name, value];
+            })
+        )
+    );
+}
+
+function extractEntries(data: unknown): unknown[] | null {
+    if (Array.isArray(data)) {
+        return data;
+    }
+
+    if (data && typeof data === "object") {
+        for (const key of ["infractions", "cases", "warnings", "modlogs", "logs", "data"]) {
+            const value = (data as Record<string, unknown>)[key];
+
+            if (Array.isArray(value)) {
+                return value;
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Parses and validates an import file. JSON and CSV files are accepted. The mapper is
+ * auto-detected from the first entry unless `format` is given.
+ */
+export function parseInfractionImport(
+    content: string,
+    format?: string | null,
+    mappers: InfractionImportMapper[] = infractionImportMappers
+): ParsedInfractionImport {
+    let entries: unknown[] | null;
+
+    try {
+        entries = extractEntries(JSON.parse(content));
+    } catch {
+        entries = parseCSVEntries(content);
+    }
+
+    if (!entries || entries.length === 0) {
+        return {
+            format: format ?? null,
+            total: 0,
+            infractions: [],
+            errors: [{ index: -1, messages: ["No entries were found in the given file"] }]
+        };
+    }
+
+    const first = entries[0];
+    const mapper = format
+        ? mappers.find(mapper => mapper.name === format)
+        : first && typeof first === "object"
+          ? mappers.find(mapper => mapper.detect(first as Record<string, unknown>))
+          : undefined;
+
+    if (!mapper) {
+        return {
+            format: format ?? null,
+            total: entries.length,
+            infractions: [],
+            errors: [
+                {
+                    index: -1,
+                    messages: [
+                        format
+                            ? `Unknown import format: ${format}`
+                            : "Could not detect the format of the given file"
+                    ]
+                }
+            ]
+        };
+    }
+
+    const infractions: ImportedInfraction[] = [];
+    const errors: InfractionImportError[] = [];
+
+    for (const [index, entry] of entries.entries()) {
+        const result = mapper.schema.safeParse(entry);
+
+        if (result.success) {
+            infractions.push(result.data);
+        } else {
+            errors.push({
+                index,
+                messages: result.error.issues.map(issue =>
+                    issue.path.length > 0
+                        ? `${issue.path.join(".")}: ${issue.message}`
+                        : issue.message
+                )
+            });
+        }
+    }
+
+    return {
+        format: mapper.name,
+        total: entries.length,
+        infractions,
+        errors
+    };
+}
+
+export function formatInfractionImportReport({
+    format,
+    total,
+    imported,
+    duplicates,
+    errors
+}: InfractionImportReport) {
+    let report = `Format: ${format ?? "Unknown"}\n`;
+
+    report += `Total entries: ${total}\n`;
+    report += `Imported: ${imported}\n`;
+    report += `Skipped (already imported): ${duplicates}\n`;
+    report += `Invalid: ${errors.filter(error => error.index >= 0).length}\n`;
+
+    if (errors.length > 0) {
+        report += "\nErrors:\n";
+
+        for (const { index, messages } of errors) {
+            report += `${index >= 0 ? `Entry #${index + 1}` : "File"}: ${messages.join("; ")}\n`;
+        }
+    }
+
+    return report;
+}
@@ -0,0 +1,93 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { escapeInlineCode, time } from "discord.js";
+
+export type InfractionRevisionField = "reason" | "expiresAt" | "deletedAt";
+
+export type InfractionRevisableFields = {
+    reason: string | null;
+    expiresAt: Date | null;
+    deletedAt: Date | null;
+};
+
+export type InfractionRevisionChange = {
+    field: InfractionRevisionField;
+    oldValue: string | null;
+    newValue: string | null;
+};
+
+const revisableFields: InfractionRevisionField[] = ["reason", "expiresAt", "deletedAt"];
+
+function serializeInfractionField(value: string | Date | null) {
+    return value instanceof Date ? value.toISOString() : value;
+}
+
+export function getInfractionChanges(
+    before: InfractionRevisableFields,
+    after: Partial<InfractionRevisableFields>
+): InfractionRevisionChange[] {
+    const changes: InfractionRevisionChange[] = [];
+
+    for (const field of revisableFields) {
+        if (after[field] === undefined) {
+            continue;
+        }
+
+        const oldValue = serializeInfractionField(before[field]);
+        const newValue = serializeInfractionField(after[field]!);
+
+        if (oldValue !== newValue) {
+            changes.push({ field, oldValue, newValue });
+        }
+    }
+
+    return changes;
+}
+
+function formatDateValue(value: string | null) {
+    return value ? time(new Date(value), "F") : "*None*";
+}
+
+function formatReasonValue(value: string | null) {
+    return value ? `\`${escapeInlineCode(value)}\`` : "*No reason provided*";
+}
+
+export function formatInfractionRevision({
+    field,
+    oldValue,
+    newValue
+}: {
+    field: string;
+    oldValue: string | null;
+    newValue: string | null;
+}) {
+    switch (field) {
+        case "reason":
+            return `Reason changed from ${formatReasonValue(oldValue)} to ${formatReasonValue(newValue)}`;
+
+        case "expiresAt":
+            return `Expiry changed from ${formatDateValue(oldValue)} to ${formatDateValue(newValue)}`;
+
+        case "deletedAt":
+            return newValue ? "Infraction deleted" : "Infraction restored";
+
+        default:
+            return `\`${field}\` changed from \`${oldValue}\` to \`${newValue}\``;
+    }
+}
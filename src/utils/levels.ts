@@ -0,0 +1,65 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Returns the amount of XP required to advance from the given level to the next one.
+ */
+export function xpToNextLevel(level: number) {
+    return 5 * level * level + 50 * level + 100;
+}
+
+/**
+ * Returns the total amount of XP required to reach the given level.
+ */
+export function totalXPForLevel(level: number) {
+    let xp = 0;
+
+    for (let i = 0; i < level; i++) {
+        xp += xpToNextLevel(i);
+    }
+
+    return xp;
+}
+
+export function levelFromXP(xp: number) {
+    let level = 0;
+    let remaining = xp;
+
+    while (remaining >= xpToNextLevel(level)) {
+        remaining -= xpToNextLevel(level);
+        level++;
+    }
+
+    return level;
+}
+
+export function levelProgress(xp: number) {
+    const level = levelFromXP(xp);
+    const current = xp - totalXPForLevel(level);
+
+    return {
+        level,
+        current,
+        required: xpToNextLevel(level)
+    };
+}
+
+export function randomXP(min: number, max: number) {
+    return Math.floor(Math.random() * (max - min + 1)) + min;
+}
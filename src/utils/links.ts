@@ -20,3 +20,26 @@
 export const WEBSITE_URL = "https://www.sudobot.org";
 export const DOCS_URL = "https://docs.sudobot.org";
 export const GITHUB_URL = "https://github.com/onesoft-sudo/sudobot";
+
+/**
+ * Extracts the IDs from a Discord message link.
+ *
+ * @returns The guild, channel and message IDs, or null if the input is not a message link.
+ */
+export function parseMessageLink(link: string) {
+    const match = link
+        .trim()
+        .match(
+            /^<?https?:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/channels\/(\d+|@me)\/(\d+)\/(\d+)>?$/
+        );
+
+    if (!match) {
+        return null;
+    }
+
+    return {
+        guildId: match[1],
+        channelId: match[2],
+        messageId: match[3]
+    };
+}
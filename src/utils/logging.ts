@@ -0,0 +1,100 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { GuildConfig } from "../types/GuildConfigSchema";
+import { LogEventType, LogIgnoreList } from "../types/LogEventSchema";
+
+type LoggingConfig = NonNullable<GuildConfig["logging"]>;
+
+export type LoggingChannelType = Extract<keyof LoggingConfig, `${string}_channel`>;
+
+/**
+ * The channel each event was logged to before per-event routing was introduced. Used when an
+ * event is not routed.
+ */
+export const logEventDefaultChannels: Record<LogEventType, LoggingChannelType> = {
+    message_edit: "message_logging_channel",
+    message_delete: "message_logging_channel",
+    message_bulk_delete: "infraction_logging_channel",
+    member_join: "join_leave_channel",
+    member_leave: "join_leave_channel",
+    member_nickname_update: "primary_channel",
+    member_role_update: "primary_channel",
+    voice_join_leave: "primary_channel",
+    voice_disconnect: "primary_channel",
+    voice_move: "primary_channel",
+    voice_mute: "primary_channel",
+    voice_deafen: "primary_channel",
+    channel_create: "primary_channel",
+    channel_update: "primary_channel",
+    channel_delete: "primary_channel",
+    channel_lock: "primary_channel",
+    server_lock: "primary_channel",
+    role_create: "primary_channel",
+    role_update: "primary_channel",
+    role_delete: "primary_channel",
+    infraction_create: "infraction_logging_channel",
+    infraction_update: "infraction_logging_channel",
+    infraction_delete: "infraction_logging_channel",
+    member_ban: "infraction_logging_channel",
+    member_unban: "infraction_logging_channel",
+    member_kick: "infraction_logging_channel",
+    member_mute: "infraction_logging_channel",
+    member_timeout: "infraction_logging_channel",
+    member_warn: "infraction_logging_channel",
+    automod_ai: "primary_channel",
+    automod_file_filter: "primary_channel",
+    automod_message_rule: "primary_channel",
+    automod_blocked_word: "primary_channel",
+    raid: "primary_channel",
+    raid_mode: "primary_channel"
+};
+
+export type LogContext = {
+    channelId?: string | null;
+    categoryId?: string | null;
+    userId?: string | null;
+    bot?: boolean;
+    roles?: string[];
+};
+
+/**
+ * Returns the channel an event should be logged to, or null if the event is disabled.
+ */
+export function resolveLogChannel(
+    config: Pick<LoggingConfig, LoggingChannelType | "routing">,
+    event: LogEventType
+) {
+    const routed = config.routing[event];
+
+    if (routed === null) {
+        return null;
+    }
+
+    return routed ?? config[logEventDefaultChannels[event]] ?? config.primary_channel ?? null;
+}
+
+export function isLogIgnored(ignore: LogIgnoreList, context: LogContext) {
+    return (
+        (!!context.channelId && ignore.channels.includes(context.channelId)) ||
+        (!!context.categoryId && ignore.categories.includes(context.categoryId)) ||
+        (!!context.userId && ignore.users.includes(context.userId)) ||
+        (ignore.bots && !!context.bot) ||
+        !!context.roles?.some(role => ignore.roles.includes(role))
+    );
+}
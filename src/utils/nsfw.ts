@@ -0,0 +1,40 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+export type NSFWScores = Record<string, number>;
+
+export type NSFWThresholds = {
+    hentai: number;
+    porn: number;
+    sexy: number;
+};
+
+export function exceedsNSFWThresholds(scores: NSFWScores, thresholds: NSFWThresholds) {
+    return (
+        scores.hentai >= thresholds.hentai ||
+        scores.porn >= thresholds.porn ||
+        scores.sexy >= thresholds.sexy
+    );
+}
+
+export function formatNSFWScores(scores: NSFWScores) {
+    return ["Hentai", "Porn", "Sexy", "Neutral"]
+        .map(name => `${name}: ${Math.round((scores[name.toLowerCase()] ?? 0) * 100)}%`)
+        .join("\n");
+}
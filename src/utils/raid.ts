@@ -0,0 +1,178 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { escapeMarkdown } from "discord.js";
+
+export type RaidJoin = {
+    userId: string;
+    username: string;
+    joinedAt: number;
+    accountCreatedAt: number;
+    hasAvatar: boolean;
+    inviteCode: string | null;
+};
+
+export type RaidJoinSignal = "new_account" | "no_avatar" | "similar_username" | "same_invite";
+
+export type ScoredRaidJoin = RaidJoin & {
+    score: number;
+    signals: RaidJoinSignal[];
+};
+
+export type RaidHeuristicOptions = {
+    minWaveSize: number;
+    minScore: number;
+    newAccountAge: number;
+    usernameSimilarity: number;
+    weights: Record<RaidJoinSignal, number>;
+};
+
+export type RaidWaveDetection = {
+    members: ScoredRaidJoin[];
+    score: number;
+};
+
+/**
+ * Lowercases the username and strips everything but letters, so that generated names like
+ * `spammer_123` and `Spammer456` compare as equal.
+ */
+export function normalizeUsername(username: string) {
+    return username.toLowerCase().replace(/[^\p{L}]/gu, "");
+}
+
+export function getLevenshteinDistance(a: string, b: string) {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * Returns a number between 0 and 1, where 1 means that the normalized usernames are identical.
+ */
+export function getUsernameSimilarity(a: string, b: string) {
+    const first = normalizeUsername(a);
+    const second = normalizeUsername(b);
+    const length = Math.max(first.length, second.length);
+
+    if (length === 0) {
+        return 0;
+    }
+
+    return 1 - getLevenshteinDistance(first, second) / length;
+}
+
+/**
+ * Scores every join by the signals it shares with the rest of the wave.
+ */
+export function scoreRaidJoins(
+    joins: readonly RaidJoin[],
+    options: Omit<RaidHeuristicOptions, "minWaveSize" | "minScore">
+): ScoredRaidJoin[] {
+    return joins.map(join => {
+        const signals: RaidJoinSignal[] = [];
+        const others = joins.filter(other => other.userId !== join.userId);
+
+        if (join.joinedAt - join.accountCreatedAt < options.newAccountAge) {
+            signals.push("new_account");
+        }
+
+        if (!join.hasAvatar) {
+            signals.push("no_avatar");
+        }
+
+        if (
+            others.some(
+                other =>
+                    getUsernameSimilarity(join.username, other.username) >=
+                    options.usernameSimilarity
+            )
+        ) {
+            signals.push("similar_username");
+        }
+
+        if (join.inviteCode && others.some(other => other.inviteCode === join.inviteCode)) {
+            signals.push("same_invite");
+        }
+
+        return {
+            ...join,
+            signals,
+            score: Math.min(
+                100,
+                signals.reduce((score, signal) => score + options.weights[signal], 0)
+            )
+        };
+    });
+}
+
+/**
+ * Finds the cluster of suspicious joins. A raid wave is flagged when at least `minWaveSize`
+ * joins reach `minScore`.
+ */
+export function findRaidWave(
+    joins: readonly RaidJoin[],
+    options: RaidHeuristicOptions
+): RaidWaveDetection | null {
+    const members = scoreRaidJoins(joins, options).filter(join => join.score >= options.minScore);
+
+    if (members.length < options.minWaveSize) {
+        return null;
+    }
+
+    return {
+        members,
+        score: Math.round(members.reduce((score, join) => score + join.score, 0) / members.length)
+    };
+}
+
+/**
+ * Lists the members of a raid wave with their scores and signals, one per line.
+ */
+export function formatRaidWaveMembers(members: readonly ScoredRaidJoin[], maxLength = 4000) {
+    let description = "";
+
+    for (const [index, member] of members.entries()) {
+        const line = `* <@${member.userId}> (\`${escapeMarkdown(member.username)}\`) — **${
+            member.score
+        }**${member.signals.length > 0 ? `: ${member.signals.join(", ")}` : ""}\n`;
+
+        if (description.length + line.length > maxLength) {
+            description += `...and ${members.length - index} more`;
+            break;
+        }
+
+        description += line;
+    }
+
+    return description;
+}
@@ -0,0 +1,88 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+const customEmojiRegex = /<a?:\w{2,32}:\d{16,22}>/g;
+const unicodeEmojiRegex =
+    /\p{Regional_Indicator}{2}|\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic})*/gu;
+const combiningMarksRegex = /\p{M}+/gu;
+
+/**
+ * Zero-width characters, and the bidirectional control characters that can be used to disguise text.
+ * The zero-width (non-)joiners are left out, as emoji sequences and many scripts rely on them.
+ */
+const invisibleCharactersRegex =
+    /[\u00AD\u061C\u115F\u1160\u180E\u200B\u200E\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\u3164\uFEFF\uFFA0]|[\u034F\u17B4\u17B5]/g;
+
+/**
+ * Returns the percentage of uppercase letters among the letters of the given text.
+ */
+export function getCapsRatio(text: string) {
+    const letters = text.match(/\p{L}/gu) ?? [];
+
+    if (letters.length === 0) {
+        return { letters: 0, ratio: 0 };
+    }
+
+    const uppercase = letters.filter(letter => /\p{Lu}/u.test(letter)).length;
+    return { letters: letters.length, ratio: (uppercase / letters.length) * 100 };
+}
+
+/**
+ * Counts both the custom emojis and the Unicode emojis in the given text. Emoji sequences, such
+ * as flags or skin tone variants, are counted once.
+ */
+export function countEmojis(text: string) {
+    const customEmojis = text.match(customEmojiRegex) ?? [];
+    const unicodeEmojis = text.replace(customEmojiRegex, "").match(unicodeEmojiRegex) ?? [];
+    return customEmojis.length + unicodeEmojis.length;
+}
+
+/**
+ * Returns the longest run of combining marks stacked on a single character.
+ */
+export function getLongestCombiningMarkRun(text: string) {
+    let longest = 0;
+
+    for (const [marks] of text.matchAll(combiningMarksRegex)) {
+        longest = Math.max(longest, [...marks].length);
+    }
+
+    return longest;
+}
+
+export function countLines(text: string) {
+    return text === "" ? 0 : text.split(/\r\n|\r|\n/).length;
+}
+
+/**
+ * Returns the longest run of consecutive line breaks, ignoring the whitespace between them.
+ */
+export function getLongestNewlineRun(text: string) {
+    let longest = 0;
+
+    for (const [run] of text.matchAll(/(?:\r\n|\r|\n)(?:[^\S\r\n]*(?:\r\n|\r|\n))*/g)) {
+        longest = Math.max(longest, run.match(/\r\n|\r|\n/g)!.length);
+    }
+
+    return longest;
+}
+
+export function findInvisibleCharacters(text: string) {
+    return text.match(invisibleCharactersRegex) ?? [];
+}
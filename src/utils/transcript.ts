@@ -0,0 +1,142 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Message } from "discord.js";
+
+export type TranscriptFormat = "html" | "text";
+
+export type TranscriptMessage = {
+    id: string;
+    authorId: string;
+    authorName: string;
+    content: string;
+    createdAt: Date;
+    attachments: { name: string; url: string }[];
+    embeds: TranscriptEmbed[];
+};
+
+export type TranscriptEmbed = {
+    author?: string;
+    title?: string;
+    description?: string;
+};
+
+export type GenerateTranscriptOptions = {
+    title: string;
+    format: TranscriptFormat;
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#39;"
+};
+
+export function escapeHTML(text: string) {
+    return text.replace(/[&<>"']/g, character => HTML_ENTITIES[character]);
+}
+
+export function messageToTranscriptMessage(message: Message): TranscriptMessage {
+    return {
+        id: message.id,
+        authorId: message.author.id,
+        authorName: message.author.username,
+        content: message.content,
+        createdAt: message.createdAt,
+        attachments: message.attachments.map(attachment => ({
+            name: attachment.name,
+            url: attachment.url
+        })),
+        embeds: message.embeds.map(embed => ({
+            author: embed.author?.name,
+            title: embed.title ?? undefined,
+            description: embed.description ?? undefined
+        }))
+    };
+}
+
+function formatTranscriptEmbed({ author, title, description }: TranscriptEmbed) {
+    return [author && `${author}:`, title, description].filter(Boolean).join(" ");
+}
+
+function generateTextTranscript(messages: readonly TranscriptMessage[], title: string) {
+    let output = `${title}\n${"=".repeat(title.length)}\n\n`;
+
+    for (const message of messages) {
+        output += `[${message.createdAt.toISOString()}] ${message.authorName} (${message.authorId}): ${
+            message.content
+        }\n`;
+
+        for (const attachment of message.attachments) {
+            output += `    Attachment: ${attachment.name} <${attachment.url}>\n`;
+        }
+
+        for (const embed of message.embeds) {
+            output += `    Embed: ${formatTranscriptEmbed(embed)}\n`;
+        }
+    }
+
+    output += `\n${messages.length} message(s) in total.\n`;
+    return output;
+}
+
+function generateHTMLTranscript(messages: readonly TranscriptMessage[], title: string) {
+    let output = `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${escapeHTML(
+        title
+    )}</title>\n<style>body{font-family:sans-serif;background:#313338;color:#dbdee1}.message{margin:8px 0}.author{font-weight:bold;color:#fff}.date{color:#949ba4;font-size:12px;margin-left:6px}.content,.embed{white-space:pre-wrap}.embed{border-left:4px solid #5865f2;padding-left:8px}</style>\n</head>\n<body>\n<h1>${escapeHTML(
+        title
+    )}</h1>\n`;
+
+    for (const message of messages) {
+        output += `<div class="message" id="m-${escapeHTML(message.id)}">`;
+        output += `<span class="author" title="${escapeHTML(message.authorId)}">${escapeHTML(
+            message.authorName
+        )}</span>`;
+        output += `<span class="date">${message.createdAt.toISOString()}</span>`;
+        output += `<div class="content">${escapeHTML(message.content)}</div>`;
+
+        for (const attachment of message.attachments) {
+            output += `<div class="attachment"><a href="${escapeHTML(attachment.url)}">${escapeHTML(
+                attachment.name
+            )}</a></div>`;
+        }
+
+        for (const embed of message.embeds) {
+            output += `<div class="embed">${escapeHTML(formatTranscriptEmbed(embed))}</div>`;
+        }
+
+        output += "</div>\n";
+    }
+
+    output += `<p>${messages.length} message(s) in total.</p>\n</body>\n</html>\n`;
+    return output;
+}
+
+export function generateTranscript(
+    messages: readonly TranscriptMessage[],
+    { title, format }: GenerateTranscriptOptions
+) {
+    return Buffer.from(
+        format === "html"
+            ? generateHTMLTranscript(messages, title)
+            : generateTextTranscript(messages, title)
+    );
+}
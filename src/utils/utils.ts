@@ -107,8 +107,8 @@ export async function createModerationEmbed({
                               value: userInfo(moderator)
                           },
                           {
-                              name: "Infraction ID",
-                              value: `${id}`
+                              name: "Case",
+                              value: `#${id}`
                           }
                       ],
                       `${id}`,
@@ -129,8 +129,8 @@ export async function createModerationEmbed({
                       },
                       ...(fields ?? []),
                       {
-                          name: "Infraction ID",
-                          value: `${id}`
+                          name: "Case",
+                          value: `#${id}`
                       }
                   ],
         footer: actionDoneName
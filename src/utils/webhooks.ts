@@ -0,0 +1,202 @@
+/*
+ * This file is part of SudoBot.
+ *
+ * Copyright (C) 2021-2023 OSN Developers.
+ *
+ * SudoBot is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * SudoBot is distributed in the hope that it will be useful, but
+ * WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with SudoBot. If not, see <https://www.gnu.org/licenses/>.
+ */
+import axios from "axios";
+import { createHmac, timingSafeEqual } from "crypto";
+import { lookup } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, LookupFunction, isIP } from "net";
+
+export const webhookEvents = [
+    "infraction.created",
+    "infraction.updated",
+    "member.joined",
+    "member.left",
+    "message.deleted",
+    "automod.triggered",
+    "raid.detected",
+    "webhook.test"
+] as const;
+
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+export type WebhookPayload = {
+    event: WebhookEvent;
+    guildId: string;
+    createdAt: string;
+    data: unknown;
+};
+
+export type WebhookRequestOptions = {
+    url: string;
+    secret: string;
+    event: string;
+    deliveryId: number;
+    body: string;
+    timeout?: number;
+    allowedPrivateHosts?: string[];
+};
+
+export type WebhookRequestResult = {
+    ok: boolean;
+    status: number | null;
+    error: string | null;
+};
+
+/**
+ * Checks whether an event is matched by any of the filters. Filters are either event names, a
+ * category wildcard such as `infraction.*`, or `*` to match everything.
+ */
+export function webhookEventMatches(filters: string[], event: string) {
+    return filters.some(
+        filter =>
+            filter === "*" ||
+            filter === event ||
+            (filter.endsWith(".*") && event.startsWith(filter.substring(0, filter.length - 1)))
+    );
+}
+
+const privateAddresses = new BlockList();
+
+privateAddresses.addSubnet("0.0.0.0", 8, "ipv4");
+privateAddresses.addSubnet("10.0.0.0", 8, "ipv4");
+privateAddresses.addSubnet("100.64.0.0", 10, "ipv4");
+privateAddresses.addSubnet("127.0.0.0", 8, "ipv4");
+privateAddresses.addSubnet("169.254.0.0", 16, "ipv4");
+privateAddresses.addSubnet("172.16.0.0", 12, "ipv4");
+privateAddresses.addSubnet("192.168.0.0", 16, "ipv4");
+privateAddresses.addSubnet("224.0.0.0", 3, "ipv4");
+privateAddresses.addSubnet("::", 127, "ipv6");
+privateAddresses.addSubnet("fc00::", 7, "ipv6");
+privateAddresses.addSubnet("fe80::", 10, "ipv6");
+privateAddresses.addSubnet("ff00::", 8, "ipv6");
+
+/**
+ * Checks whether an IP address is unspecified, loopback, link-local, private or otherwise not
+ * publicly routable. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+ */
+export function isPrivateAddress(address: string) {
+    const family = isIP(address);
+    return family !== 0 && privateAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Resolves host names like the default lookup, but fails if any of the addresses is private.
+ * The check happens when the connection is made, so a host cannot resolve to a public address
+ * when validated and to a private one when connected to.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, options, (error, address, family) => {
+        const addresses = typeof address === "string" ? [address] : address?.map(a => a.address);
+
+        if (!error && addresses?.some(isPrivateAddress)) {
+            callback(new Error(`${hostname} resolves to a private address`), address, family);
+            return;
+        }
+
+        callback(error, address, family);
+    });
+};
+
+const httpAgent = new http.Agent({ lookup: publicLookup });
+const httpsAgent = new https.Agent({ lookup: publicLookup });
+
+/**
+ * Signs a webhook body. The signature is a HMAC-SHA256 of `<timestamp>.<body>`, so that
+ * receivers can reject replayed deliveries.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+    return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function verifyWebhookSignature(
+    secret: string,
+    timestamp: number,
+    body: string,
+    signature: string
+) {
+    const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+    const actual = Buffer.from(signature);
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Exponential backoff: the delay doubles after each failed attempt, up to `max`.
+ */
+export function getWebhookRetryDelay(attempt: number, base: number, max = 3_600_000) {
+    return Math.min(max, base * 2 ** Math.max(0, attempt - 1));
+}
+
+export async function sendWebhookRequest({
+    url,
+    secret,
+    event,
+    deliveryId,
+    body,
+    timeout = 10_000,
+    allowedPrivateHosts = []
+}: WebhookRequestOptions): Promise<WebhookRequestResult> {
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+        const { protocol, hostname } = new URL(url);
+        const allowPrivate = allowedPrivateHosts.includes(hostname);
+
+        if (protocol !== "http:" && protocol !== "https:") {
+            return { ok: false, status: null, error: `Unsupported protocol: ${protocol}` };
+        }
+
+        if (!allowPrivate && isPrivateAddress(hostname.replace(/^\[|\]$/g, ""))) {
+            return { ok: false, status: null, error: `${hostname} is a private address` };
+        }
+
+        const response = await axios.post(url, body, {
+            headers: {
+                "Content-Type": "application/json",
+                "User-Agent": "SudoBot-Webhooks",
+                "X-SudoBot-Event": event,
+                "X-SudoBot-Delivery": `${deliveryId}`,
+                "X-SudoBot-Timestamp": `${timestamp}`,
+                "X-SudoBot-Signature": signWebhookPayload(secret, timestamp, body)
+            },
+            timeout,
+            maxRedirects: 0,
+            httpAgent: allowPrivate ? undefined : httpAgent,
+            httpsAgent: allowPrivate ? undefined : httpsAgent,
+            transformRequest: [data => data],
+            validateStatus: () => true
+        });
+
+        return {
+            ok: response.status >= 200 && response.status < 300,
+            status: response.status,
+            error:
+                response.status >= 200 && response.status < 300
+                    ? null
+                    : `Received HTTP ${response.status}`
+        };
+    } catch (error) {
+        return {
+            ok: false,
+            status: null,
+            error: error instanceof Error ? error.message : `${error}`
+        };
+    }
+}
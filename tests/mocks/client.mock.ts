@@ -6,24 +6,26 @@ import { randomSnowflake } from "./snowflakes";
 vi.mock("@prisma/client", () => {
     return {
         __esModule: true,
-        PrismaClient: vi.fn().mockImplementation(() => {
-            return {
-                user: {
-                    findUnique: vi.fn(),
-                    create: vi.fn(),
-                    findMany: vi.fn(),
-                    update: vi.fn(),
-                    delete: vi.fn()
-                },
-                troll: {
-                    findUnique: vi.fn(),
-                    create: vi.fn(),
-                    findMany: vi.fn(),
-                    update: vi.fn(),
-                    delete: vi.fn()
-                }
+        PrismaClient: class {
+            user = {
+                findUnique: vi.fn(),
+                create: vi.fn(),
+                findMany: vi.fn(),
+                update: vi.fn(),
+                delete: vi.fn()
             };
-        })
+            troll = {
+                findUnique: vi.fn(),
+                create: vi.fn(),
+                findMany: vi.fn(),
+                update: vi.fn(),
+                delete: vi.fn()
+            };
+
+            $extends() {
+                return this;
+            }
+        }
     };
 });
 
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+    estimateTokens,
+    mockCompletion,
+    mockModerationScores,
+    trimConversation
+} from "../../src/utils/ai";
+
+const message = (content: string) => ({ content });
+
+describe("estimateTokens", () => {
+    it("should estimate around 4 characters per token", () => {
+        expect(estimateTokens("")).toBe(0);
+        expect(estimateTokens("abcd")).toBe(1);
+        expect(estimateTokens("abcde")).toBe(2);
+    });
+});
+
+describe("trimConversation", () => {
+    it("should keep the most recent messages up to the message limit", () => {
+        const messages = ["a", "b", "c", "d"].map(message);
+
+        expect(trimConversation(messages, { maxMessages: 2, maxTokens: 100 })).toEqual([
+            message("c"),
+            message("d")
+        ]);
+    });
+
+    it("should drop older messages that exceed the token limit", () => {
+        const messages = [message("x".repeat(40)), message("y".repeat(8)), message("z".repeat(8))];
+
+        expect(trimConversation(messages, { maxMessages: 10, maxTokens: 5 })).toEqual([
+            message("y".repeat(8)),
+            message("z".repeat(8))
+        ]);
+    });
+
+    it("should always keep the latest message", () => {
+        const messages = [message("x".repeat(100))];
+
+        expect(trimConversation(messages, { maxMessages: 1, maxTokens: 1 })).toEqual(messages);
+    });
+});
+
+describe("mockCompletion", () => {
+    it("should echo the last message back", () => {
+        expect(mockCompletion([message("Hello"), message("How are you?")])).toBe(
+            "Mock response #2: How are you?"
+        );
+    });
+});
+
+describe("mockModerationScores", () => {
+    it("should score the attributes that have a marker", () => {
+        const scores = mockModerationScores("You are [mock:insult] and [mock:threat]");
+
+        expect(scores.insult).toBe(100);
+        expect(scores.threat).toBe(100);
+        expect(scores.toxicity).toBe(0);
+    });
+
+    it("should score everything 0 for regular text", () => {
+        expect(Object.values(mockModerationScores("Hello world")).every(score => score === 0)).toBe(
+            true
+        );
+    });
+});
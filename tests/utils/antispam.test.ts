@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+    AntispamEntry,
+    countLinks,
+    detectSpam,
+    groupEntriesByChannel,
+    resolveAntispamDetectors
+} from "../../src/utils/antispam";
+
+const entry = (overrides: Partial<AntispamEntry>): AntispamEntry => ({
+    messageId: "1",
+    channelId: "10",
+    timestamp: 1000,
+    content: "",
+    attachments: 0,
+    links: 0,
+    mentions: 0,
+    ...overrides
+});
+
+describe("countLinks", () => {
+    it("should count the links in the content", () => {
+        expect(countLinks("see https://example.com and http://example.org/a?b=c")).toBe(2);
+        expect(countLinks("no links here")).toBe(0);
+    });
+});
+
+describe("resolveAntispamDetectors", () => {
+    const detectors = {
+        attachments: { enabled: true, limit: 5, timeframe: 10_000 },
+        cross_channel: { enabled: true, min_channels: 3, timeframe: 5000, action: "mute" as const }
+    };
+
+    it("should resolve the configured detectors", () => {
+        expect(resolveAntispamDetectors(detectors)).toEqual([
+            { name: "attachments", threshold: 5, timeframe: 10_000, action: undefined },
+            { name: "cross_channel", threshold: 3, timeframe: 5000, action: "mute" }
+        ]);
+    });
+
+    it("should apply the channel overrides", () => {
+        expect(
+            resolveAntispamDetectors(detectors, {
+                attachments: { limit: 20 },
+                cross_channel: { enabled: false },
+                links: { limit: 3, timeframe: 1000 }
+            })
+        ).toEqual([
+            { name: "attachments", threshold: 20, timeframe: 10_000, action: undefined },
+            { name: "links", threshold: 3, timeframe: 1000, action: undefined }
+        ]);
+    });
+});
+
+describe("detectSpam", () => {
+    it("should detect attachment spam within the timeframe", () => {
+        const detectors = [{ name: "attachments" as const, threshold: 4, timeframe: 5000 }];
+        const entries = [
+            entry({ messageId: "1", timestamp: 1000, attachments: 3 }),
+            entry({ messageId: "2", timestamp: 7000, attachments: 2 }),
+            entry({ messageId: "3", timestamp: 8000 }),
+            entry({ messageId: "4", timestamp: 9000, attachments: 2 })
+        ];
+
+        expect(detectSpam(entries, detectors, 9000)).toEqual({
+            detector: detectors[0],
+            entries: [entries[1], entries[3]]
+        });
+        expect(detectSpam(entries.slice(0, 3), detectors, 9000)).toBeNull();
+    });
+
+    it("should detect the same content across distinct channels", () => {
+        const detectors = [{ name: "cross_channel" as const, threshold: 3, timeframe: 5000 }];
+        const entries = [
+            entry({ messageId: "1", channelId: "10", content: "Free nitro" }),
+            entry({ messageId: "2", channelId: "10", content: "free nitro " }),
+            entry({ messageId: "3", channelId: "11", content: "hello" }),
+            entry({ messageId: "4", channelId: "12", content: "FREE NITRO" })
+        ];
+
+        expect(detectSpam(entries, detectors, 2000)).toBeNull();
+
+        const spam = [
+            ...entries,
+            entry({ messageId: "5", channelId: "13", content: "free nitro" })
+        ];
+
+        expect(detectSpam(spam, detectors, 2000)?.entries.map(entry => entry.messageId)).toEqual([
+            "1",
+            "2",
+            "4",
+            "5"
+        ]);
+    });
+});
+
+describe("groupEntriesByChannel", () => {
+    it("should group the message IDs by channel", () => {
+        const groups = groupEntriesByChannel([
+            entry({ messageId: "1", channelId: "10" }),
+            entry({ messageId: "2", channelId: "11" }),
+            entry({ messageId: "3", channelId: "10" })
+        ]);
+
+        expect([...groups]).toEqual([
+            ["10", ["1", "3"]],
+            ["11", ["2"]]
+        ]);
+    });
+});
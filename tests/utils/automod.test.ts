@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { fillHitTimeline } from "../../src/utils/automod";
+
+describe("fillHitTimeline", () => {
+    it("should include the days without any hits", () => {
+        const days = [
+            { date: "2024-03-01", count: 2, falsePositives: 1 },
+            { date: "2024-03-03", count: 1, falsePositives: 0 }
+        ];
+
+        expect(
+            fillHitTimeline(days, new Date("2024-03-01T12:00:00Z"), new Date("2024-03-03T12:00:00Z"))
+        ).toEqual([
+            { date: "2024-03-01", count: 2, falsePositives: 1 },
+            { date: "2024-03-02", count: 0, falsePositives: 0 },
+            { date: "2024-03-03", count: 1, falsePositives: 0 }
+        ]);
+    });
+
+    it("should ignore days outside of the range", () => {
+        const days = [{ date: "2024-02-01", count: 3, falsePositives: 0 }];
+
+        expect(
+            fillHitTimeline(days, new Date("2024-03-01T00:00:00Z"), new Date("2024-03-01T12:00:00Z"))
+        ).toEqual([{ date: "2024-03-01", count: 0, falsePositives: 0 }]);
+    });
+});
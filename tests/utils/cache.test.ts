@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { cache, resetCache } from "../../src/utils/cache";
+import { cache, invalidateCache, resetCache } from "../../src/utils/cache";
 
 describe("caching utilities", () => {
     beforeEach(() => {
@@ -42,6 +42,15 @@ describe("caching utilities", () => {
         expect(onHit.mock.calls.length).toBe(2);
     });
 
+    it("should invalidate a cached value", () => {
+        const callback = vi.fn(() => Math.random());
+        const cached = cache("callback", callback, { ttl: 1000 });
+        const value = cached();
+        invalidateCache("callback");
+        expect(cached()).not.toBe(value);
+        expect(callback.mock.calls.length).toBe(2);
+    });
+
     it("it should cache a value with an invoke option", () => {
         const callback = vi.fn(() => Math.random());
         const cached = cache("callback", callback, { invoke: true });
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+    CHALLENGE_CHARACTERS,
+    generateChallenge,
+    normalizeChallengeAnswer,
+    secureRandom,
+    secureRandomInteger
+} from "../../src/utils/captcha";
+
+const sequence = (...values: number[]) => {
+    let index = 0;
+    return () => values[index++ % values.length];
+};
+
+describe("generateChallenge", () => {
+    it("should generate a text challenge from unambiguous characters", () => {
+        const { text, answer } = generateChallenge("image", 8);
+
+        expect(text).toHaveLength(8);
+        expect(answer).toBe(text);
+        expect([...text].every(character => CHALLENGE_CHARACTERS.includes(character))).toBe(true);
+    });
+
+    it("should generate arithmetic challenges", () => {
+        expect(generateChallenge("arithmetic", 6, sequence(0, 11, 6))).toEqual({
+            text: "11 + 6 = ?",
+            answer: "17"
+        });
+    });
+
+    it("should never generate negative answers", () => {
+        expect(generateChallenge("arithmetic", 6, sequence(1, 3, 19))).toEqual({
+            text: "19 - 3 = ?",
+            answer: "16"
+        });
+    });
+
+    it("should multiply with smaller operands", () => {
+        expect(generateChallenge("arithmetic", 6, sequence(2, 10, 1))).toEqual({
+            text: "10 × 1 = ?",
+            answer: "10"
+        });
+    });
+});
+
+describe("secureRandomInteger", () => {
+    it("should stay within the inclusive bounds", () => {
+        const values = new Set(Array.from({ length: 200 }, () => secureRandomInteger(1, 3)));
+        expect([...values].sort()).toEqual([1, 2, 3]);
+    });
+});
+
+describe("secureRandom", () => {
+    it("should return numbers between 0 and 1", () => {
+        for (let i = 0; i < 100; i++) {
+            const value = secureRandom();
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        }
+    });
+});
+
+describe("normalizeChallengeAnswer", () => {
+    it("should ignore case and whitespace", () => {
+        expect(normalizeChallengeAnswer(" ab c9 ")).toBe("ABC9");
+    });
+});
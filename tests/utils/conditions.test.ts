@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { MessageRuleConditionContext, evaluateCondition } from "../../src/utils/conditions";
+
+const hour = 60 * 60 * 1000;
+
+const context: MessageRuleConditionContext = {
+    memberAge: 2 * hour,
+    accountAge: 30 * 24 * hour,
+    roles: ["1"],
+    categoryId: "10",
+    channelType: "text",
+    attachmentCount: 0,
+    permissionLevel: null
+};
+
+describe("evaluateCondition", () => {
+    it("should check the age ranges", () => {
+        expect(evaluateCondition({ type: "member_age", max: 24 * hour }, context)).toBe(true);
+        expect(evaluateCondition({ type: "member_age", min: 24 * hour }, context)).toBe(false);
+        expect(evaluateCondition({ type: "account_age", min: 7 * 24 * hour }, context)).toBe(true);
+    });
+
+    it("should check the roles", () => {
+        expect(evaluateCondition({ type: "roles", roles: ["1", "2"] }, context)).toBe(true);
+        expect(evaluateCondition({ type: "roles", roles: ["1", "2"], mode: "all" }, context)).toBe(
+            false
+        );
+    });
+
+    it("should check the channel and the attachments", () => {
+        expect(evaluateCondition({ type: "category", categories: ["10"] }, context)).toBe(true);
+        expect(evaluateCondition({ type: "channel_type", channel_types: ["voice"] }, context)).toBe(
+            false
+        );
+        expect(evaluateCondition({ type: "has_attachments", value: false }, context)).toBe(true);
+    });
+
+    it("should never match a permission level when levels are not in use", () => {
+        expect(evaluateCondition({ type: "permission_level", max: 100 }, context)).toBe(false);
+    });
+
+    it("should combine the conditions", () => {
+        expect(
+            evaluateCondition(
+                {
+                    all: [
+                        { type: "member_age", max: 24 * hour },
+                        { not: { type: "roles", roles: ["verified"] } },
+                        {
+                            any: [
+                                { type: "category", categories: ["20"] },
+                                { type: "channel_type", channel_types: ["text"] }
+                            ]
+                        }
+                    ]
+                },
+                context
+            )
+        ).toBe(true);
+        expect(evaluateCondition({ any: [] }, context)).toBe(false);
+        expect(evaluateCondition({ all: [] }, context)).toBe(true);
+    });
+});
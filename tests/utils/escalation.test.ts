@@ -0,0 +1,48 @@
+import { InfractionType } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import { calculateInfractionScore, findTriggeredRule } from "../../src/utils/escalation";
+
+const day = 1000 * 60 * 60 * 24;
+
+describe("calculateInfractionScore", () => {
+    const now = Date.now();
+    const infractions = [
+        { type: InfractionType.WARNING, createdAt: new Date(now - day) },
+        { type: InfractionType.WARNING, createdAt: new Date(now - 10 * day) },
+        { type: InfractionType.MUTE, createdAt: new Date(now - 2 * day) },
+        { type: InfractionType.NOTE, createdAt: new Date(now) }
+    ];
+
+    it("should sum up the weights of the infractions", () => {
+        expect(calculateInfractionScore(infractions, { warning: 1, mute: 2 })).toBe(4);
+    });
+
+    it("should only count infractions within the window", () => {
+        expect(calculateInfractionScore(infractions, { warning: 1, mute: 2 }, 7 * day, now)).toBe(
+            3
+        );
+    });
+});
+
+describe("findTriggeredRule", () => {
+    const rules = [
+        { name: "mute", threshold: 3 },
+        { name: "ban", threshold: 5 }
+    ];
+
+    it("should return the rule whose threshold was crossed", () => {
+        expect(findTriggeredRule(rules, () => ({ previous: 2, current: 3 }))).toEqual({
+            rule: rules[0],
+            index: 0,
+            score: 3
+        });
+    });
+
+    it("should not trigger a rule again once its threshold has been passed", () => {
+        expect(findTriggeredRule(rules, () => ({ previous: 3, current: 4 }))).toBeNull();
+    });
+
+    it("should prefer the rule with the highest threshold", () => {
+        expect(findTriggeredRule(rules, () => ({ previous: 0, current: 6 }))?.rule).toBe(rules[1]);
+    });
+});
@@ -0,0 +1,89 @@
+import { InfractionType } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import {
+    buildInfractionSearchQuery,
+    parseInfractionSearchArgs,
+    parseInfractionSearchFilters
+} from "../../src/utils/infractionSearch";
+
+const guildId = "1000000000000000001";
+const userId = "1000000000000000002";
+
+describe("parseInfractionSearchArgs", () => {
+    it("should parse key:value pairs and use the rest as the reason", () => {
+        const { filters, error } = parseInfractionSearchArgs([
+            "type:warn",
+            `moderator:<@${userId}>`,
+            "spam",
+            "after:2024-01-01",
+            "links",
+            "has_queue:yes"
+        ]);
+
+        expect(error).toBeUndefined();
+        expect(filters).toEqual({
+            type: InfractionType.WARNING,
+            moderator: userId,
+            after: new Date("2024-01-01"),
+            reason: "spam links",
+            has_queue: true,
+            sort: "created_at",
+            order: "desc"
+        });
+    });
+
+    it("should report invalid filters", () => {
+        expect(parseInfractionSearchArgs(["type:slap"]).error).toBe(
+            "type: Unsupported infraction type: slap"
+        );
+        expect(parseInfractionSearchArgs(["status:pending"]).error).toMatch(/^status: /);
+        expect(parseInfractionSearchArgs(["after:2024-02-01", "before:2024-01-01"]).error).toBe(
+            "after: The start date must be before the end date"
+        );
+    });
+});
+
+describe("buildInfractionSearchQuery", () => {
+    const now = new Date("2024-01-01T00:00:00.000Z");
+
+    it("should exclude deleted infractions and apply the filters", () => {
+        const { filters } = parseInfractionSearchFilters({
+            user: userId,
+            reason: "spam",
+            has_queue: false,
+            sort: "case_number",
+            order: "asc"
+        });
+
+        expect(buildInfractionSearchQuery(guildId, filters!, now)).toEqual({
+            where: {
+                guildId,
+                deletedAt: null,
+                userId,
+                type: undefined,
+                moderatorId: undefined,
+                createdAt: undefined,
+                reason: { contains: "spam", mode: "insensitive" },
+                queueId: null
+            },
+            orderBy: [{ caseNumber: "asc" }, { id: "asc" }]
+        });
+    });
+
+    it("should filter by active and expired status", () => {
+        const active = buildInfractionSearchQuery(
+            guildId,
+            parseInfractionSearchFilters({ status: "active" }).filters!,
+            now
+        );
+        const expired = buildInfractionSearchQuery(
+            guildId,
+            parseInfractionSearchFilters({ status: "expired", has_queue: "true" }).filters!,
+            now
+        );
+
+        expect(active.where.OR).toEqual([{ expiresAt: null }, { expiresAt: { gt: now } }]);
+        expect(expired.where.expiresAt).toEqual({ lte: now });
+        expect(expired.where.queueId).toEqual({ not: null });
+    });
+});
@@ -0,0 +1,240 @@
+import { InfractionType } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import {
+    formatInfractionImportReport,
+    getInfractionFingerprint,
+    getStoredInfractionSourceId,
+    parseCSV,
+    parseInfractionImport,
+    resolveInfractionType,
+    serializeInfractions
+} from "../../src/utils/infractionTransfer";
+
+const userId = "1000000000000000001";
+const moderatorId = "1000000000000000002";
+
+const infraction = {
+    id: 1,
+    type: InfractionType.WARNING,
+    userId,
+    guildId: "1000000000000000003",
+    moderatorId,
+    reason: 'Said "hello", then spammed\nin #general',
+    expiresAt: null,
+    metadata: { appeal_id: 5 },
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2024-01-02T00:00:00.000Z")
+};
+
+describe("resolveInfractionType", () => {
+    it("should map common action names onto infraction types", () => {
+        expect(resolveInfractionType("Warn")).toBe(InfractionType.WARNING);
+        expect(resolveInfractionType("temp-ban")).toBe(null);
+        expect(resolveInfractionType("tempban")).toBe(InfractionType.TEMPBAN);
+        expect(resolveInfractionType("Timeout Remove")).toBe(InfractionType.TIMEOUT_REMOVE);
+        expect(resolveInfractionType("slap")).toBe(null);
+    });
+});
+
+describe("parseCSV", () => {
+    it("should handle quoted fields, escaped quotes and line breaks", () => {
+        expect(parseCSV('a,b\n"x, y","say ""hi""\nthere"\r\n1,\n')).toEqual([
+            ["a", "b"],
+            ["x, y", 'say "hi"\nthere'],
+            ["1", ""]
+        ]);
+    });
+});
+
+describe("serializeInfractions", () => {
+    it("should round-trip infractions through JSON", () => {
+        const { infractions, errors, format } = parseInfractionImport(
+            serializeInfractions([infraction], "json")
+        );
+
+        expect(format).toBe("sudobot");
+        expect(errors).toEqual([]);
+        expect(infractions).toEqual([
+            {
+                type: infraction.type,
+                userId,
+                moderatorId,
+                reason: infraction.reason,
+                expiresAt: null,
+                createdAt: infraction.createdAt,
+                metadata: infraction.metadata,
+                sourceId: "1"
+            }
+        ]);
+    });
+
+    it("should round-trip infractions through CSV", () => {
+        const csv = serializeInfractions([infraction], "csv");
+
+        expect(csv.split("\n")[0]).toBe(
+            "id,type,userId,guildId,moderatorId,reason,expiresAt,createdAt,updatedAt,metadata"
+        );
+
+        const { infractions, errors } = parseInfractionImport(csv);
+
+        expect(errors).toEqual([]);
+        expect(infractions[0]).toMatchObject({
+            type: infraction.type,
+            reason: infraction.reason,
+            createdAt: infraction.createdAt,
+            metadata: infraction.metadata
+        });
+    });
+});
+
+describe("parseInfractionImport", () => {
+    it("should detect and map Dyno-style exports", () => {
+        const { format, infractions } = parseInfractionImport(
+            JSON.stringify([
+                {
+                    caseNum: 3,
+                    type: "mute",
+                    user: { id: userId, username: "user" },
+                    mod: { id: moderatorId },
+                    reason: "Spam",
+                    duration: 60,
+                    createdAt: "2024-01-01T00:00:00.000Z"
+                }
+            ])
+        );
+
+        expect(format).toBe("dyno");
+        expect(infractions[0]).toMatchObject({
+            type: InfractionType.MUTE,
+            userId,
+            moderatorId,
+            expiresAt: new Date("2024-01-01T00:01:00.000Z"),
+            sourceId: "3"
+        });
+    });
+
+    it("should detect and map Carl-bot-style exports with UNIX timestamps", () => {
+        const { format, infractions } = parseInfractionImport(
+            JSON.stringify({
+                infractions: [
+                    {
+                        case_id: 7,
+                        action: "ban",
+                        offender_id: userId,
+                        moderator_id: moderatorId,
+                        reason: null,
+                        timestamp: 1704067200
+                    }
+                ]
+            })
+        );
+
+        expect(format).toBe("carlbot");
+        expect(infractions[0]).toMatchObject({
+            type: InfractionType.BAN,
+            userId,
+            reason: null,
+            createdAt: new Date("2024-01-01T00:00:00.000Z")
+        });
+    });
+
+    it("should detect and map Zeppelin-style cases", () => {
+        const { format, infractions } = parseInfractionImport(
+            JSON.stringify({
+                cases: [
+                    {
+                        case_number: 12,
+                        type: 4,
+                        user_id: userId,
+                        mod_id: moderatorId,
+                        created_at: "2024-01-01 00:00:00Z",
+                        notes: [{ body: "Be nice" }]
+                    }
+                ]
+            })
+        );
+
+        expect(format).toBe("zeppelin");
+        expect(infractions[0]).toMatchObject({
+            type: InfractionType.WARNING,
+            reason: "Be nice",
+            sourceId: "12"
+        });
+    });
+
+    it("should report invalid entries without discarding valid ones", () => {
+        const { total, infractions, errors } = parseInfractionImport(
+            JSON.stringify([
+                { type: "warn", user: userId, mod: moderatorId, createdAt: 1704067200000 },
+                { type: "slap", user: "invalid", mod: moderatorId, createdAt: "never" }
+            ])
+        );
+
+        expect(total).toBe(2);
+        expect(infractions).toHaveLength(1);
+        expect(errors).toHaveLength(1);
+        expect(errors[0].index).toBe(1);
+        expect(errors[0].messages).toContain("type: Unsupported infraction type: slap");
+        expect(errors[0].messages).toContain("createdAt: Invalid date: never");
+    });
+
+    it("should report unknown or undetectable formats", () => {
+        expect(parseInfractionImport("[]").errors[0].messages).toEqual([
+            "No entries were found in the given file"
+        ]);
+        expect(parseInfractionImport('[{"foo": 1}]').errors[0].messages).toEqual([
+            "Could not detect the format of the given file"
+        ]);
+        expect(parseInfractionImport('[{"foo": 1}]', "unknown").errors[0].messages).toEqual([
+            "Unknown import format: unknown"
+        ]);
+    });
+});
+
+describe("getInfractionFingerprint", () => {
+    it("should identify infractions by type, user, moderator and creation time", () => {
+        expect(getInfractionFingerprint({ ...infraction, sourceId: null })).toBe(
+            `WARNING:${userId}:${moderatorId}:${infraction.createdAt.getTime()}`
+        );
+    });
+
+    it("should include the source ID when there is one", () => {
+        expect(getInfractionFingerprint({ ...infraction, sourceId: "42" })).toBe(
+            `WARNING:${userId}:${moderatorId}:${infraction.createdAt.getTime()}:42`
+        );
+    });
+});
+
+describe("getStoredInfractionSourceId", () => {
+    it("should use the ID of native infractions", () => {
+        expect(getStoredInfractionSourceId(infraction)).toBe("1");
+    });
+
+    it("should use the source ID of imported infractions", () => {
+        expect(
+            getStoredInfractionSourceId({
+                id: 2,
+                metadata: { imported_from: "dyno", source_id: "17" }
+            })
+        ).toBe("17");
+        expect(
+            getStoredInfractionSourceId({ id: 3, metadata: { imported_from: "zeppelin" } })
+        ).toBe(null);
+    });
+});
+
+describe("formatInfractionImportReport", () => {
+    it("should summarize the import and list errors", () => {
+        expect(
+            formatInfractionImportReport({
+                format: "dyno",
+                total: 3,
+                imported: 1,
+                duplicates: 1,
+                errors: [{ index: 2, messages: ["user: Invalid input"] }]
+            })
+        ).toBe(
+            "Format: dyno\nTotal entries: 3\nImported: 1\nSkipped (already imported): 1\nInvalid: 1\n\nErrors:\nEntry #3: user: Invalid input\n"
+        );
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { formatInfractionRevision, getInfractionChanges } from "../../src/utils/infractions";
+
+const infraction = {
+    reason: "Spamming",
+    expiresAt: new Date("2024-01-01T00:00:00.000Z"),
+    deletedAt: null
+};
+
+describe("getInfractionChanges", () => {
+    it("should record only the fields that changed", () => {
+        expect(
+            getInfractionChanges(infraction, {
+                reason: "Spamming in #general",
+                expiresAt: new Date("2024-01-01T00:00:00.000Z")
+            })
+        ).toEqual([{ field: "reason", oldValue: "Spamming", newValue: "Spamming in #general" }]);
+    });
+
+    it("should serialize dates and ignore undefined fields", () => {
+        expect(
+            getInfractionChanges(infraction, {
+                expiresAt: new Date("2024-01-02T00:00:00.000Z")
+            })
+        ).toEqual([
+            {
+                field: "expiresAt",
+                oldValue: "2024-01-01T00:00:00.000Z",
+                newValue: "2024-01-02T00:00:00.000Z"
+            }
+        ]);
+    });
+
+    it("should record deletion and restoration", () => {
+        const deletedAt = new Date("2024-01-03T00:00:00.000Z");
+
+        expect(getInfractionChanges(infraction, { deletedAt })).toEqual([
+            { field: "deletedAt", oldValue: null, newValue: deletedAt.toISOString() }
+        ]);
+        expect(getInfractionChanges({ ...infraction, deletedAt }, { deletedAt: null })).toEqual([
+            { field: "deletedAt", oldValue: deletedAt.toISOString(), newValue: null }
+        ]);
+    });
+});
+
+describe("formatInfractionRevision", () => {
+    it("should describe reason changes", () => {
+        expect(
+            formatInfractionRevision({ field: "reason", oldValue: null, newValue: "Spamming" })
+        ).toBe("Reason changed from *No reason provided* to `Spamming`");
+    });
+
+    it("should describe expiry changes using timestamps", () => {
+        expect(
+            formatInfractionRevision({
+                field: "expiresAt",
+                oldValue: "2024-01-01T00:00:00.000Z",
+                newValue: "2024-01-02T00:00:00.000Z"
+            })
+        ).toBe("Expiry changed from <t:1704067200:F> to <t:1704153600:F>");
+    });
+
+    it("should describe deletion and restoration", () => {
+        expect(
+            formatInfractionRevision({
+                field: "deletedAt",
+                oldValue: null,
+                newValue: "2024-01-01T00:00:00.000Z"
+            })
+        ).toBe("Infraction deleted");
+        expect(
+            formatInfractionRevision({
+                field: "deletedAt",
+                oldValue: "2024-01-01T00:00:00.000Z",
+                newValue: null
+            })
+        ).toBe("Infraction restored");
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import {
+    levelFromXP,
+    levelProgress,
+    randomXP,
+    totalXPForLevel,
+    xpToNextLevel
+} from "../../src/utils/levels";
+
+describe("xpToNextLevel", () => {
+    it("should return the XP required for the next level", () => {
+        expect(xpToNextLevel(0)).toBe(100);
+        expect(xpToNextLevel(1)).toBe(155);
+        expect(xpToNextLevel(10)).toBe(1100);
+    });
+});
+
+describe("levelFromXP", () => {
+    it("should calculate levels from total XP", () => {
+        expect(levelFromXP(0)).toBe(0);
+        expect(levelFromXP(99)).toBe(0);
+        expect(levelFromXP(100)).toBe(1);
+        expect(levelFromXP(255)).toBe(2);
+        expect(levelFromXP(totalXPForLevel(25))).toBe(25);
+        expect(levelFromXP(totalXPForLevel(25) - 1)).toBe(24);
+    });
+});
+
+describe("levelProgress", () => {
+    it("should return the progress towards the next level", () => {
+        expect(levelProgress(150)).toEqual({
+            level: 1,
+            current: 50,
+            required: 155
+        });
+    });
+});
+
+describe("randomXP", () => {
+    it("should return a value within the given range", () => {
+        for (let i = 0; i < 50; i++) {
+            const xp = randomXP(15, 25);
+            expect(xp).toBeGreaterThanOrEqual(15);
+            expect(xp).toBeLessThanOrEqual(25);
+        }
+    });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseMessageLink } from "../../src/utils/links";
+
+describe("parseMessageLink", () => {
+    it("should extract the IDs from a message link", () => {
+        expect(
+            parseMessageLink(
+                "https://discord.com/channels/911987536379912193/911987536379912196/1190000000000000000"
+            )
+        ).toEqual({
+            guildId: "911987536379912193",
+            channelId: "911987536379912196",
+            messageId: "1190000000000000000"
+        });
+    });
+
+    it("should accept canary links wrapped in angle brackets", () => {
+        expect(parseMessageLink("<https://canary.discord.com/channels/1/2/3>")).toEqual({
+            guildId: "1",
+            channelId: "2",
+            messageId: "3"
+        });
+    });
+
+    it("should return null for anything else", () => {
+        expect(parseMessageLink("https://example.com/channels/1/2/3")).toBeNull();
+        expect(parseMessageLink("hello world")).toBeNull();
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { LogIgnoreList } from "../../src/types/LogEventSchema";
+import { isLogIgnored, resolveLogChannel } from "../../src/utils/logging";
+
+describe("resolveLogChannel", () => {
+    const config = {
+        primary_channel: "1",
+        message_logging_channel: "2",
+        infraction_logging_channel: "3",
+        routing: {
+            role_update: "10",
+            message_edit: "11",
+            voice_join_leave: null
+        }
+    };
+
+    it("uses the routed channel", () => {
+        expect(resolveLogChannel(config, "role_update")).toBe("10");
+        expect(resolveLogChannel(config, "message_edit")).toBe("11");
+    });
+
+    it("disables events that are routed to null", () => {
+        expect(resolveLogChannel(config, "voice_join_leave")).toBeNull();
+    });
+
+    it("falls back to the default channel of the event, then the primary channel", () => {
+        expect(resolveLogChannel(config, "message_delete")).toBe("2");
+        expect(resolveLogChannel(config, "member_ban")).toBe("3");
+        expect(resolveLogChannel(config, "member_join")).toBe("1");
+        expect(resolveLogChannel(config, "channel_create")).toBe("1");
+    });
+
+    it("returns null when no channel is configured", () => {
+        expect(resolveLogChannel({ routing: {} }, "member_warn")).toBeNull();
+    });
+});
+
+describe("isLogIgnored", () => {
+    const ignore: LogIgnoreList = {
+        channels: ["100"],
+        categories: ["200"],
+        users: ["300"],
+        roles: ["400"],
+        bots: true
+    };
+
+    it("ignores listed channels, categories, users and roles", () => {
+        expect(isLogIgnored(ignore, { channelId: "100" })).toBe(true);
+        expect(isLogIgnored(ignore, { channelId: "101", categoryId: "200" })).toBe(true);
+        expect(isLogIgnored(ignore, { userId: "300" })).toBe(true);
+        expect(isLogIgnored(ignore, { userId: "301", roles: ["401", "400"] })).toBe(true);
+    });
+
+    it("ignores bots only when enabled", () => {
+        expect(isLogIgnored(ignore, { userId: "301", bot: true })).toBe(true);
+        expect(isLogIgnored({ ...ignore, bots: false }, { userId: "301", bot: true })).toBe(false);
+    });
+
+    it("does not ignore anything else", () => {
+        expect(
+            isLogIgnored(ignore, {
+                channelId: "101",
+                categoryId: "201",
+                userId: "301",
+                roles: ["401"],
+                bot: false
+            })
+        ).toBe(false);
+        expect(isLogIgnored(ignore, {})).toBe(false);
+    });
+});
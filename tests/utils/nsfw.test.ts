@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { exceedsNSFWThresholds, formatNSFWScores } from "../../src/utils/nsfw";
+
+const thresholds = { hentai: 0.35, porn: 0.35, sexy: 0.8 };
+
+describe("exceedsNSFWThresholds", () => {
+    it("should flag scores that reach any of the thresholds", () => {
+        expect(exceedsNSFWThresholds({ hentai: 0.1, porn: 0.35, sexy: 0 }, thresholds)).toBe(true);
+        expect(exceedsNSFWThresholds({ hentai: 0, porn: 0, sexy: 0.9 }, thresholds)).toBe(true);
+    });
+
+    it("should not flag neutral images", () => {
+        expect(
+            exceedsNSFWThresholds({ hentai: 0.1, porn: 0.1, sexy: 0.5, neutral: 0.9 }, thresholds)
+        ).toBe(false);
+    });
+});
+
+describe("formatNSFWScores", () => {
+    it("should format the scores as percentages", () => {
+        expect(formatNSFWScores({ hentai: 0.123, porn: 0.5, sexy: 0.019, neutral: 0.9 })).toBe(
+            "Hentai: 12%\nPorn: 50%\nSexy: 2%\nNeutral: 90%"
+        );
+    });
+
+    it("should treat missing scores as zero", () => {
+        expect(formatNSFWScores({ porn: 1 })).toBe("Hentai: 0%\nPorn: 100%\nSexy: 0%\nNeutral: 0%");
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+    RaidJoin,
+    findRaidWave,
+    formatRaidWaveMembers,
+    getUsernameSimilarity,
+    normalizeUsername,
+    scoreRaidJoins
+} from "../../src/utils/raid";
+
+const day = 1000 * 60 * 60 * 24;
+const now = 100 * day;
+
+const join = (userId: string, overrides: Partial<RaidJoin> = {}): RaidJoin => ({
+    userId,
+    username: `user${userId}`,
+    joinedAt: now,
+    accountCreatedAt: now - day,
+    hasAvatar: false,
+    inviteCode: "abc",
+    ...overrides
+});
+
+const options = {
+    minWaveSize: 3,
+    minScore: 50,
+    newAccountAge: 7 * day,
+    usernameSimilarity: 0.8,
+    weights: {
+        new_account: 35,
+        no_avatar: 15,
+        similar_username: 30,
+        same_invite: 20
+    }
+};
+
+describe("getUsernameSimilarity", () => {
+    it("should ignore case, digits and separators", () => {
+        expect(normalizeUsername("Spam_Bot-123")).toBe("spambot");
+        expect(getUsernameSimilarity("spambot_1", "SpamBot42")).toBe(1);
+    });
+
+    it("should return lower values for different usernames", () => {
+        expect(getUsernameSimilarity("spambot", "spambat")).toBeCloseTo(6 / 7);
+        expect(getUsernameSimilarity("alice", "robert")).toBeLessThan(0.5);
+        expect(getUsernameSimilarity("123", "456")).toBe(0);
+    });
+});
+
+describe("scoreRaidJoins", () => {
+    it("should score the signals shared with the rest of the wave", () => {
+        const [first, second, third] = scoreRaidJoins(
+            [
+                join("1"),
+                join("2", { hasAvatar: true, inviteCode: "xyz" }),
+                join("3", {
+                    username: "alice",
+                    accountCreatedAt: now - 365 * day,
+                    hasAvatar: true,
+                    inviteCode: null
+                })
+            ],
+            options
+        );
+
+        expect(first.signals).toEqual(["new_account", "no_avatar", "similar_username"]);
+        expect(first.score).toBe(80);
+        expect(second.signals).toEqual(["new_account", "similar_username"]);
+        expect(third.signals).toEqual([]);
+        expect(third.score).toBe(0);
+    });
+});
+
+describe("findRaidWave", () => {
+    it("should flag a cluster of suspicious joins", () => {
+        const wave = findRaidWave(
+            [
+                join("1"),
+                join("2"),
+                join("3"),
+                join("4", {
+                    username: "alice",
+                    hasAvatar: true,
+                    accountCreatedAt: 0,
+                    inviteCode: null
+                })
+            ],
+            options
+        );
+
+        expect(wave?.members.map(member => member.userId)).toEqual(["1", "2", "3"]);
+        expect(wave?.score).toBe(100);
+    });
+
+    it("should not flag waves smaller than the minimum size", () => {
+        expect(findRaidWave([join("1"), join("2")], options)).toBeNull();
+    });
+});
+
+describe("formatRaidWaveMembers", () => {
+    it("should truncate long lists", () => {
+        const members = scoreRaidJoins([join("1"), join("2"), join("3")], options);
+        const description = formatRaidWaveMembers(members, 100);
+
+        expect(description.startsWith("* <@1> (`user1`) — **100**: new_account")).toBe(true);
+        expect(description.endsWith("...and 2 more")).toBe(true);
+    });
+});
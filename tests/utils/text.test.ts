@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+    countEmojis,
+    countLines,
+    findInvisibleCharacters,
+    getCapsRatio,
+    getLongestCombiningMarkRun,
+    getLongestNewlineRun
+} from "../../src/utils/text";
+
+describe("getCapsRatio", () => {
+    it("should only consider letters", () => {
+        expect(getCapsRatio("HELLO world 123!!")).toEqual({ letters: 10, ratio: 50 });
+    });
+
+    it("should return 0 when there are no letters", () => {
+        expect(getCapsRatio("1234 !!")).toEqual({ letters: 0, ratio: 0 });
+    });
+});
+
+describe("countEmojis", () => {
+    it("should count custom and Unicode emojis", () => {
+        expect(countEmojis("hi <:blob:123456789012345678> <a:dance:123456789012345678> 😀🎉")).toBe(
+            4
+        );
+    });
+
+    it("should count emoji sequences once", () => {
+        expect(countEmojis("👍🏽 👨\u200D👩\u200D👧 🇺🇸 ❤\uFE0F")).toBe(4);
+    });
+
+    it("should not count regular text", () => {
+        expect(countEmojis("Hello :) 123 #")).toBe(0);
+    });
+});
+
+describe("getLongestCombiningMarkRun", () => {
+    it("should detect stacked combining marks", () => {
+        expect(getLongestCombiningMarkRun("h\u0301\u0302\u0303\u0304i")).toBe(4);
+    });
+
+    it("should allow regular accented text", () => {
+        expect(getLongestCombiningMarkRun("cafe\u0301 Vie\u0323\u0302t")).toBe(2);
+    });
+});
+
+describe("countLines", () => {
+    it("should count the lines", () => {
+        expect(countLines("")).toBe(0);
+        expect(countLines("a")).toBe(1);
+        expect(countLines("a\nb\r\nc\n")).toBe(4);
+    });
+});
+
+describe("getLongestNewlineRun", () => {
+    it("should return the longest run of line breaks", () => {
+        expect(getLongestNewlineRun("a")).toBe(0);
+        expect(getLongestNewlineRun("a\nb\n\nc")).toBe(2);
+        expect(getLongestNewlineRun("a\r\n \n\t\n\nb\nc")).toBe(4);
+    });
+});
+
+describe("findInvisibleCharacters", () => {
+    it("should find zero-width and bidirectional override characters", () => {
+        expect(findInvisibleCharacters("pay\u200Bpal \u202Etxt.exe")).toEqual(["\u200B", "\u202E"]);
+    });
+
+    it("should ignore regular text", () => {
+        expect(findInvisibleCharacters("Hello, world!")).toEqual([]);
+    });
+
+    it("should ignore zero-width joiners in emoji sequences", () => {
+        expect(findInvisibleCharacters("👨\u200D👩\u200D👧 🏳️\u200D🌈")).toEqual([]);
+    });
+
+    it("should ignore zero-width non-joiners in Persian and Indic text", () => {
+        expect(findInvisibleCharacters("می\u200Cخواهم")).toEqual([]);
+        expect(findInvisibleCharacters("क्\u200Cष")).toEqual([]);
+    });
+});
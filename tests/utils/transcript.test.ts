@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { TranscriptMessage, escapeHTML, generateTranscript } from "../../src/utils/transcript";
+import { randomSnowflake } from "../mocks/snowflakes";
+
+function createTranscriptMessage(content: string): TranscriptMessage {
+    return {
+        id: randomSnowflake(),
+        authorId: randomSnowflake(),
+        authorName: "user",
+        content,
+        createdAt: new Date("2024-01-01T00:00:00.000Z"),
+        attachments: [],
+        embeds: []
+    };
+}
+
+describe("escapeHTML", () => {
+    it("should escape HTML special characters", () => {
+        expect(escapeHTML(`<a href="x">'&'</a>`)).toBe(
+            "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;"
+        );
+    });
+});
+
+describe("generateTranscript", () => {
+    it("should generate a text transcript", () => {
+        const message = createTranscriptMessage("Hello world");
+        message.attachments.push({ name: "file.png", url: "https://example.com/file.png" });
+
+        const output = generateTranscript([message], {
+            title: "Ticket #1",
+            format: "text"
+        }).toString();
+
+        expect(output).toContain("Ticket #1");
+        expect(output).toContain(
+            `[2024-01-01T00:00:00.000Z] user (${message.authorId}): Hello world`
+        );
+        expect(output).toContain("Attachment: file.png <https://example.com/file.png>");
+        expect(output).toContain("1 message(s) in total.");
+    });
+
+    it("should include the author and description of embeds", () => {
+        const message = createTranscriptMessage("");
+        message.embeds.push({ author: "staff", description: "How can we help?" });
+
+        const text = generateTranscript([message], {
+            title: "Modmail",
+            format: "text"
+        }).toString();
+        const html = generateTranscript([message], {
+            title: "Modmail",
+            format: "html"
+        }).toString();
+
+        expect(text).toContain("Embed: staff: How can we help?");
+        expect(html).toContain(`<div class="embed">staff: How can we help?</div>`);
+    });
+
+    it("should generate an HTML transcript with escaped content", () => {
+        const output = generateTranscript([createTranscriptMessage("<script>alert(1)</script>")], {
+            title: "Ticket #2",
+            format: "html"
+        }).toString();
+
+        expect(output).toContain("<title>Ticket #2</title>");
+        expect(output).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+        expect(output).not.toContain("<script>");
+    });
+});
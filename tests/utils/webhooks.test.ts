@@ -0,0 +1,189 @@
+import { IncomingHttpHeaders, Server, createServer } from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+    getWebhookRetryDelay,
+    isPrivateAddress,
+    sendWebhookRequest,
+    signWebhookPayload,
+    verifyWebhookSignature,
+    webhookEventMatches
+} from "../../src/utils/webhooks";
+
+describe("webhookEventMatches", () => {
+    it("matches exact events, category wildcards and the global wildcard", () => {
+        expect(webhookEventMatches(["infraction.created"], "infraction.created")).toBe(true);
+        expect(webhookEventMatches(["infraction.*"], "infraction.updated")).toBe(true);
+        expect(webhookEventMatches(["*"], "raid.detected")).toBe(true);
+    });
+
+    it("does not match other events", () => {
+        expect(webhookEventMatches(["infraction.created"], "infraction.updated")).toBe(false);
+        expect(webhookEventMatches(["member.*"], "infraction.created")).toBe(false);
+        expect(webhookEventMatches(["infraction.*"], "infractions.created")).toBe(false);
+        expect(webhookEventMatches([], "member.joined")).toBe(false);
+    });
+});
+
+describe("signWebhookPayload", () => {
+    it("signs the timestamp and the body", () => {
+        const signature = signWebhookPayload("secret", 1000, '{"a":1}');
+
+        expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+        expect(signWebhookPayload("secret", 1001, '{"a":1}')).not.toBe(signature);
+        expect(signWebhookPayload("other", 1000, '{"a":1}')).not.toBe(signature);
+        expect(verifyWebhookSignature("secret", 1000, '{"a":1}', signature)).toBe(true);
+        expect(verifyWebhookSignature("secret", 1000, '{"a":2}', signature)).toBe(false);
+        expect(verifyWebhookSignature("secret", 1000, '{"a":1}', "sha256=00")).toBe(false);
+    });
+});
+
+describe("getWebhookRetryDelay", () => {
+    it("doubles the delay after each attempt, up to the maximum", () => {
+        expect(getWebhookRetryDelay(1, 1000)).toBe(1000);
+        expect(getWebhookRetryDelay(2, 1000)).toBe(2000);
+        expect(getWebhookRetryDelay(4, 1000)).toBe(8000);
+        expect(getWebhookRetryDelay(30, 1000, 60_000)).toBe(60_000);
+    });
+});
+
+describe("sendWebhookRequest", () => {
+    const received: Array<{ headers: IncomingHttpHeaders; body: string }> = [];
+    let server: Server;
+    let url: string;
+    let status = 204;
+
+    beforeAll(async () => {
+        server = createServer((request, response) => {
+            let body = "";
+
+            request.on("data", chunk => (body += chunk));
+            request.on("end", () => {
+                received.push({ headers: request.headers, body });
+                response.statusCode = status;
+                response.end();
+            });
+        });
+
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it("delivers a signed JSON body", async () => {
+        const body = JSON.stringify({ id: 1, event: "webhook.test", data: {} });
+        const result = await sendWebhookRequest({
+            url,
+            secret: "secret",
+            event: "webhook.test",
+            deliveryId: 1,
+            body,
+            allowedPrivateHosts: ["127.0.0.1"]
+        });
+
+        expect(result).toEqual({ ok: true, status: 204, error: null });
+
+        const { headers, body: receivedBody } = received.at(-1)!;
+
+        expect(receivedBody).toBe(body);
+        expect(headers["content-type"]).toBe("application/json");
+        expect(headers["x-sudobot-event"]).toBe("webhook.test");
+        expect(headers["x-sudobot-delivery"]).toBe("1");
+        expect(
+            verifyWebhookSignature(
+                "secret",
+                parseInt(headers["x-sudobot-timestamp"] as string),
+                receivedBody,
+                headers["x-sudobot-signature"] as string
+            )
+        ).toBe(true);
+    });
+
+    it("reports non-2xx responses as failures", async () => {
+        status = 500;
+
+        const result = await sendWebhookRequest({
+            url,
+            secret: "secret",
+            event: "webhook.test",
+            deliveryId: 2,
+            body: "{}",
+            allowedPrivateHosts: ["127.0.0.1"]
+        });
+
+        expect(result).toEqual({ ok: false, status: 500, error: "Received HTTP 500" });
+    });
+
+    it("reports connection errors as failures", async () => {
+        const result = await sendWebhookRequest({
+            url: "http://127.0.0.1:1/hook",
+            secret: "secret",
+            event: "webhook.test",
+            deliveryId: 3,
+            body: "{}",
+            allowedPrivateHosts: ["127.0.0.1"]
+        });
+
+        expect(result.ok).toBe(false);
+        expect(result.status).toBeNull();
+        expect(result.error).toEqual(expect.any(String));
+    });
+
+    it("refuses to deliver to private addresses that are not allowed", async () => {
+        const count = received.length;
+        const result = await sendWebhookRequest({
+            url,
+            secret: "secret",
+            event: "webhook.test",
+            deliveryId: 4,
+            body: "{}"
+        });
+
+        expect(result).toEqual({
+            ok: false,
+            status: null,
+            error: "127.0.0.1 is a private address"
+        });
+        expect(received.length).toBe(count);
+    });
+
+    it("refuses to deliver to host names that resolve to private addresses", async () => {
+        const count = received.length;
+        const result = await sendWebhookRequest({
+            url: url.replace("127.0.0.1", "localhost"),
+            secret: "secret",
+            event: "webhook.test",
+            deliveryId: 5,
+            body: "{}"
+        });
+
+        expect(result.ok).toBe(false);
+        expect(result.error).toContain("resolves to a private address");
+        expect(received.length).toBe(count);
+    });
+});
+
+describe("isPrivateAddress", () => {
+    it("matches loopback, link-local and private addresses", () => {
+        expect(isPrivateAddress("127.0.0.1")).toBe(true);
+        expect(isPrivateAddress("10.1.2.3")).toBe(true);
+        expect(isPrivateAddress("172.20.0.1")).toBe(true);
+        expect(isPrivateAddress("192.168.1.1")).toBe(true);
+        expect(isPrivateAddress("169.254.169.254")).toBe(true);
+        expect(isPrivateAddress("0.0.0.0")).toBe(true);
+        expect(isPrivateAddress("::1")).toBe(true);
+        expect(isPrivateAddress("fd00::1")).toBe(true);
+        expect(isPrivateAddress("fe80::1")).toBe(true);
+        expect(isPrivateAddress("::ffff:127.0.0.1")).toBe(true);
+    });
+
+    it("does not match public addresses or host names", () => {
+        expect(isPrivateAddress("1.1.1.1")).toBe(false);
+        expect(isPrivateAddress("172.32.0.1")).toBe(false);
+        expect(isPrivateAddress("2606:4700:4700::1111")).toBe(false);
+        expect(isPrivateAddress("example.com")).toBe(false);
+    });
+});